@@ -8,6 +8,10 @@ import {
   mediasoupConfig,
   roomConfig,
   throttleConfig,
+  recordingConfig,
+  clusterConfig,
+  schedulerConfig,
+  captionsConfig,
 } from './config';
 import { DatabaseModule } from './database/database.module';
 import { RedisModule } from './redis/redis.module';
@@ -25,14 +29,21 @@ import { SessionsModule } from './sessions/sessions.module';
 import { HealthController } from './health.controller';
 import { ChatModule } from './chat/chat.module';
 import { QnaModule } from './qna/qna.module';
+import { PollsModule } from './polls/polls.module';
+import { QuizzesModule } from './quizzes/quizzes.module';
 import { SubjectsModule } from './subjects/subjects.module';
+import { RecordingModule } from './recording/recording.module';
+import { StreamingModule } from './streaming/streaming.module';
+import { CaptionsModule } from './captions/captions.module';
+import { EngagementModule } from './engagement/engagement.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
 
 @Module({
   imports: [
     // Global configuration
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig, jwtConfig, postgresConfig, redisConfig, mediasoupConfig, roomConfig, throttleConfig],
+      load: [appConfig, jwtConfig, postgresConfig, redisConfig, mediasoupConfig, roomConfig, throttleConfig, recordingConfig, clusterConfig, schedulerConfig, captionsConfig],
       envFilePath: '.env',
     }),
 
@@ -54,7 +65,14 @@ import { SubjectsModule } from './subjects/subjects.module';
     SessionsModule,
     ChatModule,
     QnaModule,
+    PollsModule,
+    QuizzesModule,
     SubjectsModule,
+    RecordingModule,
+    StreamingModule,
+    CaptionsModule,
+    EngagementModule,
+    SchedulerModule,
   ],
   controllers: [HealthController],
 })
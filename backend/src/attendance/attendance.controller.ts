@@ -11,6 +11,7 @@ import {
   Req,
 } from '@nestjs/common';
 import { AttendanceService } from './attendance.service';
+import { EngagementService } from '../engagement/engagement.service';
 import { JwtAuthGuard, RolesGuard, Roles } from '../auth/guards';
 import { UserRole } from '../shared/enums';
 
@@ -18,7 +19,10 @@ import { UserRole } from '../shared/enums';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Roles(UserRole.ADMIN, UserRole.TEACHER)
 export class AttendanceController {
-  constructor(private readonly attendanceService: AttendanceService) { }
+  constructor(
+    private readonly attendanceService: AttendanceService,
+    private readonly engagementService: EngagementService,
+  ) { }
 
   /**
    * GET /attendance
@@ -114,6 +118,60 @@ export class AttendanceController {
     return this.attendanceService.getActiveSessions(hostUserId);
   }
 
+  /**
+   * GET /attendance/engagement
+   * Get per-meeting engagement records for students
+   */
+  @Get('engagement')
+  async getEngagementRecords(
+    @Req() req: any,
+    @Query('meetingId') meetingId?: string,
+    @Query('userId') userId?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+    @Query('offset', new ParseIntPipe({ optional: true })) offset?: number,
+  ) {
+    const filters: any = {};
+
+    if (req.user.role === UserRole.TEACHER) {
+      filters.hostUserId = req.user.id;
+    }
+
+    if (meetingId) filters.meetingId = meetingId;
+    if (userId) filters.userId = userId;
+    if (startDate) filters.startDate = new Date(startDate);
+    if (endDate) filters.endDate = new Date(endDate);
+    if (limit) filters.limit = limit;
+    if (offset) filters.offset = offset;
+
+    return this.engagementService.getEngagementRecords(filters);
+  }
+
+  /**
+   * GET /attendance/engagement/summary
+   * Get average engagement by student, least engaged first
+   */
+  @Get('engagement/summary')
+  async getEngagementSummary(
+    @Req() req: any,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ) {
+    const filters: any = {};
+
+    if (req.user.role === UserRole.TEACHER) {
+      filters.hostUserId = req.user.id;
+    }
+
+    if (startDate) filters.startDate = new Date(startDate);
+    if (endDate) filters.endDate = new Date(endDate);
+    if (limit) filters.limit = limit;
+
+    return this.engagementService.getEngagementSummary(filters);
+  }
+
   /**
    * GET /attendance/room/:roomId
    * Get attendance for a specific room
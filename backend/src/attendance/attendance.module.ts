@@ -3,9 +3,10 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { RoomParticipantEntity } from '../database/entities';
 import { AttendanceService } from './attendance.service';
 import { AttendanceController } from './attendance.controller';
+import { EngagementModule } from '../engagement/engagement.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([RoomParticipantEntity])],
+  imports: [TypeOrmModule.forFeature([RoomParticipantEntity]), EngagementModule],
   controllers: [AttendanceController],
   providers: [AttendanceService],
   exports: [AttendanceService],
@@ -0,0 +1,26 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Param,
+  ParseUUIDPipe,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { CaptionsService } from './captions.service';
+import { JwtAuthGuard, RolesGuard, Roles } from '../auth/guards';
+import { UserRole } from '../shared/enums';
+
+@Controller('admin/meetings/:meetingId/transcript')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.TEACHER)
+export class CaptionsController {
+  constructor(private readonly captionsService: CaptionsService) { }
+
+  @Get()
+  @Header('Content-Type', 'text/plain; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="transcript.txt"')
+  async exportTranscript(@Req() req: any, @Param('meetingId', ParseUUIDPipe) meetingId: string) {
+    return this.captionsService.exportTranscript(meetingId, req.user);
+  }
+}
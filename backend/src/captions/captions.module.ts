@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { CaptionsService } from './captions.service';
+import { CaptionsController } from './captions.controller';
+import { TranscriptionProvider } from './transcription.provider';
+import { WhisperCppProvider } from './whisper-cpp.provider';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [CaptionsController],
+  providers: [
+    CaptionsService,
+    { provide: TranscriptionProvider, useClass: WhisperCppProvider },
+  ],
+  exports: [CaptionsService],
+})
+export class CaptionsModule { }
@@ -0,0 +1,411 @@
+import { ForbiddenException, Injectable, Logger, NotFoundException, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { spawn, ChildProcess } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { MediaService, PlainRtpTap, buildPlainRtpSdp } from '../media/media.service';
+import { RtpPortPool } from '../media/rtp-port-pool';
+import { UserRole } from '../shared/enums';
+import { WsMediaException, WsRoomException } from '../shared/exceptions';
+import type { CaptionSegment, CaptionsStatus } from '../gateway/contract';
+import { TRANSCRIPTION_SAMPLE_RATE, TranscriptionProvider, TranscriptionStream } from './transcription.provider';
+
+// Producer set changes are coalesced before speakers are re-tapped
+const REFRESH_DEBOUNCE_MS = 1500;
+
+// Time given to ffmpeg to bind its RTP sockets before the consumer is resumed
+const FFMPEG_WARMUP_MS = 1000;
+
+const FFMPEG_STOP_TIMEOUT_MS = 5000;
+
+/** One speaker's audio on its way to the transcription provider */
+interface SpeakerPipeline {
+  tap: PlainRtpTap;
+  ffmpeg: ChildProcess;
+  stream: TranscriptionStream;
+  sdpPath: string;
+  exited: Promise<void>;
+}
+
+interface ActiveCaptions {
+  roomId: string;
+  meetingId: string;
+  startedAt: Date;
+  // producerId → SpeakerPipeline
+  speakers: Map<string, SpeakerPipeline>;
+  refreshTimer: NodeJS.Timeout | null;
+  // Serialises re-taps so stop() never races a refresh
+  queue: Promise<void>;
+}
+
+/**
+ * Live captions for a room.
+ *
+ * Every audio producer is forwarded over a PlainTransport into its own
+ * ffmpeg, which decodes it to 16 kHz mono PCM for the transcription provider.
+ * Recognised text is stored as the meeting's transcript and handed to
+ * segment listeners for broadcasting. Speakers are tapped separately so each
+ * line is attributed to whoever said it.
+ */
+@Injectable()
+export class CaptionsService implements OnModuleDestroy {
+  private readonly logger = new Logger(CaptionsService.name);
+
+  // roomId → ActiveCaptions
+  private readonly active = new Map<string, ActiveCaptions>();
+
+  private readonly segmentListeners = new Set<(segment: CaptionSegment) => void>();
+
+  private readonly ports: RtpPortPool;
+
+  private readonly enabled: boolean;
+  private readonly ffmpegPath: string;
+
+  constructor(
+    private readonly media: MediaService,
+    private readonly provider: TranscriptionProvider,
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+  ) {
+    this.enabled = this.config.get<boolean>('captions.enabled', false);
+    this.ffmpegPath = this.config.get<string>('recording.ffmpegPath', 'ffmpeg');
+    this.ports = new RtpPortPool(
+      this.config.get<number>('captions.rtpMinPort', 51000),
+      this.config.get<number>('captions.rtpMaxPort', 51999),
+      'live captions',
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    for (const roomId of Array.from(this.active.keys())) {
+      await this.stopForRoom(roomId);
+    }
+  }
+
+  // ─── Lifecycle ──────────────────────────────────────────────────
+
+  /**
+   * Starts transcribing everyone who speaks in the room.
+   */
+  async start(roomId: string, meetingId: string): Promise<CaptionsStatus> {
+    if (!this.enabled) {
+      throw new WsRoomException('Live captions are not enabled on this server');
+    }
+    if (this.active.has(roomId)) {
+      throw new WsRoomException('Live captions are already on');
+    }
+    if (!(await this.provider.isReady())) {
+      throw new WsMediaException('The speech-to-text service is not available');
+    }
+
+    const state: ActiveCaptions = {
+      roomId,
+      meetingId,
+      startedAt: new Date(),
+      speakers: new Map(),
+      refreshTimer: null,
+      queue: Promise.resolve(),
+    };
+    this.active.set(roomId, state);
+
+    await this.enqueue(state, () => this.syncSpeakers(state));
+
+    this.logger.log(`Live captions started for room ${roomId}`);
+    return this.toStatus(roomId);
+  }
+
+  /**
+   * Stops the room's captions. Utterances already buffered are still
+   * transcribed and saved.
+   */
+  async stop(roomId: string): Promise<CaptionsStatus> {
+    const state = this.active.get(roomId);
+    if (!state) {
+      throw new WsRoomException('Live captions are not on');
+    }
+
+    await this.finish(state);
+    return this.toStatus(roomId);
+  }
+
+  /**
+   * Stops any captions still running when a room is torn down.
+   */
+  async stopForRoom(roomId: string): Promise<void> {
+    const state = this.active.get(roomId);
+    if (!state) return;
+
+    try {
+      await this.finish(state);
+    } catch (error) {
+      this.logger.error(`Failed to stop captions for room ${roomId}: ${(error as Error).message}`);
+    }
+  }
+
+  getStatus(roomId: string): CaptionsStatus | null {
+    return this.active.has(roomId) ? this.toStatus(roomId) : null;
+  }
+
+  /**
+   * Signals that the room's producers changed: new microphones are tapped
+   * and closed ones released.
+   */
+  refresh(roomId: string): void {
+    const state = this.active.get(roomId);
+    if (!state) return;
+
+    if (state.refreshTimer) clearTimeout(state.refreshTimer);
+    state.refreshTimer = setTimeout(() => {
+      state.refreshTimer = null;
+      this.enqueue(state, async () => {
+        if (this.active.get(roomId) !== state) return;
+        await this.syncSpeakers(state);
+      });
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
+  /**
+   * Registers a listener for each saved caption line.
+   */
+  onSegment(listener: (segment: CaptionSegment) => void): () => void {
+    this.segmentListeners.add(listener);
+    return () => this.segmentListeners.delete(listener);
+  }
+
+  // ─── Transcript ─────────────────────────────────────────────────
+
+  /**
+   * The meeting's transcript as plain text, one line per utterance. Breakout
+   * rooms ran side by side, so each gets its own section after the main room.
+   */
+  async exportTranscript(meetingId: string, user: { id: string; role: UserRole }): Promise<string> {
+    const meeting = await this.prisma.meetings.findUnique({
+      where: { id: meetingId },
+      select: { hostId: true, title: true, startedAt: true },
+    });
+    if (!meeting) {
+      throw new NotFoundException('Meeting not found');
+    }
+    if (meeting.hostId !== user.id && user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only the host can download the transcript');
+    }
+
+    const segments = await this.prisma.transcriptSegment.findMany({
+      where: { meetingId },
+      orderBy: { startedAt: 'asc' },
+    });
+
+    const byRoom = new Map<string, typeof segments>([[meetingId, []]]);
+    for (const segment of segments) {
+      const room = byRoom.get(segment.roomId) ?? [];
+      room.push(segment);
+      byRoom.set(segment.roomId, room);
+    }
+
+    const origin = meeting.startedAt ?? segments[0]?.startedAt ?? new Date();
+    const lines = [meeting.title];
+    let breakoutNumber = 0;
+    for (const [roomId, roomSegments] of byRoom) {
+      if (roomSegments.length === 0) continue;
+
+      lines.push('', roomId === meetingId ? '── Main room ──' : `── Breakout room ${++breakoutNumber} ──`);
+      for (const segment of roomSegments) {
+        lines.push(`[${formatOffset(segment.startedAt.getTime() - origin.getTime())}] ${segment.displayName}: ${segment.text}`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  // ─── Private: Speakers ──────────────────────────────────────────
+
+  private async finish(state: ActiveCaptions): Promise<void> {
+    this.active.delete(state.roomId);
+    if (state.refreshTimer) {
+      clearTimeout(state.refreshTimer);
+      state.refreshTimer = null;
+    }
+
+    await this.enqueue(state, async () => {
+      for (const producerId of Array.from(state.speakers.keys())) {
+        await this.untap(state, producerId);
+      }
+    });
+
+    this.logger.log(`Live captions stopped for room ${state.roomId}`);
+  }
+
+  private enqueue(state: ActiveCaptions, task: () => Promise<void>): Promise<void> {
+    const next = state.queue.then(task).catch((error: Error) => {
+      this.logger.error(`Captions for room ${state.roomId} error: ${error.message}`);
+    });
+    state.queue = next;
+    return next;
+  }
+
+  private async syncSpeakers(state: ActiveCaptions): Promise<void> {
+    const microphones = this.media
+      .getProducersForRoom(state.roomId)
+      .filter((producer) => producer.kind === 'audio');
+    const live = new Set(microphones.map((producer) => producer.producerId));
+
+    for (const producerId of Array.from(state.speakers.keys())) {
+      if (!live.has(producerId)) {
+        await this.untap(state, producerId);
+      }
+    }
+
+    for (const producer of microphones) {
+      if (state.speakers.has(producer.producerId)) continue;
+      try {
+        await this.tap(state, producer.producerId);
+      } catch (error) {
+        this.logger.warn(`Could not caption producer ${producer.producerId}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private async tap(state: ActiveCaptions, producerId: string): Promise<void> {
+    const [port, rtcpPort] = this.ports.allocatePair();
+    let tap: PlainRtpTap;
+    try {
+      tap = await this.media.createPlainRtpTap({ roomId: state.roomId, producerId, ip: '127.0.0.1', port, rtcpPort });
+    } catch (error) {
+      this.ports.release(port, rtcpPort);
+      throw error;
+    }
+
+    const sdpPath = path.join(os.tmpdir(), `captions-${state.roomId}-${producerId}.sdp`);
+    let ffmpeg: ChildProcess | null = null;
+    // Ended on failure so the provider can let go of it
+    let opened: TranscriptionStream | null = null;
+
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: tap.userId },
+        select: { displayName: true },
+      });
+      const displayName = user?.displayName ?? 'Unknown';
+
+      await fs.writeFile(sdpPath, buildPlainRtpSdp([tap]));
+
+      const stream = this.provider.open({
+        tag: `room ${state.roomId} producer ${producerId}`,
+        onSegment: (segment) => {
+          this.saveSegment(state, tap.userId, displayName, segment).catch((error: Error) => {
+            this.logger.error(`Failed to save caption for room ${state.roomId}: ${error.message}`);
+          });
+        },
+      });
+      opened = stream;
+
+      ffmpeg = spawn(this.ffmpegPath, [
+        '-loglevel', 'warning',
+        '-protocol_whitelist', 'file,udp,rtp',
+        '-i', sdpPath,
+        '-vn',
+        '-ac', '1',
+        '-ar', String(TRANSCRIPTION_SAMPLE_RATE),
+        '-f', 's16le',
+        'pipe:1',
+      ], { stdio: ['ignore', 'pipe', 'pipe'] });
+
+      const child = ffmpeg;
+      const exited = new Promise<void>((resolve) => {
+        child.once('close', () => resolve());
+        child.once('error', (error) => {
+          this.logger.error(`ffmpeg failed for captions of ${producerId}: ${error.message}`);
+          resolve();
+        });
+      });
+
+      child.stdout?.on('data', (chunk: Buffer) => stream.write(chunk));
+      child.stderr?.on('data', (chunk: Buffer) => {
+        this.logger.debug(`[ffmpeg captions ${producerId}] ${chunk.toString().trim()}`);
+      });
+
+      state.speakers.set(producerId, { tap, ffmpeg: child, stream, sdpPath, exited });
+
+      await new Promise((resolve) => setTimeout(resolve, FFMPEG_WARMUP_MS));
+      await tap.consumer.resume();
+    } catch (error) {
+      state.speakers.delete(producerId);
+      ffmpeg?.kill('SIGKILL');
+      tap.transport.close();
+      this.ports.release(port, rtcpPort);
+      await fs.rm(sdpPath, { force: true });
+      await opened?.end().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async untap(state: ActiveCaptions, producerId: string): Promise<void> {
+    const speaker = state.speakers.get(producerId);
+    if (!speaker) return;
+    state.speakers.delete(producerId);
+
+    speaker.tap.transport.close();
+    speaker.ffmpeg.kill('SIGTERM');
+    const timeout = setTimeout(() => speaker.ffmpeg.kill('SIGKILL'), FFMPEG_STOP_TIMEOUT_MS);
+    await speaker.exited;
+    clearTimeout(timeout);
+
+    this.ports.release(speaker.tap.port, speaker.tap.rtcpPort);
+    await fs.rm(speaker.sdpPath, { force: true });
+
+    // Whatever the speaker said last still gets transcribed
+    await speaker.stream.end();
+  }
+
+  private async saveSegment(
+    state: ActiveCaptions,
+    userId: string,
+    displayName: string,
+    segment: { text: string; startedAt: Date; endedAt: Date },
+  ): Promise<void> {
+    const row = await this.prisma.transcriptSegment.create({
+      data: {
+        meetingId: state.meetingId,
+        roomId: state.roomId,
+        userId,
+        displayName,
+        text: segment.text,
+        startedAt: segment.startedAt,
+        endedAt: segment.endedAt,
+      },
+    });
+
+    const caption: CaptionSegment = {
+      id: row.id,
+      roomId: row.roomId,
+      userId,
+      displayName,
+      text: row.text,
+      startedAt: row.startedAt.getTime(),
+      endedAt: row.endedAt.getTime(),
+    };
+    for (const listener of this.segmentListeners) {
+      listener(caption);
+    }
+  }
+
+  private toStatus(roomId: string): CaptionsStatus {
+    const state = this.active.get(roomId);
+    return {
+      roomId,
+      active: !!state,
+      startedAt: state ? state.startedAt.getTime() : null,
+    };
+  }
+}
+
+/** h:mm:ss from the start of the meeting */
+function formatOffset(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
@@ -0,0 +1,34 @@
+/** Providers are fed signed 16-bit little-endian mono PCM at this rate */
+export const TRANSCRIPTION_SAMPLE_RATE = 16_000;
+
+export interface TranscribedSegment {
+  text: string;
+  startedAt: Date;
+  endedAt: Date;
+}
+
+export interface TranscriptionStream {
+  /** Feeds audio as it arrives from the speaker */
+  write(pcm: Buffer): void;
+  /** Transcribes whatever is still buffered, then releases the stream */
+  end(): Promise<void>;
+}
+
+/**
+ * Speech-to-text backend for live captions.
+ *
+ * One stream is opened per speaker. The provider decides how to cut the
+ * audio into utterances and calls `onSegment` with each piece of text it
+ * recognises. Bind a different implementation in CaptionsModule to swap
+ * engines.
+ */
+export abstract class TranscriptionProvider {
+  /** Whether the engine can take audio right now */
+  abstract isReady(): Promise<boolean>;
+
+  abstract open(params: {
+    /** For log lines, e.g. the room and producer */
+    tag: string;
+    onSegment: (segment: TranscribedSegment) => void;
+  }): TranscriptionStream;
+}
@@ -0,0 +1,261 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { spawn, ChildProcess } from 'child_process';
+import {
+  TRANSCRIPTION_SAMPLE_RATE,
+  TranscribedSegment,
+  TranscriptionProvider,
+  TranscriptionStream,
+} from './transcription.provider';
+
+// Audio is gated in 20 ms frames of 16-bit mono
+const FRAME_MS = 20;
+const FRAME_BYTES = (TRANSCRIPTION_SAMPLE_RATE / 1000) * FRAME_MS * 2;
+
+// RMS level (of 32767) above which a frame counts as speech
+const SPEECH_RMS = 500;
+// An utterance ends after this much silence…
+const END_SILENCE_MS = 700;
+// …or once it gets this long, so captions keep up with a monologue
+const MAX_UTTERANCE_MS = 8000;
+// Shorter bursts are coughs and clicks; whisper tends to invent words for them
+const MIN_SPEECH_MS = 300;
+// A muted or DTX producer stops sending audio rather than sending silence
+const IDLE_FLUSH_MS = 1000;
+
+const HEALTH_TIMEOUT_MS = 2000;
+const REQUEST_TIMEOUT_MS = 30_000;
+const SERVER_STOP_TIMEOUT_MS = 5000;
+
+/**
+ * Transcribes with whisper.cpp's HTTP server (`whisper-server`).
+ *
+ * whisper works on whole clips, so each stream buffers a speaker's audio,
+ * cuts it at pauses with an energy gate and posts every utterance to the
+ * server's /inference endpoint as a WAV file. When a binary and model are
+ * configured the server is run as a child of the backend; otherwise it is
+ * expected at WHISPER_URL.
+ */
+@Injectable()
+export class WhisperCppProvider extends TranscriptionProvider implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WhisperCppProvider.name);
+
+  private readonly url: string;
+  private readonly language: string;
+
+  private server: ChildProcess | null = null;
+
+  constructor(private readonly config: ConfigService) {
+    super();
+    this.url = this.config.get<string>('captions.whisperUrl', 'http://127.0.0.1:8178').replace(/\/+$/, '');
+    this.language = this.config.get<string>('captions.language', 'auto');
+  }
+
+  onModuleInit(): void {
+    const serverPath = this.config.get<string>('captions.whisperServerPath', '');
+    const modelPath = this.config.get<string>('captions.whisperModelPath', '');
+    if (!this.config.get<boolean>('captions.enabled', false) || !serverPath || !modelPath) return;
+
+    const { hostname, port } = new URL(this.url);
+    const server = spawn(serverPath, ['-m', modelPath, '--host', hostname, '--port', port || '80'], {
+      stdio: ['ignore', 'ignore', 'pipe'],
+    });
+
+    server.stderr?.on('data', (chunk: Buffer) => {
+      this.logger.debug(`[whisper-server] ${chunk.toString().trim()}`);
+    });
+    server.once('error', (error) => {
+      this.logger.error(`whisper-server failed to start: ${error.message}`);
+    });
+    server.once('exit', (code) => {
+      if (this.server === server) this.server = null;
+      this.logger.warn(`whisper-server exited with code ${code}`);
+    });
+
+    this.server = server;
+    this.logger.log(`Started whisper-server on ${this.url}`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    const server = this.server;
+    if (!server || server.exitCode !== null) return;
+    this.server = null;
+
+    const exited = new Promise<void>((resolve) => server.once('exit', () => resolve()));
+    server.kill('SIGTERM');
+    const timeout = setTimeout(() => server.kill('SIGKILL'), SERVER_STOP_TIMEOUT_MS);
+    await exited;
+    clearTimeout(timeout);
+  }
+
+  async isReady(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.url}/`, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  open(params: { tag: string; onSegment: (segment: TranscribedSegment) => void }): TranscriptionStream {
+    return new UtteranceStream(
+      (pcm) => this.transcribe(pcm),
+      params.onSegment,
+      (error) => this.logger.warn(`Transcription failed for ${params.tag}: ${error.message}`),
+    );
+  }
+
+  private async transcribe(pcm: Buffer): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([toWav(pcm)], { type: 'audio/wav' }), 'utterance.wav');
+    form.append('response_format', 'json');
+    form.append('temperature', '0');
+    form.append('language', this.language);
+
+    const response = await fetch(`${this.url}/inference`, {
+      method: 'POST',
+      body: form,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`whisper-server answered ${response.status}`);
+    }
+
+    const result = (await response.json()) as { text?: string; error?: string };
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    return cleanText(result.text ?? '');
+  }
+}
+
+/**
+ * Buffers one speaker's audio and hands complete utterances over one at a
+ * time, so segments come out in the order they were spoken.
+ */
+class UtteranceStream implements TranscriptionStream {
+  private pending: Buffer = Buffer.alloc(0);
+  private frames: Buffer[] = [];
+  private utteranceMs = 0;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private startedAt: Date | null = null;
+  private lastSpeechAt: Date | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private ended = false;
+
+  constructor(
+    private readonly transcribe: (pcm: Buffer) => Promise<string>,
+    private readonly onSegment: (segment: TranscribedSegment) => void,
+    private readonly onError: (error: Error) => void,
+  ) { }
+
+  write(pcm: Buffer): void {
+    if (this.ended) return;
+
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, pcm]) : pcm;
+    while (this.pending.length >= FRAME_BYTES) {
+      this.pushFrame(this.pending.subarray(0, FRAME_BYTES));
+      this.pending = this.pending.subarray(FRAME_BYTES);
+    }
+
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      this.flush();
+    }, IDLE_FLUSH_MS);
+  }
+
+  async end(): Promise<void> {
+    this.ended = true;
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.flush();
+    await this.queue;
+  }
+
+  private pushFrame(frame: Buffer): void {
+    const speech = rms(frame) >= SPEECH_RMS;
+
+    // Leading silence is never sent
+    if (!this.startedAt) {
+      if (!speech) return;
+      this.startedAt = new Date();
+    }
+
+    this.frames.push(frame);
+    this.utteranceMs += FRAME_MS;
+    if (speech) {
+      this.speechMs += FRAME_MS;
+      this.silenceMs = 0;
+      this.lastSpeechAt = new Date();
+    } else {
+      this.silenceMs += FRAME_MS;
+    }
+
+    if (this.silenceMs >= END_SILENCE_MS || this.utteranceMs >= MAX_UTTERANCE_MS) {
+      this.flush();
+    }
+  }
+
+  private flush(): void {
+    const { startedAt, lastSpeechAt, speechMs } = this;
+    const pcm = Buffer.concat(this.frames);
+
+    this.frames = [];
+    this.utteranceMs = 0;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.startedAt = null;
+    this.lastSpeechAt = null;
+
+    if (!startedAt || !lastSpeechAt || speechMs < MIN_SPEECH_MS) return;
+
+    this.queue = this.queue
+      .then(async () => {
+        const text = await this.transcribe(pcm);
+        if (text) this.onSegment({ text, startedAt, endedAt: lastSpeechAt });
+      })
+      .catch((error: Error) => this.onError(error));
+  }
+}
+
+function rms(frame: Buffer): number {
+  let sum = 0;
+  const samples = frame.length / 2;
+  for (let i = 0; i < samples; i++) {
+    const sample = frame.readInt16LE(i * 2);
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+/** Wraps raw PCM in a 44-byte RIFF header */
+function toWav(pcm: Buffer): Buffer<ArrayBuffer> {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(TRANSCRIPTION_SAMPLE_RATE, 24);
+  header.writeUInt32LE(TRANSCRIPTION_SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+/** Drops whisper's non-speech annotations such as [BLANK_AUDIO] or (music) */
+function cleanText(text: string): string {
+  return text
+    .replace(/\[[^\]]*\]|\([^)]*\)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
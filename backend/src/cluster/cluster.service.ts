@@ -0,0 +1,114 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../redis/redis.service';
+import { RedisKeys } from '../redis/redis-keys';
+import type { MediaNodeInfo } from '../shared/interfaces';
+
+// Rounds of claimRoom before giving up on a room that keeps changing hands
+const CLAIM_ATTEMPTS = 5;
+
+/**
+ * Room-to-node affinity for running several backend nodes.
+ *
+ * Every node advertises itself in Redis with a heartbeat. The first node to
+ * host a room claims it; participants who land on another node are told to
+ * reconnect to the owner, so a room's mediasoup router lives in one process.
+ */
+@Injectable()
+export class ClusterService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ClusterService.name);
+
+  private readonly self: MediaNodeInfo;
+  private readonly heartbeatIntervalMs: number;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly config: ConfigService,
+  ) {
+    const port = this.config.get<number>('app.port', 3000);
+    this.self = {
+      nodeId: this.config.get<string>('cluster.nodeId', 'local'),
+      url: this.config.get<string>('cluster.publicWsUrl') || `http://localhost:${port}`,
+    };
+    this.heartbeatIntervalMs = this.config.get<number>('cluster.heartbeatIntervalMs', 10000);
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.heartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch((error) =>
+        this.logger.warn(`Node heartbeat failed: ${(error as Error).message}`),
+      );
+    }, this.heartbeatIntervalMs);
+    this.logger.log(`Node ${this.self.nodeId} registered at ${this.self.url}`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    await this.redis.del(RedisKeys.node(this.self.nodeId)).catch(() => undefined);
+  }
+
+  get nodeId(): string {
+    return this.self.nodeId;
+  }
+
+  isLocal(node: MediaNodeInfo): boolean {
+    return node.nodeId === this.self.nodeId;
+  }
+
+  /**
+   * Returns the node that owns the room, claiming it for this node when it
+   * has no owner yet or its owner stopped sending heartbeats.
+   */
+  async claimRoom(roomId: string): Promise<MediaNodeInfo> {
+    const key = RedisKeys.roomNode(roomId);
+
+    // Every write is conditional on the owner we just read; when another
+    // node got in first, look again
+    for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+      if (await this.redis.setnx(key, this.self.nodeId, RedisKeys.ROOM_TTL)) {
+        return this.self;
+      }
+
+      const ownerId = await this.redis.get(key);
+      if (!ownerId) continue;
+
+      if (ownerId === this.self.nodeId) {
+        if (await this.redis.compareAndSet(key, ownerId, this.self.nodeId, RedisKeys.ROOM_TTL)) {
+          return this.self;
+        }
+        continue;
+      }
+
+      const owner = await this.redis.get(RedisKeys.node(ownerId));
+      if (owner) {
+        return JSON.parse(owner) as MediaNodeInfo;
+      }
+
+      // Owner is gone; its media state went with it, so take the room over
+      if (await this.redis.compareAndSet(key, ownerId, this.self.nodeId, RedisKeys.ROOM_TTL)) {
+        this.logger.warn(`Node ${ownerId} owning room ${roomId} is unreachable; took over`);
+        return this.self;
+      }
+    }
+
+    throw new Error(`Could not settle which node owns room ${roomId}`);
+  }
+
+  /**
+   * Drops this node's claim on a room once its media is torn down.
+   */
+  async releaseRoom(roomId: string): Promise<void> {
+    // Another node may have claimed the room since; leave its claim alone
+    await this.redis.compareAndDelete(RedisKeys.roomNode(roomId), this.self.nodeId);
+  }
+
+  private async heartbeat(): Promise<void> {
+    await this.redis.set(
+      RedisKeys.node(this.self.nodeId),
+      JSON.stringify(this.self),
+      Math.ceil((this.heartbeatIntervalMs * 3) / 1000),
+    );
+  }
+}
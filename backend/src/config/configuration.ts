@@ -1,3 +1,4 @@
+import { hostname } from 'os';
 import { registerAs } from '@nestjs/config';
 
 export const appConfig = registerAs('app', () => ({
@@ -26,6 +27,7 @@ export const mediasoupConfig = registerAs('mediasoup', () => ({
   minPort: parseInt(process.env['MEDIASOUP_MIN_PORT'] || '40000', 10),
   maxPort: parseInt(process.env['MEDIASOUP_MAX_PORT'] || '49999', 10),
   numWorkers: parseInt(process.env['MEDIASOUP_NUM_WORKERS'] || '2', 10),
+  maxLoadPerWorker: parseInt(process.env['MEDIASOUP_MAX_LOAD_PER_WORKER'] || '500', 10),
   logLevel: (process.env['MEDIASOUP_LOG_LEVEL'] as 'debug' | 'warn' | 'error' | 'none') || 'warn',
   mediaCodecs: [
     {
@@ -58,9 +60,53 @@ export const mediasoupConfig = registerAs('mediasoup', () => ({
 
 export const roomConfig = registerAs('room', () => ({
   maxParticipants: parseInt(process.env['MAX_PARTICIPANTS_PER_ROOM'] || '100', 10),
+  /** How long a dropped participant keeps their seat; 0 leaves immediately */
+  reconnectGraceSeconds: parseInt(process.env['RECONNECT_GRACE_SECONDS'] || '30', 10),
+  /** Default for the admin setting; when on, joining an unknown room ID creates it */
+  autoCreateRooms: process.env['ROOM_AUTO_CREATE'] !== 'false',
 }));
 
 export const throttleConfig = registerAs('throttle', () => ({
   ttl: parseInt(process.env['THROTTLE_TTL'] || '60', 10),
   limit: parseInt(process.env['THROTTLE_LIMIT'] || '60', 10),
 }));
+
+export const clusterConfig = registerAs('cluster', () => ({
+  nodeId: process.env['NODE_ID'] || `${hostname()}-${process.pid}`,
+  publicWsUrl: process.env['NODE_PUBLIC_WS_URL'] || '',
+  heartbeatIntervalMs: parseInt(process.env['NODE_HEARTBEAT_INTERVAL_MS'] || '10000', 10),
+}));
+
+export const schedulerConfig = registerAs('scheduler', () => ({
+  enabled: process.env['SCHEDULER_ENABLED'] !== 'false',
+  tickIntervalMs: parseInt(process.env['SCHEDULER_TICK_INTERVAL_MS'] || '30000', 10),
+  /** Scheduled meetings open this long before their start time */
+  openLeadMinutes: parseInt(process.env['SCHEDULER_OPEN_LEAD_MINUTES'] || '10', 10),
+  /** The room is warned this long before its scheduled end */
+  endWarningMinutes: parseInt(process.env['SCHEDULER_END_WARNING_MINUTES'] || '5', 10),
+  /** Rooms still open this long after their scheduled end are closed */
+  closeGraceMinutes: parseInt(process.env['SCHEDULER_CLOSE_GRACE_MINUTES'] || '10', 10),
+  /** A host who hasn't joined this long after the start is a no-show */
+  noShowMinutes: parseInt(process.env['SCHEDULER_NO_SHOW_MINUTES'] || '15', 10),
+}));
+
+export const recordingConfig = registerAs('recording', () => ({
+  outputDir: process.env['RECORDING_OUTPUT_DIR'] || './recordings',
+  ffmpegPath: process.env['FFMPEG_PATH'] || 'ffmpeg',
+  ffprobePath: process.env['FFPROBE_PATH'] || 'ffprobe',
+  rtpMinPort: parseInt(process.env['RECORDING_RTP_MIN_PORT'] || '50000', 10),
+  rtpMaxPort: parseInt(process.env['RECORDING_RTP_MAX_PORT'] || '50999', 10),
+}));
+
+export const captionsConfig = registerAs('captions', () => ({
+  enabled: process.env['CAPTIONS_ENABLED'] === 'true',
+  /** Spoken language as an ISO 639-1 code, or 'auto' to detect it per utterance */
+  language: process.env['CAPTIONS_LANGUAGE'] || 'auto',
+  rtpMinPort: parseInt(process.env['CAPTIONS_RTP_MIN_PORT'] || '51000', 10),
+  rtpMaxPort: parseInt(process.env['CAPTIONS_RTP_MAX_PORT'] || '51999', 10),
+  /** whisper.cpp HTTP server doing the transcription */
+  whisperUrl: process.env['WHISPER_URL'] || 'http://127.0.0.1:8178',
+  /** When both are set, the backend runs whisper-server itself on WHISPER_URL's port */
+  whisperServerPath: process.env['WHISPER_SERVER_PATH'] || '',
+  whisperModelPath: process.env['WHISPER_MODEL_PATH'] || '',
+}));
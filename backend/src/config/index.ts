@@ -6,4 +6,8 @@ export {
   mediasoupConfig,
   roomConfig,
   throttleConfig,
+  recordingConfig,
+  clusterConfig,
+  schedulerConfig,
+  captionsConfig,
 } from './configuration';
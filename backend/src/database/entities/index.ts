@@ -1,5 +1,6 @@
 export { UserEntity } from './user.entity';
 export { MeetingEntity } from './meeting.entity';
+export { MeetingSeriesEntity } from './meeting-series.entity';
 export { AuditLogEntity } from './audit-log.entity';
 export { RoomParticipantEntity, ParticipantRole } from './room-participant.entity';
 export { WalletEntity } from './wallet.entity';
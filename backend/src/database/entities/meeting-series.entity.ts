@@ -0,0 +1,79 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { RoomType } from '../../shared/enums';
+
+/**
+ * A recurring meeting. Each occurrence is its own `meetings` row pointing
+ * back here; the series holds the rule and the settings new occurrences
+ * are created with.
+ */
+@Entity('meeting_series')
+export class MeetingSeriesEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  title!: string;
+
+  @Column({ type: 'uuid' })
+  @Index()
+  hostId!: string;
+
+  /** RRULE string, e.g. FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10 */
+  @Column({ type: 'varchar', length: 500 })
+  rrule!: string;
+
+  /** Start of the first occurrence */
+  @Column({ type: 'timestamptz' })
+  dtstart!: Date;
+
+  @Column({ type: 'int' })
+  durationMinutes!: number;
+
+  /** IANA zone whose wall-clock time occurrences keep */
+  @Column({ type: 'varchar', length: 64, default: 'UTC' })
+  timezone!: string;
+
+  @Column({ type: 'int', default: 100 })
+  maxParticipants!: number;
+
+  @Column({ type: 'enum', enum: RoomType, enumName: 'meetings_roomtype_enum', default: RoomType.MEETING })
+  roomType!: RoomType;
+
+  @Column({ type: 'boolean', default: true })
+  allowScreenShare!: boolean;
+
+  @Column({ type: 'boolean', default: true })
+  allowWhiteboard!: boolean;
+
+  /** Copied to each occurrence; never selected unless asked for */
+  @Column({ type: 'varchar', length: 100, nullable: true, select: false })
+  passcodeHash!: string | null;
+
+  @Column({ type: 'boolean', default: true })
+  requireApproval!: boolean;
+
+  @Column({ type: 'uuid', nullable: true })
+  subjectId!: string | null;
+
+  @Column({ type: 'boolean', default: false })
+  autoAdmitCoTeachers!: boolean;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  autoAdmitEmailDomain!: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  cancelledAt!: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt!: Date;
+}
@@ -9,7 +9,7 @@ import {
   Index,
 } from 'typeorm';
 import { UserEntity } from './user.entity';
-import { RoomStatus } from '../../shared/enums';
+import { RoomStatus, RoomType } from '../../shared/enums';
 
 @Entity('meetings')
 export class MeetingEntity {
@@ -49,6 +49,9 @@ export class MeetingEntity {
   @Column({ type: 'enum', enum: RoomStatus, default: RoomStatus.WAITING })
   status!: RoomStatus;
 
+  @Column({ type: 'enum', enum: RoomType, default: RoomType.MEETING })
+  roomType!: RoomType;
+
   @Column({ type: 'int', default: 100 })
   maxParticipants!: number;
 
@@ -64,12 +67,53 @@ export class MeetingEntity {
   @Column({ type: 'boolean', default: true })
   allowWhiteboard!: boolean;
 
+  /** Live stream endpoint including its stream key; never selected unless asked for */
+  @Column({ type: 'varchar', length: 500, nullable: true, select: false })
+  rtmpUrl!: string | null;
+
+  /** bcrypt hash of the join passcode; never selected unless asked for */
+  @Column({ type: 'varchar', length: 100, nullable: true, select: false })
+  passcodeHash!: string | null;
+
+  /** Waiting users need a host's approval unless an auto-admit rule matches */
+  @Column({ type: 'boolean', default: true })
+  requireApproval!: boolean;
+
+  /** Students with access to this subject are admitted automatically */
+  @Column({ type: 'uuid', nullable: true })
+  subjectId!: string | null;
+
+  /** Teachers sharing a subject with the host are admitted automatically */
+  @Column({ type: 'boolean', default: false })
+  autoAdmitCoTeachers!: boolean;
+
+  /** Users with a verified email on this domain are admitted automatically */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  autoAdmitEmailDomain!: string | null;
+
+  /** Set on occurrences of a recurring meeting */
+  @Column({ type: 'uuid', nullable: true })
+  @Index()
+  seriesId!: string | null;
+
+  /** The series slot this occurrence fills, kept when it is moved */
+  @Column({ type: 'timestamptz', nullable: true })
+  occurrenceStart!: Date | null;
+
+  /** Edited or cancelled on its own; series edits leave it alone */
+  @Column({ type: 'boolean', default: false })
+  isException!: boolean;
+
   @Column({ type: 'timestamptz', nullable: true })
   scheduledStart!: Date | null;
 
   @Column({ type: 'timestamptz', nullable: true })
   scheduledEnd!: Date | null;
 
+  /** The host never joined the scheduled meeting in time */
+  @Column({ type: 'boolean', default: false })
+  hostNoShow!: boolean;
+
   @Column({ type: 'int', default: 0 })
   peakParticipants!: number;
 
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { EngagementService } from './engagement.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { RoomsModule } from '../rooms/rooms.module';
+
+@Module({
+  imports: [PrismaModule, RoomsModule],
+  providers: [EngagementService],
+  exports: [EngagementService],
+})
+export class EngagementModule { }
@@ -0,0 +1,414 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { RedisKeys } from '../redis/redis-keys';
+import { RoomsService } from '../rooms/rooms.service';
+import type { ActiveSpeakerUpdate } from '../media/media.service';
+
+// A participant counts as speaking from this audio level (dBov) up
+const SPEAKING_DBOV = -50;
+// Audio levels arrive every 800 ms; a longer gap means the room went quiet
+const MAX_LEVEL_GAP_MS = 1000;
+
+/** Signals counted one event at a time */
+export type EngagementCounter = 'chatMessages' | 'questionsAsked' | 'questionUpvotes' | 'handRaises' | 'reactions';
+
+/** Signals measured as time spent in a state */
+type EngagementTimer = 'present' | 'camera' | 'hidden';
+
+const COUNTERS: EngagementCounter[] = ['chatMessages', 'questionsAsked', 'questionUpvotes', 'handRaises', 'reactions'];
+const TIMERS: EngagementTimer[] = ['present', 'camera', 'hidden'];
+
+export interface EngagementTotals {
+  presentSeconds: number;
+  cameraSeconds: number;
+  speakingSeconds: number;
+  hiddenSeconds: number;
+  chatMessages: number;
+  questionsAsked: number;
+  questionUpvotes: number;
+  handRaises: number;
+  reactions: number;
+}
+
+export interface EngagementRecord extends EngagementTotals {
+  id: string;
+  meetingId: string;
+  meetingTitle: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  score: number;
+  updatedAt: Date;
+}
+
+export interface UserEngagementSummary {
+  userId: string;
+  userName: string;
+  userEmail: string;
+  sessions: number;
+  averageScore: number;
+  lastScore: number;
+  lastSessionAt: Date;
+}
+
+/**
+ * Scores a session from 0 to 100:
+ *  - attention (30): share of the time the meeting tab was in front
+ *  - camera (20): share of the time the camera was on
+ *  - participation (50): points for speaking and for every chat message,
+ *    question, upvote, raised hand and reaction, capped at 50
+ */
+export function engagementScore(totals: EngagementTotals): number {
+  if (totals.presentSeconds <= 0) return 0;
+
+  const attention = 1 - Math.min(totals.hiddenSeconds / totals.presentSeconds, 1);
+  const camera = Math.min(totals.cameraSeconds / totals.presentSeconds, 1);
+  const participation = Math.min(
+    (totals.speakingSeconds / 60) * 10 +
+      totals.chatMessages * 4 +
+      totals.questionsAsked * 8 +
+      totals.questionUpvotes * 2 +
+      totals.handRaises * 6 +
+      totals.reactions,
+    50,
+  );
+
+  return Math.round(attention * 30 + camera * 20 + participation);
+}
+
+/**
+ * Per-student engagement for each meeting.
+ *
+ * The gateway reports what participants do as it happens; running totals
+ * live in a Redis hash per meeting so every node can add to them. A
+ * participant's totals are written to the database when they leave, and
+ * everyone's once more when the meeting closes.
+ */
+@Injectable()
+export class EngagementService {
+  private readonly logger = new Logger(EngagementService.name);
+
+  /** Room ID → who was speaking at the last audio level update, and when */
+  private readonly speaking = new Map<string, { at: number; userIds: string[] }>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+    private readonly rooms: RoomsService,
+  ) { }
+
+  // ─── Signals ──────────────────────────────────────────────────
+  // Reported from socket handlers: never throw, never hold the handler up
+
+  /** Joined the meeting or one of its breakout rooms; a rejoin after a drop keeps the clock running */
+  joined(roomId: string, userId: string): void {
+    this.withMeeting(roomId, (meetingId) => this.startTimer(meetingId, userId, 'present'));
+  }
+
+  cameraChanged(roomId: string, userId: string, on: boolean): void {
+    this.track(roomId, userId, (meetingId) =>
+      on ? this.startTimer(meetingId, userId, 'camera') : this.stopTimer(meetingId, userId, 'camera'),
+    );
+  }
+
+  /** The meeting tab went to the background or came back */
+  visibilityChanged(roomId: string, userId: string, visible: boolean): void {
+    this.track(roomId, userId, (meetingId) =>
+      visible ? this.stopTimer(meetingId, userId, 'hidden') : this.startTimer(meetingId, userId, 'hidden'),
+    );
+  }
+
+  count(roomId: string, userId: string, counter: EngagementCounter): void {
+    this.track(roomId, userId, async (meetingId) => {
+      const key = RedisKeys.roomEngagement(meetingId);
+      const pipeline = this.redis.pipeline();
+      pipeline.hincrby(key, `${userId}:${counter}`, 1);
+      pipeline.expire(key, RedisKeys.ROOM_TTL);
+      await pipeline.exec();
+    });
+  }
+
+  /** Credits speaking time to whoever was above the threshold since the last update */
+  audioLevels(update: ActiveSpeakerUpdate): void {
+    const now = Date.now();
+    const previous = this.speaking.get(update.roomId);
+
+    const userIds = update.levels.filter((l) => l.volume >= SPEAKING_DBOV).map((l) => l.userId);
+    if (userIds.length > 0) {
+      this.speaking.set(update.roomId, { at: now, userIds });
+    } else {
+      this.speaking.delete(update.roomId);
+    }
+
+    if (!previous) return;
+    const elapsed = Math.min(now - previous.at, MAX_LEVEL_GAP_MS);
+    if (elapsed <= 0) return;
+
+    this.withMeeting(update.roomId, async (meetingId) => {
+      const key = RedisKeys.roomEngagement(meetingId);
+      const pipeline = this.redis.pipeline();
+      for (const userId of previous.userIds) {
+        if (!(await this.isPresent(meetingId, userId))) continue;
+        pipeline.hincrby(key, `${userId}:speakingMs`, elapsed);
+      }
+      pipeline.expire(key, RedisKeys.ROOM_TTL);
+      await pipeline.exec();
+    });
+  }
+
+  // ─── Saving ───────────────────────────────────────────────────
+
+  /** Left the meeting for good: stop their clocks and save their totals */
+  async left(meetingId: string, userId: string): Promise<void> {
+    try {
+      const key = RedisKeys.roomEngagement(meetingId);
+      const users = parseTallies(await this.redis.hgetall(key), Date.now());
+      const tally = users.get(userId);
+      if (!tally) return;
+
+      // Fold the open intervals into the totals, so a rejoin starts afresh
+      const pipeline = this.redis.pipeline();
+      for (const timer of TIMERS) {
+        pipeline.hdel(key, `${userId}:${timer}Since`);
+        pipeline.hset(key, `${userId}:${timer}Ms`, String(tally.timers[timer]));
+      }
+      await pipeline.exec();
+
+      await this.save(meetingId, new Map([[userId, tally]]));
+    } catch (error) {
+      this.logger.error(`Failed to save engagement of ${userId} in ${meetingId}: ${(error as Error).message}`);
+    }
+  }
+
+  /** The meeting closed: save everyone's totals and drop the running ones */
+  async meetingClosed(meetingId: string): Promise<void> {
+    try {
+      const key = RedisKeys.roomEngagement(meetingId);
+      const users = parseTallies(await this.redis.hgetall(key), Date.now());
+      await this.save(meetingId, users);
+      await this.redis.del(key);
+    } catch (error) {
+      this.logger.error(`Failed to save engagement for meeting ${meetingId}: ${(error as Error).message}`);
+    }
+  }
+
+  // ─── Reports ──────────────────────────────────────────────────
+
+  async getEngagementRecords(filters: {
+    meetingId?: string;
+    userId?: string;
+    startDate?: Date;
+    endDate?: Date;
+    hostUserId?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ records: EngagementRecord[]; total: number }> {
+    const where = this.buildWhere(filters);
+    if (filters.meetingId) where.meetingId = filters.meetingId;
+    if (filters.userId) where.userId = filters.userId;
+
+    const [rows, total] = await Promise.all([
+      this.prisma.participantEngagement.findMany({
+        where,
+        include: {
+          user: { select: { displayName: true, email: true } },
+          meeting: { select: { title: true } },
+        },
+        orderBy: { updatedAt: 'desc' },
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+      this.prisma.participantEngagement.count({ where }),
+    ]);
+
+    const records = rows.map(({ user, meeting, ...row }) => ({
+      ...row,
+      meetingTitle: meeting.title,
+      userName: user.displayName,
+      userEmail: user.email,
+    }));
+
+    return { records, total };
+  }
+
+  /** Average score per student, least engaged first */
+  async getEngagementSummary(filters: {
+    startDate?: Date;
+    endDate?: Date;
+    hostUserId?: string;
+    limit?: number;
+  }): Promise<{ users: UserEngagementSummary[] }> {
+    const rows = await this.prisma.participantEngagement.findMany({
+      where: this.buildWhere(filters),
+      select: {
+        userId: true,
+        score: true,
+        updatedAt: true,
+        user: { select: { displayName: true, email: true } },
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    const byUser = new Map<string, UserEngagementSummary & { totalScore: number }>();
+    for (const row of rows) {
+      const summary = byUser.get(row.userId);
+      if (summary) {
+        summary.sessions++;
+        summary.totalScore += row.score;
+        continue;
+      }
+      // Rows come newest first, so the first one per user is their last session
+      byUser.set(row.userId, {
+        userId: row.userId,
+        userName: row.user.displayName,
+        userEmail: row.user.email,
+        sessions: 1,
+        totalScore: row.score,
+        averageScore: 0,
+        lastScore: row.score,
+        lastSessionAt: row.updatedAt,
+      });
+    }
+
+    const users = Array.from(byUser.values())
+      .map(({ totalScore, ...summary }) => ({
+        ...summary,
+        averageScore: Math.round(totalScore / summary.sessions),
+      }))
+      .sort((a, b) => a.averageScore - b.averageScore);
+
+    return { users: filters.limit ? users.slice(0, filters.limit) : users };
+  }
+
+  // ─── Helpers ──────────────────────────────────────────────────
+
+  /**
+   * Runs a Redis update for a user against the room's meeting, logging
+   * rather than throwing. Signals from users who aren't in the meeting are
+   * dropped, so they never get a row of their own.
+   */
+  private track(roomId: string, userId: string, update: (meetingId: string) => Promise<void>): void {
+    this.withMeeting(roomId, async (meetingId) => {
+      if (await this.isPresent(meetingId, userId)) await update(meetingId);
+    });
+  }
+
+  /** Runs a Redis update against the room's meeting, logging rather than throwing */
+  private withMeeting(roomId: string, update: (meetingId: string) => Promise<void>): void {
+    this.rooms
+      .getMeetingId(roomId)
+      .then(update)
+      .catch((error: Error) => this.logger.warn(`Failed to track engagement in ${roomId}: ${error.message}`));
+  }
+
+  /** Whether the user's presence clock is running, i.e. they joined and haven't left */
+  private async isPresent(meetingId: string, userId: string): Promise<boolean> {
+    return (await this.redis.hget(RedisKeys.roomEngagement(meetingId), `${userId}:presentSince`)) !== null;
+  }
+
+  private async startTimer(meetingId: string, userId: string, timer: EngagementTimer): Promise<void> {
+    const key = RedisKeys.roomEngagement(meetingId);
+    const pipeline = this.redis.pipeline();
+    // Keeps the original start when the state is reported twice
+    pipeline.hsetnx(key, `${userId}:${timer}Since`, String(Date.now()));
+    pipeline.expire(key, RedisKeys.ROOM_TTL);
+    await pipeline.exec();
+  }
+
+  private async stopTimer(meetingId: string, userId: string, timer: EngagementTimer): Promise<void> {
+    const key = RedisKeys.roomEngagement(meetingId);
+    const since = await this.redis.hget(key, `${userId}:${timer}Since`);
+    if (!since) return;
+
+    const pipeline = this.redis.pipeline();
+    pipeline.hdel(key, `${userId}:${timer}Since`);
+    pipeline.hincrby(key, `${userId}:${timer}Ms`, Math.max(Date.now() - Number(since), 0));
+    await pipeline.exec();
+  }
+
+  /** Writes the totals of the given users; the meeting's host is not scored */
+  private async save(meetingId: string, users: Map<string, Tally>): Promise<void> {
+    const meeting = await this.prisma.meetings.findUnique({
+      where: { id: meetingId },
+      select: { hostId: true },
+    });
+    if (!meeting) return;
+
+    for (const [userId, tally] of users) {
+      if (userId === meeting.hostId) continue;
+
+      const totals = toTotals(tally);
+      const data = { ...totals, score: engagementScore(totals) };
+      await this.prisma.participantEngagement.upsert({
+        where: { meetingId_userId: { meetingId, userId } },
+        create: { meetingId, userId, ...data },
+        update: data,
+      });
+    }
+  }
+
+  private buildWhere(filters: {
+    startDate?: Date;
+    endDate?: Date;
+    hostUserId?: string;
+  }): Prisma.ParticipantEngagementWhereInput {
+    const meeting: Prisma.meetingsWhereInput = {};
+    if (filters.hostUserId) meeting.hostId = filters.hostUserId;
+    if (filters.startDate || filters.endDate) {
+      meeting.startedAt = { gte: filters.startDate, lte: filters.endDate };
+    }
+    return { meeting };
+  }
+}
+
+/** One user's running totals in milliseconds and counts, open intervals included */
+interface Tally {
+  timers: Record<EngagementTimer, number>;
+  speakingMs: number;
+  counters: Record<EngagementCounter, number>;
+}
+
+/** Groups a meeting's engagement hash by user, closing open intervals at `now` */
+function parseTallies(fields: Record<string, string>, now: number): Map<string, Tally> {
+  const users = new Map<string, Tally>();
+
+  for (const [field, value] of Object.entries(fields)) {
+    const separator = field.lastIndexOf(':');
+    const userId = field.slice(0, separator);
+    const signal = field.slice(separator + 1);
+
+    let tally = users.get(userId);
+    if (!tally) {
+      tally = {
+        timers: { present: 0, camera: 0, hidden: 0 },
+        speakingMs: 0,
+        counters: { chatMessages: 0, questionsAsked: 0, questionUpvotes: 0, handRaises: 0, reactions: 0 },
+      };
+      users.set(userId, tally);
+    }
+
+    const amount = Number(value) || 0;
+    const timer = TIMERS.find((t) => signal === `${t}Ms` || signal === `${t}Since`);
+    if (timer) {
+      tally.timers[timer] += signal.endsWith('Since') ? Math.max(now - amount, 0) : amount;
+    } else if (signal === 'speakingMs') {
+      tally.speakingMs += amount;
+    } else if ((COUNTERS as string[]).includes(signal)) {
+      tally.counters[signal as EngagementCounter] += amount;
+    }
+  }
+
+  return users;
+}
+
+function toTotals(tally: Tally): EngagementTotals {
+  return {
+    presentSeconds: Math.round(tally.timers.present / 1000),
+    cameraSeconds: Math.round(tally.timers.camera / 1000),
+    speakingSeconds: Math.round(tally.speakingMs / 1000),
+    hiddenSeconds: Math.round(tally.timers.hidden / 1000),
+    ...tally.counters,
+  };
+}
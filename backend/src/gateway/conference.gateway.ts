@@ -1,108 +1,40 @@
 import {
   WebSocketGateway,
   WebSocketServer,
+  OnGatewayInit,
   OnGatewayConnection,
   OnGatewayDisconnect,
   SubscribeMessage,
-  MessageBody,
   ConnectedSocket,
 } from '@nestjs/websockets';
-import { Logger, UseFilters, UsePipes, ValidationPipe, ForbiddenException } from '@nestjs/common';
+import { Logger, UseFilters, ForbiddenException } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
-import type { DtlsParameters, MediaKind, RtpCapabilities, RtpParameters } from 'mediasoup/node/lib/types';
+import type {
+  DtlsParameters,
+  RtpCapabilities,
+  RtpParameters,
+  SctpCapabilities,
+  SctpStreamParameters,
+} from 'mediasoup/node/lib/types';
 import { WsAuthService, AppSocket } from './ws-auth.service';
 import { RoomsService } from '../rooms/rooms.service';
+import { RoomPolicyService, SCREEN_SHARE_LABEL, WHITEBOARD_DATA_LABEL } from '../rooms/room-policy.service';
 import { WebrtcService } from '../webrtc/webrtc.service';
-import { WsEvents } from './ws-events';
-import { RoomRole, UserRole } from '../shared/enums';
+import { MAX_KNOCK_LENGTH, WsEvents } from './contract';
+import type { ChatMessage, ClientToServerEvents, ServerToClientEvents, WsAck, WsRequest } from './contract';
+import { WsPayload } from './ws-payload.decorator';
+import { RoomRole, RoomType, UserRole } from '../shared/enums';
 import { WsExceptionFilter } from './ws-exception.filter';
 import { ChatService } from '../chat/chat.service';
 import { QnaService } from '../qna/qna.service';
-
-
-// ─── Payload Interfaces ───────────────────────────────────────────
-
-interface CreateRoomPayload {
-  title: string;
-  maxParticipants?: number;
-}
-
-interface JoinRoomPayload {
-  roomId: string;
-}
-
-interface LeaveRoomPayload {
-  roomId: string;
-}
-
-interface CloseRoomPayload {
-  roomId: string;
-}
-
-interface KickUserPayload {
-  roomId: string;
-  targetUserId: string;
-}
-
-interface MuteAllPayload {
-  roomId: string;
-}
-
-interface ChangeRolePayload {
-  roomId: string;
-  targetUserId: string;
-  newRole: 'co_host' | 'participant';
-}
-
-interface UpdateRoomSettingsPayload {
-  roomId: string;
-  settings: {
-    allowScreenShare?: boolean;
-    allowWhiteboard?: boolean;
-  };
-}
-
-interface GetRouterCapabilitiesPayload {
-  roomId: string;
-}
-
-interface CreateTransportPayload {
-  roomId: string;
-  direction: 'send' | 'recv';
-}
-
-interface ConnectTransportPayload {
-  transportId: string;
-  dtlsParameters: DtlsParameters;
-}
-
-interface ProducePayload {
-  roomId: string;
-  transportId: string;
-  kind: MediaKind;
-  rtpParameters: RtpParameters;
-  appData?: Record<string, unknown>;
-}
-
-interface ConsumePayload {
-  roomId: string;
-  transportId: string;
-  producerId: string;
-  rtpCapabilities: RtpCapabilities;
-}
-
-interface ResumeConsumerPayload {
-  consumerId: string;
-}
-
-interface CloseProducerPayload {
-  roomId: string;
-  producerId: string;
-}
-
-interface PauseResumeProducerPayload {
-  producerId: string;
-}
+import { PollsService, withoutVoters } from '../polls/polls.service';
+import { QUIZ_SUBMIT_GRACE_MS, QuizzesService } from '../quizzes/quizzes.service';
+import { RecordingService } from '../recording/recording.service';
+import { StreamingService } from '../streaming/streaming.service';
+import { CaptionsService } from '../captions/captions.service';
+import { EngagementService, EngagementCounter } from '../engagement/engagement.service';
+import { WsMediaException, WsPasscodeException, WsRoomException } from '../shared/exceptions';
+import type { RoomParticipant, WaitingParticipant } from '../shared/interfaces';
 
 // ─── Rate Limiter ─────────────────────────────────────────────────
 
@@ -139,30 +71,64 @@ class SocketRateLimiter {
   pingTimeout: 20000,
 })
 @UseFilters(new WsExceptionFilter())
-@UsePipes(new ValidationPipe({ whitelist: true }))
-export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class ConferenceGateway implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect {
   @WebSocketServer()
-  private server!: Server;
+  private server!: Server<ClientToServerEvents, ServerToClientEvents>;
 
   private readonly logger = new Logger(ConferenceGateway.name);
   private readonly rateLimiter = new SocketRateLimiter();
-
-  // Track which room each socket is in for disconnect cleanup
-  private readonly socketRoomMap = new Map<string, string>();
-
-  // Track waiting room participants: roomId -> userId -> participant data
-  private readonly waitingRooms = new Map<string, Map<string, { userId: string; displayName: string; socketId: string; joinedAt: number }>>();
+  /** Meeting ID → timer recalling its breakout rooms when the countdown ends */
+  private readonly breakoutTimers = new Map<string, NodeJS.Timeout>();
+  /** `${meetingId}:${userId}` → timer releasing a dropped participant's seat */
+  private readonly graceTimers = new Map<string, NodeJS.Timeout>();
+  /** Quiz ID → timer ending the quiz when its time is up */
+  private readonly quizTimers = new Map<string, NodeJS.Timeout>();
 
   constructor(
     private readonly wsAuth: WsAuthService,
     private readonly rooms: RoomsService,
+    private readonly policy: RoomPolicyService,
     private readonly webrtc: WebrtcService,
     private readonly chatService: ChatService,
     private readonly qnaService: QnaService,
+    private readonly polls: PollsService,
+    private readonly quizzes: QuizzesService,
+    private readonly recording: RecordingService,
+    private readonly streaming: StreamingService,
+    private readonly captions: CaptionsService,
+    private readonly engagement: EngagementService,
   ) { }
 
   // ─── Connection Lifecycle ─────────────────────────────────────
 
+  afterInit(): void {
+    // Relay mediasoup audio observers to the room
+    this.webrtc.onActiveSpeakerUpdate((update) => {
+      this.server.to(update.roomId).volatile.emit(WsEvents.ACTIVE_SPEAKER, {
+        activeSpeakerId: update.activeSpeakerId,
+        levels: update.levels,
+      });
+      this.engagement.audioLevels(update);
+    });
+
+    // A mediasoup worker died and the room was moved to a fresh router:
+    // every client must rebuild its transports and producers
+    this.webrtc.onRoomMediaRebuilt((event) => {
+      this.server.to(event.roomId).emit(WsEvents.RECONNECT_REQUIRED, { roomId: event.roomId });
+      this.refreshCaptures(event.roomId);
+      this.logger.warn(`Media for room ${event.roomId} rebuilt on router ${event.routerId}; clients reconnecting`);
+    });
+
+    // Live stream state changes, including ffmpeg dropping out on its own
+    this.streaming.onStatusChange((status) => {
+      this.server.to(status.roomId).emit(WsEvents.STREAM_STATUS, status);
+    });
+
+    this.captions.onSegment((segment) => {
+      this.server.to(segment.roomId).emit(WsEvents.CAPTIONS_SEGMENT, segment);
+    });
+  }
+
   async handleConnection(socket: Socket): Promise<void> {
     this.logger.log(`Connection attempt: ${socket.id}`);
     const appSocket = await this.wsAuth.authenticateSocket(socket);
@@ -184,32 +150,20 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   async handleDisconnect(socket: Socket): Promise<void> {
     const appSocket = socket as AppSocket;
     const userId = appSocket.data?.userId;
-    const roomId = this.socketRoomMap.get(socket.id);
+    // Socket → room mapping lives in Redis so it survives across nodes
+    const roomId = await this.rooms.getSocketRoom(socket.id);
 
     this.rateLimiter.cleanup(socket.id);
 
     if (userId && roomId) {
       try {
-        // Clean up media
-        await this.webrtc.cleanupUserMedia(roomId, userId);
-
-        // Leave room
-        const result = await this.rooms.leaveRoom({
-          roomId,
-          userId,
-          socketId: socket.id,
-        });
-
-        this.socketRoomMap.delete(socket.id);
+        await this.rooms.clearSocketRoom(socket.id);
 
-        if (result.roomClosed) {
-          await this.webrtc.cleanupRoomMedia(roomId);
-          this.server.to(roomId).emit(WsEvents.ROOM_CLOSED, { roomId });
+        // Hold the seat for a while: a network blip shouldn't end attendance
+        if (this.rooms.reconnectGraceMs > 0) {
+          await this.holdSeat(roomId, userId, socket.id);
         } else {
-          this.server.to(roomId).emit(WsEvents.USER_LEFT, {
-            userId,
-            participants: result.remainingParticipants,
-          });
+          await this.completeLeave(roomId, userId, socket.id);
         }
       } catch (error) {
         this.logger.error(
@@ -227,8 +181,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.CREATE_ROOM)
   async handleCreateRoom(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: CreateRoomPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CREATE_ROOM>,
+  ): Promise<WsAck<typeof WsEvents.CREATE_ROOM>> {
     this.logger.debug(`CREATE_ROOM called by socket ${socket.id}, socket.data: ${JSON.stringify(socket.data)}`);
     this.assertAuthenticated(socket);
     this.assertRole(socket, [UserRole.TEACHER, UserRole.ADMIN]);
@@ -238,6 +192,7 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       hostUserId: socket.data.userId,
       title: payload.title,
       maxParticipants: payload.maxParticipants,
+      roomType: payload.roomType as RoomType | undefined,
     });
 
     return result;
@@ -246,59 +201,84 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.JOIN_ROOM)
   async handleJoinRoom(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: JoinRoomPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.JOIN_ROOM>,
+  ): Promise<WsAck<typeof WsEvents.JOIN_ROOM>> {
     this.assertAuthenticated(socket);
     // room:join is intentionally NOT rate-limited — it is idempotent and retries legitimately
 
-    const result = await this.rooms.joinRoom({
+    // A room's media lives on a single node; refuse joins that landed elsewhere
+    const existingRoomId = await this.rooms.resolveRoomId(payload.roomId);
+    if (existingRoomId) {
+      const { node, isLocal } = await this.webrtc.resolveMediaNode(existingRoomId);
+      if (!isLocal) {
+        return {
+          success: false,
+          error: 'Room is hosted on another node',
+          redirectUrl: node.url,
+        };
+      }
+    }
+
+    const resumed = payload.resumeToken
+      ? await this.rooms.resumeRoom({
+        roomId: payload.roomId,
+        userId: socket.data.userId,
+        socketId: socket.id,
+        resumeToken: payload.resumeToken,
+      })
+      : null;
+    const result = resumed ?? await this.rooms.joinRoom({
       roomId: payload.roomId,
       userId: socket.data.userId,
       socketId: socket.id,
+      passcode: payload.passcode,
     });
 
     // Use the actual room ID (which may differ from requested if auto-created)
     const actualRoomId = result.roomId;
+    if (actualRoomId !== existingRoomId) {
+      // Auto-created room: claim it for this node
+      await this.webrtc.resolveMediaNode(actualRoomId);
+    }
 
     // Track socket → room mapping
-    this.socketRoomMap.set(socket.id, actualRoomId);
+    await this.rooms.setSocketRoom(socket.id, actualRoomId);
     socket.data.roomId = actualRoomId;
     socket.data.role = result.role;
 
     // Join the Socket.IO room
     await socket.join(actualRoomId);
+    this.engagement.joined(actualRoomId, socket.data.userId);
 
-    // Notify existing participants
-    socket.to(actualRoomId).emit(WsEvents.USER_JOINED, {
-      userId: socket.data.userId,
-      displayName: socket.data.displayName,
-      role: result.role,
-      participants: result.participants,
-    });
+    if (resumed) {
+      await this.releaseHeldSeat(actualRoomId, socket.data.userId, resumed.previousSocketId, socket.id);
+      socket.to(actualRoomId).emit(WsEvents.USER_RECONNECTING, {
+        userId: socket.data.userId,
+        reconnecting: false,
+        participants: result.participants,
+      });
+    } else {
+      // Notify existing participants
+      socket.to(actualRoomId).emit(WsEvents.USER_JOINED, {
+        userId: socket.data.userId,
+        displayName: socket.data.displayName,
+        role: result.role,
+        participants: result.participants,
+      });
+    }
 
     // Return router capabilities + existing producers for the joining user
-    const rtpCapabilities = await this.webrtc.getRouterCapabilities(actualRoomId);
-    const existingProducers = this.webrtc.getExistingProducers(actualRoomId, socket.data.userId);
-
-    const roomState = await this.rooms.getRoomState(actualRoomId);
-
     const response = {
-      roomId: actualRoomId, // Return the actual room ID to the client
-      roomCode: result.roomCode,
-      role: result.role,
-      participants: result.participants,
-      rtpCapabilities,
-      existingProducers,
-      allowScreenShare: roomState?.allowScreenShare,
-      allowWhiteboard: roomState?.allowWhiteboard,
+      ...(await this.buildJoinSnapshot(actualRoomId, socket.data.userId, result)),
+      resumeToken: result.resumeToken,
     };
 
     // If host/co-host, send waiting room list
     if (result.role === 'host' || result.role === 'co_host') {
-      const waitingList = this.waitingRooms.get(actualRoomId);
-      if (waitingList && waitingList.size > 0) {
+      const waitingList = await this.rooms.getWaitingParticipants(actualRoomId);
+      if (waitingList.length > 0) {
         socket.emit(WsEvents.WAITING_ROOM_UPDATED, {
-          participants: Array.from(waitingList.values()),
+          participants: waitingList,
         });
       }
     }
@@ -309,30 +289,13 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.LEAVE_ROOM)
   async handleLeaveRoom(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: LeaveRoomPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.LEAVE_ROOM>,
+  ): Promise<WsAck<typeof WsEvents.LEAVE_ROOM>> {
     this.assertAuthenticated(socket);
 
-    await this.webrtc.cleanupUserMedia(payload.roomId, socket.data.userId);
-
-    const result = await this.rooms.leaveRoom({
-      roomId: payload.roomId,
-      userId: socket.data.userId,
-      socketId: socket.id,
-    });
-
-    this.socketRoomMap.delete(socket.id);
+    await this.rooms.clearSocketRoom(socket.id);
     await socket.leave(payload.roomId);
-
-    if (result.roomClosed) {
-      await this.webrtc.cleanupRoomMedia(payload.roomId);
-      this.server.to(payload.roomId).emit(WsEvents.ROOM_CLOSED, { roomId: payload.roomId });
-    } else {
-      this.server.to(payload.roomId).emit(WsEvents.USER_LEFT, {
-        userId: socket.data.userId,
-        participants: result.remainingParticipants,
-      });
-    }
+    await this.completeLeave(payload.roomId, socket.data.userId, socket.id);
 
     return { success: true };
   }
@@ -340,8 +303,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.CLOSE_ROOM)
   async handleCloseRoom(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: CloseRoomPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CLOSE_ROOM>,
+  ): Promise<WsAck<typeof WsEvents.CLOSE_ROOM>> {
     this.assertAuthenticated(socket);
 
     // Only host can close
@@ -350,17 +313,9 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       throw new Error('Only the host can close the room');
     }
 
-    await this.webrtc.cleanupRoomMedia(payload.roomId);
-    await this.rooms.closeRoom(payload.roomId, socket.data.userId);
-
-    this.server.to(payload.roomId).emit(WsEvents.ROOM_CLOSED, { roomId: payload.roomId });
-
-    // Remove all sockets from the room
-    const sockets = await this.server.in(payload.roomId).fetchSockets();
-    for (const s of sockets) {
-      this.socketRoomMap.delete(s.id);
-      s.leave(payload.roomId);
-    }
+    // Closing from a breakout room closes the whole meeting
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    await this.closeMeeting(meetingId, socket.data.userId);
 
     return { success: true };
   }
@@ -368,8 +323,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.KICK_USER)
   async handleKickUser(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: KickUserPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.KICK_USER>,
+  ): Promise<WsAck<typeof WsEvents.KICK_USER>> {
     this.assertAuthenticated(socket);
 
     const result = await this.rooms.kickUser({
@@ -379,57 +334,134 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
     });
 
     if (result.kickedSocketId) {
-      // Notify kicked user
-      this.server.to(result.kickedSocketId).emit(WsEvents.USER_KICKED, {
-        roomId: payload.roomId,
-        reason: 'You have been removed from the meeting',
-      });
+      await this.ejectUser(socket, payload.roomId, payload.targetUserId, result.kickedSocketId, 'You have been removed from the meeting');
+    }
 
-      // Clean up the kicked user's media
-      await this.webrtc.cleanupUserMedia(payload.roomId, payload.targetUserId);
+    return { success: true };
+  }
 
-      const kickedSocket = this.server.sockets.sockets.get(result.kickedSocketId);
-      if (kickedSocket) {
-        this.socketRoomMap.delete(result.kickedSocketId);
-        await kickedSocket.leave(payload.roomId);
-      }
+  @SubscribeMessage(WsEvents.BAN_USER)
+  async handleBanUser(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.BAN_USER>,
+  ): Promise<WsAck<typeof WsEvents.BAN_USER>> {
+    this.assertAuthenticated(socket);
 
-      // Notify remaining participants
-      const participants = await this.rooms.getParticipants(payload.roomId);
-      socket.to(payload.roomId).emit(WsEvents.USER_LEFT, {
-        userId: payload.targetUserId,
-        kicked: true,
-        participants,
-      });
+    const result = await this.rooms.banUser({
+      roomId: payload.roomId,
+      requestingUserId: socket.data.userId,
+      targetUserId: payload.targetUserId,
+      reason: payload.reason,
+    });
+
+    if (result.kickedSocketId) {
+      await this.ejectUser(socket, payload.roomId, payload.targetUserId, result.kickedSocketId, 'You have been banned from this meeting');
     }
 
-    return { success: true };
+    return { success: true, bans: await this.rooms.listBans(payload.roomId, this.requester(socket)) };
+  }
+
+  @SubscribeMessage(WsEvents.UNBAN_USER)
+  async handleUnbanUser(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.UNBAN_USER>,
+  ): Promise<WsAck<typeof WsEvents.UNBAN_USER>> {
+    this.assertAuthenticated(socket);
+
+    await this.rooms.unbanUser({
+      roomId: payload.roomId,
+      requester: this.requester(socket),
+      targetUserId: payload.targetUserId,
+    });
+
+    return { success: true, bans: await this.rooms.listBans(payload.roomId, this.requester(socket)) };
+  }
+
+  @SubscribeMessage(WsEvents.LIST_BANS)
+  async handleListBans(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.LIST_BANS>,
+  ): Promise<WsAck<typeof WsEvents.LIST_BANS>> {
+    this.assertAuthenticated(socket);
+    return { success: true, bans: await this.rooms.listBans(payload.roomId, this.requester(socket)) };
   }
 
   @SubscribeMessage(WsEvents.MUTE_ALL)
   async handleMuteAll(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: MuteAllPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.MUTE_ALL>,
+  ): Promise<WsAck<typeof WsEvents.MUTE_ALL>> {
     this.assertAuthenticated(socket);
 
-    const mutedSocketIds = await this.rooms.muteAll(payload.roomId, socket.data.userId);
+    const muted = await this.rooms.muteAll(payload.roomId, socket.data.userId);
 
-    for (const socketId of mutedSocketIds) {
-      this.server.to(socketId).emit(WsEvents.ALL_MUTED, {
+    for (const participant of muted) {
+      await this.enforceMute(payload.roomId, participant.userId);
+      this.server.to(participant.socketId).emit(WsEvents.ALL_MUTED, {
         roomId: payload.roomId,
         mutedBy: socket.data.userId,
       });
     }
 
-    return { success: true, mutedCount: mutedSocketIds.length };
+    return { success: true, mutedCount: muted.length };
+  }
+
+  @SubscribeMessage(WsEvents.MUTE_USER)
+  async handleMuteUser(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.MUTE_USER>,
+  ): Promise<WsAck<typeof WsEvents.MUTE_USER>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket);
+
+    const participant = await this.rooms.muteParticipant({
+      roomId: payload.roomId,
+      requestingUserId: socket.data.userId,
+      targetUserId: payload.targetUserId,
+    });
+
+    await this.enforceMute(payload.roomId, participant.userId);
+
+    this.server.to(participant.socketId).emit(WsEvents.USER_MUTED, {
+      roomId: payload.roomId,
+      mutedBy: socket.data.userId,
+    });
+
+    return { success: true };
+  }
+
+  @SubscribeMessage(WsEvents.REQUEST_UNMUTE)
+  async handleRequestUnmute(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.REQUEST_UNMUTE>,
+  ): Promise<WsAck<typeof WsEvents.REQUEST_UNMUTE>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket);
+
+    const participant = await this.rooms.requestUnmute({
+      roomId: payload.roomId,
+      requestingUserId: socket.data.userId,
+      targetUserId: payload.targetUserId,
+    });
+
+    // Lift the lock but leave the mic paused: the participant is asked and
+    // resumes it themselves if they agree
+    this.webrtc.releaseAudioLock(payload.roomId, participant.userId);
+
+    this.server.to(participant.socketId).emit(WsEvents.UNMUTE_REQUESTED, {
+      roomId: payload.roomId,
+      requestedBy: socket.data.userId,
+      requestedByName: socket.data.displayName,
+    });
+
+    return { success: true };
   }
 
   @SubscribeMessage(WsEvents.CHANGE_ROLE)
   async handleChangeRole(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: ChangeRolePayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CHANGE_ROLE>,
+  ): Promise<WsAck<typeof WsEvents.CHANGE_ROLE>> {
     this.assertAuthenticated(socket);
 
     const roleEnum = payload.newRole === 'co_host' ? RoomRole.CO_HOST : RoomRole.PARTICIPANT;
@@ -449,11 +481,89 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
     return { success: true };
   }
 
+  @SubscribeMessage(WsEvents.PROMOTE_TO_STAGE)
+  async handlePromoteToStage(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.PROMOTE_TO_STAGE>,
+  ): Promise<WsAck<typeof WsEvents.PROMOTE_TO_STAGE>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket);
+
+    await this.rooms.setOnStage({
+      roomId: payload.roomId,
+      requestingUserId: socket.data.userId,
+      targetUserId: payload.targetUserId,
+      onStage: true,
+    });
+
+    // The attendee creates its send transport and publishes on receipt
+    this.server.to(payload.roomId).emit(WsEvents.STAGE_UPDATED, {
+      roomId: payload.roomId,
+      userId: payload.targetUserId,
+      onStage: true,
+    });
+
+    return { success: true };
+  }
+
+  @SubscribeMessage(WsEvents.REMOVE_FROM_STAGE)
+  async handleRemoveFromStage(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.REMOVE_FROM_STAGE>,
+  ): Promise<WsAck<typeof WsEvents.REMOVE_FROM_STAGE>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket);
+
+    const { producerIds } = await this.rooms.setOnStage({
+      roomId: payload.roomId,
+      requestingUserId: socket.data.userId,
+      targetUserId: payload.targetUserId,
+      onStage: false,
+    });
+
+    // Produce rights end now, not when the attendee's client complies
+    for (const producerId of producerIds) {
+      await this.webrtc.closeProducer({
+        roomId: payload.roomId,
+        userId: payload.targetUserId,
+        producerId,
+      });
+      this.server.to(payload.roomId).emit(WsEvents.PRODUCER_CLOSED, {
+        producerId,
+        userId: payload.targetUserId,
+      });
+    }
+
+    // DataChannels ride the send transport too; the recv side stays up
+    const { dataProducerIds } = await this.webrtc.closeSendTransport(
+      payload.roomId,
+      payload.targetUserId,
+    );
+    for (const dataProducerId of dataProducerIds) {
+      this.server.to(payload.roomId).emit(WsEvents.DATA_PRODUCER_CLOSED, {
+        dataProducerId,
+        userId: payload.targetUserId,
+      });
+    }
+
+    this.server.to(payload.roomId).emit(WsEvents.STAGE_UPDATED, {
+      roomId: payload.roomId,
+      userId: payload.targetUserId,
+      onStage: false,
+    });
+
+    if (producerIds.length > 0) {
+      this.refreshCaptures(payload.roomId);
+    }
+
+    return { success: true };
+  }
+
   @SubscribeMessage(WsEvents.UPDATE_ROOM_SETTINGS)
   async handleUpdateRoomSettings(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: UpdateRoomSettingsPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.UPDATE_ROOM_SETTINGS>,
+  ): Promise<WsAck<typeof WsEvents.UPDATE_ROOM_SETTINGS>> {
     this.assertAuthenticated(socket);
 
     await this.rooms.updateRoomSettings({
@@ -462,6 +572,13 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       settings: payload.settings,
     });
 
+    if (payload.settings.allowScreenShare === false) {
+      await this.revokeScreenShares(payload.roomId);
+    }
+    if (payload.settings.allowWhiteboard === false) {
+      await this.revokeWhiteboardData(payload.roomId);
+    }
+
     // Broadcast to all participants that settings have been updated
     this.server.to(payload.roomId).emit(WsEvents.ROOM_SETTINGS_UPDATED, {
       roomId: payload.roomId,
@@ -471,13 +588,38 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
     return { success: true };
   }
 
+  @SubscribeMessage(WsEvents.LOCK_ROOM)
+  async handleLockRoom(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.LOCK_ROOM>,
+  ): Promise<WsAck<typeof WsEvents.LOCK_ROOM>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 30);
+
+    const locked = payload.locked === true;
+    const meetingId = await this.rooms.setRoomLocked({
+      roomId: payload.roomId,
+      requestingUserId: socket.data.userId,
+      locked,
+    });
+
+    // The lock covers the whole meeting, breakouts included
+    const breakouts = await this.rooms.getBreakoutState(meetingId);
+    this.server.to([meetingId, ...breakouts.rooms.map((r) => r.id)]).emit(WsEvents.ROOM_SETTINGS_UPDATED, {
+      roomId: meetingId,
+      settings: { locked },
+    });
+
+    return { success: true, locked };
+  }
+
   // ─── WebRTC / Media Events ────────────────────────────────────
 
   @SubscribeMessage(WsEvents.GET_ROUTER_CAPABILITIES)
   async handleGetRouterCapabilities(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: GetRouterCapabilitiesPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.GET_ROUTER_CAPABILITIES>,
+  ): Promise<WsAck<typeof WsEvents.GET_ROUTER_CAPABILITIES>> {
     this.assertAuthenticated(socket);
 
     const rtpCapabilities = await this.webrtc.getRouterCapabilities(payload.roomId);
@@ -488,15 +630,20 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.CREATE_TRANSPORT)
   async handleCreateTransport(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: CreateTransportPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CREATE_TRANSPORT>,
+  ): Promise<WsAck<typeof WsEvents.CREATE_TRANSPORT>> {
     this.assertAuthenticated(socket);
     this.assertRateLimit(socket);
 
+    if (payload.direction === 'send') {
+      await this.policy.assertCanProduce(payload.roomId, socket.data.userId);
+    }
+
     const transport = await this.webrtc.createTransport({
       roomId: payload.roomId,
       userId: socket.data.userId,
       direction: payload.direction,
+      sctpCapabilities: payload.sctpCapabilities as SctpCapabilities | undefined,
     });
 
     return transport;
@@ -505,32 +652,48 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.CONNECT_TRANSPORT)
   async handleConnectTransport(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: ConnectTransportPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CONNECT_TRANSPORT>,
+  ): Promise<WsAck<typeof WsEvents.CONNECT_TRANSPORT>> {
     this.assertAuthenticated(socket);
 
     await this.webrtc.connectTransport({
       transportId: payload.transportId,
-      dtlsParameters: payload.dtlsParameters,
+      dtlsParameters: payload.dtlsParameters as DtlsParameters,
     });
 
     return { connected: true };
   }
 
+  @SubscribeMessage(WsEvents.RESTART_ICE)
+  async handleRestartIce(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.RESTART_ICE>,
+  ): Promise<WsAck<typeof WsEvents.RESTART_ICE>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket);
+
+    return this.webrtc.restartIce({
+      transportId: payload.transportId,
+      userId: socket.data.userId,
+    });
+  }
+
   @SubscribeMessage(WsEvents.PRODUCE)
   async handleProduce(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: ProducePayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.PRODUCE>,
+  ): Promise<WsAck<typeof WsEvents.PRODUCE>> {
     this.assertAuthenticated(socket);
     this.assertRateLimit(socket);
+    const label = typeof payload.appData?.label === 'string' ? payload.appData.label : undefined;
+    await this.policy.assertCanProduce(payload.roomId, socket.data.userId, label);
 
     const result = await this.webrtc.produce({
       roomId: payload.roomId,
       userId: socket.data.userId,
       transportId: payload.transportId,
       kind: payload.kind,
-      rtpParameters: payload.rtpParameters,
+      rtpParameters: payload.rtpParameters as RtpParameters,
       appData: payload.appData,
     });
 
@@ -541,14 +704,16 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       kind: payload.kind,
     });
 
+    this.refreshCaptures(payload.roomId);
+
     return result;
   }
 
   @SubscribeMessage(WsEvents.CONSUME)
   async handleConsume(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: ConsumePayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CONSUME>,
+  ): Promise<WsAck<typeof WsEvents.CONSUME>> {
     this.assertAuthenticated(socket);
 
     const result = await this.webrtc.consume({
@@ -556,32 +721,119 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       userId: socket.data.userId,
       transportId: payload.transportId,
       producerId: payload.producerId,
-      rtpCapabilities: payload.rtpCapabilities,
+      rtpCapabilities: payload.rtpCapabilities as RtpCapabilities,
     });
 
     return result;
   }
 
-  @SubscribeMessage(WsEvents.RESUME_CONSUMER)
-  async handleResumeConsumer(
+  @SubscribeMessage(WsEvents.PRODUCE_DATA)
+  async handleProduceData(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: ResumeConsumerPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.PRODUCE_DATA>,
+  ): Promise<WsAck<typeof WsEvents.PRODUCE_DATA>> {
     this.assertAuthenticated(socket);
+    this.assertRateLimit(socket);
+    if (payload.roomId !== socket.data.roomId) {
+      throw new WsRoomException('Not in this room');
+    }
+    await this.policy.assertCanProduceData(payload.roomId, socket.data.userId, payload.label);
 
-    await this.webrtc.resumeConsumer(payload.consumerId);
+    const result = await this.webrtc.produceData({
+      roomId: payload.roomId,
+      userId: socket.data.userId,
+      transportId: payload.transportId,
+      sctpStreamParameters: payload.sctpStreamParameters as SctpStreamParameters,
+      label: payload.label,
+      protocol: payload.protocol,
+    });
 
-    return { resumed: true };
+    // Peers subscribe to the new DataChannel like they do to media
+    socket.to(payload.roomId).emit(WsEvents.NEW_DATA_PRODUCER, {
+      dataProducerId: result.dataProducerId,
+      userId: socket.data.userId,
+      label: payload.label ?? '',
+    });
+
+    return result;
   }
 
-  @SubscribeMessage(WsEvents.CLOSE_PRODUCER)
-  async handleCloseProducer(
+  @SubscribeMessage(WsEvents.CONSUME_DATA)
+  async handleConsumeData(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: CloseProducerPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CONSUME_DATA>,
+  ): Promise<WsAck<typeof WsEvents.CONSUME_DATA>> {
     this.assertAuthenticated(socket);
 
-    await this.webrtc.closeProducer({
+    return this.webrtc.consumeData({
+      roomId: payload.roomId,
+      userId: socket.data.userId,
+      transportId: payload.transportId,
+      dataProducerId: payload.dataProducerId,
+    });
+  }
+
+  @SubscribeMessage(WsEvents.RESUME_CONSUMER)
+  async handleResumeConsumer(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.RESUME_CONSUMER>,
+  ): Promise<WsAck<typeof WsEvents.RESUME_CONSUMER>> {
+    this.assertAuthenticated(socket);
+
+    await this.webrtc.resumeConsumer(payload.consumerId);
+
+    return { resumed: true };
+  }
+
+  @SubscribeMessage(WsEvents.SET_PREFERRED_LAYERS)
+  async handleSetPreferredLayers(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.SET_PREFERRED_LAYERS>,
+  ): Promise<WsAck<typeof WsEvents.SET_PREFERRED_LAYERS>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket);
+
+    await this.webrtc.setPreferredLayers({
+      consumerId: payload.consumerId,
+      userId: socket.data.userId,
+      spatialLayer: payload.spatialLayer,
+      temporalLayer: payload.temporalLayer,
+      priority: payload.priority,
+    });
+
+    return { success: true };
+  }
+
+  @SubscribeMessage(WsEvents.GET_STATS)
+  async handleGetStats(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.GET_STATS>,
+  ): Promise<WsAck<typeof WsEvents.GET_STATS>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket);
+
+    const participant = await this.rooms.getParticipant(payload.roomId, socket.data.userId);
+    if (!participant) {
+      throw new WsRoomException('Not a participant of this room');
+    }
+
+    // Participants may only inspect their own connection
+    const isModerator = participant.role === RoomRole.HOST || participant.role === RoomRole.CO_HOST;
+    const targetUserId = isModerator ? payload.userId : socket.data.userId;
+
+    const stats = await this.webrtc.getStats(payload.roomId, targetUserId);
+
+    return { stats };
+  }
+
+  @SubscribeMessage(WsEvents.CLOSE_PRODUCER)
+  async handleCloseProducer(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.CLOSE_PRODUCER>,
+  ): Promise<WsAck<typeof WsEvents.CLOSE_PRODUCER>> {
+    this.assertAuthenticated(socket);
+
+    await this.webrtc.closeProducer({
       roomId: payload.roomId,
       userId: socket.data.userId,
       producerId: payload.producerId,
@@ -593,14 +845,16 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       userId: socket.data.userId,
     });
 
+    this.refreshCaptures(payload.roomId);
+
     return { closed: true };
   }
 
   @SubscribeMessage(WsEvents.PAUSE_PRODUCER)
   async handlePauseProducer(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: PauseResumeProducerPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.PAUSE_PRODUCER>,
+  ): Promise<WsAck<typeof WsEvents.PAUSE_PRODUCER>> {
     this.assertAuthenticated(socket);
 
     const userId = socket.data.userId!;
@@ -614,7 +868,7 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
 
     // Update Redis state so new joiners see correct status
     try {
-      await this.rooms.updateParticipantMedia(roomId, userId, kind as 'audio' | 'video', true);
+      await this.rooms.updateParticipantMedia(roomId, userId, kind, true);
     } catch (error) {
       const logger = new Logger('ConferenceGateway');
       logger.error(`Failed to update participant media state: ${(error as Error).message}`);
@@ -627,14 +881,16 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       kind,
     });
 
+    this.refreshCaptures(roomId);
+
     return { paused: true };
   }
 
   @SubscribeMessage(WsEvents.RESUME_PRODUCER)
   async handleResumeProducer(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: PauseResumeProducerPayload,
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.RESUME_PRODUCER>,
+  ): Promise<WsAck<typeof WsEvents.RESUME_PRODUCER>> {
     this.assertAuthenticated(socket);
 
     const userId = socket.data.userId!;
@@ -648,7 +904,7 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
 
     // Update Redis state so new joiners see correct status
     try {
-      await this.rooms.updateParticipantMedia(roomId, userId, kind as 'audio' | 'video', false);
+      await this.rooms.updateParticipantMedia(roomId, userId, kind, false);
     } catch (error) {
       const logger = new Logger('ConferenceGateway');
       logger.error(`Failed to update participant media state: ${(error as Error).message}`);
@@ -661,14 +917,16 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       kind,
     });
 
+    this.refreshCaptures(roomId);
+
     return { resumed: true };
   }
 
   @SubscribeMessage(WsEvents.MEDIA_STATE_CHANGE)
   async handleMediaStateChange(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; audioEnabled: boolean; videoEnabled: boolean },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.MEDIA_STATE_CHANGE>,
+  ): Promise<WsAck<typeof WsEvents.MEDIA_STATE_CHANGE>> {
     this.assertAuthenticated(socket);
 
     const userId = socket.data.userId!;
@@ -680,6 +938,10 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
 
     this.logger.log(`SERVER RECEIVE media-state-change: user=${userId} audio=${payload.audioEnabled} video=${payload.videoEnabled}`);
 
+    if (payload.audioEnabled && this.webrtc.isAudioLocked(roomId, userId)) {
+      throw new WsMediaException('You were muted by the host');
+    }
+
     // Update Redis state so new joiners see correct status
     try {
       await this.rooms.updateParticipantMedia(roomId, userId, 'audio', !payload.audioEnabled);
@@ -688,6 +950,10 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       this.logger.error(`Failed to update participant media state: ${(error as Error).message}`);
     }
 
+    if (socket.data.roomId) {
+      this.engagement.cameraChanged(socket.data.roomId, userId, payload.videoEnabled);
+    }
+
     // Broadcast to all other users in the room
     socket.to(roomId).emit(WsEvents.PEER_MEDIA_UPDATE, {
       userId,
@@ -703,9 +969,20 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.WHITEBOARD_DRAW)
   async handleWhiteboardDraw(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; object: any },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.WHITEBOARD_DRAW>,
+  ): Promise<WsAck<typeof WsEvents.WHITEBOARD_DRAW>> {
     this.assertAuthenticated(socket);
+    await this.policy.assertCanUseWhiteboard(payload.roomId, socket.data.userId);
+
+    // Full scene snapshots; the authoritative copy for clients without a
+    // DataChannel and for settling in-progress strokes
+    if (payload.elements) {
+      socket.to(payload.roomId).emit(WsEvents.WHITEBOARD_DRAW, {
+        userId: socket.data.userId,
+        elements: payload.elements,
+      });
+      return { success: true };
+    }
 
     // Broadcast to all other users in the room
     socket.to(payload.roomId).emit(WsEvents.WHITEBOARD_OBJECT_ADDED, {
@@ -720,9 +997,10 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.WHITEBOARD_CURSOR)
   async handleWhiteboardCursor(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; x: number; y: number },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.WHITEBOARD_CURSOR>,
+  ): Promise<WsAck<typeof WsEvents.WHITEBOARD_CURSOR>> {
     this.assertAuthenticated(socket);
+    await this.policy.assertCanUseWhiteboard(payload.roomId, socket.data.userId);
 
     // Broadcast cursor position to all other users using volatile for efficiency
     socket.volatile.to(payload.roomId).emit(WsEvents.WHITEBOARD_CURSOR, {
@@ -738,9 +1016,10 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.WHITEBOARD_CLEAR)
   async handleWhiteboardClear(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.WHITEBOARD_CLEAR>,
+  ): Promise<WsAck<typeof WsEvents.WHITEBOARD_CLEAR>> {
     this.assertAuthenticated(socket);
+    await this.policy.assertCanUseWhiteboard(payload.roomId, socket.data.userId);
 
     // Broadcast clear to all users in the room
     this.server.to(payload.roomId).emit(WsEvents.WHITEBOARD_CLEAR, {
@@ -753,9 +1032,10 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.WHITEBOARD_OBJECT_MODIFIED)
   async handleWhiteboardModified(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; object: any },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.WHITEBOARD_OBJECT_MODIFIED>,
+  ): Promise<WsAck<typeof WsEvents.WHITEBOARD_OBJECT_MODIFIED>> {
     this.assertAuthenticated(socket);
+    await this.policy.assertCanUseWhiteboard(payload.roomId, socket.data.userId);
 
     socket.to(payload.roomId).emit(WsEvents.WHITEBOARD_OBJECT_MODIFIED, {
       userId: socket.data.userId,
@@ -768,9 +1048,10 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.WHITEBOARD_OBJECT_REMOVED)
   async handleWhiteboardRemoved(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; objectId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.WHITEBOARD_OBJECT_REMOVED>,
+  ): Promise<WsAck<typeof WsEvents.WHITEBOARD_OBJECT_REMOVED>> {
     this.assertAuthenticated(socket);
+    await this.policy.assertCanUseWhiteboard(payload.roomId, socket.data.userId);
 
     socket.to(payload.roomId).emit(WsEvents.WHITEBOARD_OBJECT_REMOVED, {
       userId: socket.data.userId,
@@ -783,9 +1064,10 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.WHITEBOARD_STATE)
   async handleWhiteboardState(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; active: boolean },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.WHITEBOARD_STATE>,
+  ): Promise<WsAck<typeof WsEvents.WHITEBOARD_STATE>> {
     this.assertAuthenticated(socket);
+    await this.policy.assertCanUseWhiteboard(payload.roomId, socket.data.userId);
 
     // Broadcast state change to all other users in the room
     socket.to(payload.roomId).emit(WsEvents.WHITEBOARD_STATE, {
@@ -801,8 +1083,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.CHAT_MESSAGE)
   async handleChatMessage(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; message: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CHAT_MESSAGE>,
+  ): Promise<WsAck<typeof WsEvents.CHAT_MESSAGE>> {
     this.assertAuthenticated(socket);
 
     const savedMessage = await this.chatService.saveMessage({
@@ -812,7 +1094,7 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       type: 'text',
     });
 
-    const messageData = {
+    const messageData: ChatMessage = {
       id: savedMessage.id,
       roomId: payload.roomId,
       userId: socket.data.userId,
@@ -825,6 +1107,7 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
 
     // Broadcast to all users in the room (including sender)
     this.server.to(payload.roomId).emit(WsEvents.CHAT_MESSAGE_RECEIVED, messageData);
+    this.countEngagement(socket, 'chatMessages');
 
     return { success: true, messageId: messageData.id };
   }
@@ -832,15 +1115,14 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.CHAT_PRIVATE_MESSAGE)
   async handlePrivateMessage(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; targetUserId: string; message: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CHAT_PRIVATE_MESSAGE>,
+  ): Promise<WsAck<typeof WsEvents.CHAT_PRIVATE_MESSAGE>> {
     this.assertAuthenticated(socket);
 
     // Verify target user exists in room
-    const sockets = await this.server.in(payload.roomId).fetchSockets();
-    const targetSocket = sockets.find((s: any) => s.data.userId === payload.targetUserId);
+    const target = await this.rooms.getParticipant(payload.roomId, payload.targetUserId);
 
-    if (targetSocket) {
+    if (target) {
       const savedMessage = await this.chatService.saveMessage({
         roomId: payload.roomId,
         userId: socket.data.userId!,
@@ -849,7 +1131,7 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
         type: 'private',
       });
 
-      const messageData = {
+      const messageData: ChatMessage = {
         id: savedMessage.id,
         roomId: payload.roomId,
         userId: socket.data.userId,
@@ -862,7 +1144,7 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       };
 
       // Send to target
-      targetSocket.emit(WsEvents.CHAT_PRIVATE_MESSAGE_RECEIVED, messageData);
+      this.server.to(target.socketId).emit(WsEvents.CHAT_PRIVATE_MESSAGE_RECEIVED, messageData);
       // Send back to sender
       socket.emit(WsEvents.CHAT_PRIVATE_MESSAGE_RECEIVED, messageData);
       return { success: true, messageId: messageData.id };
@@ -874,8 +1156,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.CHAT_FILE_UPLOAD)
   async handleFileUpload(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; fileName: string; fileType: string; fileData: string; fileSize: number },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CHAT_FILE_UPLOAD>,
+  ): Promise<WsAck<typeof WsEvents.CHAT_FILE_UPLOAD>> {
     this.assertAuthenticated(socket);
 
     const savedMessage = await this.chatService.saveMessage({
@@ -887,7 +1169,7 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       fileSize: payload.fileSize,
     });
 
-    const messageData = {
+    const messageData: ChatMessage = {
       id: savedMessage.id,
       roomId: payload.roomId,
       userId: socket.data.userId,
@@ -910,8 +1192,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.CHAT_TYPING)
   async handleTyping(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; isTyping: boolean },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CHAT_TYPING>,
+  ): Promise<WsAck<typeof WsEvents.CHAT_TYPING>> {
     this.assertAuthenticated(socket);
 
     // Broadcast typing status to all other users using volatile
@@ -927,8 +1209,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.CHAT_HISTORY)
   async handleGetChatHistory(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.CHAT_HISTORY>,
+  ): Promise<WsAck<typeof WsEvents.CHAT_HISTORY>> {
     this.assertAuthenticated(socket);
 
     const messages = await this.chatService.getMessages(payload.roomId);
@@ -956,8 +1238,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.QNA_ASK)
   async handleAskQuestion(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; content: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.QNA_ASK>,
+  ): Promise<WsAck<typeof WsEvents.QNA_ASK>> {
     this.assertAuthenticated(socket);
     const question = await this.qnaService.askQuestion(payload.roomId, socket.data.userId!, payload.content);
 
@@ -974,14 +1256,15 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       timestamp: question.createdAt.toISOString(),
       isUpvoted: false
     });
+    this.countEngagement(socket, 'questionsAsked');
     return { success: true, questionId: question.id };
   }
 
   @SubscribeMessage(WsEvents.QNA_UPVOTE)
   async handleUpvoteQuestion(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; questionId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.QNA_UPVOTE>,
+  ): Promise<WsAck<typeof WsEvents.QNA_UPVOTE>> {
     this.assertAuthenticated(socket);
     const result = await this.qnaService.upvoteQuestion(payload.questionId, socket.data.userId!);
 
@@ -990,14 +1273,17 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       questionId: payload.questionId,
       upvotes: result.upvotes,
     });
+    if (result.upvoted) {
+      this.countEngagement(socket, 'questionUpvotes');
+    }
     return { success: true };
   }
 
   @SubscribeMessage(WsEvents.QNA_ANSWER)
   async handleAnswerQuestion(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; questionId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.QNA_ANSWER>,
+  ): Promise<WsAck<typeof WsEvents.QNA_ANSWER>> {
     this.assertAuthenticated(socket);
 
     const question = await this.qnaService.markAnswered(payload.questionId, true);
@@ -1011,8 +1297,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.QNA_DELETE)
   async handleDeleteQuestion(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; questionId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.QNA_DELETE>,
+  ): Promise<WsAck<typeof WsEvents.QNA_DELETE>> {
     this.assertAuthenticated(socket);
     await this.qnaService.deleteQuestion(payload.questionId);
     this.server.to(payload.roomId).emit(WsEvents.QNA_QUESTION_DELETED, {
@@ -1024,11 +1310,217 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.QNA_HISTORY)
   async handleGetQuestions(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.QNA_HISTORY>,
+  ): Promise<WsAck<typeof WsEvents.QNA_HISTORY>> {
     this.assertAuthenticated(socket);
     const questions = await this.qnaService.getQuestions(payload.roomId, socket.data.userId);
-    return { questions };
+    return {
+      questions: questions.map((q) => ({
+        id: q.id,
+        roomId: q.roomId,
+        userId: q.userId,
+        displayName: q.user.displayName,
+        profilePictureUrl: q.user.profilePictureUrl,
+        content: q.content,
+        upvotes: q.upvoteCount,
+        isAnswered: q.isAnswered,
+        timestamp: q.createdAt.toISOString(),
+        isUpvoted: q.isUpvoted,
+      })),
+    };
+  }
+
+  // ─── Poll Events ──────────────────────────────────────────────
+  // Polls belong to the meeting, so they reach its breakout rooms too
+
+  @SubscribeMessage(WsEvents.POLL_CREATE)
+  async handlePollCreate(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.POLL_CREATE>,
+  ): Promise<WsAck<typeof WsEvents.POLL_CREATE>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 20);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    if (!(await this.rooms.isBreakoutManager(meetingId, socket.data.userId))) {
+      throw new WsRoomException('Only hosts or co-hosts can run polls');
+    }
+
+    const poll = await this.polls.createPoll({
+      meetingId,
+      userId: socket.data.userId,
+      question: payload.question,
+      type: payload.type,
+      options: payload.options,
+      scale: payload.scale,
+      anonymous: payload.anonymous,
+    });
+
+    this.server.to(await this.meetingRooms(meetingId)).emit(WsEvents.POLL_CREATED, poll);
+    return { success: true, poll };
+  }
+
+  @SubscribeMessage(WsEvents.POLL_VOTE)
+  async handlePollVote(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.POLL_VOTE>,
+  ): Promise<WsAck<typeof WsEvents.POLL_VOTE>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    if (!(await this.rooms.findInMeeting(meetingId, socket.data.userId))) {
+      throw new WsRoomException('Not a participant in this meeting');
+    }
+
+    const { poll, myVotes } = await this.polls.vote({
+      meetingId,
+      pollId: payload.pollId,
+      userId: socket.data.userId,
+      optionIds: payload.optionIds,
+      includeVoters: await this.rooms.isBreakoutManager(meetingId, socket.data.userId),
+    });
+
+    this.server.to(await this.meetingRooms(meetingId)).emit(WsEvents.POLL_UPDATED, withoutVoters(poll));
+    return { success: true, poll, myVotes };
+  }
+
+  @SubscribeMessage(WsEvents.POLL_CLOSE)
+  async handlePollClose(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.POLL_CLOSE>,
+  ): Promise<WsAck<typeof WsEvents.POLL_CLOSE>> {
+    this.assertAuthenticated(socket);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    if (!(await this.rooms.isBreakoutManager(meetingId, socket.data.userId))) {
+      throw new WsRoomException('Only hosts or co-hosts can close polls');
+    }
+
+    const poll = await this.polls.closePoll(meetingId, payload.pollId, true);
+
+    this.server.to(await this.meetingRooms(meetingId)).emit(WsEvents.POLL_UPDATED, withoutVoters(poll));
+    return { success: true, poll };
+  }
+
+  @SubscribeMessage(WsEvents.POLL_RESULTS)
+  async handlePollResults(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.POLL_RESULTS>,
+  ): Promise<WsAck<typeof WsEvents.POLL_RESULTS>> {
+    this.assertAuthenticated(socket);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    if (!(await this.rooms.findInMeeting(meetingId, socket.data.userId))) {
+      throw new WsRoomException('Not a participant in this meeting');
+    }
+
+    const includeVoters = await this.rooms.isBreakoutManager(meetingId, socket.data.userId);
+    return { polls: await this.polls.getPolls(meetingId, socket.data.userId, includeVoters) };
+  }
+
+  // ─── Quiz Events ──────────────────────────────────────────────
+  // Like polls, a quiz runs across the meeting and its breakout rooms
+
+  @SubscribeMessage(WsEvents.QUIZ_LAUNCH)
+  async handleQuizLaunch(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.QUIZ_LAUNCH>,
+  ): Promise<WsAck<typeof WsEvents.QUIZ_LAUNCH>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 10);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    if (!(await this.rooms.isBreakoutManager(meetingId, socket.data.userId))) {
+      throw new WsRoomException('Only hosts or co-hosts can run quizzes');
+    }
+
+    const quiz = await this.quizzes.launchQuiz({
+      meetingId,
+      user: { id: socket.data.userId, role: socket.data.userRole },
+      subjectId: payload.subjectId,
+      title: payload.title,
+      questionIds: payload.questionIds,
+      durationSeconds: payload.durationSeconds,
+    });
+
+    // Close a little after the deadline so answers sent as the clock runs out still count
+    this.quizTimers.set(
+      quiz.id,
+      setTimeout(() => {
+        this.quizTimers.delete(quiz.id);
+        this.finishQuiz(meetingId, quiz.id).catch((error) => {
+          this.logger.error(`Failed to end quiz ${quiz.id}: ${(error as Error).message}`);
+        });
+      }, new Date(quiz.endsAt).getTime() - Date.now() + QUIZ_SUBMIT_GRACE_MS),
+    );
+
+    this.server.to(await this.meetingRooms(meetingId)).emit(WsEvents.QUIZ_STARTED, quiz);
+    return { success: true, quiz };
+  }
+
+  @SubscribeMessage(WsEvents.QUIZ_SUBMIT)
+  async handleQuizSubmit(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.QUIZ_SUBMIT>,
+  ): Promise<WsAck<typeof WsEvents.QUIZ_SUBMIT>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 10);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    if (!(await this.rooms.findInMeeting(meetingId, socket.data.userId))) {
+      throw new WsRoomException('Not a participant in this meeting');
+    }
+
+    const { result, submitted } = await this.quizzes.submit({
+      meetingId,
+      quizId: payload.quizId,
+      userId: socket.data.userId,
+      answers: payload.answers,
+    });
+
+    this.server.to(await this.meetingRooms(meetingId)).emit(WsEvents.QUIZ_PROGRESS, {
+      quizId: payload.quizId,
+      submitted,
+    });
+    return { success: true, result };
+  }
+
+  @SubscribeMessage(WsEvents.QUIZ_END)
+  async handleQuizEnd(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.QUIZ_END>,
+  ): Promise<WsAck<typeof WsEvents.QUIZ_END>> {
+    this.assertAuthenticated(socket);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    if (!(await this.rooms.isBreakoutManager(meetingId, socket.data.userId))) {
+      throw new WsRoomException('Only hosts or co-hosts can end quizzes');
+    }
+
+    clearTimeout(this.quizTimers.get(payload.quizId));
+    this.quizTimers.delete(payload.quizId);
+
+    const submitted = await this.finishQuiz(meetingId, payload.quizId);
+    if (submitted === null) {
+      throw new WsRoomException('This quiz has already ended');
+    }
+    return { success: true, quizId: payload.quizId, submitted };
+  }
+
+  @SubscribeMessage(WsEvents.QUIZ_STATE)
+  async handleQuizState(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.QUIZ_STATE>,
+  ): Promise<WsAck<typeof WsEvents.QUIZ_STATE>> {
+    this.assertAuthenticated(socket);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    if (!(await this.rooms.findInMeeting(meetingId, socket.data.userId))) {
+      throw new WsRoomException('Not a participant in this meeting');
+    }
+
+    return this.quizzes.getActiveQuiz(meetingId, socket.data.userId);
   }
 
   // ─── Reaction / Hand Raise Events ─────────────────────────────
@@ -1036,8 +1528,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.HAND_RAISE)
   async handleHandRaise(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.HAND_RAISE>,
+  ): Promise<WsAck<typeof WsEvents.HAND_RAISE>> {
     this.assertAuthenticated(socket);
 
     const isRaised = await this.rooms.toggleHandRaise(payload.roomId, socket.data.userId);
@@ -1047,6 +1539,9 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       userId: socket.data.userId,
       handRaised: isRaised,
     });
+    if (isRaised) {
+      this.countEngagement(socket, 'handRaises');
+    }
 
     return { success: true, handRaised: isRaised };
   }
@@ -1054,8 +1549,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.REACTION)
   async handleReaction(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; reaction: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.REACTION>,
+  ): Promise<WsAck<typeof WsEvents.REACTION>> {
     this.assertAuthenticated(socket);
 
     // Broadcast transient event to room (no persistence needed)
@@ -1063,6 +1558,25 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       userId: socket.data.userId,
       reaction: payload.reaction,
     });
+    this.countEngagement(socket, 'reactions');
+
+    return { success: true };
+  }
+
+  @SubscribeMessage(WsEvents.VISIBILITY_CHANGE)
+  async handleVisibilityChange(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.VISIBILITY_CHANGE>,
+  ): Promise<WsAck<typeof WsEvents.VISIBILITY_CHANGE>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 10);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    if (!(await this.rooms.findInMeeting(meetingId, socket.data.userId))) {
+      throw new WsRoomException('Not a participant in this meeting');
+    }
+
+    this.engagement.visibilityChanged(payload.roomId, socket.data.userId, payload.visible);
 
     return { success: true };
   }
@@ -1072,15 +1586,40 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.JOIN_WAITING_ROOM)
   async handleJoinWaitingRoom(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.JOIN_WAITING_ROOM>,
+  ): Promise<WsAck<typeof WsEvents.JOIN_WAITING_ROOM>> {
     this.assertAuthenticated(socket);
 
     // Resolve room ID if code is provided
     const roomId = await this.rooms.resolveRoomId(payload.roomId) || payload.roomId;
 
+    // Send the client to the node hosting this room before it queues up
+    const { node, isLocal } = await this.webrtc.resolveMediaNode(roomId);
+    if (!isLocal) {
+      return {
+        success: false,
+        error: 'Room is hosted on another node',
+        redirectUrl: node.url,
+      };
+    }
+
     // Check if user is host - if so, auto-admit
     const room = await this.rooms.getRoomState(roomId);
+
+    if (room) {
+      try {
+        await this.rooms.assertCanJoin(roomId, socket.data.userId, payload.passcode);
+      } catch (error) {
+        return {
+          success: false,
+          error: (error as Error).message,
+          passcodeRequired: error instanceof WsPasscodeException,
+        };
+      }
+    } else if (!(await this.rooms.getMeetingSettings()).autoCreateRooms) {
+      return { success: false, error: 'Room not found' };
+    }
+
     if (room && room.hostUserId === socket.data.userId) {
       // Host joins directly, emit admission event
       socket.emit(WsEvents.PARTICIPANT_ADMITTED, {
@@ -1097,27 +1636,36 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       };
     }
 
+    // The meeting's admission policy may let this user skip the queue
+    const autoAdmit = room ? await this.policy.autoAdmitReason(roomId, socket.data.userId) : null;
+    if (autoAdmit) {
+      await this.rooms.markAdmitted(roomId, socket.data.userId);
+      this.logger.log(`User ${socket.data.userId} auto-admitted to room ${roomId} (${autoAdmit})`);
+
+      return {
+        success: true,
+        message: 'Joining room...',
+        admitted: true,
+        roomId,
+      };
+    }
+
     // Identify participant
-    const participant = {
+    const participant: WaitingParticipant = {
       userId: socket.data.userId,
       displayName: socket.data.displayName,
       socketId: socket.id,
       joinedAt: Date.now(),
     };
 
-    // Initialize waiting room for this roomId if it doesn't exist
     // Use the RESOLVED roomId
-    if (!this.waitingRooms.has(roomId)) {
-      this.waitingRooms.set(roomId, new Map());
-    }
-
-    this.waitingRooms.get(roomId)!.set(socket.data.userId, participant);
+    await this.rooms.addWaitingParticipant(roomId, participant);
 
     // Notify host(s)
     if (room && room.hostUserId) {
       // Notify everyone in the room (including host) that waiting room updated
       this.server.to(roomId).emit(WsEvents.WAITING_ROOM_UPDATED, {
-        participants: Array.from(this.waitingRooms.get(roomId)!.values()),
+        participants: await this.rooms.getWaitingParticipants(roomId),
       });
       // Also notify host specifically via private message? Not needed if room broadcast works.
     }
@@ -1135,8 +1683,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.ADMIT_PARTICIPANT)
   async handleAdmitParticipant(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; userId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.ADMIT_PARTICIPANT>,
+  ): Promise<WsAck<typeof WsEvents.ADMIT_PARTICIPANT>> {
     this.assertAuthenticated(socket);
 
     // Check if user is host
@@ -1145,33 +1693,30 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       return { success: false, error: 'Only the host can admit participants' };
     }
 
-    const roomWaitingList = this.waitingRooms.get(payload.roomId);
-    if (!roomWaitingList) {
-      return { success: false, error: 'No waiting room found' };
-    }
-
-    const participant = roomWaitingList.get(payload.userId);
+    const participant = await this.rooms.getWaitingParticipant(payload.roomId, payload.userId);
     if (!participant) {
       return { success: false, error: 'Participant not found in waiting room' };
     }
 
-    // Get the socket of the waiting participant
-    const sockets = await this.server.fetchSockets();
-    const participantSocket = sockets.find(s => s.id === participant.socketId);
+    // Get the socket of the waiting participant (on any node)
+    const participantSockets = await this.server.in(participant.socketId).fetchSockets();
+
+    if (participantSockets.length > 0) {
+      await this.rooms.markAdmitted(payload.roomId, payload.userId);
 
-    if (participantSocket) {
       // Notify participant they've been admitted
-      participantSocket.emit(WsEvents.PARTICIPANT_ADMITTED, {
+      this.server.to(participant.socketId).emit(WsEvents.PARTICIPANT_ADMITTED, {
         roomId: payload.roomId,
       });
 
       // Remove from waiting room
-      roomWaitingList.delete(payload.userId);
+      await this.rooms.removeWaitingParticipant(payload.roomId, payload.userId);
 
       // Notify host about updated waiting room
+      const waitingList = await this.rooms.getWaitingParticipants(payload.roomId);
       this.server.to(payload.roomId).emit(WsEvents.WAITING_ROOM_UPDATED, {
-        participants: Array.from(roomWaitingList.values()),
-        waitingCount: roomWaitingList.size,
+        participants: waitingList,
+        waitingCount: waitingList.length,
       });
 
       this.logger.log(`User ${payload.userId} admitted to ${payload.roomId}`);
@@ -1184,8 +1729,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.REJECT_PARTICIPANT)
   async handleRejectParticipant(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string; userId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.REJECT_PARTICIPANT>,
+  ): Promise<WsAck<typeof WsEvents.REJECT_PARTICIPANT>> {
     this.assertAuthenticated(socket);
 
     // Check if user is host
@@ -1194,34 +1739,29 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       return { success: false, error: 'Only the host can reject participants' };
     }
 
-    const roomWaitingList = this.waitingRooms.get(payload.roomId);
-    if (!roomWaitingList) {
-      return { success: false, error: 'No waiting room found' };
-    }
-
-    const participant = roomWaitingList.get(payload.userId);
+    const participant = await this.rooms.getWaitingParticipant(payload.roomId, payload.userId);
     if (!participant) {
       return { success: false, error: 'Participant not found in waiting room' };
     }
 
-    // Get the socket of the waiting participant
-    const sockets = await this.server.fetchSockets();
-    const participantSocket = sockets.find(s => s.id === participant.socketId);
+    // Get the socket of the waiting participant (on any node)
+    const participantSockets = await this.server.in(participant.socketId).fetchSockets();
 
-    if (participantSocket) {
+    if (participantSockets.length > 0) {
       // Notify participant they've been rejected
-      participantSocket.emit(WsEvents.PARTICIPANT_REJECTED, {
+      this.server.to(participant.socketId).emit(WsEvents.PARTICIPANT_REJECTED, {
         roomId: payload.roomId,
         message: 'The host denied your request to join',
       });
 
       // Remove from waiting room
-      roomWaitingList.delete(payload.userId);
+      await this.rooms.removeWaitingParticipant(payload.roomId, payload.userId);
 
       // Notify host about updated waiting room
+      const waitingList = await this.rooms.getWaitingParticipants(payload.roomId);
       this.server.to(payload.roomId).emit(WsEvents.WAITING_ROOM_UPDATED, {
-        participants: Array.from(roomWaitingList.values()),
-        waitingCount: roomWaitingList.size,
+        participants: waitingList,
+        waitingCount: waitingList.length,
       });
 
       this.logger.log(`User ${payload.userId} rejected from ${payload.roomId}`);
@@ -1234,8 +1774,8 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage(WsEvents.ADMIT_ALL)
   async handleAdmitAll(
     @ConnectedSocket() socket: AppSocket,
-    @MessageBody() payload: { roomId: string },
-  ) {
+    @WsPayload() payload: WsRequest<typeof WsEvents.ADMIT_ALL>,
+  ): Promise<WsAck<typeof WsEvents.ADMIT_ALL>> {
     this.assertAuthenticated(socket);
 
     // Check if user is host
@@ -1244,28 +1784,27 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
       return { success: false, error: 'Only the host can admit participants' };
     }
 
-    const roomWaitingList = this.waitingRooms.get(payload.roomId);
-    if (!roomWaitingList || roomWaitingList.size === 0) {
+    // Clear waiting room
+    const waitingList = await this.rooms.clearWaitingRoom(payload.roomId);
+    if (waitingList.length === 0) {
       return { success: false, error: 'No participants in waiting room' };
     }
 
-    const sockets = await this.server.fetchSockets();
+    // Only the waiting sockets, not every socket on every node
+    const sockets = await this.server.in(waitingList.map((p) => p.socketId)).fetchSockets();
+    const connected = new Set(sockets.map((s) => s.id));
     let admittedCount = 0;
 
     // Admit all participants
-    for (const participant of roomWaitingList.values()) {
-      const participantSocket = sockets.find(s => s.id === participant.socketId);
-      if (participantSocket) {
-        participantSocket.emit(WsEvents.PARTICIPANT_ADMITTED, {
-          roomId: payload.roomId,
-        });
-        admittedCount++;
-      }
+    const admitted = waitingList.filter((participant) => connected.has(participant.socketId));
+    await this.rooms.markAdmitted(payload.roomId, ...admitted.map((participant) => participant.userId));
+    for (const participant of admitted) {
+      this.server.to(participant.socketId).emit(WsEvents.PARTICIPANT_ADMITTED, {
+        roomId: payload.roomId,
+      });
+      admittedCount++;
     }
 
-    // Clear waiting room
-    roomWaitingList.clear();
-
     // Notify host about updated waiting room
     this.server.to(payload.roomId).emit(WsEvents.WAITING_ROOM_UPDATED, {
       participants: [],
@@ -1276,6 +1815,700 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
     return { success: true, admittedCount };
   }
 
+  @SubscribeMessage(WsEvents.KNOCK)
+  async handleKnock(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.KNOCK>,
+  ): Promise<WsAck<typeof WsEvents.KNOCK>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 10);
+
+    const message = payload.message.trim();
+    if (!message || message.length > MAX_KNOCK_LENGTH) {
+      return { success: false, error: `Message must be 1-${MAX_KNOCK_LENGTH} characters` };
+    }
+
+    const roomId = await this.rooms.resolveRoomId(payload.roomId) || payload.roomId;
+    const participant = await this.rooms.knock(roomId, socket.data.userId, message);
+    if (!participant) {
+      return { success: false, error: 'You are not in the waiting room' };
+    }
+
+    this.server.to(roomId).emit(WsEvents.WAITING_ROOM_UPDATED, {
+      participants: await this.rooms.getWaitingParticipants(roomId),
+    });
+
+    return { success: true };
+  }
+
+  // ─── Recording Events ─────────────────────────────────────────
+
+  @SubscribeMessage(WsEvents.RECORDING_START)
+  async handleRecordingStart(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.RECORDING_START>,
+  ): Promise<WsAck<typeof WsEvents.RECORDING_START>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 10);
+    await this.assertRoomHost(payload.roomId, socket.data.userId, 'Only the host can record the meeting');
+
+    const status = await this.recording.start(payload.roomId, socket.data.userId);
+
+    this.server.to(payload.roomId).emit(WsEvents.RECORDING_STARTED, {
+      roomId: payload.roomId,
+      ...status,
+    });
+
+    return { success: true, ...status };
+  }
+
+  @SubscribeMessage(WsEvents.RECORDING_STOP)
+  async handleRecordingStop(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.RECORDING_STOP>,
+  ): Promise<WsAck<typeof WsEvents.RECORDING_STOP>> {
+    this.assertAuthenticated(socket);
+    await this.assertRoomHost(payload.roomId, socket.data.userId, 'Only the host can stop the recording');
+
+    const status = await this.recording.stop(payload.roomId, socket.data.userId);
+
+    this.server.to(payload.roomId).emit(WsEvents.RECORDING_STOPPED, {
+      roomId: payload.roomId,
+      recordingId: status.recordingId,
+    });
+
+    return { success: true, recordingId: status.recordingId };
+  }
+
+  // ─── Live Streaming Events ────────────────────────────────────
+
+  @SubscribeMessage(WsEvents.STREAM_START)
+  async handleStreamStart(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.STREAM_START>,
+  ): Promise<WsAck<typeof WsEvents.STREAM_START>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 10);
+    await this.assertRoomHost(payload.roomId, socket.data.userId, 'Only the host can start a live stream');
+
+    const status = await this.streaming.start(payload.roomId, socket.data.userId);
+
+    this.server.to(payload.roomId).emit(WsEvents.STREAM_STATUS, status);
+
+    return { success: true, ...status };
+  }
+
+  @SubscribeMessage(WsEvents.STREAM_STOP)
+  async handleStreamStop(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.STREAM_STOP>,
+  ): Promise<WsAck<typeof WsEvents.STREAM_STOP>> {
+    this.assertAuthenticated(socket);
+    await this.assertRoomHost(payload.roomId, socket.data.userId, 'Only the host can stop the live stream');
+
+    // The stopped status reaches the room through onStatusChange
+    const status = await this.streaming.stop(payload.roomId, socket.data.userId);
+
+    return { success: true, ...status };
+  }
+
+  // ─── Live Caption Events ──────────────────────────────────────
+
+  @SubscribeMessage(WsEvents.CAPTIONS_START)
+  async handleCaptionsStart(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.CAPTIONS_START>,
+  ): Promise<WsAck<typeof WsEvents.CAPTIONS_START>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 10);
+    await this.assertRoomHost(payload.roomId, socket.data.userId, 'Only the host can turn on live captions');
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    const status = await this.captions.start(payload.roomId, meetingId);
+
+    this.server.to(payload.roomId).emit(WsEvents.CAPTIONS_STATUS, status);
+
+    return { success: true, ...status };
+  }
+
+  @SubscribeMessage(WsEvents.CAPTIONS_STOP)
+  async handleCaptionsStop(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.CAPTIONS_STOP>,
+  ): Promise<WsAck<typeof WsEvents.CAPTIONS_STOP>> {
+    this.assertAuthenticated(socket);
+    await this.assertRoomHost(payload.roomId, socket.data.userId, 'Only the host can turn off live captions');
+
+    const status = await this.captions.stop(payload.roomId);
+
+    this.server.to(payload.roomId).emit(WsEvents.CAPTIONS_STATUS, status);
+
+    return { success: true, ...status };
+  }
+
+  // ─── Breakout Room Events ─────────────────────────────────────
+
+  @SubscribeMessage(WsEvents.BREAKOUT_CREATE)
+  async handleBreakoutCreate(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.BREAKOUT_CREATE>,
+  ): Promise<WsAck<typeof WsEvents.BREAKOUT_CREATE>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 10);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    const state = await this.rooms.createBreakoutRooms({
+      roomId: meetingId,
+      requestingUserId: socket.data.userId,
+      count: payload.count,
+      autoAssign: payload.autoAssign,
+    });
+
+    // Each breakout gets its own router, on the node hosting the meeting
+    for (const room of state.rooms) {
+      await this.webrtc.resolveMediaNode(room.id);
+      await this.webrtc.getRouterCapabilities(room.id);
+    }
+
+    await this.broadcastBreakoutState(meetingId);
+    return { success: true, breakouts: state };
+  }
+
+  @SubscribeMessage(WsEvents.BREAKOUT_ASSIGN)
+  async handleBreakoutAssign(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.BREAKOUT_ASSIGN>,
+  ): Promise<WsAck<typeof WsEvents.BREAKOUT_ASSIGN>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    const state = await this.rooms.assignBreakout({
+      roomId: meetingId,
+      requestingUserId: socket.data.userId,
+      userId: payload.userId,
+      breakoutRoomId: payload.breakoutRoomId,
+    });
+
+    // Once breakouts are open, reassigning someone moves them right away
+    if (state.open) {
+      const location = await this.rooms.findInMeeting(meetingId, payload.userId);
+      const target = payload.breakoutRoomId ?? meetingId;
+      if (location && location !== target) {
+        await this.moveToRoom(payload.userId, location, target);
+      }
+    }
+
+    await this.broadcastBreakoutState(meetingId);
+    return { success: true };
+  }
+
+  @SubscribeMessage(WsEvents.BREAKOUT_SHUFFLE)
+  async handleBreakoutShuffle(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.BREAKOUT_SHUFFLE>,
+  ): Promise<WsAck<typeof WsEvents.BREAKOUT_SHUFFLE>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 30);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    await this.rooms.assignBreakoutsRandomly(meetingId, socket.data.userId);
+
+    await this.broadcastBreakoutState(meetingId);
+    return { success: true };
+  }
+
+  @SubscribeMessage(WsEvents.BREAKOUT_OPEN)
+  async handleBreakoutOpen(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.BREAKOUT_OPEN>,
+  ): Promise<WsAck<typeof WsEvents.BREAKOUT_OPEN>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 10);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    const state = await this.rooms.openBreakoutRooms(meetingId, socket.data.userId);
+
+    // Send everyone still in the main room to the room they're assigned to
+    for (const [userId, breakoutRoomId] of Object.entries(state.assignments)) {
+      if (await this.rooms.getParticipant(meetingId, userId)) {
+        await this.moveToRoom(userId, meetingId, breakoutRoomId);
+      }
+    }
+
+    await this.broadcastBreakoutState(meetingId);
+    return { success: true };
+  }
+
+  @SubscribeMessage(WsEvents.BREAKOUT_JOIN)
+  async handleBreakoutJoin(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.BREAKOUT_JOIN>,
+  ): Promise<WsAck<typeof WsEvents.BREAKOUT_JOIN>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 30);
+
+    const userId = socket.data.userId;
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    await this.rooms.assertCanEnterBreakout({ roomId: meetingId, userId, toRoomId: payload.toRoomId });
+
+    const location = await this.rooms.findInMeeting(meetingId, userId);
+    if (!location) {
+      throw new WsRoomException('Not a participant in this room');
+    }
+
+    if (location !== payload.toRoomId) {
+      await this.moveToRoom(userId, location, payload.toRoomId);
+      await this.broadcastBreakoutState(meetingId);
+    }
+
+    return { success: true };
+  }
+
+  @SubscribeMessage(WsEvents.BREAKOUT_COUNTDOWN)
+  async handleBreakoutCountdown(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.BREAKOUT_COUNTDOWN>,
+  ): Promise<WsAck<typeof WsEvents.BREAKOUT_COUNTDOWN>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 10);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    const endsAt = await this.rooms.startBreakoutCountdown({
+      roomId: meetingId,
+      requestingUserId: socket.data.userId,
+      seconds: payload.seconds,
+    });
+
+    this.clearBreakoutTimer(meetingId);
+    this.breakoutTimers.set(
+      meetingId,
+      setTimeout(() => {
+        this.breakoutTimers.delete(meetingId);
+        this.recallBreakouts(meetingId).catch((error) => {
+          this.logger.error(`Failed to recall breakout rooms of ${meetingId}: ${(error as Error).message}`);
+        });
+      }, endsAt - Date.now()),
+    );
+
+    await this.broadcastBreakoutState(meetingId);
+    return { success: true, endsAt };
+  }
+
+  @SubscribeMessage(WsEvents.BREAKOUT_CLOSE)
+  async handleBreakoutClose(
+    @ConnectedSocket() socket: AppSocket,
+    @WsPayload() payload: WsRequest<typeof WsEvents.BREAKOUT_CLOSE>,
+  ): Promise<WsAck<typeof WsEvents.BREAKOUT_CLOSE>> {
+    this.assertAuthenticated(socket);
+    this.assertRateLimit(socket, 10);
+
+    const meetingId = await this.rooms.getMeetingId(payload.roomId);
+    await this.rooms.assertBreakoutManager(meetingId, socket.data.userId);
+    await this.recallBreakouts(meetingId, socket.data.userId);
+
+    return { success: true };
+  }
+
+  // ─── Captures ─────────────────────────────────────────────────
+
+  /** The room's producers changed: roll composites over and re-tap captioned microphones */
+  private refreshCaptures(roomId: string): void {
+    this.recording.refresh(roomId);
+    this.streaming.refresh(roomId);
+    this.captions.refresh(roomId);
+  }
+
+  private async stopCaptures(roomId: string): Promise<void> {
+    await this.recording.stopForRoom(roomId);
+    await this.streaming.stopForRoom(roomId);
+    await this.captions.stopForRoom(roomId);
+  }
+
+  // ─── Room Policy ──────────────────────────────────────────────
+
+  /** Screen sharing was turned off: close the shares it no longer allows */
+  private async revokeScreenShares(roomId: string): Promise<void> {
+    let closed = 0;
+
+    for (const share of this.webrtc.getProducersByLabel(roomId, SCREEN_SHARE_LABEL)) {
+      if (await this.policy.mayShareScreen(roomId, share.userId)) continue;
+
+      await this.webrtc.closeProducer({
+        roomId,
+        userId: share.userId,
+        producerId: share.producerId,
+      });
+      this.server.to(roomId).emit(WsEvents.PRODUCER_CLOSED, {
+        producerId: share.producerId,
+        userId: share.userId,
+      });
+      closed++;
+    }
+
+    if (closed > 0) {
+      this.refreshCaptures(roomId);
+    }
+  }
+
+  /** The whiteboard was turned off: close the DataChannels it no longer allows */
+  private async revokeWhiteboardData(roomId: string): Promise<void> {
+    for (const channel of this.webrtc.getDataProducersByLabel(roomId, WHITEBOARD_DATA_LABEL)) {
+      if (await this.policy.mayUseWhiteboard(roomId, channel.userId)) continue;
+
+      await this.webrtc.closeDataProducer(channel.dataProducerId);
+      this.server.to(roomId).emit(WsEvents.DATA_PRODUCER_CLOSED, {
+        dataProducerId: channel.dataProducerId,
+        userId: channel.userId,
+      });
+    }
+  }
+
+  // ─── Host Mute ────────────────────────────────────────────────
+
+  /**
+   * Pauses the user's microphone on the server and keeps it paused until a
+   * host asks them to unmute, whatever their client does.
+   */
+  private async enforceMute(roomId: string, userId: string): Promise<void> {
+    const producerIds = await this.webrtc.lockAudio(roomId, userId);
+
+    for (const producerId of producerIds) {
+      this.server.to(roomId).emit(WsEvents.PRODUCER_PAUSED, {
+        userId,
+        producerId,
+        kind: 'audio',
+      });
+    }
+
+    if (producerIds.length > 0) {
+      this.refreshCaptures(roomId);
+    }
+  }
+
+  // ─── Removal ──────────────────────────────────────────────────
+
+  /**
+   * Tears down a kicked or banned user's presence in the room and tells
+   * them and everyone else. `socket` is the host who removed them.
+   */
+  private async ejectUser(
+    socket: AppSocket,
+    roomId: string,
+    targetUserId: string,
+    kickedSocketId: string,
+    reason: string,
+  ): Promise<void> {
+    // Notify kicked user
+    this.server.to(kickedSocketId).emit(WsEvents.USER_KICKED, { roomId, reason });
+
+    // Clean up the kicked user's media
+    await this.webrtc.cleanupUserMedia(roomId, targetUserId);
+    this.refreshCaptures(roomId);
+    await this.engagement.left(await this.rooms.getMeetingId(roomId), targetUserId);
+
+    // The kicked socket may be connected to another node
+    await this.rooms.clearSocketRoom(kickedSocketId);
+    this.server.in(kickedSocketId).socketsLeave(roomId);
+
+    // Notify remaining participants
+    const participants = await this.rooms.getParticipants(roomId);
+    socket.to(roomId).emit(WsEvents.USER_LEFT, {
+      userId: targetUserId,
+      kicked: true,
+      participants,
+    });
+  }
+
+  // ─── Reconnect Grace ──────────────────────────────────────────
+
+  /**
+   * A participant's connection dropped: keep their seat, flagged as
+   * reconnecting, and only leave the room if they haven't resumed when the
+   * grace period ends.
+   */
+  private async holdSeat(roomId: string, userId: string, socketId: string): Promise<void> {
+    const participants = await this.rooms.markReconnecting({ roomId, userId, socketId });
+    // A newer connection already took the seat over
+    if (!participants) return;
+
+    await this.webrtc.cleanupUserMedia(roomId, userId);
+    this.refreshCaptures(roomId);
+    this.server.to(roomId).emit(WsEvents.USER_RECONNECTING, { userId, reconnecting: true, participants });
+
+    const meetingId = await this.rooms.getMeetingId(roomId);
+    await this.rooms.scheduleSeatRelease(meetingId, userId, Date.now() + this.rooms.reconnectGraceMs);
+
+    // The scheduler sweeps up the release if this node goes away first
+    const key = `${meetingId}:${userId}`;
+    clearTimeout(this.graceTimers.get(key));
+    this.graceTimers.set(
+      key,
+      setTimeout(() => {
+        this.graceTimers.delete(key);
+        this.expireHeldSeat(meetingId, userId).catch((error) => {
+          this.logger.error(`Failed to release seat of ${userId} in ${meetingId}: ${(error as Error).message}`);
+        });
+      }, this.rooms.reconnectGraceMs),
+    );
+  }
+
+  /**
+   * The grace period of a dropped participant ran out: leave the room for
+   * them unless they came back. Called by the local timer, or by the
+   * scheduler for seats whose timer was lost with another node.
+   */
+  async expireHeldSeat(meetingId: string, userId: string): Promise<void> {
+    // Whoever removes the pending release gets to do it
+    if (!(await this.rooms.cancelSeatRelease(meetingId, userId))) return;
+
+    // Breakouts may have moved the seat since the connection dropped
+    const seat = await this.rooms.findReconnecting(meetingId, userId);
+    if (!seat) return;
+
+    this.logger.log(`Reconnect grace period for ${userId} in ${seat.roomId} ran out`);
+    await this.completeLeave(seat.roomId, userId, seat.socketId);
+  }
+
+  /**
+   * A resumed session took its seat back: stop the grace timer and drop
+   * whatever the previous connection left behind, in case the server hadn't
+   * noticed it go.
+   */
+  private async releaseHeldSeat(
+    roomId: string,
+    userId: string,
+    previousSocketId: string,
+    socketId: string,
+  ): Promise<void> {
+    const meetingId = await this.rooms.getMeetingId(roomId);
+    const key = `${meetingId}:${userId}`;
+    clearTimeout(this.graceTimers.get(key));
+    this.graceTimers.delete(key);
+    await this.rooms.cancelSeatRelease(meetingId, userId);
+
+    if (previousSocketId === socketId) return;
+
+    await this.webrtc.cleanupUserMedia(roomId, userId);
+    await this.rooms.clearSocketRoom(previousSocketId);
+    this.server.in(previousSocketId).disconnectSockets(true);
+  }
+
+  /** Takes a participant out of the room for good and tells everyone */
+  private async completeLeave(roomId: string, userId: string, socketId: string): Promise<void> {
+    await this.webrtc.cleanupUserMedia(roomId, userId);
+
+    const result = await this.rooms.leaveRoom({ roomId, userId, socketId });
+
+    if (result.roomClosed) {
+      await this.teardownMeeting(result.meetingId, result.closedBreakoutIds, result.waitingSocketIds);
+    } else {
+      await this.engagement.left(result.meetingId, userId);
+      this.refreshCaptures(roomId);
+      this.server.to(roomId).emit(WsEvents.USER_LEFT, {
+        userId,
+        participants: result.remainingParticipants,
+      });
+      if (result.meetingId !== roomId) {
+        await this.broadcastBreakoutState(result.meetingId);
+      }
+    }
+  }
+
+  // ─── Breakout Rooms ───────────────────────────────────────────
+
+  /**
+   * What a client needs to (re)enter a room: router capabilities, existing
+   * producers and the room's live state. Answers room:join and is pushed
+   * with breakout:moved.
+   */
+  private async buildJoinSnapshot(
+    roomId: string,
+    userId: string,
+    result: { roomCode?: string; role: RoomRole; participants: RoomParticipant[] },
+  ) {
+    const rtpCapabilities = await this.webrtc.getRouterCapabilities(roomId);
+    const existingProducers = this.webrtc.getExistingProducers(roomId, userId);
+    const existingDataProducers = this.webrtc.getExistingDataProducers(roomId, userId);
+
+    const roomState = await this.rooms.getRoomState(roomId);
+    const meetingId = roomState?.parentRoomId ?? roomId;
+    const breakouts = await this.rooms.getBreakoutState(meetingId);
+
+    return {
+      roomId, // Return the actual room ID to the client
+      roomCode: result.roomCode ?? roomState?.roomCode,
+      role: result.role,
+      participants: result.participants,
+      rtpCapabilities,
+      existingProducers,
+      existingDataProducers,
+      roomType: roomState?.roomType,
+      allowScreenShare: roomState?.allowScreenShare,
+      allowWhiteboard: roomState?.allowWhiteboard,
+      locked: await this.rooms.isLocked(meetingId),
+      recording: this.recording.getStatus(roomId),
+      stream: this.streaming.getStatus(roomId),
+      captions: this.captions.getStatus(roomId),
+      mutedByHost: this.webrtc.isAudioLocked(roomId, userId),
+      parentRoomId: roomState?.parentRoomId,
+      breakoutName: roomState?.name,
+      breakouts: breakouts.rooms.length > 0 ? breakouts : undefined,
+    };
+  }
+
+  /**
+   * Moves a user between a meeting and its breakout rooms. Their media is
+   * torn down in the old room; the client rebuilds it from the snapshot
+   * sent with breakout:moved.
+   */
+  private async moveToRoom(userId: string, fromRoomId: string, toRoomId: string): Promise<void> {
+    const moved = await this.rooms.moveParticipant({ fromRoomId, toRoomId, userId });
+    if (!moved) return;
+
+    const { participant } = moved;
+    const wasMutedByHost = this.webrtc.isAudioLocked(fromRoomId, userId);
+
+    await this.webrtc.cleanupUserMedia(fromRoomId, userId);
+    if (wasMutedByHost) {
+      // A host mute follows the user into the next room
+      this.webrtc.releaseAudioLock(fromRoomId, userId);
+      await this.webrtc.lockAudio(toRoomId, userId);
+    }
+
+    await this.rooms.setSocketRoom(participant.socketId, toRoomId);
+    const local = this.server.sockets.sockets.get(participant.socketId) as AppSocket | undefined;
+    if (local) {
+      local.data.roomId = toRoomId;
+    }
+    this.server.in(participant.socketId).socketsLeave(fromRoomId);
+    this.server.in(participant.socketId).socketsJoin(toRoomId);
+
+    this.server.to(fromRoomId).emit(WsEvents.USER_LEFT, {
+      userId,
+      participants: moved.fromParticipants,
+    });
+    this.server.to(toRoomId).except(participant.socketId).emit(WsEvents.USER_JOINED, {
+      userId,
+      displayName: participant.displayName,
+      role: participant.role,
+      participants: moved.toParticipants,
+    });
+
+    const snapshot = await this.buildJoinSnapshot(toRoomId, userId, {
+      role: participant.role,
+      participants: moved.toParticipants,
+    });
+    this.server.to(participant.socketId).emit(WsEvents.BREAKOUT_MOVED, snapshot);
+
+    this.refreshCaptures(fromRoomId);
+    this.refreshCaptures(toRoomId);
+  }
+
+  /** The meeting's own room and its breakout rooms, to broadcast to all of them */
+  private async meetingRooms(meetingId: string): Promise<string[]> {
+    const state = await this.rooms.getBreakoutState(meetingId);
+    return [meetingId, ...state.rooms.map((r) => r.id)];
+  }
+
+  /**
+   * Stops a quiz taking answers and tells the meeting. Returns how many
+   * students handed it in, or null when it had already ended.
+   */
+  private async finishQuiz(meetingId: string, quizId: string): Promise<number | null> {
+    const { ended, submitted } = await this.quizzes.endQuiz(meetingId, quizId);
+    if (!ended) return null;
+
+    this.server.to(await this.meetingRooms(meetingId)).emit(WsEvents.QUIZ_ENDED, { quizId, roomId: meetingId });
+    return submitted;
+  }
+
+  /** Sends the meeting's breakout state to everyone in it and its breakouts */
+  private async broadcastBreakoutState(meetingId: string): Promise<void> {
+    const state = await this.rooms.getBreakoutState(meetingId);
+    this.server.to([meetingId, ...state.rooms.map((r) => r.id)]).emit(WsEvents.BREAKOUT_UPDATED, state);
+  }
+
+  /**
+   * Brings everyone back to the main room and closes the breakout rooms.
+   * `closedByUserId` is omitted when the countdown ran out.
+   */
+  private async recallBreakouts(meetingId: string, closedByUserId?: string): Promise<void> {
+    this.clearBreakoutTimer(meetingId);
+
+    const state = await this.rooms.getBreakoutState(meetingId);
+    for (const room of state.rooms) {
+      for (const userId of room.participantIds) {
+        await this.moveToRoom(userId, room.id, meetingId);
+      }
+    }
+
+    const closed = await this.rooms.closeBreakoutRooms(meetingId, closedByUserId);
+    for (const breakoutId of closed) {
+      await this.stopCaptures(breakoutId);
+      await this.webrtc.cleanupRoomMedia(breakoutId);
+    }
+
+    await this.broadcastBreakoutState(meetingId);
+  }
+
+  private clearBreakoutTimer(meetingId: string): void {
+    const timer = this.breakoutTimers.get(meetingId);
+    if (timer) {
+      clearTimeout(timer);
+      this.breakoutTimers.delete(meetingId);
+    }
+  }
+
+  // ─── Scheduler Hooks ──────────────────────────────────────────
+
+  /**
+   * Closes the meeting and its breakout rooms and removes everyone from
+   * them. `closedByUserId` is omitted when the scheduler closes it.
+   */
+  async closeMeeting(meetingId: string, closedByUserId?: string): Promise<void> {
+    const { closedBreakoutIds, waitingSocketIds } = await this.rooms.closeRoom(meetingId, closedByUserId);
+    const roomIds = [meetingId, ...closedBreakoutIds];
+
+    // Remove all sockets from the room
+    const sockets = await this.server.in(roomIds).fetchSockets();
+    await this.teardownMeeting(meetingId, closedBreakoutIds, waitingSocketIds);
+    await this.rooms.clearSocketRoom(...sockets.map((s) => s.id));
+    this.server.in(roomIds).socketsLeave(roomIds);
+  }
+
+  /** Tells everyone in the meeting, breakouts included, when it will close */
+  async warnMeetingEnding(meetingId: string, endsAt: Date, closesAt: Date): Promise<void> {
+    const state = await this.rooms.getBreakoutState(meetingId);
+    this.server.to([meetingId, ...state.rooms.map((r) => r.id)]).emit(WsEvents.ROOM_ENDING_SOON, {
+      roomId: meetingId,
+      endsAt: endsAt.getTime(),
+      closesAt: closesAt.getTime(),
+    });
+  }
+
+  /**
+   * The meeting closed: release media for it and every breakout room, and
+   * send away whoever was still waiting to be let in.
+   */
+  private async teardownMeeting(meetingId: string, breakoutIds: string[], waitingSocketIds: string[]): Promise<void> {
+    this.clearBreakoutTimer(meetingId);
+    await this.engagement.meetingClosed(meetingId);
+
+    for (const roomId of [meetingId, ...breakoutIds]) {
+      await this.stopCaptures(roomId);
+      await this.webrtc.cleanupRoomMedia(roomId);
+      this.server.to(roomId).emit(WsEvents.ROOM_CLOSED, { roomId });
+    }
+
+    if (waitingSocketIds.length > 0) {
+      this.server.to(waitingSocketIds).emit(WsEvents.PARTICIPANT_REJECTED, {
+        roomId: meetingId,
+        message: 'The meeting has ended',
+      });
+    }
+  }
+
   // ─── Guards ───────────────────────────────────────────────────
 
   private assertAuthenticated(socket: AppSocket): void {
@@ -1299,6 +2532,24 @@ export class ConferenceGateway implements OnGatewayConnection, OnGatewayDisconne
     }
   }
 
+  private async assertRoomHost(roomId: string, userId: string, message: string): Promise<void> {
+    const participant = await this.rooms.getParticipant(roomId, userId);
+    if (!participant || participant.role !== RoomRole.HOST) {
+      throw new WsRoomException(message);
+    }
+  }
+
+  /** Counts towards the room the socket sits in, whatever room the payload names */
+  private countEngagement(socket: AppSocket, counter: EngagementCounter): void {
+    if (socket.data.roomId) {
+      this.engagement.count(socket.data.roomId, socket.data.userId, counter);
+    }
+  }
+
+  private requester(socket: AppSocket): { id: string; role: UserRole } {
+    return { id: socket.data.userId, role: socket.data.userRole };
+  }
+
   private assertRateLimit(socket: AppSocket, maxHits = 120): void {
     if (this.rateLimiter.isRateLimited(socket.id, maxHits, 60_000)) {
       throw new Error('Rate limit exceeded');
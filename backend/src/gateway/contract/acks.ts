@@ -0,0 +1,159 @@
+import { WsEvents } from './events';
+import type {
+  BreakoutState,
+  CaptionsStatus,
+  ChatMessage,
+  MediaKind,
+  PollResults,
+  QnaQuestion,
+  ActiveQuiz,
+  QuizScore,
+  RecordingStatus,
+  RoomBan,
+  RoomSnapshot,
+  StreamStatus,
+  TransportCreated,
+  UserMediaStats,
+} from './models';
+
+interface Success {
+  success: true;
+}
+
+/** A refusal answered in the ack rather than raised as an `error` event */
+interface Failure {
+  success: false;
+  error: string;
+}
+
+/**
+ * What the gateway answers each request with. Errors thrown by a handler
+ * don't reach the ack; they are sent as an `error` event instead.
+ */
+export interface WsAcks {
+  // ─── Room ───────────────────────────────────────────────────────
+  [WsEvents.CREATE_ROOM]: { roomId: string; roomCode: string };
+  /** Keep `resumeToken` to take the seat back after a dropped connection */
+  [WsEvents.JOIN_ROOM]:
+    | (RoomSnapshot & { resumeToken: string })
+    | (Failure & {
+      /** The room lives on another node; reconnect there and retry */
+      redirectUrl: string;
+    });
+  [WsEvents.LEAVE_ROOM]: Success;
+  [WsEvents.CLOSE_ROOM]: Success;
+  [WsEvents.LOCK_ROOM]: Success & { locked: boolean };
+  [WsEvents.KICK_USER]: Success;
+  [WsEvents.BAN_USER]: Success & { bans: RoomBan[] };
+  [WsEvents.UNBAN_USER]: Success & { bans: RoomBan[] };
+  [WsEvents.LIST_BANS]: Success & { bans: RoomBan[] };
+  [WsEvents.MUTE_ALL]: Success & { mutedCount: number };
+  [WsEvents.MUTE_USER]: Success;
+  [WsEvents.REQUEST_UNMUTE]: Success;
+  [WsEvents.CHANGE_ROLE]: Success;
+  [WsEvents.HAND_RAISE]: Success & { handRaised: boolean };
+  [WsEvents.REACTION]: Success;
+  [WsEvents.UPDATE_ROOM_SETTINGS]: Success;
+  [WsEvents.PROMOTE_TO_STAGE]: Success;
+  [WsEvents.REMOVE_FROM_STAGE]: Success;
+  [WsEvents.VISIBILITY_CHANGE]: Success;
+
+  // ─── Media ──────────────────────────────────────────────────────
+  [WsEvents.GET_ROUTER_CAPABILITIES]: { rtpCapabilities: object };
+  [WsEvents.CREATE_TRANSPORT]: TransportCreated;
+  [WsEvents.CONNECT_TRANSPORT]: { connected: true };
+  [WsEvents.RESTART_ICE]: { iceParameters: object };
+  [WsEvents.PRODUCE]: { producerId: string };
+  [WsEvents.CONSUME]: { consumerId: string; producerId: string; kind: MediaKind; rtpParameters: object };
+  [WsEvents.PRODUCE_DATA]: { dataProducerId: string };
+  [WsEvents.CONSUME_DATA]: {
+    dataConsumerId: string;
+    dataProducerId: string;
+    sctpStreamParameters: object;
+    label: string;
+    protocol: string;
+  };
+  [WsEvents.RESUME_CONSUMER]: { resumed: true };
+  [WsEvents.SET_PREFERRED_LAYERS]: Success;
+  [WsEvents.CLOSE_PRODUCER]: { closed: true };
+  [WsEvents.PAUSE_PRODUCER]: { paused: true };
+  [WsEvents.RESUME_PRODUCER]: { resumed: true };
+  [WsEvents.MEDIA_STATE_CHANGE]: Success;
+  [WsEvents.GET_STATS]: { stats: UserMediaStats[] };
+
+  // ─── Whiteboard ─────────────────────────────────────────────────
+  [WsEvents.WHITEBOARD_DRAW]: Success;
+  [WsEvents.WHITEBOARD_CLEAR]: Success;
+  [WsEvents.WHITEBOARD_CURSOR]: Success;
+  [WsEvents.WHITEBOARD_OBJECT_MODIFIED]: Success;
+  [WsEvents.WHITEBOARD_OBJECT_REMOVED]: Success;
+  [WsEvents.WHITEBOARD_STATE]: Success;
+
+  // ─── Chat ───────────────────────────────────────────────────────
+  [WsEvents.CHAT_MESSAGE]: Success & { messageId: string };
+  [WsEvents.CHAT_PRIVATE_MESSAGE]: (Success & { messageId: string }) | Failure;
+  [WsEvents.CHAT_FILE_UPLOAD]: Success & { messageId: string };
+  [WsEvents.CHAT_TYPING]: Success;
+  [WsEvents.CHAT_HISTORY]: { messages: ChatMessage[] };
+
+  // ─── Q&A ────────────────────────────────────────────────────────
+  [WsEvents.QNA_ASK]: Success & { questionId: string };
+  [WsEvents.QNA_UPVOTE]: Success;
+  [WsEvents.QNA_ANSWER]: Success;
+  [WsEvents.QNA_DELETE]: Success;
+  [WsEvents.QNA_HISTORY]: { questions: QnaQuestion[] };
+
+  // ─── Polls ──────────────────────────────────────────────────────
+  [WsEvents.POLL_CREATE]: Success & { poll: PollResults };
+  [WsEvents.POLL_VOTE]: Success & { poll: PollResults; myVotes: string[] };
+  [WsEvents.POLL_CLOSE]: Success & { poll: PollResults };
+  /** Every poll of the meeting, newest first, with the options we picked */
+  [WsEvents.POLL_RESULTS]: { polls: Array<PollResults & { myVotes: string[] }> };
+
+  // ─── Quizzes ────────────────────────────────────────────────────
+  [WsEvents.QUIZ_LAUNCH]: Success & { quiz: ActiveQuiz };
+  [WsEvents.QUIZ_SUBMIT]: Success & { result: QuizScore };
+  [WsEvents.QUIZ_END]: Success & { quizId: string; submitted: number };
+  /** The meeting's running quiz, if any, and whether we already answered it */
+  [WsEvents.QUIZ_STATE]: { quiz: ActiveQuiz | null; submitted: boolean };
+
+  // ─── Waiting Room ───────────────────────────────────────────────
+  [WsEvents.JOIN_WAITING_ROOM]:
+    | (Success & {
+      message: string;
+      /** The host skips the queue */
+      isHost?: boolean;
+      /** An auto-admit rule matched; join the room straight away */
+      admitted?: boolean;
+      /** The resolved room ID when a room code was given */
+      roomId?: string;
+    })
+    | (Failure & {
+      /** The room lives on another node; reconnect there and retry */
+      redirectUrl?: string;
+      passcodeRequired?: boolean;
+    });
+  [WsEvents.ADMIT_PARTICIPANT]: Success | Failure;
+  [WsEvents.REJECT_PARTICIPANT]: Success | Failure;
+  [WsEvents.ADMIT_ALL]: (Success & { admittedCount: number }) | Failure;
+  [WsEvents.KNOCK]: Success | Failure;
+
+  // ─── Recording / Streaming ──────────────────────────────────────
+  [WsEvents.RECORDING_START]: Success & RecordingStatus;
+  [WsEvents.RECORDING_STOP]: Success & { recordingId: string };
+  [WsEvents.STREAM_START]: Success & StreamStatus;
+  [WsEvents.STREAM_STOP]: Success & StreamStatus;
+
+  // ─── Live Captions ──────────────────────────────────────────────
+  [WsEvents.CAPTIONS_START]: Success & CaptionsStatus;
+  [WsEvents.CAPTIONS_STOP]: Success & CaptionsStatus;
+
+  // ─── Breakout Rooms ─────────────────────────────────────────────
+  [WsEvents.BREAKOUT_CREATE]: Success & { breakouts: BreakoutState };
+  [WsEvents.BREAKOUT_ASSIGN]: Success;
+  [WsEvents.BREAKOUT_SHUFFLE]: Success;
+  [WsEvents.BREAKOUT_OPEN]: Success;
+  [WsEvents.BREAKOUT_JOIN]: Success;
+  [WsEvents.BREAKOUT_COUNTDOWN]: Success & { endsAt: number };
+  [WsEvents.BREAKOUT_CLOSE]: Success;
+}
@@ -0,0 +1,113 @@
+import { WsEvents } from './events';
+import type {
+  BreakoutState,
+  CaptionSegment,
+  CaptionsStatus,
+  ChatMessage,
+  MediaKind,
+  Participant,
+  PollResults,
+  QnaQuestion,
+  ActiveQuiz,
+  RecordingStatus,
+  RoomRole,
+  RoomSnapshot,
+  StreamStatus,
+  WaitingParticipant,
+} from './models';
+
+/** What the gateway pushes to clients with each server-initiated event */
+export interface WsBroadcasts {
+  [WsEvents.AUTHENTICATED]: { userId: string };
+  /** Sent on a failed handshake and by the exception filter for failed requests */
+  [WsEvents.ERROR]: { status?: string; message: string };
+
+  // ─── Room ───────────────────────────────────────────────────────
+  [WsEvents.USER_JOINED]: { userId: string; displayName: string; role: RoomRole; participants: Participant[] };
+  [WsEvents.USER_LEFT]: { userId: string; kicked?: boolean; participants: Participant[] };
+  [WsEvents.USER_RECONNECTING]: { userId: string; reconnecting: boolean; participants: Participant[] };
+  [WsEvents.ROOM_CLOSED]: { roomId: string };
+  /** The scheduled end is near; times are epoch ms */
+  [WsEvents.ROOM_ENDING_SOON]: { roomId: string; endsAt: number; closesAt: number };
+  [WsEvents.USER_KICKED]: { roomId: string; reason: string };
+  /** Sent for both mute-all and a single host mute; the mic stays locked */
+  [WsEvents.ALL_MUTED]: { roomId: string; mutedBy: string };
+  [WsEvents.USER_MUTED]: { roomId: string; mutedBy: string };
+  [WsEvents.UNMUTE_REQUESTED]: { roomId: string; requestedBy: string; requestedByName: string };
+  [WsEvents.ROLE_CHANGED]: { userId: string; newRole: RoomRole };
+  [WsEvents.HAND_RAISED]: { userId: string; handRaised: boolean };
+  [WsEvents.REACTION_RECEIVED]: { userId: string; reaction: string };
+  [WsEvents.ROOM_SETTINGS_UPDATED]: {
+    roomId: string;
+    settings: { allowScreenShare?: boolean; allowWhiteboard?: boolean; locked?: boolean };
+  };
+  [WsEvents.STAGE_UPDATED]: { roomId: string; userId: string; onStage: boolean };
+
+  // ─── Media ──────────────────────────────────────────────────────
+  [WsEvents.NEW_PRODUCER]: { producerId: string; userId: string; kind: MediaKind };
+  [WsEvents.NEW_DATA_PRODUCER]: { dataProducerId: string; userId: string; label: string };
+  [WsEvents.PRODUCER_CLOSED]: { producerId: string; userId: string };
+  [WsEvents.DATA_PRODUCER_CLOSED]: { dataProducerId: string; userId: string };
+  [WsEvents.PRODUCER_PAUSED]: { producerId: string; userId: string; kind: MediaKind };
+  [WsEvents.PRODUCER_RESUMED]: { producerId: string; userId: string; kind: MediaKind };
+  [WsEvents.PEER_MEDIA_UPDATE]: { userId: string; audioEnabled: boolean; videoEnabled: boolean };
+  /** Audio levels in dBov (-127 silence … 0 loudest) for users above the noise floor */
+  [WsEvents.ACTIVE_SPEAKER]: { activeSpeakerId: string | null; levels: Array<{ userId: string; volume: number }> };
+  /** The room's media was rebuilt on a fresh router; every transport is gone */
+  [WsEvents.RECONNECT_REQUIRED]: { roomId: string };
+
+  // ─── Whiteboard ─────────────────────────────────────────────────
+  [WsEvents.WHITEBOARD_DRAW]: { userId: string; elements: object[] };
+  [WsEvents.WHITEBOARD_CLEAR]: { userId: string };
+  [WsEvents.WHITEBOARD_CURSOR]: { userId: string; displayName: string; x: number; y: number };
+  [WsEvents.WHITEBOARD_OBJECT_ADDED]: { userId: string; displayName: string; object: object | undefined };
+  [WsEvents.WHITEBOARD_OBJECT_MODIFIED]: { userId: string; object: object };
+  [WsEvents.WHITEBOARD_OBJECT_REMOVED]: { userId: string; objectId: string };
+  [WsEvents.WHITEBOARD_STATE]: { userId: string; active: boolean };
+
+  // ─── Chat ───────────────────────────────────────────────────────
+  [WsEvents.CHAT_MESSAGE_RECEIVED]: ChatMessage;
+  [WsEvents.CHAT_PRIVATE_MESSAGE_RECEIVED]: ChatMessage;
+  [WsEvents.CHAT_FILE_RECEIVED]: ChatMessage;
+  [WsEvents.CHAT_USER_TYPING]: { userId: string; displayName: string; isTyping: boolean };
+
+  // ─── Q&A ────────────────────────────────────────────────────────
+  [WsEvents.QNA_QUESTION_ASKED]: QnaQuestion;
+  [WsEvents.QNA_QUESTION_UPDATED]: { questionId: string; upvotes: number };
+  [WsEvents.QNA_QUESTION_ANSWERED]: { questionId: string; isAnswered: boolean };
+  [WsEvents.QNA_QUESTION_DELETED]: { questionId: string };
+
+  // ─── Polls ──────────────────────────────────────────────────────
+  // Sent to the meeting and its breakout rooms, without voter names
+  [WsEvents.POLL_CREATED]: PollResults;
+  /** A vote came in or the poll was closed */
+  [WsEvents.POLL_UPDATED]: PollResults;
+
+  // ─── Quizzes ────────────────────────────────────────────────────
+  // Sent to the meeting and its breakout rooms
+  [WsEvents.QUIZ_STARTED]: ActiveQuiz;
+  /** Someone handed in their answers */
+  [WsEvents.QUIZ_PROGRESS]: { quizId: string; submitted: number };
+  /** Time ran out or the host ended it; answers are no longer taken */
+  [WsEvents.QUIZ_ENDED]: { quizId: string; roomId: string };
+
+  // ─── Waiting Room ───────────────────────────────────────────────
+  [WsEvents.PARTICIPANT_ADMITTED]: { roomId: string; message?: string };
+  [WsEvents.PARTICIPANT_REJECTED]: { roomId: string; message: string };
+  /** `waitingCount` is omitted when only the list changed */
+  [WsEvents.WAITING_ROOM_UPDATED]: { participants: WaitingParticipant[]; waitingCount?: number };
+
+  // ─── Recording / Streaming ──────────────────────────────────────
+  [WsEvents.RECORDING_STARTED]: RecordingStatus & { roomId: string };
+  [WsEvents.RECORDING_STOPPED]: { roomId: string; recordingId: string };
+  [WsEvents.STREAM_STATUS]: StreamStatus;
+
+  // ─── Live Captions ──────────────────────────────────────────────
+  [WsEvents.CAPTIONS_STATUS]: CaptionsStatus;
+  [WsEvents.CAPTIONS_SEGMENT]: CaptionSegment;
+
+  // ─── Breakout Rooms ─────────────────────────────────────────────
+  [WsEvents.BREAKOUT_UPDATED]: BreakoutState;
+  /** We were moved to another room of the meeting; rebuild media from it */
+  [WsEvents.BREAKOUT_MOVED]: RoomSnapshot;
+}
@@ -1,5 +1,5 @@
 /**
- * WebSocket event names used by the gateway.
+ * WebSocket event names shared by the gateway and both clients.
  * Centralised to prevent magic strings across the codebase.
  */
 export const WsEvents = {
@@ -8,52 +8,72 @@ export const WsEvents = {
   JOIN_ROOM: 'room:join',
   LEAVE_ROOM: 'room:leave',
   CLOSE_ROOM: 'room:close',
+  LOCK_ROOM: 'room:lock',
   KICK_USER: 'room:kick',
+  BAN_USER: 'room:ban',
+  UNBAN_USER: 'room:unban',
+  LIST_BANS: 'room:listBans',
   MUTE_ALL: 'room:muteAll',
+  MUTE_USER: 'room:muteUser',
+  REQUEST_UNMUTE: 'room:requestUnmute',
   CHANGE_ROLE: 'room:changeRole',
   HAND_RAISE: 'room:handRaise',
   REACTION: 'room:reaction',
   UPDATE_ROOM_SETTINGS: 'room:updateSettings',
+  PROMOTE_TO_STAGE: 'room:promoteToStage',
+  REMOVE_FROM_STAGE: 'room:removeFromStage',
+  VISIBILITY_CHANGE: 'room:visibilityChange',
 
   GET_ROUTER_CAPABILITIES: 'media:getRouterCapabilities',
   CREATE_TRANSPORT: 'media:createTransport',
   CONNECT_TRANSPORT: 'media:connectTransport',
+  RESTART_ICE: 'media:restartIce',
   PRODUCE: 'media:produce',
   CONSUME: 'media:consume',
+  PRODUCE_DATA: 'media:produceData',
+  CONSUME_DATA: 'media:consumeData',
   RESUME_CONSUMER: 'media:resumeConsumer',
+  SET_PREFERRED_LAYERS: 'media:setPreferredLayers',
   CLOSE_PRODUCER: 'media:closeProducer',
   PAUSE_PRODUCER: 'media:pauseProducer',
   RESUME_PRODUCER: 'media:resumeProducer',
   MEDIA_STATE_CHANGE: 'media:stateChange',
+  GET_STATS: 'media:getStats',
 
   // ─── Server → Client ───────────────────────────────────────────
   AUTHENTICATED: 'authenticated',
-  ROOM_CREATED: 'room:created',
   USER_JOINED: 'room:userJoined',
   USER_LEFT: 'room:userLeft',
+  USER_RECONNECTING: 'room:userReconnecting',
   ROOM_CLOSED: 'room:closed',
+  ROOM_ENDING_SOON: 'room:endingSoon',
   USER_KICKED: 'room:userKicked',
   ALL_MUTED: 'room:allMuted',
+  USER_MUTED: 'room:userMuted',
+  UNMUTE_REQUESTED: 'room:unmuteRequested',
   ROLE_CHANGED: 'room:roleChanged',
   HAND_RAISED: 'room:handRaised',
   REACTION_RECEIVED: 'room:reactionReceived',
   ROOM_SETTINGS_UPDATED: 'room:settingsUpdated',
+  STAGE_UPDATED: 'room:stageUpdated',
 
   NEW_PRODUCER: 'media:newProducer',
+  NEW_DATA_PRODUCER: 'media:newDataProducer',
   PRODUCER_CLOSED: 'media:producerClosed',
+  DATA_PRODUCER_CLOSED: 'media:dataProducerClosed',
   PRODUCER_PAUSED: 'media:producerPaused',
   PRODUCER_RESUMED: 'media:producerResumed',
   PEER_MEDIA_UPDATE: 'media:peerUpdate',
+  ACTIVE_SPEAKER: 'media:activeSpeaker',
+  RECONNECT_REQUIRED: 'media:reconnectRequired',
 
   // Whiteboard
   WHITEBOARD_DRAW: 'whiteboard:draw',
   WHITEBOARD_CLEAR: 'whiteboard:clear',
-  WHITEBOARD_UNDO: 'whiteboard:undo',
   WHITEBOARD_CURSOR: 'whiteboard:cursor',
   WHITEBOARD_OBJECT_ADDED: 'whiteboard:objectAdded',
   WHITEBOARD_OBJECT_MODIFIED: 'whiteboard:objectModified',
   WHITEBOARD_OBJECT_REMOVED: 'whiteboard:objectRemoved',
-  WHITEBOARD_LOAD: 'whiteboard:load',
   WHITEBOARD_STATE: 'whiteboard:state',
 
   // Chat
@@ -78,15 +98,62 @@ export const WsEvents = {
   QNA_QUESTION_ANSWERED: 'qna:questionAnswered',
   QNA_QUESTION_DELETED: 'qna:questionDeleted',
 
+  // Polls
+  POLL_CREATE: 'poll:create',
+  POLL_VOTE: 'poll:vote',
+  POLL_CLOSE: 'poll:close',
+  POLL_RESULTS: 'poll:results',
+  POLL_CREATED: 'poll:created',
+  POLL_UPDATED: 'poll:updated',
+
+  // Quizzes
+  QUIZ_LAUNCH: 'quiz:launch',
+  QUIZ_SUBMIT: 'quiz:submit',
+  QUIZ_END: 'quiz:end',
+  QUIZ_STATE: 'quiz:state',
+  QUIZ_STARTED: 'quiz:started',
+  QUIZ_PROGRESS: 'quiz:progress',
+  QUIZ_ENDED: 'quiz:ended',
+
   // Waiting Room
   JOIN_WAITING_ROOM: 'waitingRoom:join',
   ADMIT_PARTICIPANT: 'waitingRoom:admit',
   REJECT_PARTICIPANT: 'waitingRoom:reject',
   ADMIT_ALL: 'waitingRoom:admitAll',
-  WAITING_PARTICIPANT_JOINED: 'waitingRoom:participantJoined',
+  KNOCK: 'waitingRoom:knock',
   PARTICIPANT_ADMITTED: 'waitingRoom:participantAdmitted',
   PARTICIPANT_REJECTED: 'waitingRoom:participantRejected',
   WAITING_ROOM_UPDATED: 'waitingRoom:updated',
 
+  // Recording
+  RECORDING_START: 'recording:start',
+  RECORDING_STOP: 'recording:stop',
+  RECORDING_STARTED: 'recording:started',
+  RECORDING_STOPPED: 'recording:stopped',
+
+  // Live streaming
+  STREAM_START: 'stream:start',
+  STREAM_STOP: 'stream:stop',
+  STREAM_STATUS: 'stream:status',
+
+  // Live captions
+  CAPTIONS_START: 'captions:start',
+  CAPTIONS_STOP: 'captions:stop',
+  CAPTIONS_STATUS: 'captions:status',
+  CAPTIONS_SEGMENT: 'captions:segment',
+
+  // Breakout rooms
+  BREAKOUT_CREATE: 'breakout:create',
+  BREAKOUT_ASSIGN: 'breakout:assign',
+  BREAKOUT_SHUFFLE: 'breakout:shuffle',
+  BREAKOUT_OPEN: 'breakout:open',
+  BREAKOUT_JOIN: 'breakout:join',
+  BREAKOUT_COUNTDOWN: 'breakout:countdown',
+  BREAKOUT_CLOSE: 'breakout:close',
+  BREAKOUT_UPDATED: 'breakout:updated',
+  BREAKOUT_MOVED: 'breakout:moved',
+
   ERROR: 'error',
 } as const;
+
+export type WsEventName = (typeof WsEvents)[keyof typeof WsEvents];
@@ -0,0 +1,47 @@
+/**
+ * The WebSocket contract between the gateway and its clients: event names,
+ * request schemas (validated at runtime by the gateway), acks and
+ * broadcasts. Both frontends import this module directly, so a change on
+ * either side that the other doesn't follow fails to compile.
+ */
+import type { WsEventName } from './events';
+import type { WsRequest, WsRequestEvent } from './requests';
+import type { WsAcks } from './acks';
+import type { WsBroadcasts } from './broadcasts';
+
+export { WsEvents } from './events';
+export type { WsEventName } from './events';
+export { WsRequestSchemas, MAX_KNOCK_LENGTH, MAX_POLL_OPTIONS, MAX_QUIZ_QUESTIONS, parseWsRequest } from './requests';
+export type { WsRequest, WsRequestEvent } from './requests';
+export type { WsAcks } from './acks';
+export type { WsBroadcasts } from './broadcasts';
+export { SchemaError } from './schema';
+export type * from './models';
+
+export type WsAck<E extends WsRequestEvent> = WsAcks[E];
+
+/** Events the gateway pushes without being asked */
+export type WsBroadcastEvent = keyof WsBroadcasts;
+
+export type WsBroadcast<E extends WsBroadcastEvent> = WsBroadcasts[E];
+
+/** socket.io event map for `emit` on a client socket */
+export type ClientToServerEvents = {
+  [E in WsRequestEvent]: (payload: WsRequest<E>, ack?: (response: WsAck<E>) => void) => void;
+};
+
+/** socket.io event map for `emit` on the server and `on` on a client */
+export type ServerToClientEvents = {
+  [E in WsBroadcastEvent]: (payload: WsBroadcast<E>) => void;
+};
+
+type AssertNever<T extends never> = T;
+
+/**
+ * Fails to compile when an event has neither a request nor a broadcast, or
+ * a request has no ack.
+ */
+export type ContractCoverage = AssertNever<
+  | Exclude<WsEventName, WsRequestEvent | WsBroadcastEvent>
+  | Exclude<WsRequestEvent, keyof WsAcks>
+>;
@@ -0,0 +1,269 @@
+/**
+ * Data shapes carried by acks and broadcasts. Enums are spelled out as
+ * string unions so clients don't need the backend's enum modules; the
+ * backend's own types must stay assignable to these.
+ */
+
+export type RoomRole = 'host' | 'co_host' | 'participant';
+
+export type RoomType = 'meeting' | 'webinar';
+
+export type MediaKind = 'audio' | 'video';
+
+export interface Participant {
+  userId: string;
+  displayName: string;
+  socketId: string;
+  role: RoomRole;
+  joinedAt: number;
+  producerIds: string[];
+  isMuted: boolean;
+  isVideoOff: boolean;
+  handRaised?: boolean;
+  /** Webinar attendee currently invited to send media */
+  onStage?: boolean;
+  /** Connection dropped; the seat is held for the reconnect grace period */
+  reconnecting?: boolean;
+}
+
+export interface WaitingParticipant {
+  userId: string;
+  displayName: string;
+  socketId: string;
+  joinedAt: number;
+  /** Short note to the host sent from the waiting room */
+  knockMessage?: string;
+  knockedAt?: number;
+}
+
+/** Someone banned from a meeting, as listed to its hosts */
+export interface RoomBan {
+  userId: string;
+  displayName: string;
+  bannedAt: number | null;
+  bannedBy: string | null;
+  reason: string | null;
+}
+
+export interface BreakoutRoomInfo {
+  id: string;
+  name: string;
+  /** Users currently inside the breakout */
+  participantIds: string[];
+}
+
+/** Someone in the meeting and which of its rooms they're in */
+export interface BreakoutParticipant {
+  userId: string;
+  displayName: string;
+  role: RoomRole;
+  roomId: string;
+}
+
+/** A meeting's breakout rooms, as shown to everyone in the meeting */
+export interface BreakoutState {
+  roomId: string;
+  rooms: BreakoutRoomInfo[];
+  /** Everyone in the main room or a breakout */
+  participants: BreakoutParticipant[];
+  /** userId → breakout room ID */
+  assignments: Record<string, string>;
+  open: boolean;
+  /** When the countdown recalls everyone, if one is running */
+  endsAt: number | null;
+}
+
+export interface RecordingStatus {
+  recordingId: string;
+  startedAt: number;
+}
+
+export type StreamState = 'live' | 'reconnecting' | 'stopped' | 'failed';
+
+export interface StreamStatus {
+  roomId: string;
+  state: StreamState;
+  startedAt: number | null;
+  error?: string;
+}
+
+export interface CaptionsStatus {
+  roomId: string;
+  active: boolean;
+  startedAt: number | null;
+}
+
+/** One utterance from the live transcription */
+export interface CaptionSegment {
+  id: string;
+  roomId: string;
+  userId: string;
+  displayName: string;
+  text: string;
+  startedAt: number;
+  endedAt: number;
+}
+
+/** Server-side transport stats for one participant */
+export interface UserMediaStats {
+  userId: string;
+  /** What the user publishes (client → SFU) */
+  upstream: {
+    /** bits per second */
+    bitrate: number;
+    /** Fraction of packets lost, 0–1 */
+    packetLoss: number;
+    /** milliseconds */
+    jitter: number | null;
+  };
+  /** What the user receives (SFU → client) */
+  downstream: {
+    bitrate: number;
+    packetLoss: number;
+    /** Bandwidth estimate towards the client, bits per second */
+    availableBitrate: number | null;
+  };
+  /** Round-trip time in milliseconds, from RTCP receiver reports */
+  rtt: number | null;
+}
+
+/**
+ * Everything a client needs to (re)enter a room. Answers room:join and is
+ * pushed with breakout:moved. mediasoup objects are left as `object`; each
+ * side casts them to its own mediasoup types.
+ */
+export interface RoomSnapshot {
+  roomId: string;
+  roomCode?: string;
+  role: RoomRole;
+  participants: Participant[];
+  rtpCapabilities: object;
+  existingProducers: Array<{ producerId: string; userId: string; kind: MediaKind }>;
+  existingDataProducers: Array<{ dataProducerId: string; userId: string; label: string }>;
+  roomType?: RoomType;
+  allowScreenShare?: boolean;
+  allowWhiteboard?: boolean;
+  locked: boolean;
+  recording: RecordingStatus | null;
+  stream: StreamStatus | null;
+  captions: CaptionsStatus | null;
+  /** A host mute is still in force from before a rejoin */
+  mutedByHost: boolean;
+  /** Set on breakout rooms: the meeting they belong to */
+  parentRoomId?: string;
+  breakoutName?: string;
+  /** The meeting's breakout rooms, if any are set up */
+  breakouts?: BreakoutState;
+}
+
+export interface TransportCreated {
+  id: string;
+  iceParameters: object;
+  iceCandidates: object[];
+  dtlsParameters: object;
+  /** Present when the transport was created with SCTP enabled */
+  sctpParameters?: object;
+}
+
+export type ChatMessageType = 'text' | 'private' | 'file';
+
+export interface ChatMessage {
+  id: string;
+  roomId: string;
+  userId: string;
+  displayName: string;
+  profilePictureUrl?: string | null;
+  message?: string | null;
+  /** Private messages only */
+  targetUserId?: string;
+  fileName?: string | null;
+  fileType?: string | null;
+  /** Sent live with file messages; history carries `fileUrl` instead */
+  fileData?: string;
+  fileSize?: number | null;
+  fileUrl?: string | null;
+  /** ISO 8601 */
+  timestamp: string;
+  type: ChatMessageType;
+}
+
+export type PollType = 'single' | 'multiple' | 'rating';
+
+export interface PollOptionResult {
+  id: string;
+  label: string;
+  votes: number;
+  /** Named polls only, and only sent to hosts and co-hosts */
+  voters?: Array<{ userId: string; displayName: string }>;
+}
+
+/** A poll and its running tally */
+export interface PollResults {
+  id: string;
+  /** The meeting, also for polls run from one of its breakout rooms */
+  roomId: string;
+  question: string;
+  type: PollType;
+  anonymous: boolean;
+  closed: boolean;
+  createdBy: string;
+  /** ISO 8601 */
+  createdAt: string;
+  closedAt: string | null;
+  /** Rating polls list one option per point, lowest first */
+  options: PollOptionResult[];
+  /** People who voted, whatever the number of options they picked */
+  totalVoters: number;
+  /** Rating polls only: mean of the points given */
+  averageRating: number | null;
+}
+
+export type QuizQuestionType = 'single' | 'multiple' | 'short_answer' | 'open';
+
+/** A quiz question as students see it: no answer key */
+export interface QuizItem {
+  id: string;
+  position: number;
+  type: QuizQuestionType;
+  prompt: string;
+  /** Choice questions only */
+  choices: string[];
+  points: number;
+}
+
+/** A running quiz */
+export interface ActiveQuiz {
+  id: string;
+  /** The meeting, also for quizzes launched from one of its breakout rooms */
+  roomId: string;
+  subjectId: string;
+  title: string;
+  items: QuizItem[];
+  /** ISO 8601 */
+  startedAt: string;
+  /** ISO 8601; answers are taken until then */
+  endsAt: string;
+}
+
+export interface QuizScore {
+  quizId: string;
+  score: number;
+  maxScore: number;
+  /** Open answers count once the teacher has graded them */
+  pendingGrading: boolean;
+}
+
+export interface QnaQuestion {
+  id: string;
+  roomId: string;
+  userId: string;
+  displayName: string;
+  profilePictureUrl?: string | null;
+  content: string;
+  upvotes: number;
+  isAnswered: boolean;
+  /** ISO 8601 */
+  timestamp: string;
+  /** Whether the requesting user upvoted it */
+  isUpvoted: boolean;
+}
@@ -0,0 +1,331 @@
+import { WsEvents } from './events';
+import { s } from './schema';
+import type { Infer } from './schema';
+
+/** Longest note a waiting user can send the host */
+export const MAX_KNOCK_LENGTH = 200;
+
+/** Most choices a single or multiple choice poll can offer */
+export const MAX_POLL_OPTIONS = 10;
+
+/** Most questions a single quiz can ask */
+export const MAX_QUIZ_QUESTIONS = 50;
+
+const roomOnly = s.object({ roomId: s.string() });
+
+const roomTarget = s.object({
+  roomId: s.string(),
+  targetUserId: s.string(),
+});
+
+const roomQuestion = s.object({
+  roomId: s.string(),
+  questionId: s.string(),
+});
+
+const roomWaitingUser = s.object({
+  roomId: s.string(),
+  userId: s.string(),
+});
+
+const producerOnly = s.object({ producerId: s.string() });
+
+/**
+ * What clients send with each event. The gateway parses every payload
+ * against its schema before the handler runs; unknown keys are dropped.
+ */
+export const WsRequestSchemas = {
+  // ─── Room ───────────────────────────────────────────────────────
+  [WsEvents.CREATE_ROOM]: s.object({
+    title: s.string({ min: 1, max: 255, trim: true }),
+    maxParticipants: s.optional(s.number({ integer: true, min: 1 })),
+    roomType: s.optional(s.oneOf('meeting', 'webinar')),
+  }),
+  [WsEvents.JOIN_ROOM]: s.object({
+    roomId: s.string(),
+    /** Required by meetings that have a passcode */
+    passcode: s.optional(s.string()),
+    /** From the previous join: take back a seat held after a dropped connection */
+    resumeToken: s.optional(s.string()),
+  }),
+  [WsEvents.LEAVE_ROOM]: roomOnly,
+  [WsEvents.CLOSE_ROOM]: roomOnly,
+  [WsEvents.LOCK_ROOM]: s.object({
+    roomId: s.string(),
+    locked: s.boolean(),
+  }),
+  [WsEvents.KICK_USER]: roomTarget,
+  [WsEvents.BAN_USER]: s.object({
+    roomId: s.string(),
+    targetUserId: s.string(),
+    reason: s.optional(s.string()),
+  }),
+  [WsEvents.UNBAN_USER]: roomTarget,
+  [WsEvents.LIST_BANS]: roomOnly,
+  [WsEvents.MUTE_ALL]: roomOnly,
+  [WsEvents.MUTE_USER]: roomTarget,
+  [WsEvents.REQUEST_UNMUTE]: roomTarget,
+  [WsEvents.CHANGE_ROLE]: s.object({
+    roomId: s.string(),
+    targetUserId: s.string(),
+    newRole: s.oneOf('co_host', 'participant'),
+  }),
+  [WsEvents.HAND_RAISE]: roomOnly,
+  [WsEvents.REACTION]: s.object({
+    roomId: s.string(),
+    reaction: s.string({ min: 1, max: 32 }),
+  }),
+  [WsEvents.UPDATE_ROOM_SETTINGS]: s.object({
+    roomId: s.string(),
+    settings: s.object({
+      allowScreenShare: s.optional(s.boolean()),
+      allowWhiteboard: s.optional(s.boolean()),
+    }),
+  }),
+  [WsEvents.PROMOTE_TO_STAGE]: roomTarget,
+  [WsEvents.REMOVE_FROM_STAGE]: roomTarget,
+  /** Whether the meeting tab is in front; feeds engagement tracking */
+  [WsEvents.VISIBILITY_CHANGE]: s.object({
+    roomId: s.string(),
+    visible: s.boolean(),
+  }),
+
+  // ─── Media ──────────────────────────────────────────────────────
+  [WsEvents.GET_ROUTER_CAPABILITIES]: roomOnly,
+  [WsEvents.CREATE_TRANSPORT]: s.object({
+    roomId: s.string(),
+    direction: s.oneOf('send', 'recv'),
+    /** Sent by clients that can open DataChannels */
+    sctpCapabilities: s.optional(s.opaque()),
+  }),
+  [WsEvents.CONNECT_TRANSPORT]: s.object({
+    transportId: s.string(),
+    dtlsParameters: s.opaque(),
+  }),
+  [WsEvents.RESTART_ICE]: s.object({ transportId: s.string() }),
+  [WsEvents.PRODUCE]: s.object({
+    roomId: s.string(),
+    transportId: s.string(),
+    kind: s.oneOf('audio', 'video'),
+    rtpParameters: s.opaque(),
+    appData: s.optional(s.record()),
+  }),
+  [WsEvents.CONSUME]: s.object({
+    roomId: s.string(),
+    transportId: s.string(),
+    producerId: s.string(),
+    rtpCapabilities: s.opaque(),
+  }),
+  [WsEvents.PRODUCE_DATA]: s.object({
+    roomId: s.string(),
+    transportId: s.string(),
+    sctpStreamParameters: s.opaque(),
+    label: s.optional(s.string()),
+    protocol: s.optional(s.string()),
+  }),
+  [WsEvents.CONSUME_DATA]: s.object({
+    roomId: s.string(),
+    transportId: s.string(),
+    dataProducerId: s.string(),
+  }),
+  [WsEvents.RESUME_CONSUMER]: s.object({ consumerId: s.string() }),
+  [WsEvents.SET_PREFERRED_LAYERS]: s.object({
+    consumerId: s.string(),
+    spatialLayer: s.number({ integer: true, min: 0 }),
+    temporalLayer: s.optional(s.number({ integer: true, min: 0 })),
+    priority: s.optional(s.number({ integer: true, min: 1 })),
+  }),
+  [WsEvents.CLOSE_PRODUCER]: s.object({
+    roomId: s.string(),
+    producerId: s.string(),
+  }),
+  [WsEvents.PAUSE_PRODUCER]: producerOnly,
+  [WsEvents.RESUME_PRODUCER]: producerOnly,
+  [WsEvents.MEDIA_STATE_CHANGE]: s.object({
+    roomId: s.string(),
+    audioEnabled: s.boolean(),
+    videoEnabled: s.boolean(),
+  }),
+  [WsEvents.GET_STATS]: s.object({
+    roomId: s.string(),
+    /** Omit for the whole room (host / co-host only) */
+    userId: s.optional(s.string()),
+  }),
+
+  // ─── Whiteboard ─────────────────────────────────────────────────
+  [WsEvents.WHITEBOARD_DRAW]: s.object({
+    roomId: s.string(),
+    /** A single added object, from clients that don't sync whole scenes */
+    object: s.optional(s.opaque()),
+    /** Full scene snapshot */
+    elements: s.optional(s.array(s.opaque())),
+  }),
+  [WsEvents.WHITEBOARD_CLEAR]: roomOnly,
+  [WsEvents.WHITEBOARD_CURSOR]: s.object({
+    roomId: s.string(),
+    x: s.number(),
+    y: s.number(),
+  }),
+  [WsEvents.WHITEBOARD_OBJECT_MODIFIED]: s.object({
+    roomId: s.string(),
+    object: s.opaque(),
+  }),
+  [WsEvents.WHITEBOARD_OBJECT_REMOVED]: s.object({
+    roomId: s.string(),
+    objectId: s.string(),
+  }),
+  [WsEvents.WHITEBOARD_STATE]: s.object({
+    roomId: s.string(),
+    active: s.boolean(),
+  }),
+
+  // ─── Chat ───────────────────────────────────────────────────────
+  [WsEvents.CHAT_MESSAGE]: s.object({
+    roomId: s.string(),
+    message: s.string({ min: 1 }),
+  }),
+  [WsEvents.CHAT_PRIVATE_MESSAGE]: s.object({
+    roomId: s.string(),
+    targetUserId: s.string(),
+    message: s.string({ min: 1 }),
+  }),
+  [WsEvents.CHAT_FILE_UPLOAD]: s.object({
+    roomId: s.string(),
+    fileName: s.string({ min: 1, max: 255 }),
+    fileType: s.string({ max: 100 }),
+    /** Data URL */
+    fileData: s.string(),
+    fileSize: s.number({ integer: true, min: 0 }),
+  }),
+  [WsEvents.CHAT_TYPING]: s.object({
+    roomId: s.string(),
+    isTyping: s.boolean(),
+  }),
+  [WsEvents.CHAT_HISTORY]: roomOnly,
+
+  // ─── Q&A ────────────────────────────────────────────────────────
+  [WsEvents.QNA_ASK]: s.object({
+    roomId: s.string(),
+    content: s.string({ min: 1, trim: true }),
+  }),
+  [WsEvents.QNA_UPVOTE]: roomQuestion,
+  [WsEvents.QNA_ANSWER]: roomQuestion,
+  [WsEvents.QNA_DELETE]: roomQuestion,
+  [WsEvents.QNA_HISTORY]: roomOnly,
+
+  // ─── Polls ──────────────────────────────────────────────────────
+  [WsEvents.POLL_CREATE]: s.object({
+    roomId: s.string(),
+    question: s.string({ min: 1, max: 500, trim: true }),
+    type: s.oneOf('single', 'multiple', 'rating'),
+    /** Choice polls need 2 to MAX_POLL_OPTIONS; ignored for rating polls */
+    options: s.optional(s.array(s.string({ min: 1, max: 200, trim: true }), { max: MAX_POLL_OPTIONS })),
+    /** Rating polls: points from 1 up to this; defaults to 5 */
+    scale: s.optional(s.number({ integer: true, min: 2, max: 10 })),
+    /** Hide who voted for what, from hosts and from the export too */
+    anonymous: s.optional(s.boolean()),
+  }),
+  [WsEvents.POLL_VOTE]: s.object({
+    roomId: s.string(),
+    pollId: s.string(),
+    /** Replaces any earlier vote; exactly one unless the poll is multiple choice */
+    optionIds: s.array(s.string(), { max: MAX_POLL_OPTIONS }),
+  }),
+  [WsEvents.POLL_CLOSE]: s.object({
+    roomId: s.string(),
+    pollId: s.string(),
+  }),
+  [WsEvents.POLL_RESULTS]: roomOnly,
+
+  // ─── Quizzes ────────────────────────────────────────────────────
+  [WsEvents.QUIZ_LAUNCH]: s.object({
+    roomId: s.string(),
+    title: s.string({ min: 1, max: 200, trim: true }),
+    /** Defaults to the meeting's subject */
+    subjectId: s.optional(s.string()),
+    /** From the subject's question bank, in the order they are asked */
+    questionIds: s.array(s.string(), { min: 1, max: MAX_QUIZ_QUESTIONS }),
+    durationSeconds: s.number({ integer: true, min: 30, max: 3600 }),
+  }),
+  [WsEvents.QUIZ_SUBMIT]: s.object({
+    roomId: s.string(),
+    quizId: s.string(),
+    /** Unanswered items may be left out */
+    answers: s.array(
+      s.object({
+        itemId: s.string(),
+        /** Choice questions: indexes of the picked choices */
+        choices: s.optional(s.array(s.number({ integer: true, min: 0 }))),
+        /** Short answer and open questions */
+        text: s.optional(s.string({ max: 2000, trim: true })),
+      }),
+      { max: MAX_QUIZ_QUESTIONS },
+    ),
+  }),
+  [WsEvents.QUIZ_END]: s.object({
+    roomId: s.string(),
+    quizId: s.string(),
+  }),
+  [WsEvents.QUIZ_STATE]: roomOnly,
+
+  // ─── Waiting Room ───────────────────────────────────────────────
+  [WsEvents.JOIN_WAITING_ROOM]: s.object({
+    roomId: s.string(),
+    passcode: s.optional(s.string()),
+  }),
+  [WsEvents.ADMIT_PARTICIPANT]: roomWaitingUser,
+  [WsEvents.REJECT_PARTICIPANT]: roomWaitingUser,
+  [WsEvents.ADMIT_ALL]: roomOnly,
+  [WsEvents.KNOCK]: s.object({
+    roomId: s.string(),
+    /** Note for the host, e.g. who you are; 1 to MAX_KNOCK_LENGTH characters */
+    message: s.string(),
+  }),
+
+  // ─── Recording / Streaming ──────────────────────────────────────
+  [WsEvents.RECORDING_START]: roomOnly,
+  [WsEvents.RECORDING_STOP]: roomOnly,
+  [WsEvents.STREAM_START]: roomOnly,
+  [WsEvents.STREAM_STOP]: roomOnly,
+
+  // ─── Live Captions ──────────────────────────────────────────────
+  [WsEvents.CAPTIONS_START]: roomOnly,
+  [WsEvents.CAPTIONS_STOP]: roomOnly,
+
+  // ─── Breakout Rooms ─────────────────────────────────────────────
+  // roomId is the main room or any of its breakout rooms
+  [WsEvents.BREAKOUT_CREATE]: s.object({
+    roomId: s.string(),
+    count: s.number({ integer: true, min: 1 }),
+    /** Spread participants over the rooms at random straight away */
+    autoAssign: s.optional(s.boolean()),
+  }),
+  [WsEvents.BREAKOUT_ASSIGN]: s.object({
+    roomId: s.string(),
+    userId: s.string(),
+    /** null sends the participant back to the main room */
+    breakoutRoomId: s.nullable(s.string()),
+  }),
+  [WsEvents.BREAKOUT_SHUFFLE]: roomOnly,
+  [WsEvents.BREAKOUT_OPEN]: roomOnly,
+  [WsEvents.BREAKOUT_JOIN]: s.object({
+    roomId: s.string(),
+    /** A breakout room, or the main room to return to it */
+    toRoomId: s.string(),
+  }),
+  [WsEvents.BREAKOUT_COUNTDOWN]: s.object({
+    roomId: s.string(),
+    seconds: s.number({ min: 1 }),
+  }),
+  [WsEvents.BREAKOUT_CLOSE]: roomOnly,
+};
+
+/** Events clients send to the gateway */
+export type WsRequestEvent = keyof typeof WsRequestSchemas;
+
+export type WsRequest<E extends WsRequestEvent> = Infer<(typeof WsRequestSchemas)[E]>;
+
+/** Checks a client payload against its event's schema; throws a `SchemaError` */
+export function parseWsRequest<E extends WsRequestEvent>(event: E, payload: unknown): WsRequest<E> {
+  return WsRequestSchemas[event].parse(payload) as WsRequest<E>;
+}
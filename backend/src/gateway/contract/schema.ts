@@ -0,0 +1,173 @@
+/**
+ * A small runtime schema toolkit for WebSocket payloads. Each schema both
+ * checks an incoming value and gives its static type through `Infer`, so a
+ * request is declared once for the gateway and for every client.
+ *
+ * Kept free of dependencies and of TypeScript-only syntax (enums,
+ * namespaces, parameter properties) so that both frontends can import it
+ * as plain source.
+ */
+
+export interface Schema<T> {
+  /** Returns the checked value, or throws a `SchemaError` naming the field */
+  parse(value: unknown, path?: string): T;
+}
+
+/** A schema whose key may be left out of an object */
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+/** Flattens an intersection so editors show a single object type */
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export class SchemaError extends Error {
+  /** Dotted path to the offending field; empty for the payload itself */
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(path ? `${path} ${message}` : `payload ${message}`);
+    this.name = 'SchemaError';
+    this.path = path;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+export const s = {
+  string(options: { min?: number; max?: number; trim?: boolean } = {}): Schema<string> {
+    return {
+      parse(value, path = '') {
+        if (typeof value !== 'string') throw new SchemaError(path, 'must be a string');
+        const text = options.trim ? value.trim() : value;
+        if (options.min !== undefined && text.length < options.min) {
+          throw new SchemaError(path, `must be at least ${options.min} characters`);
+        }
+        if (options.max !== undefined && text.length > options.max) {
+          throw new SchemaError(path, `must be at most ${options.max} characters`);
+        }
+        return text;
+      },
+    };
+  },
+
+  number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+    return {
+      parse(value, path = '') {
+        if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaError(path, 'must be a number');
+        if (options.integer && !Number.isInteger(value)) throw new SchemaError(path, 'must be a whole number');
+        if (options.min !== undefined && value < options.min) throw new SchemaError(path, `must be at least ${options.min}`);
+        if (options.max !== undefined && value > options.max) throw new SchemaError(path, `must be at most ${options.max}`);
+        return value;
+      },
+    };
+  },
+
+  boolean(): Schema<boolean> {
+    return {
+      parse(value, path = '') {
+        if (typeof value !== 'boolean') throw new SchemaError(path, 'must be true or false');
+        return value;
+      },
+    };
+  },
+
+  /** One of a fixed set of strings */
+  oneOf<T extends string>(...values: T[]): Schema<T> {
+    return {
+      parse(value, path = '') {
+        if (!values.includes(value as T)) throw new SchemaError(path, `must be one of ${values.join(', ')}`);
+        return value as T;
+      },
+    };
+  },
+
+  /** Unknown keys are dropped, so handlers only ever see declared fields */
+  object<S extends Shape>(shape: S): Schema<Simplify<ObjectOf<S>>> {
+    return {
+      parse(value, path = '') {
+        if (!isPlainObject(value)) throw new SchemaError(path, 'must be an object');
+        const result: Record<string, unknown> = {};
+        for (const [key, schema] of Object.entries(shape)) {
+          const parsed = schema.parse(value[key], join(path, key));
+          if (parsed !== undefined) result[key] = parsed;
+        }
+        return result as Simplify<ObjectOf<S>>;
+      },
+    };
+  },
+
+  array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+    return {
+      parse(value, path = '') {
+        if (!Array.isArray(value)) throw new SchemaError(path, 'must be a list');
+        if (options.min !== undefined && value.length < options.min) {
+          throw new SchemaError(path, `must have at least ${options.min} items`);
+        }
+        if (options.max !== undefined && value.length > options.max) {
+          throw new SchemaError(path, `must have at most ${options.max} items`);
+        }
+        return value.map((entry, index) => item.parse(entry, join(path, index)));
+      },
+    };
+  },
+
+  /** Free-form object whose fields are read loosely, e.g. `appData` */
+  record(): Schema<Record<string, unknown>> {
+    return {
+      parse(value, path = '') {
+        if (!isPlainObject(value)) throw new SchemaError(path, 'must be an object');
+        return value;
+      },
+    };
+  },
+
+  /**
+   * An object owned by another library and passed through untouched, e.g.
+   * mediasoup RTP parameters. Typed as `object` so either side can cast it
+   * to the library's own type.
+   */
+  opaque(): Schema<object> {
+    return {
+      parse(value, path = '') {
+        if (!isPlainObject(value)) throw new SchemaError(path, 'must be an object');
+        return value;
+      },
+    };
+  },
+
+  optional<T>(schema: Schema<T>): OptionalSchema<T> {
+    return {
+      optional: true,
+      parse(value, path = '') {
+        return value === undefined ? undefined : schema.parse(value, path);
+      },
+    };
+  },
+
+  nullable<T>(schema: Schema<T>): Schema<T | null> {
+    return {
+      parse(value, path = '') {
+        return value === null ? null : schema.parse(value, path);
+      },
+    };
+  },
+};
@@ -7,9 +7,15 @@ import { WebrtcModule } from '../webrtc/webrtc.module';
 
 import { ChatModule } from '../chat/chat.module';
 import { QnaModule } from '../qna/qna.module';
+import { PollsModule } from '../polls/polls.module';
+import { QuizzesModule } from '../quizzes/quizzes.module';
+import { RecordingModule } from '../recording/recording.module';
+import { StreamingModule } from '../streaming/streaming.module';
+import { CaptionsModule } from '../captions/captions.module';
+import { EngagementModule } from '../engagement/engagement.module';
 
 @Module({
-  imports: [AuthModule, RoomsModule, WebrtcModule, ChatModule, QnaModule],
+  imports: [AuthModule, RoomsModule, WebrtcModule, ChatModule, QnaModule, PollsModule, QuizzesModule, RecordingModule, StreamingModule, CaptionsModule, EngagementModule],
   providers: [ConferenceGateway, WsAuthService],
   exports: [ConferenceGateway],
 })
@@ -4,11 +4,13 @@ import { RedisService } from '../redis/redis.service';
 import { RedisKeys } from '../redis/redis-keys';
 import type { Socket } from 'socket.io';
 import type { AuthenticatedSocket } from '../shared/interfaces';
+import type { ClientToServerEvents, ServerToClientEvents } from './contract';
 
 /**
- * Extended Socket type with authenticated user data.
+ * Extended Socket type with authenticated user data; emits are checked
+ * against the WebSocket contract.
  */
-export interface AppSocket extends Socket {
+export interface AppSocket extends Socket<ClientToServerEvents, ServerToClientEvents> {
   data: AuthenticatedSocket;
 }
 
@@ -0,0 +1,23 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { MESSAGE_METADATA } from '@nestjs/websockets/constants';
+import { parseWsRequest, SchemaError } from './contract';
+import type { WsRequestEvent } from './contract';
+import { WsValidationException } from '../shared/exceptions';
+
+/**
+ * The message body, parsed against the contract schema of the event the
+ * handler subscribes to. Use in place of `@MessageBody()`: a payload that
+ * doesn't match is refused before the handler runs.
+ */
+export const WsPayload = createParamDecorator((_data: unknown, ctx: ExecutionContext) => {
+  const event = Reflect.getMetadata(MESSAGE_METADATA, ctx.getHandler()) as WsRequestEvent;
+
+  try {
+    return parseWsRequest(event, ctx.switchToWs().getData());
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new WsValidationException(`Invalid ${event} payload: ${error.message}`);
+    }
+    throw error;
+  }
+});
@@ -2,8 +2,8 @@ import 'reflect-metadata';
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { IoAdapter } from '@nestjs/platform-socket.io';
 import { AppModule } from './app.module';
+import { RedisIoAdapter } from './redis/redis-io.adapter';
 import { HttpLoggingInterceptor } from './common/interceptors';
 import { AllExceptionsFilter } from './common/filters';
 
@@ -42,8 +42,10 @@ async function bootstrap(): Promise<void> {
     allowedHeaders: 'Content-Type, Accept, Authorization',
   });
 
-  // WebSocket adapter
-  app.useWebSocketAdapter(new IoAdapter(app));
+  // WebSocket adapter (Redis pub/sub so rooms span backend nodes)
+  const ioAdapter = new RedisIoAdapter(app);
+  await ioAdapter.connectToRedis(configService);
+  app.useWebSocketAdapter(ioAdapter);
 
   // Graceful shutdown
   app.enableShutdownHooks();
@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Logger } from '@nestjs/common';
+import type { ConfigService } from '@nestjs/config';
+import { MediaService } from './media.service';
+
+Logger.overrideLogger(false);
+
+const ROOM_ID = 'room-1';
+const USER_ID = 'user-1';
+const WORKER_PID = 101;
+
+/** The parts of MediaService's private state these tests stage by hand */
+interface MediaInternals {
+  workers: Array<{ pid: number }>;
+  rooms: Map<string, unknown>;
+  producers: Map<string, { producer: unknown; roomId: string; userId: string }>;
+  audioObservers: Map<string, unknown>;
+  spawnWorker(): Promise<unknown>;
+  createRouter(worker: { pid: number }): Promise<unknown>;
+  recoverFromWorkerDeath(worker: { pid: number }, error: Error): Promise<void>;
+}
+
+function createService(): { service: MediaService; internals: MediaInternals } {
+  const config = { get: (_key: string, fallback?: unknown) => fallback } as unknown as ConfigService;
+  const service = new MediaService(config);
+  const internals = service as unknown as MediaInternals;
+
+  // No mediasoup worker binary here: the replacement worker never comes up
+  internals.spawnWorker = async () => {
+    throw new Error('no mediasoup worker in tests');
+  };
+
+  const router = { closed: false, close() { this.closed = true; } };
+  internals.workers = [{ pid: WORKER_PID }];
+  internals.rooms.set(ROOM_ID, {
+    origin: router,
+    routers: new Map([[WORKER_PID, router]]),
+    pendingRouters: new Map(),
+    pipes: new Map(),
+  });
+
+  return { service, internals };
+}
+
+function addAudioProducer(internals: MediaInternals, producerId: string): void {
+  const producer = {
+    id: producerId,
+    kind: 'audio',
+    closed: false,
+    paused: false,
+    async pause() { this.paused = true; },
+    async resume() { this.paused = false; },
+  };
+  internals.producers.set(producerId, { producer, roomId: ROOM_ID, userId: USER_ID });
+}
+
+test('a host mute survives the room being rebuilt after a worker dies', async () => {
+  const { service, internals } = createService();
+  addAudioProducer(internals, 'mic-before');
+  await service.lockAudio(ROOM_ID, USER_ID);
+
+  await internals.recoverFromWorkerDeath({ pid: WORKER_PID }, new Error('worker crashed'));
+
+  assert.equal(service.isAudioLocked(ROOM_ID, USER_ID), true);
+
+  // The participant publishes a fresh microphone on the rebuilt room
+  addAudioProducer(internals, 'mic-after');
+  await assert.rejects(service.resumeProducer('mic-after'), /muted by the host/);
+});
+
+test('closing the room lifts its host mutes', async () => {
+  const { service, internals } = createService();
+  addAudioProducer(internals, 'mic');
+  await service.lockAudio(ROOM_ID, USER_ID);
+
+  await service.cleanupRoom(ROOM_ID);
+
+  assert.equal(service.isAudioLocked(ROOM_ID, USER_ID), false);
+});
+
+test('a caller arriving mid-creation gets the origin router with its audio observers', async () => {
+  const { service, internals } = createService();
+  const roomId = 'room-2';
+
+  let releaseObservers!: () => void;
+  const observersReady = new Promise<void>((resolve) => {
+    releaseObservers = resolve;
+  });
+  const observer = { on() {} };
+  let routersCreated = 0;
+  internals.createRouter = async () => {
+    routersCreated++;
+    return {
+      closed: false,
+      async createAudioLevelObserver() {
+        await observersReady;
+        return observer;
+      },
+      async createActiveSpeakerObserver() {
+        return observer;
+      },
+    };
+  };
+
+  const first = service.getOrCreateRouter(roomId);
+  // The router exists now; its observers are still being created
+  await new Promise((resolve) => setImmediate(resolve));
+
+  const second = service.getOrCreateRouter(roomId).then((router) => {
+    assert.equal(internals.audioObservers.has(roomId), true);
+    return router;
+  });
+  releaseObservers();
+
+  assert.equal(await second, await first);
+  assert.equal(routersCreated, 1);
+});
@@ -10,20 +10,32 @@ import type {
   Worker,
   Router,
   WebRtcTransport,
+  PlainTransport,
   Producer,
   Consumer,
+  DataProducer,
+  DataConsumer,
+  AudioLevelObserver,
+  ActiveSpeakerObserver,
   RtpCodecCapability,
   DtlsParameters,
   RtpParameters,
   MediaKind,
   RtpCapabilities,
   WebRtcTransportOptions,
+  WebRtcTransportStat,
+  WorkerLogLevel,
+  SctpCapabilities,
+  SctpParameters,
+  SctpStreamParameters,
 } from 'mediasoup/node/lib/types';
 import { WsMediaException } from '../shared/exceptions';
 import { getLocalLanIp } from '../shared/network.utils';
 
 interface TransportContext {
   transport: WebRtcTransport;
+  /** Router the transport lives on — the origin for send, any room router for recv */
+  router: Router;
   roomId: string;
   userId: string;
   direction: 'send' | 'recv';
@@ -42,15 +54,143 @@ interface ConsumerContext {
   producerId: string;
 }
 
+interface DataProducerContext {
+  dataProducer: DataProducer;
+  roomId: string;
+  userId: string;
+}
+
+interface DataConsumerContext {
+  dataConsumer: DataConsumer;
+  roomId: string;
+  userId: string;
+  dataProducerId: string;
+}
+
+/**
+ * The routers a room spans. Producers always live on the origin router;
+ * consumers may be placed on routers on other workers, which receive the
+ * producers they need through `pipeToRouter`.
+ */
+interface RoomRouters {
+  origin: Router;
+  /** worker pid → this room's router on that worker (includes the origin) */
+  routers: Map<number, Router>;
+  /** worker pid → router being created, so concurrent joins share it */
+  pendingRouters: Map<number, Promise<Router>>;
+  /** `${routerId}:${producerId}` → pipe from the origin to a consumer router (data producers too) */
+  pipes: Map<string, Promise<void>>;
+}
+
+interface RoomAudioObservers {
+  audioLevel: AudioLevelObserver;
+  activeSpeaker: ActiveSpeakerObserver;
+  activeSpeakerId: string | null;
+  levels: ActiveSpeakerUpdate['levels'];
+}
+
+export interface ActiveSpeakerUpdate {
+  roomId: string;
+  activeSpeakerId: string | null;
+  /** Per-user levels in dBov (-127 silence … 0 loudest), loudest first */
+  levels: Array<{ userId: string; volume: number }>;
+}
+
+/**
+ * Emitted after a room's routers were rebuilt because a worker died. Every
+ * transport, producer and consumer in the room is gone; clients must
+ * reconnect their media from scratch.
+ */
+export interface RoomMediaRebuilt {
+  roomId: string;
+  /** The room's new origin router */
+  routerId: string;
+  lostProducers: Array<{ producerId: string; userId: string }>;
+}
+
+export interface UserMediaStats {
+  userId: string;
+  /** What the user publishes (client → SFU) */
+  upstream: {
+    /** bits per second */
+    bitrate: number;
+    /** Fraction of packets lost, 0–1 */
+    packetLoss: number;
+    /** milliseconds */
+    jitter: number | null;
+  };
+  /** What the user receives (SFU → client) */
+  downstream: {
+    bitrate: number;
+    packetLoss: number;
+    /** Bandwidth estimate towards the client, bits per second */
+    availableBitrate: number | null;
+  };
+  /** Round-trip time in milliseconds, from RTCP receiver reports */
+  rtt: number | null;
+}
+
+/**
+ * A producer forwarded out of the SFU as plain RTP, e.g. into ffmpeg.
+ * The consumer starts paused; the owner resumes it once its listener is bound
+ * and closes the transport when done.
+ */
+export interface PlainRtpTap {
+  transport: PlainTransport;
+  consumer: Consumer;
+  producerId: string;
+  userId: string;
+  kind: MediaKind;
+  port: number;
+  rtcpPort: number;
+}
+
+/** SDP describing the taps, for the listener to open as its input */
+export function buildPlainRtpSdp(taps: PlainRtpTap[]): string {
+  const lines = [
+    'v=0',
+    'o=- 0 0 IN IP4 127.0.0.1',
+    's=mediasoup',
+    'c=IN IP4 127.0.0.1',
+    't=0 0',
+  ];
+
+  for (const tap of taps) {
+    const codec = tap.consumer.rtpParameters.codecs[0];
+    const [, encoding] = codec.mimeType.split('/');
+    const channels = codec.channels ? `/${codec.channels}` : '';
+
+    lines.push(`m=${tap.kind} ${tap.port} RTP/AVP ${codec.payloadType}`);
+    lines.push(`a=rtcp:${tap.rtcpPort}`);
+    lines.push(`a=rtpmap:${codec.payloadType} ${encoding}/${codec.clockRate}${channels}`);
+
+    const fmtp = Object.entries(codec.parameters ?? {})
+      .map(([key, value]) => `${key}=${value}`)
+      .join(';');
+    if (fmtp) {
+      lines.push(`a=fmtp:${codec.payloadType} ${fmtp}`);
+    }
+
+    lines.push('a=recvonly');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
 @Injectable()
 export class MediaService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(MediaService.name);
 
   private workers: Worker[] = [];
-  private nextWorkerIndex = 0;
 
-  // roomId → Router
-  private readonly routers = new Map<string, Router>();
+  // worker pid → producers + consumers currently hosted on it
+  private readonly workerLoads = new Map<number, number>();
+
+  // roomId → RoomRouters
+  private readonly rooms = new Map<string, RoomRouters>();
+
+  // roomId → origin router still being set up
+  private readonly pendingOrigins = new Map<string, Promise<Router>>();
 
   // transportId → TransportContext
   private readonly transports = new Map<string, TransportContext>();
@@ -61,11 +201,29 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
   // consumerId → ConsumerContext
   private readonly consumers = new Map<string, ConsumerContext>();
 
+  // dataProducerId → DataProducerContext
+  private readonly dataProducers = new Map<string, DataProducerContext>();
+
+  // dataConsumerId → DataConsumerContext
+  private readonly dataConsumers = new Map<string, DataConsumerContext>();
+
+  // roomId → audio level / dominant speaker observers
+  private readonly audioObservers = new Map<string, RoomAudioObservers>();
+
+  private readonly activeSpeakerListeners = new Set<(update: ActiveSpeakerUpdate) => void>();
+
+  private readonly roomRebuiltListeners = new Set<(event: RoomMediaRebuilt) => void>();
+
+  // `${roomId}:${userId}` of participants whose microphone a host has locked
+  private readonly audioLocks = new Set<string>();
+
   private mediaCodecs: RtpCodecCapability[] = [];
   private listenIp = '0.0.0.0';
   private announcedIp = '127.0.0.1';
   private minPort = 40000;
   private maxPort = 49999;
+  private maxLoadPerWorker = 500;
+  private logLevel: WorkerLogLevel = 'warn';
 
   constructor(private readonly config: ConfigService) { }
 
@@ -85,30 +243,15 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
     this.minPort = this.config.get<number>('mediasoup.minPort', 40000);
     this.maxPort = this.config.get<number>('mediasoup.maxPort', 49999);
     this.mediaCodecs = this.config.get<RtpCodecCapability[]>('mediasoup.mediaCodecs', []);
+    this.maxLoadPerWorker = this.config.get<number>('mediasoup.maxLoadPerWorker', 500);
 
     const numWorkers = this.config.get<number>('mediasoup.numWorkers', 2);
-    const logLevel = this.config.get<string>('mediasoup.logLevel', 'warn') as
-      | 'debug'
-      | 'warn'
-      | 'error'
-      | 'none';
+    this.logLevel = this.config.get<WorkerLogLevel>('mediasoup.logLevel', 'warn');
 
     this.logger.log(`Creating ${numWorkers} mediasoup workers...`);
 
     for (let i = 0; i < numWorkers; i++) {
-      const worker = await mediasoup.createWorker({
-        logLevel,
-        rtcMinPort: this.minPort,
-        rtcMaxPort: this.maxPort,
-      });
-
-      worker.on('died', () => {
-        this.logger.error(`mediasoup Worker ${worker.pid} died. Exiting in 2 seconds...`);
-        setTimeout(() => process.exit(1), 2000);
-      });
-
-      this.workers.push(worker);
-      this.logger.log(`mediasoup Worker ${worker.pid} created`);
+      await this.spawnWorker();
     }
   }
 
@@ -117,36 +260,63 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
       worker.close();
     }
     this.workers = [];
-    this.routers.clear();
+    this.workerLoads.clear();
+    this.rooms.clear();
     this.transports.clear();
     this.producers.clear();
     this.consumers.clear();
+    this.audioObservers.clear();
     this.logger.log('All mediasoup workers closed');
   }
 
   // ─── Router Management ──────────────────────────────────────────
 
+  /**
+   * Returns the room's origin router, creating it on the least-loaded worker.
+   * Concurrent callers share one creation.
+   */
   async getOrCreateRouter(roomId: string): Promise<Router> {
-    const existing = this.routers.get(roomId);
-    if (existing && !existing.closed) {
-      return existing;
+    const existing = this.rooms.get(roomId);
+    if (existing && !existing.origin.closed) {
+      return existing.origin;
+    }
+
+    let pending = this.pendingOrigins.get(roomId);
+    if (!pending) {
+      pending = this.createOriginRouter(roomId);
+      this.pendingOrigins.set(roomId, pending);
+      pending
+        .finally(() => this.pendingOrigins.delete(roomId))
+        .catch(() => undefined);
     }
+    return pending;
+  }
+
+  /** The room only becomes visible once its audio observers are in place */
+  private async createOriginRouter(roomId: string): Promise<Router> {
+    const worker = this.getLeastLoadedWorker();
+    const router = await this.createRouter(worker);
 
-    const worker = this.getNextWorker();
-    const router = await worker.createRouter({ mediaCodecs: this.mediaCodecs });
+    try {
+      await this.createAudioObservers(roomId, router);
+    } catch (err) {
+      router.close();
+      throw err;
+    }
 
-    this.routers.set(roomId, router);
-    this.logger.log(`Router created for room ${roomId} on worker ${worker.pid}`);
+    this.rooms.set(roomId, {
+      origin: router,
+      routers: new Map([[worker.pid, router]]),
+      pendingRouters: new Map(),
+      pipes: new Map(),
+    });
+    this.logger.log(`Origin router created for room ${roomId} on worker ${worker.pid}`);
 
     return router;
   }
 
   getRouterRtpCapabilities(roomId: string): RtpCapabilities {
-    const router = this.routers.get(roomId);
-    if (!router || router.closed) {
-      throw new WsMediaException('Router not found for room');
-    }
-    return router.rtpCapabilities;
+    return this.getRoom(roomId).origin.rtpCapabilities;
   }
 
   // ─── Transport Management ───────────────────────────────────────
@@ -155,17 +325,29 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
     roomId: string;
     userId: string;
     direction: 'send' | 'recv';
+    /** Enables SCTP (DataChannels) when the client supports it */
+    sctpCapabilities?: SctpCapabilities;
   }): Promise<{
     id: string;
     iceParameters: WebRtcTransport['iceParameters'];
     iceCandidates: WebRtcTransport['iceCandidates'];
     dtlsParameters: WebRtcTransport['dtlsParameters'];
+    sctpParameters?: SctpParameters;
   }> {
-    const router = this.routers.get(params.roomId);
-    if (!router || router.closed) {
-      throw new WsMediaException('Router not found for room');
+    // A user holds one transport per direction; a new one (e.g. after a
+    // failed ICE restart) replaces the old
+    for (const ctx of this.transports.values()) {
+      if (ctx.roomId === params.roomId && ctx.userId === params.userId && ctx.direction === params.direction) {
+        ctx.transport.close();
+        this.transports.delete(ctx.transport.id);
+      }
     }
 
+    const room = this.getRoom(params.roomId);
+    const router = params.direction === 'send'
+      ? room.origin
+      : await this.getConsumerRouter(params.roomId, room);
+
     const transportOptions: WebRtcTransportOptions = {
       listenInfos: [
         {
@@ -183,6 +365,10 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
       enableTcp: true,
       preferUdp: true,
       initialAvailableOutgoingBitrate: 1000000,
+      ...(params.sctpCapabilities && {
+        enableSctp: true,
+        numSctpStreams: params.sctpCapabilities.numStreams,
+      }),
       appData: {
         roomId: params.roomId,
         userId: params.userId,
@@ -209,6 +395,7 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
 
     this.transports.set(transport.id, {
       transport,
+      router,
       roomId: params.roomId,
       userId: params.userId,
       direction: params.direction,
@@ -223,6 +410,7 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
       iceParameters: transport.iceParameters,
       iceCandidates: transport.iceCandidates,
       dtlsParameters: transport.dtlsParameters,
+      sctpParameters: transport.sctpParameters,
     };
   }
 
@@ -239,6 +427,25 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
     this.logger.log(`Transport connected: ${params.transportId}`);
   }
 
+  /**
+   * Generates new ICE credentials for a user's transport so the client can
+   * re-gather candidates after a network change.
+   */
+  async restartIce(params: {
+    transportId: string;
+    userId: string;
+  }): Promise<{ iceParameters: WebRtcTransport['iceParameters'] }> {
+    const ctx = this.transports.get(params.transportId);
+    if (!ctx || ctx.userId !== params.userId) {
+      throw new WsMediaException('Transport not found');
+    }
+
+    const iceParameters = await ctx.transport.restartIce();
+    this.logger.log(`ICE restarted on transport ${params.transportId} for user ${params.userId}`);
+
+    return { iceParameters };
+  }
+
   // ─── Producer Management ────────────────────────────────────────
 
   async produce(params: {
@@ -259,6 +466,8 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
     const producer = await ctx.transport.produce({
       kind: params.kind,
       rtpParameters: params.rtpParameters,
+      // A host-muted participant can publish a new mic, but it starts paused
+      paused: params.kind === 'audio' && this.isAudioLocked(ctx.roomId, ctx.userId),
       appData: {
         ...params.appData,
         roomId: ctx.roomId,
@@ -271,12 +480,22 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
       this.logger.log(`Producer closed: ${producer.id}`);
     });
 
+    producer.on('transportclose', () => {
+      this.producers.delete(producer.id);
+    });
+
+    producer.observer.once('close', this.addWorkerLoad(ctx.router));
+
     this.producers.set(producer.id, {
       producer,
       roomId: ctx.roomId,
       userId: ctx.userId,
     });
 
+    if (producer.kind === 'audio') {
+      await this.observeAudioProducer(ctx.roomId, producer.id);
+    }
+
     this.logger.log(
       `Producer created: ${producer.id} (${params.kind}) by user ${ctx.userId} in room ${ctx.roomId}`,
     );
@@ -293,7 +512,7 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
     this.logger.log(`Producer explicitly closed: ${producerId}`);
   }
 
-  async pauseProducer(producerId: string): Promise<{ kind: string }> {
+  async pauseProducer(producerId: string): Promise<{ kind: MediaKind }> {
     const ctx = this.producers.get(producerId);
     if (!ctx) throw new WsMediaException('Producer not found');
     try {
@@ -308,9 +527,12 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
     return { kind: ctx.producer.kind };
   }
 
-  async resumeProducer(producerId: string): Promise<{ kind: string }> {
+  async resumeProducer(producerId: string): Promise<{ kind: MediaKind }> {
     const ctx = this.producers.get(producerId);
     if (!ctx) throw new WsMediaException('Producer not found');
+    if (ctx.producer.kind === 'audio' && this.isAudioLocked(ctx.roomId, ctx.userId)) {
+      throw new WsMediaException('You were muted by the host');
+    }
     try {
       if (!ctx.producer.closed) await ctx.producer.resume();
     } catch (e: any) {
@@ -323,6 +545,41 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
     return { kind: ctx.producer.kind };
   }
 
+  // ─── Host Mute ──────────────────────────────────────────────────
+
+  /**
+   * Pauses a user's audio producers and keeps them paused until
+   * `releaseAudioLock`. Returns the producers that were live.
+   */
+  async lockAudio(roomId: string, userId: string): Promise<string[]> {
+    this.audioLocks.add(`${roomId}:${userId}`);
+
+    const paused: string[] = [];
+    for (const ctx of this.producers.values()) {
+      if (ctx.roomId !== roomId || ctx.userId !== userId || ctx.producer.kind !== 'audio') continue;
+      if (ctx.producer.closed || ctx.producer.paused) continue;
+      await this.pauseProducer(ctx.producer.id);
+      paused.push(ctx.producer.id);
+    }
+
+    this.logger.log(`Audio locked for user ${userId} in room ${roomId}`);
+    return paused;
+  }
+
+  /**
+   * Lets the user resume their microphone again. Nothing is resumed here —
+   * that stays the participant's decision.
+   */
+  releaseAudioLock(roomId: string, userId: string): void {
+    if (this.audioLocks.delete(`${roomId}:${userId}`)) {
+      this.logger.log(`Audio lock released for user ${userId} in room ${roomId}`);
+    }
+  }
+
+  isAudioLocked(roomId: string, userId: string): boolean {
+    return this.audioLocks.has(`${roomId}:${userId}`);
+  }
+
   // ─── Consumer Management ────────────────────────────────────────
 
   async consume(params: {
@@ -337,14 +594,7 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
     kind: MediaKind;
     rtpParameters: RtpParameters;
   }> {
-    const router = this.routers.get(params.roomId);
-    if (!router || router.closed) {
-      throw new WsMediaException('Router not found');
-    }
-
-    if (!router.canConsume({ producerId: params.producerId, rtpCapabilities: params.rtpCapabilities })) {
-      throw new WsMediaException('Cannot consume this producer with given RTP capabilities');
-    }
+    const room = this.getRoom(params.roomId);
 
     const ctx = this.transports.get(params.transportId);
     if (!ctx) {
@@ -355,6 +605,12 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
       throw new WsMediaException('Cannot consume on a send transport');
     }
 
+    if (!room.origin.canConsume({ producerId: params.producerId, rtpCapabilities: params.rtpCapabilities })) {
+      throw new WsMediaException('Cannot consume this producer with given RTP capabilities');
+    }
+
+    await this.pipeToConsumerRouter(room, ctx.router, { producerId: params.producerId });
+
     const consumer = await ctx.transport.consume({
       producerId: params.producerId,
       rtpCapabilities: params.rtpCapabilities,
@@ -370,6 +626,12 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
       this.consumers.delete(consumer.id);
     });
 
+    consumer.on('transportclose', () => {
+      this.consumers.delete(consumer.id);
+    });
+
+    consumer.observer.once('close', this.addWorkerLoad(ctx.router));
+
     this.consumers.set(consumer.id, {
       consumer,
       roomId: params.roomId,
@@ -395,6 +657,35 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
     await ctx.consumer.resume();
   }
 
+  /**
+   * Selects which simulcast layers a consumer receives and, optionally, its
+   * share of the transport's outgoing bitrate (higher priority wins).
+   */
+  async setConsumerPreferredLayers(params: {
+    consumerId: string;
+    userId: string;
+    spatialLayer: number;
+    temporalLayer?: number;
+    priority?: number;
+  }): Promise<void> {
+    const ctx = this.consumers.get(params.consumerId);
+    if (!ctx || ctx.userId !== params.userId) {
+      throw new WsMediaException('Consumer not found');
+    }
+
+    // Non-simulcast consumers (audio, single-encoding video) have no layers
+    if (ctx.consumer.type === 'simulcast' || ctx.consumer.type === 'svc') {
+      await ctx.consumer.setPreferredLayers({
+        spatialLayer: params.spatialLayer,
+        temporalLayer: params.temporalLayer,
+      });
+    }
+
+    if (params.priority !== undefined) {
+      await ctx.consumer.setPriority(params.priority);
+    }
+  }
+
   async closeConsumer(consumerId: string): Promise<void> {
     const ctx = this.consumers.get(consumerId);
     if (!ctx) return;
@@ -403,6 +694,416 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
     this.consumers.delete(consumerId);
   }
 
+  // ─── Data Channels ──────────────────────────────────────────────
+
+  /**
+   * Creates an SCTP DataProducer on a send transport. Like media producers,
+   * it lives on the room's origin router.
+   */
+  async produceData(params: {
+    roomId: string;
+    userId: string;
+    transportId: string;
+    sctpStreamParameters: SctpStreamParameters;
+    label?: string;
+    protocol?: string;
+  }): Promise<{ dataProducerId: string }> {
+    const ctx = this.transports.get(params.transportId);
+    // Someone else's transport is as good as missing
+    if (!ctx || ctx.roomId !== params.roomId || ctx.userId !== params.userId) {
+      throw new WsMediaException('Transport not found');
+    }
+
+    if (ctx.direction !== 'send') {
+      throw new WsMediaException('Cannot produce data on a recv transport');
+    }
+
+    if (!ctx.transport.sctpParameters) {
+      throw new WsMediaException('SCTP is not enabled on this transport');
+    }
+
+    const dataProducer = await ctx.transport.produceData({
+      sctpStreamParameters: params.sctpStreamParameters,
+      label: params.label,
+      protocol: params.protocol,
+      appData: {
+        roomId: ctx.roomId,
+        userId: ctx.userId,
+      },
+    });
+
+    dataProducer.observer.once('close', () => {
+      this.dataProducers.delete(dataProducer.id);
+    });
+    dataProducer.observer.once('close', this.addWorkerLoad(ctx.router));
+
+    this.dataProducers.set(dataProducer.id, {
+      dataProducer,
+      roomId: ctx.roomId,
+      userId: ctx.userId,
+    });
+
+    this.logger.log(
+      `DataProducer created: ${dataProducer.id} (${dataProducer.label}) by user ${ctx.userId} in room ${ctx.roomId}`,
+    );
+
+    return { dataProducerId: dataProducer.id };
+  }
+
+  async closeDataProducer(dataProducerId: string): Promise<void> {
+    const ctx = this.dataProducers.get(dataProducerId);
+    if (!ctx) return;
+
+    // Its DataConsumers close with it
+    ctx.dataProducer.close();
+    this.dataProducers.delete(dataProducerId);
+    this.logger.log(`DataProducer explicitly closed: ${dataProducerId}`);
+  }
+
+  /**
+   * Creates a DataConsumer for a remote DataProducer on a recv transport,
+   * piping the DataProducer over if the transport is on another router.
+   */
+  async consumeData(params: {
+    roomId: string;
+    userId: string;
+    transportId: string;
+    dataProducerId: string;
+  }): Promise<{
+    dataConsumerId: string;
+    dataProducerId: string;
+    sctpStreamParameters: SctpStreamParameters;
+    label: string;
+    protocol: string;
+  }> {
+    const room = this.getRoom(params.roomId);
+
+    const ctx = this.transports.get(params.transportId);
+    if (!ctx) {
+      throw new WsMediaException('Transport not found');
+    }
+
+    if (ctx.direction !== 'recv') {
+      throw new WsMediaException('Cannot consume data on a send transport');
+    }
+
+    if (!ctx.transport.sctpParameters) {
+      throw new WsMediaException('SCTP is not enabled on this transport');
+    }
+
+    const source = this.dataProducers.get(params.dataProducerId);
+    if (!source || source.roomId !== params.roomId) {
+      throw new WsMediaException('DataProducer not found');
+    }
+
+    await this.pipeToConsumerRouter(room, ctx.router, { dataProducerId: params.dataProducerId });
+
+    const dataConsumer = await ctx.transport.consumeData({
+      dataProducerId: params.dataProducerId,
+      appData: {
+        roomId: params.roomId,
+        userId: params.userId,
+        dataProducerId: params.dataProducerId,
+      },
+    });
+
+    dataConsumer.observer.once('close', () => {
+      this.dataConsumers.delete(dataConsumer.id);
+    });
+    dataConsumer.observer.once('close', this.addWorkerLoad(ctx.router));
+
+    this.dataConsumers.set(dataConsumer.id, {
+      dataConsumer,
+      roomId: params.roomId,
+      userId: params.userId,
+      dataProducerId: params.dataProducerId,
+    });
+
+    return {
+      dataConsumerId: dataConsumer.id,
+      dataProducerId: params.dataProducerId,
+      // Always set for SCTP DataConsumers
+      sctpStreamParameters: dataConsumer.sctpStreamParameters!,
+      label: dataConsumer.label,
+      protocol: dataConsumer.protocol,
+    };
+  }
+
+  /**
+   * Gets all DataProducers for a room, optionally excluding a specific user.
+   */
+  getDataProducersForRoom(roomId: string, excludeUserId?: string): Array<{ dataProducerId: string; userId: string; label: string }> {
+    const results: Array<{ dataProducerId: string; userId: string; label: string }> = [];
+
+    for (const ctx of this.dataProducers.values()) {
+      if (ctx.roomId === roomId && (!excludeUserId || ctx.userId !== excludeUserId)) {
+        results.push({
+          dataProducerId: ctx.dataProducer.id,
+          userId: ctx.userId,
+          label: ctx.dataProducer.label,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  // ─── Stats ──────────────────────────────────────────────────────
+
+  /**
+   * Aggregates transport, producer and consumer stats for one user.
+   */
+  async getUserStats(roomId: string, userId: string): Promise<UserMediaStats> {
+    const stats: UserMediaStats = {
+      userId,
+      upstream: { bitrate: 0, packetLoss: 0, jitter: null },
+      downstream: { bitrate: 0, packetLoss: 0, availableBitrate: null },
+      rtt: null,
+    };
+    const rtts: number[] = [];
+
+    for (const ctx of this.transports.values()) {
+      if (ctx.roomId !== roomId || ctx.userId !== userId || ctx.transport.closed) continue;
+
+      const [transportStat] = (await ctx.transport.getStats()) as WebRtcTransportStat[];
+      if (!transportStat) continue;
+
+      if (ctx.direction === 'send') {
+        stats.upstream.bitrate += transportStat.recvBitrate;
+      } else {
+        stats.downstream.bitrate += transportStat.sendBitrate;
+        stats.downstream.availableBitrate = transportStat.availableOutgoingBitrate ?? null;
+      }
+    }
+
+    for (const ctx of this.producers.values()) {
+      if (ctx.roomId !== roomId || ctx.userId !== userId || ctx.producer.closed) continue;
+
+      const clockRate = ctx.producer.rtpParameters.codecs[0]?.clockRate ?? 90000;
+      for (const stream of await ctx.producer.getStats()) {
+        stats.upstream.packetLoss = Math.max(stats.upstream.packetLoss, stream.fractionLost / 256);
+        const jitterMs = (stream.jitter / clockRate) * 1000;
+        stats.upstream.jitter = Math.max(stats.upstream.jitter ?? 0, jitterMs);
+        if (stream.roundTripTime !== undefined) rtts.push(stream.roundTripTime);
+      }
+    }
+
+    for (const ctx of this.consumers.values()) {
+      if (ctx.roomId !== roomId || ctx.userId !== userId || ctx.consumer.closed) continue;
+
+      for (const stream of await ctx.consumer.getStats()) {
+        if (stream.type !== 'outbound-rtp') continue;
+        stats.downstream.packetLoss = Math.max(stats.downstream.packetLoss, stream.fractionLost / 256);
+        if (stream.roundTripTime !== undefined) rtts.push(stream.roundTripTime);
+      }
+    }
+
+    if (rtts.length > 0) {
+      stats.rtt = rtts.reduce((sum, v) => sum + v, 0) / rtts.length;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Aggregated stats for every user with an open transport in the room.
+   */
+  async getRoomStats(roomId: string): Promise<UserMediaStats[]> {
+    const userIds = new Set<string>();
+    for (const ctx of this.transports.values()) {
+      if (ctx.roomId === roomId) userIds.add(ctx.userId);
+    }
+
+    return Promise.all(Array.from(userIds, (userId) => this.getUserStats(roomId, userId)));
+  }
+
+  // ─── Active Speaker ─────────────────────────────────────────────
+
+  /**
+   * Registers a listener for audio level / dominant speaker changes across all
+   * rooms. Returns an unsubscribe function.
+   */
+  onActiveSpeakerUpdate(listener: (update: ActiveSpeakerUpdate) => void): () => void {
+    this.activeSpeakerListeners.add(listener);
+    return () => this.activeSpeakerListeners.delete(listener);
+  }
+
+  private async createAudioObservers(roomId: string, router: Router): Promise<void> {
+    const audioLevel = await router.createAudioLevelObserver({
+      maxEntries: 10,
+      threshold: -70,
+      interval: 800,
+    });
+    const activeSpeaker = await router.createActiveSpeakerObserver({ interval: 300 });
+
+    const observers: RoomAudioObservers = { audioLevel, activeSpeaker, activeSpeakerId: null, levels: [] };
+    this.audioObservers.set(roomId, observers);
+
+    audioLevel.on('volumes', (volumes) => {
+      const levels: ActiveSpeakerUpdate['levels'] = [];
+      for (const { producer, volume } of volumes) {
+        const userId = this.producers.get(producer.id)?.userId;
+        if (userId) levels.push({ userId, volume });
+      }
+      observers.levels = levels;
+      this.emitActiveSpeaker({ roomId, activeSpeakerId: observers.activeSpeakerId, levels });
+    });
+
+    audioLevel.on('silence', () => {
+      observers.levels = [];
+      this.emitActiveSpeaker({ roomId, activeSpeakerId: observers.activeSpeakerId, levels: [] });
+    });
+
+    activeSpeaker.on('dominantspeaker', ({ producer }) => {
+      const userId = this.producers.get(producer.id)?.userId ?? null;
+      if (userId === observers.activeSpeakerId) return;
+      observers.activeSpeakerId = userId;
+      this.emitActiveSpeaker({ roomId, activeSpeakerId: userId, levels: observers.levels });
+    });
+  }
+
+  private async observeAudioProducer(roomId: string, producerId: string): Promise<void> {
+    const observers = this.audioObservers.get(roomId);
+    if (!observers) return;
+
+    try {
+      await observers.audioLevel.addProducer({ producerId });
+      await observers.activeSpeaker.addProducer({ producerId });
+    } catch (error) {
+      // Observers are a nicety — never fail the produce call over them
+      this.logger.warn(`Failed to observe audio producer ${producerId}: ${(error as Error).message}`);
+    }
+  }
+
+  private emitActiveSpeaker(update: ActiveSpeakerUpdate): void {
+    for (const listener of this.activeSpeakerListeners) {
+      listener(update);
+    }
+  }
+
+  // ─── Worker Recovery ────────────────────────────────────────────
+
+  /**
+   * Registers a listener for rooms whose media was rebuilt after a worker
+   * died. Returns an unsubscribe function.
+   */
+  onRoomMediaRebuilt(listener: (event: RoomMediaRebuilt) => void): () => void {
+    this.roomRebuiltListeners.add(listener);
+    return () => this.roomRebuiltListeners.delete(listener);
+  }
+
+  private async spawnWorker(): Promise<Worker> {
+    const worker = await mediasoup.createWorker({
+      logLevel: this.logLevel,
+      rtcMinPort: this.minPort,
+      rtcMaxPort: this.maxPort,
+    });
+
+    worker.on('died', (error) => {
+      this.recoverFromWorkerDeath(worker, error).catch((err) =>
+        this.logger.error(`Recovery from worker ${worker.pid} death failed: ${(err as Error).message}`),
+      );
+    });
+
+    this.workers.push(worker);
+    this.workerLoads.set(worker.pid, 0);
+    this.logger.log(`mediasoup Worker ${worker.pid} created`);
+
+    return worker;
+  }
+
+  /**
+   * Replaces a dead worker and rebuilds every room it hosted a router for.
+   * Rooms are rebuilt whole: the origin holds all producers and the other
+   * routers only carry pipes from it, so a partial repair buys little.
+   */
+  private async recoverFromWorkerDeath(worker: Worker, error: Error): Promise<void> {
+    this.logger.error(`mediasoup Worker ${worker.pid} died: ${error.message}. Recovering...`);
+
+    this.workers = this.workers.filter((w) => w !== worker);
+    this.workerLoads.delete(worker.pid);
+
+    const affected: Array<{ roomId: string; lostProducers: RoomMediaRebuilt['lostProducers'] }> = [];
+    for (const [roomId, room] of this.rooms.entries()) {
+      if (!room.routers.has(worker.pid)) continue;
+
+      const lostProducers = this.getProducersForRoom(roomId).map(({ producerId, userId }) => ({ producerId, userId }));
+      affected.push({ roomId, lostProducers });
+      // Muted participants stay muted on the rebuilt router
+      await this.cleanupRoom(roomId, { keepLocks: true });
+    }
+
+    try {
+      await this.spawnWorker();
+    } catch (err) {
+      this.logger.error(`Failed to spawn replacement worker: ${(err as Error).message}`);
+    }
+
+    for (const { roomId, lostProducers } of affected) {
+      try {
+        const router = await this.getOrCreateRouter(roomId);
+        for (const listener of this.roomRebuiltListeners) {
+          listener({ roomId, routerId: router.id, lostProducers });
+        }
+      } catch (err) {
+        this.logger.error(`Failed to rebuild router for room ${roomId}: ${(err as Error).message}`);
+      }
+    }
+
+    this.logger.log(`Recovered from worker ${worker.pid} death; rebuilt ${affected.length} room(s)`);
+  }
+
+  // ─── Plain RTP Taps ─────────────────────────────────────────────
+
+  /**
+   * Forwards a producer over a PlainTransport to a local RTP listener
+   * (ffmpeg, GStreamer, ...) bound on the given ports.
+   */
+  async createPlainRtpTap(params: {
+    roomId: string;
+    producerId: string;
+    ip: string;
+    port: number;
+    rtcpPort: number;
+  }): Promise<PlainRtpTap> {
+    const router = this.getRoom(params.roomId).origin;
+
+    const producerCtx = this.producers.get(params.producerId);
+    if (!producerCtx) {
+      throw new WsMediaException('Producer not found');
+    }
+
+    const transport = await router.createPlainTransport({
+      listenInfo: { protocol: 'udp', ip: '127.0.0.1' },
+      rtcpMux: false,
+      comedia: false,
+      appData: { roomId: params.roomId, producerId: params.producerId },
+    });
+
+    try {
+      await transport.connect({ ip: params.ip, port: params.port, rtcpPort: params.rtcpPort });
+
+      const consumer = await transport.consume({
+        producerId: params.producerId,
+        rtpCapabilities: router.rtpCapabilities,
+        paused: true,
+      });
+
+      return {
+        transport,
+        consumer,
+        producerId: params.producerId,
+        userId: producerCtx.userId,
+        kind: consumer.kind,
+        port: params.port,
+        rtcpPort: params.rtcpPort,
+      };
+    } catch (error) {
+      transport.close();
+      throw error;
+    }
+  }
+
   // ─── Cleanup ────────────────────────────────────────────────────
 
   /**
@@ -422,9 +1123,23 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Cleans up all media resources for a room.
+   * Closes the user's send transport in a room, and with it their producers
+   * and DataProducers. Their recv transport stays up.
    */
-  async cleanupRoom(roomId: string): Promise<void> {
+  async closeSendTransport(roomId: string, userId: string): Promise<void> {
+    for (const [transportId, ctx] of this.transports.entries()) {
+      if (ctx.roomId === roomId && ctx.userId === userId && ctx.direction === 'send') {
+        ctx.transport.close();
+        this.transports.delete(transportId);
+      }
+    }
+  }
+
+  /**
+   * Cleans up all media resources for a room. `keepLocks` leaves host mutes
+   * in place, for a room that is about to be rebuilt rather than closed.
+   */
+  async cleanupRoom(roomId: string, options: { keepLocks?: boolean } = {}): Promise<void> {
     // Close all transports in this room
     for (const [transportId, ctx] of this.transports.entries()) {
       if (ctx.roomId === roomId) {
@@ -433,12 +1148,37 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
       }
     }
 
-    // Close the router
-    const router = this.routers.get(roomId);
-    if (router && !router.closed) {
-      router.close();
+    // Close the origin and any consumer routers on other workers
+    const room = this.rooms.get(roomId);
+    if (room) {
+      for (const router of room.routers.values()) {
+        if (!router.closed) router.close();
+      }
+    }
+    this.rooms.delete(roomId);
+    this.audioObservers.delete(roomId);
+
+    // Locks outlive a participant's rejoin, but not the room
+    if (!options.keepLocks) {
+      for (const key of this.audioLocks) {
+        if (key.startsWith(`${roomId}:`)) this.audioLocks.delete(key);
+      }
+    }
+
+    // Producers and consumers closed along with their transport never emit
+    // '@close', so drop them here
+    for (const [producerId, ctx] of this.producers.entries()) {
+      if (ctx.roomId === roomId) this.producers.delete(producerId);
+    }
+    for (const [consumerId, ctx] of this.consumers.entries()) {
+      if (ctx.roomId === roomId) this.consumers.delete(consumerId);
+    }
+    for (const [dataProducerId, ctx] of this.dataProducers.entries()) {
+      if (ctx.roomId === roomId) this.dataProducers.delete(dataProducerId);
+    }
+    for (const [dataConsumerId, ctx] of this.dataConsumers.entries()) {
+      if (ctx.roomId === roomId) this.dataConsumers.delete(dataConsumerId);
     }
-    this.routers.delete(roomId);
 
     this.logger.log(`Cleaned up all media resources for room ${roomId}`);
   }
@@ -462,14 +1202,147 @@ export class MediaService implements OnModuleInit, OnModuleDestroy {
     return results;
   }
 
+  /**
+   * Gets a room's producers whose `appData.label` matches, e.g. screen shares.
+   */
+  getProducersByLabel(roomId: string, label: string): Array<{ producerId: string; userId: string }> {
+    const results: Array<{ producerId: string; userId: string }> = [];
+
+    for (const ctx of this.producers.values()) {
+      if (ctx.roomId === roomId && ctx.producer.appData.label === label) {
+        results.push({ producerId: ctx.producer.id, userId: ctx.userId });
+      }
+    }
+
+    return results;
+  }
+
   // ─── Private ────────────────────────────────────────────────────
 
-  private getNextWorker(): Worker {
+  private getRoom(roomId: string): RoomRouters {
+    const room = this.rooms.get(roomId);
+    if (!room || room.origin.closed) {
+      throw new WsMediaException('Router not found for room');
+    }
+    return room;
+  }
+
+  private async createRouter(worker: Worker): Promise<Router> {
+    return worker.createRouter({
+      mediaCodecs: this.mediaCodecs,
+      appData: { workerPid: worker.pid },
+    });
+  }
+
+  private getLeastLoadedWorker(): Worker {
     if (this.workers.length === 0) {
       throw new WsMediaException('No mediasoup workers available');
     }
-    const worker = this.workers[this.nextWorkerIndex];
-    this.nextWorkerIndex = (this.nextWorkerIndex + 1) % this.workers.length;
-    return worker;
+    return this.workers.reduce((best, worker) =>
+      this.getWorkerLoad(worker.pid) < this.getWorkerLoad(best.pid) ? worker : best,
+    );
+  }
+
+  private getWorkerLoad(pid: number): number {
+    return this.workerLoads.get(pid) ?? 0;
+  }
+
+  /**
+   * Counts one stream against the router's worker. Returns the matching
+   * release callback, safe to call more than once.
+   */
+  private addWorkerLoad(router: Router): () => void {
+    const pid = router.appData['workerPid'] as number;
+    this.workerLoads.set(pid, this.getWorkerLoad(pid) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.workerLoads.set(pid, Math.max(0, this.getWorkerLoad(pid) - 1));
+    };
+  }
+
+  /**
+   * Picks the router a new recv transport should live on. The room stays on
+   * the workers it already spans while one of them is under the load
+   * threshold; otherwise it expands onto the least-loaded worker.
+   */
+  private async getConsumerRouter(roomId: string, room: RoomRouters): Promise<Router> {
+    let best: Router | null = null;
+    for (const router of room.routers.values()) {
+      if (router.closed) continue;
+      const load = this.getWorkerLoad(router.appData['workerPid'] as number);
+      if (!best || load < this.getWorkerLoad(best.appData['workerPid'] as number)) {
+        best = router;
+      }
+    }
+    if (best && this.getWorkerLoad(best.appData['workerPid'] as number) < this.maxLoadPerWorker) {
+      return best;
+    }
+
+    const worker = this.getLeastLoadedWorker();
+    const existing = room.routers.get(worker.pid);
+    if (existing && !existing.closed) {
+      // Every worker is over the threshold; the room already has the best one
+      return existing;
+    }
+
+    let pending = room.pendingRouters.get(worker.pid);
+    if (!pending) {
+      pending = this.createRouter(worker).then((router) => {
+        room.routers.set(worker.pid, router);
+        this.logger.log(`Room ${roomId} expanded to worker ${worker.pid} (router ${router.id})`);
+        return router;
+      });
+      room.pendingRouters.set(worker.pid, pending);
+      pending
+        .finally(() => room.pendingRouters.delete(worker.pid))
+        .catch(() => undefined);
+    }
+
+    const router = await pending;
+    if (this.rooms.get(roomId) !== room) {
+      // Room was torn down while the router was being created
+      router.close();
+      throw new WsMediaException('Router not found for room');
+    }
+    return router;
+  }
+
+  /**
+   * Makes an origin producer or data producer available on a consumer router.
+   * Each one is piped to each router once; the pipe closes with its source.
+   */
+  private pipeToConsumerRouter(
+    room: RoomRouters,
+    router: Router,
+    source: { producerId: string } | { dataProducerId: string },
+  ): Promise<void> {
+    if (router === room.origin) return Promise.resolve();
+
+    const sourceId = 'producerId' in source ? source.producerId : source.dataProducerId;
+    const key = `${router.id}:${sourceId}`;
+    let pipe = room.pipes.get(key);
+    if (!pipe) {
+      pipe = room.origin
+        .pipeToRouter({ ...source, router })
+        .then(({ pipeConsumer, pipeProducer, pipeDataConsumer, pipeDataProducer }) => {
+          if (pipeConsumer) pipeConsumer.observer.once('close', this.addWorkerLoad(room.origin));
+          if (pipeDataConsumer) pipeDataConsumer.observer.once('close', this.addWorkerLoad(room.origin));
+          if (pipeProducer) {
+            pipeProducer.observer.once('close', this.addWorkerLoad(router));
+            pipeProducer.observer.once('close', () => room.pipes.delete(key));
+          }
+          if (pipeDataProducer) {
+            pipeDataProducer.observer.once('close', this.addWorkerLoad(router));
+            pipeDataProducer.observer.once('close', () => room.pipes.delete(key));
+          }
+        });
+      room.pipes.set(key, pipe);
+      pipe.catch(() => room.pipes.delete(key));
+    }
+
+    return pipe;
   }
 }
@@ -0,0 +1,35 @@
+import { WsMediaException } from '../shared/exceptions';
+
+/**
+ * Hands out RTP/RTCP port pairs from a fixed range, for PlainTransport taps
+ * whose listener (ffmpeg) binds on this host. `purpose` names the range in
+ * the error raised when it runs out.
+ */
+export class RtpPortPool {
+  private readonly usedPorts = new Set<number>();
+
+  constructor(
+    private readonly minPort: number,
+    private readonly maxPort: number,
+    private readonly purpose: string,
+  ) {}
+
+  /** An even RTP port and the RTCP port right after it */
+  allocatePair(): [number, number] {
+    const start = this.minPort % 2 === 0 ? this.minPort : this.minPort + 1;
+    for (let port = start; port + 1 <= this.maxPort; port += 2) {
+      if (!this.usedPorts.has(port) && !this.usedPorts.has(port + 1)) {
+        this.usedPorts.add(port);
+        this.usedPorts.add(port + 1);
+        return [port, port + 1];
+      }
+    }
+    throw new WsMediaException(`No free RTP ports for ${this.purpose}`);
+  }
+
+  release(...ports: number[]): void {
+    for (const port of ports) {
+      this.usedPorts.delete(port);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import {
+    Controller,
+    Get,
+    Header,
+    Param,
+    ParseUUIDPipe,
+    Req,
+    UseGuards,
+} from '@nestjs/common';
+import { PollsService } from './polls.service';
+import { JwtAuthGuard, RolesGuard, Roles } from '../auth/guards';
+import { UserRole } from '../shared/enums';
+
+@Controller('admin/meetings/:meetingId/polls')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.TEACHER)
+export class PollsController {
+    constructor(private readonly pollsService: PollsService) { }
+
+    @Get()
+    async getMeetingPolls(@Req() req: any, @Param('meetingId', ParseUUIDPipe) meetingId: string) {
+        return this.pollsService.getMeetingPolls(meetingId, req.user);
+    }
+
+    @Get('export')
+    @Header('Content-Type', 'text/csv; charset=utf-8')
+    @Header('Content-Disposition', 'attachment; filename="poll-results.csv"')
+    async exportMeetingPolls(@Req() req: any, @Param('meetingId', ParseUUIDPipe) meetingId: string) {
+        return this.pollsService.exportCsv(meetingId, req.user);
+    }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PollsService } from './polls.service';
+import { PollsController } from './polls.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+    imports: [PrismaModule],
+    controllers: [PollsController],
+    providers: [PollsService],
+    exports: [PollsService],
+})
+export class PollsModule { }
@@ -0,0 +1,264 @@
+import { ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { UserRole } from '../shared/enums';
+import { WsRoomException } from '../shared/exceptions';
+import type { PollResults, PollType } from '../gateway/contract';
+
+const DEFAULT_RATING_SCALE = 5;
+
+const POLL_INCLUDE = {
+    options: {
+        orderBy: { position: 'asc' },
+        include: {
+            votes: {
+                include: {
+                    user: { select: { id: true, displayName: true } },
+                },
+            },
+        },
+    },
+} satisfies Prisma.PollInclude;
+
+type PollWithVotes = Prisma.PollGetPayload<{ include: typeof POLL_INCLUDE }>;
+
+@Injectable()
+export class PollsService {
+    private readonly logger = new Logger(PollsService.name);
+
+    constructor(private readonly prisma: PrismaService) { }
+
+    async createPoll(params: {
+        meetingId: string;
+        userId: string;
+        question: string;
+        type: PollType;
+        options?: string[];
+        scale?: number;
+        anonymous?: boolean;
+    }): Promise<PollResults> {
+        let labels: string[];
+        if (params.type === 'rating') {
+            const scale = params.scale ?? DEFAULT_RATING_SCALE;
+            labels = Array.from({ length: scale }, (_, i) => String(i + 1));
+        } else {
+            labels = params.options ?? [];
+            if (labels.length < 2) {
+                throw new WsRoomException('A poll needs at least two options');
+            }
+        }
+
+        const poll = await this.prisma.poll.create({
+            data: {
+                roomId: params.meetingId,
+                createdById: params.userId,
+                question: params.question,
+                type: params.type,
+                isAnonymous: params.anonymous ?? false,
+                options: {
+                    create: labels.map((label, position) => ({ label, position })),
+                },
+            },
+            include: POLL_INCLUDE,
+        });
+
+        this.logger.log(`Poll ${poll.id} (${poll.type}) created in meeting ${params.meetingId}`);
+        return this.toResults(poll, false);
+    }
+
+    /**
+     * Records a user's answer, replacing what they picked before. Returns
+     * the updated tally and the options the user now has.
+     */
+    async vote(params: {
+        meetingId: string;
+        pollId: string;
+        userId: string;
+        optionIds: string[];
+        includeVoters: boolean;
+    }): Promise<{ poll: PollResults; myVotes: string[] }> {
+        const poll = await this.prisma.poll.findUnique({
+            where: { id: params.pollId },
+            include: { options: { select: { id: true } } },
+        });
+        if (!poll || poll.roomId !== params.meetingId) {
+            throw new WsRoomException('Poll not found');
+        }
+        if (poll.isClosed) {
+            throw new WsRoomException('This poll is closed');
+        }
+
+        const optionIds = [...new Set(params.optionIds)];
+        const validIds = new Set(poll.options.map((o) => o.id));
+        if (optionIds.length === 0 || optionIds.some((id) => !validIds.has(id))) {
+            throw new WsRoomException('Pick one of the poll options');
+        }
+        if (poll.type !== 'multiple' && optionIds.length > 1) {
+            throw new WsRoomException('This poll takes a single answer');
+        }
+
+        await this.prisma.$transaction([
+            this.prisma.pollVote.deleteMany({
+                where: { pollId: poll.id, userId: params.userId },
+            }),
+            this.prisma.pollVote.createMany({
+                data: optionIds.map((optionId) => ({ pollId: poll.id, optionId, userId: params.userId })),
+                skipDuplicates: true,
+            }),
+        ]);
+
+        return {
+            poll: await this.getResults(poll.id, params.includeVoters),
+            myVotes: optionIds,
+        };
+    }
+
+    async closePoll(meetingId: string, pollId: string, includeVoters: boolean): Promise<PollResults> {
+        const { count } = await this.prisma.poll.updateMany({
+            where: { id: pollId, roomId: meetingId, isClosed: false },
+            data: { isClosed: true, closedAt: new Date() },
+        });
+        if (count === 0) {
+            const exists = await this.prisma.poll.count({ where: { id: pollId, roomId: meetingId } });
+            throw new WsRoomException(exists ? 'This poll is already closed' : 'Poll not found');
+        }
+
+        this.logger.log(`Poll ${pollId} closed in meeting ${meetingId}`);
+        return this.getResults(pollId, includeVoters);
+    }
+
+    async getResults(pollId: string, includeVoters: boolean): Promise<PollResults> {
+        const poll = await this.prisma.poll.findUnique({
+            where: { id: pollId },
+            include: POLL_INCLUDE,
+        });
+        if (!poll) {
+            throw new WsRoomException('Poll not found');
+        }
+        return this.toResults(poll, includeVoters);
+    }
+
+    /** A meeting's polls, newest first, with the options `userId` picked */
+    async getPolls(
+        meetingId: string,
+        userId: string,
+        includeVoters: boolean,
+    ): Promise<Array<PollResults & { myVotes: string[] }>> {
+        const polls = await this.prisma.poll.findMany({
+            where: { roomId: meetingId },
+            orderBy: { createdAt: 'desc' },
+            include: POLL_INCLUDE,
+        });
+
+        return polls.map((poll) => ({
+            ...this.toResults(poll, includeVoters),
+            myVotes: poll.options
+                .filter((option) => option.votes.some((vote) => vote.userId === userId))
+                .map((option) => option.id),
+        }));
+    }
+
+    // ─── Export ────────────────────────────────────────
+
+    /** Results of every poll in a meeting, for its host or an admin */
+    async getMeetingPolls(meetingId: string, user: { id: string; role: UserRole }): Promise<PollResults[]> {
+        const meeting = await this.prisma.meetings.findUnique({
+            where: { id: meetingId },
+            select: { hostId: true },
+        });
+        if (!meeting) {
+            throw new NotFoundException('Meeting not found');
+        }
+        if (meeting.hostId !== user.id && user.role !== UserRole.ADMIN) {
+            throw new ForbiddenException('Only the host can export poll results');
+        }
+
+        const polls = await this.prisma.poll.findMany({
+            where: { roomId: meetingId },
+            orderBy: { createdAt: 'asc' },
+            include: POLL_INCLUDE,
+        });
+        return polls.map((poll) => this.toResults(poll, true));
+    }
+
+    /** One row per poll option; voters are listed for named polls only */
+    async exportCsv(meetingId: string, user: { id: string; role: UserRole }): Promise<string> {
+        const polls = await this.getMeetingPolls(meetingId, user);
+
+        const rows: string[][] = [
+            ['Poll', 'Type', 'Anonymous', 'Created', 'Closed', 'Option', 'Votes', 'Average rating', 'Voters'],
+        ];
+        for (const poll of polls) {
+            for (const option of poll.options) {
+                rows.push([
+                    poll.question,
+                    poll.type,
+                    poll.anonymous ? 'yes' : 'no',
+                    poll.createdAt,
+                    poll.closedAt ?? '',
+                    option.label,
+                    String(option.votes),
+                    poll.averageRating === null ? '' : poll.averageRating.toFixed(2),
+                    (option.voters ?? []).map((v) => v.displayName).join('; '),
+                ]);
+            }
+        }
+
+        return rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+    }
+
+    private toResults(poll: PollWithVotes, includeVoters: boolean): PollResults {
+        const voters = new Set<string>();
+        let ratingTotal = 0;
+        let ratingCount = 0;
+
+        const options = poll.options.map((option) => {
+            for (const vote of option.votes) voters.add(vote.userId);
+            if (poll.type === 'rating') {
+                ratingTotal += (option.position + 1) * option.votes.length;
+                ratingCount += option.votes.length;
+            }
+
+            return {
+                id: option.id,
+                label: option.label,
+                votes: option.votes.length,
+                ...(includeVoters && !poll.isAnonymous && {
+                    voters: option.votes.map((vote) => ({
+                        userId: vote.user.id,
+                        displayName: vote.user.displayName,
+                    })),
+                }),
+            };
+        });
+
+        return {
+            id: poll.id,
+            roomId: poll.roomId,
+            question: poll.question,
+            type: poll.type as PollType,
+            anonymous: poll.isAnonymous,
+            closed: poll.isClosed,
+            createdBy: poll.createdById,
+            createdAt: poll.createdAt.toISOString(),
+            closedAt: poll.closedAt?.toISOString() ?? null,
+            options,
+            totalVoters: voters.size,
+            averageRating: ratingCount > 0 ? ratingTotal / ratingCount : null,
+        };
+    }
+}
+
+/** The tally as everyone may see it: counts only */
+export function withoutVoters(poll: PollResults): PollResults {
+    return {
+        ...poll,
+        options: poll.options.map(({ voters: _voters, ...option }) => option),
+    };
+}
+
+/** Quotes a CSV field, and defuses values a spreadsheet would run as a formula */
+function csvCell(value: string): string {
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,54 @@
+import {
+    IsString,
+    IsNotEmpty,
+    IsOptional,
+    IsIn,
+    IsInt,
+    IsArray,
+    ArrayMaxSize,
+    MaxLength,
+    Min,
+    Max,
+} from 'class-validator';
+import type { QuizQuestionType } from '../../gateway/contract';
+
+export const QUIZ_QUESTION_TYPES: QuizQuestionType[] = ['single', 'multiple', 'short_answer', 'open'];
+
+export class CreateQuizQuestionDto {
+    @IsIn(QUIZ_QUESTION_TYPES)
+    type!: QuizQuestionType;
+
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(2000)
+    prompt!: string;
+
+    /** Choice questions: 2 to 10 choices */
+    @IsArray()
+    @IsOptional()
+    @ArrayMaxSize(10)
+    @IsString({ each: true })
+    @MaxLength(500, { each: true })
+    choices?: string[];
+
+    /** Choice questions: indexes into `choices` */
+    @IsArray()
+    @IsOptional()
+    @IsInt({ each: true })
+    @Min(0, { each: true })
+    correctChoices?: number[];
+
+    /** Short answer questions */
+    @IsArray()
+    @IsOptional()
+    @ArrayMaxSize(20)
+    @IsString({ each: true })
+    @MaxLength(200, { each: true })
+    acceptedAnswers?: string[];
+
+    @IsInt()
+    @IsOptional()
+    @Min(1)
+    @Max(100)
+    points?: number;
+}
@@ -0,0 +1,8 @@
+import { IsInt, Min } from 'class-validator';
+
+export class GradeAnswerDto {
+    /** At most the question's points */
+    @IsInt()
+    @Min(0)
+    points!: number;
+}
@@ -0,0 +1,3 @@
+export { CreateQuizQuestionDto } from './create-quiz-question.dto';
+export { UpdateQuizQuestionDto } from './update-quiz-question.dto';
+export { GradeAnswerDto } from './grade-answer.dto';
@@ -0,0 +1,52 @@
+import {
+    IsString,
+    IsNotEmpty,
+    IsOptional,
+    IsIn,
+    IsInt,
+    IsArray,
+    ArrayMaxSize,
+    MaxLength,
+    Min,
+    Max,
+} from 'class-validator';
+import { QUIZ_QUESTION_TYPES } from './create-quiz-question.dto';
+import type { QuizQuestionType } from '../../gateway/contract';
+
+export class UpdateQuizQuestionDto {
+    @IsIn(QUIZ_QUESTION_TYPES)
+    @IsOptional()
+    type?: QuizQuestionType;
+
+    @IsString()
+    @IsNotEmpty()
+    @IsOptional()
+    @MaxLength(2000)
+    prompt?: string;
+
+    @IsArray()
+    @IsOptional()
+    @ArrayMaxSize(10)
+    @IsString({ each: true })
+    @MaxLength(500, { each: true })
+    choices?: string[];
+
+    @IsArray()
+    @IsOptional()
+    @IsInt({ each: true })
+    @Min(0, { each: true })
+    correctChoices?: number[];
+
+    @IsArray()
+    @IsOptional()
+    @ArrayMaxSize(20)
+    @IsString({ each: true })
+    @MaxLength(200, { each: true })
+    acceptedAnswers?: string[];
+
+    @IsInt()
+    @IsOptional()
+    @Min(1)
+    @Max(100)
+    points?: number;
+}
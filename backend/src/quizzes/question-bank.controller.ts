@@ -0,0 +1,63 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Delete,
+    Body,
+    Param,
+    ParseUUIDPipe,
+    UseGuards,
+    HttpCode,
+    HttpStatus,
+    UsePipes,
+    ValidationPipe,
+    Request,
+} from '@nestjs/common';
+import { QuizzesService } from './quizzes.service';
+import { JwtAuthGuard, RolesGuard, Roles } from '../auth/guards';
+import { UserRole } from '../shared/enums';
+import { CreateQuizQuestionDto, UpdateQuizQuestionDto } from './dto';
+
+/** A subject's question bank, kept by the teachers of that subject */
+@Controller('admin/subjects/:subjectId/questions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.TEACHER)
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class QuestionBankController {
+    constructor(private readonly quizzesService: QuizzesService) { }
+
+    @Get()
+    async findAll(@Request() req: any, @Param('subjectId', ParseUUIDPipe) subjectId: string) {
+        return this.quizzesService.getQuestions(subjectId, req.user);
+    }
+
+    @Post()
+    async create(
+        @Request() req: any,
+        @Param('subjectId', ParseUUIDPipe) subjectId: string,
+        @Body() dto: CreateQuizQuestionDto,
+    ) {
+        return this.quizzesService.createQuestion(subjectId, req.user, dto);
+    }
+
+    @Put(':questionId')
+    async update(
+        @Request() req: any,
+        @Param('subjectId', ParseUUIDPipe) subjectId: string,
+        @Param('questionId', ParseUUIDPipe) questionId: string,
+        @Body() dto: UpdateQuizQuestionDto,
+    ) {
+        return this.quizzesService.updateQuestion(subjectId, questionId, req.user, dto);
+    }
+
+    @Delete(':questionId')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async delete(
+        @Request() req: any,
+        @Param('subjectId', ParseUUIDPipe) subjectId: string,
+        @Param('questionId', ParseUUIDPipe) questionId: string,
+    ) {
+        await this.quizzesService.deleteQuestion(subjectId, questionId, req.user);
+    }
+}
@@ -0,0 +1,53 @@
+import {
+    Controller,
+    Get,
+    Patch,
+    Body,
+    Param,
+    Query,
+    ParseUUIDPipe,
+    UseGuards,
+    UsePipes,
+    ValidationPipe,
+    Request,
+} from '@nestjs/common';
+import { QuizzesService } from './quizzes.service';
+import { JwtAuthGuard, RolesGuard, Roles } from '../auth/guards';
+import { UserRole } from '../shared/enums';
+import { GradeAnswerDto } from './dto';
+
+@Controller('admin/quizzes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class QuizzesController {
+    constructor(private readonly quizzesService: QuizzesService) { }
+
+    @Get()
+    @Roles(UserRole.ADMIN, UserRole.TEACHER)
+    async findAll(@Request() req: any, @Query('subjectId') subjectId?: string) {
+        return this.quizzesService.getQuizzes(req.user, subjectId || undefined);
+    }
+
+    @Get('my-results')
+    @Roles(UserRole.STUDENT)
+    async getMyResults(@Request() req: any) {
+        return this.quizzesService.getStudentResults(req.user.id);
+    }
+
+    @Get(':quizId')
+    @Roles(UserRole.ADMIN, UserRole.TEACHER)
+    async findOne(@Request() req: any, @Param('quizId', ParseUUIDPipe) quizId: string) {
+        return this.quizzesService.getQuizResults(quizId, req.user);
+    }
+
+    @Patch(':quizId/answers/:answerId')
+    @Roles(UserRole.ADMIN, UserRole.TEACHER)
+    async gradeAnswer(
+        @Request() req: any,
+        @Param('quizId', ParseUUIDPipe) quizId: string,
+        @Param('answerId', ParseUUIDPipe) answerId: string,
+        @Body() dto: GradeAnswerDto,
+    ) {
+        return this.quizzesService.gradeAnswer(quizId, answerId, dto.points, req.user);
+    }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { QuizzesService } from './quizzes.service';
+import { QuizzesController } from './quizzes.controller';
+import { QuestionBankController } from './question-bank.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+    imports: [PrismaModule],
+    controllers: [QuestionBankController, QuizzesController],
+    providers: [QuizzesService],
+    exports: [QuizzesService],
+})
+export class QuizzesModule { }
@@ -0,0 +1,505 @@
+import {
+    BadRequestException,
+    ForbiddenException,
+    Injectable,
+    Logger,
+    NotFoundException,
+} from '@nestjs/common';
+import type { QuizItem as QuizItemRow } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { UserRole } from '../shared/enums';
+import { WsRoomException } from '../shared/exceptions';
+import type { ActiveQuiz, QuizQuestionType, QuizScore } from '../gateway/contract';
+import { CreateQuizQuestionDto, UpdateQuizQuestionDto } from './dto';
+
+/** Answers sent by clients that auto-submit as the clock runs out */
+export const QUIZ_SUBMIT_GRACE_MS = 5_000;
+
+type QuizUser = { id: string; role: UserRole };
+
+interface SubmittedAnswer {
+    itemId: string;
+    choices?: number[];
+    text?: string;
+}
+
+@Injectable()
+export class QuizzesService {
+    private readonly logger = new Logger(QuizzesService.name);
+
+    constructor(private readonly prisma: PrismaService) { }
+
+    // ─── QUESTION BANK ─────────────────────────────────
+
+    async getQuestions(subjectId: string, user: QuizUser) {
+        await this.assertSubjectAccess(subjectId, user);
+
+        return this.prisma.quizQuestion.findMany({
+            where: { subjectId },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    async createQuestion(subjectId: string, user: QuizUser, dto: CreateQuizQuestionDto) {
+        await this.assertSubjectAccess(subjectId, user);
+
+        const question = await this.prisma.quizQuestion.create({
+            data: {
+                subjectId,
+                createdById: user.id,
+                points: dto.points ?? 1,
+                ...checkQuestion(dto),
+            },
+        });
+        this.logger.log(`Question ${question.id} added to the bank of subject ${subjectId}`);
+        return question;
+    }
+
+    async updateQuestion(subjectId: string, questionId: string, user: QuizUser, dto: UpdateQuizQuestionDto) {
+        await this.assertSubjectAccess(subjectId, user);
+        const existing = await this.findQuestion(subjectId, questionId);
+
+        // Quizzes already run keep their own copy, so edits only affect new ones
+        return this.prisma.quizQuestion.update({
+            where: { id: questionId },
+            data: {
+                points: dto.points ?? existing.points,
+                ...checkQuestion({
+                    type: dto.type ?? (existing.type as QuizQuestionType),
+                    prompt: dto.prompt ?? existing.prompt,
+                    choices: dto.choices ?? existing.choices,
+                    correctChoices: dto.correctChoices ?? existing.correctChoices,
+                    acceptedAnswers: dto.acceptedAnswers ?? existing.acceptedAnswers,
+                }),
+            },
+        });
+    }
+
+    async deleteQuestion(subjectId: string, questionId: string, user: QuizUser) {
+        await this.assertSubjectAccess(subjectId, user);
+        await this.findQuestion(subjectId, questionId);
+
+        await this.prisma.quizQuestion.delete({ where: { id: questionId } });
+        this.logger.log(`Question ${questionId} removed from the bank of subject ${subjectId}`);
+    }
+
+    // ─── IN-MEETING QUIZZES ────────────────────────────
+
+    /** Copies the picked bank questions into a new quiz and starts its clock */
+    async launchQuiz(params: {
+        meetingId: string;
+        user: QuizUser;
+        subjectId?: string;
+        title: string;
+        questionIds: string[];
+        durationSeconds: number;
+    }): Promise<ActiveQuiz> {
+        const meeting = await this.prisma.meetings.findUnique({
+            where: { id: params.meetingId },
+            select: { subjectId: true },
+        });
+        const subjectId = params.subjectId ?? meeting?.subjectId;
+        if (!subjectId) {
+            throw new WsRoomException('Pick the subject this quiz is for');
+        }
+        if (!(await this.canManageSubject(subjectId, params.user))) {
+            throw new WsRoomException('You can only run quizzes for subjects you teach');
+        }
+        if (await this.findRunningQuiz(params.meetingId)) {
+            throw new WsRoomException('A quiz is already running in this meeting');
+        }
+
+        const questionIds = [...new Set(params.questionIds)];
+        const questions = await this.prisma.quizQuestion.findMany({
+            where: { id: { in: questionIds }, subjectId },
+        });
+        if (questions.length !== questionIds.length) {
+            throw new WsRoomException("Some questions aren't in this subject's question bank");
+        }
+        const byId = new Map(questions.map((q) => [q.id, q]));
+
+        const startedAt = new Date();
+        const quiz = await this.prisma.quiz.create({
+            data: {
+                meetingId: params.meetingId,
+                subjectId,
+                createdById: params.user.id,
+                title: params.title,
+                durationSeconds: params.durationSeconds,
+                startedAt,
+                endsAt: new Date(startedAt.getTime() + params.durationSeconds * 1000),
+                items: {
+                    create: questionIds.map((id, position) => {
+                        const q = byId.get(id)!;
+                        return {
+                            questionId: q.id,
+                            position,
+                            type: q.type,
+                            prompt: q.prompt,
+                            choices: q.choices,
+                            correctChoices: q.correctChoices,
+                            acceptedAnswers: q.acceptedAnswers,
+                            points: q.points,
+                        };
+                    }),
+                },
+            },
+            include: { items: { orderBy: { position: 'asc' } } },
+        });
+
+        this.logger.log(`Quiz ${quiz.id} (${quiz.items.length} questions) launched in meeting ${params.meetingId}`);
+        return toActiveQuiz(quiz);
+    }
+
+    /** The meeting's running quiz, and whether `userId` handed it in */
+    async getActiveQuiz(meetingId: string, userId: string): Promise<{ quiz: ActiveQuiz | null; submitted: boolean }> {
+        const quiz = await this.findRunningQuiz(meetingId);
+        if (!quiz) return { quiz: null, submitted: false };
+
+        const attempt = await this.prisma.quizAttempt.findUnique({
+            where: { quizId_userId: { quizId: quiz.id, userId } },
+            select: { id: true },
+        });
+        return { quiz: toActiveQuiz(quiz), submitted: !!attempt };
+    }
+
+    /** Grades a student's answers; open questions wait for the teacher */
+    async submit(params: {
+        meetingId: string;
+        quizId: string;
+        userId: string;
+        answers: SubmittedAnswer[];
+    }): Promise<{ result: QuizScore; submitted: number }> {
+        const quiz = await this.prisma.quiz.findUnique({
+            where: { id: params.quizId },
+            include: { items: true },
+        });
+        if (!quiz || quiz.meetingId !== params.meetingId) {
+            throw new WsRoomException('Quiz not found');
+        }
+        if (quiz.closedAt || Date.now() > quiz.endsAt.getTime() + QUIZ_SUBMIT_GRACE_MS) {
+            throw new WsRoomException('This quiz has ended');
+        }
+
+        const given = new Map(params.answers.map((a) => [a.itemId, a]));
+        const answers = quiz.items.map((item) => {
+            const answer = given.get(item.id);
+            const choices = [...new Set(answer?.choices ?? [])];
+            const text = answer?.text || null;
+            return { itemId: item.id, choices, text, ...gradeAnswer(item, choices, text) };
+        });
+
+        const maxScore = quiz.items.reduce((sum, item) => sum + item.points, 0);
+        const score = answers.reduce((sum, a) => sum + (a.points ?? 0), 0);
+        const pendingGrading = answers.some((a) => a.points === null);
+
+        try {
+            await this.prisma.quizAttempt.create({
+                data: {
+                    quizId: quiz.id,
+                    userId: params.userId,
+                    score,
+                    maxScore,
+                    pendingGrading,
+                    answers: { create: answers },
+                },
+            });
+        } catch (error: any) {
+            if (error.code === 'P2002') {
+                throw new WsRoomException('You already handed in this quiz');
+            }
+            throw error;
+        }
+
+        const submitted = await this.prisma.quizAttempt.count({ where: { quizId: quiz.id } });
+        return {
+            result: { quizId: quiz.id, score, maxScore, pendingGrading },
+            submitted,
+        };
+    }
+
+    /**
+     * Stops taking answers. `ended` is false when the quiz had already
+     * ended, e.g. the host ended it before its clock ran out.
+     */
+    async endQuiz(meetingId: string, quizId: string): Promise<{ ended: boolean; submitted: number }> {
+        const { count } = await this.prisma.quiz.updateMany({
+            where: { id: quizId, meetingId, closedAt: null },
+            data: { closedAt: new Date() },
+        });
+        if (count === 0 && !(await this.prisma.quiz.count({ where: { id: quizId, meetingId } }))) {
+            throw new WsRoomException('Quiz not found');
+        }
+
+        if (count > 0) {
+            this.logger.log(`Quiz ${quizId} ended in meeting ${meetingId}`);
+        }
+        const submitted = await this.prisma.quizAttempt.count({ where: { quizId } });
+        return { ended: count > 0, submitted };
+    }
+
+    // ─── RESULTS ───────────────────────────────────────
+
+    /** Quizzes of the subjects a teacher teaches (every quiz for admins), newest first */
+    async getQuizzes(user: QuizUser, subjectId?: string) {
+        const quizzes = await this.prisma.quiz.findMany({
+            where: {
+                ...(subjectId && { subjectId }),
+                ...(user.role !== UserRole.ADMIN && {
+                    OR: [
+                        { createdById: user.id },
+                        { subject: { teachers: { some: { teacherId: user.id } } } },
+                    ],
+                }),
+            },
+            orderBy: { startedAt: 'desc' },
+            include: {
+                subject: { select: { id: true, name: true, color: true } },
+                meeting: { select: { id: true, title: true } },
+                items: { select: { points: true } },
+                attempts: { select: { score: true, maxScore: true, pendingGrading: true } },
+            },
+        });
+
+        return quizzes.map((quiz) => {
+            const maxScore = quiz.items.reduce((sum, item) => sum + item.points, 0);
+            const totalScore = quiz.attempts.reduce((sum, a) => sum + a.score, 0);
+            return {
+                id: quiz.id,
+                title: quiz.title,
+                subject: quiz.subject,
+                meeting: quiz.meeting,
+                startedAt: quiz.startedAt,
+                endsAt: quiz.endsAt,
+                closedAt: quiz.closedAt,
+                questionCount: quiz.items.length,
+                maxScore,
+                submissions: quiz.attempts.length,
+                averageScore: quiz.attempts.length > 0 ? totalScore / quiz.attempts.length : null,
+                pendingGrading: quiz.attempts.filter((a) => a.pendingGrading).length,
+            };
+        });
+    }
+
+    /** A quiz with its answer key and every student's answers */
+    async getQuizResults(quizId: string, user: QuizUser) {
+        const quiz = await this.prisma.quiz.findUnique({
+            where: { id: quizId },
+            include: {
+                subject: { select: { id: true, name: true, color: true } },
+                meeting: { select: { id: true, title: true } },
+                items: { orderBy: { position: 'asc' } },
+                attempts: {
+                    orderBy: { submittedAt: 'asc' },
+                    include: {
+                        user: { select: { id: true, displayName: true, email: true } },
+                        answers: true,
+                    },
+                },
+            },
+        });
+        if (!quiz) {
+            throw new NotFoundException('Quiz not found');
+        }
+        await this.assertQuizAccess(quiz, user);
+
+        return quiz;
+    }
+
+    /** Scores an open answer (or overrides an automatic grade) */
+    async gradeAnswer(quizId: string, answerId: string, points: number, user: QuizUser) {
+        const answer = await this.prisma.quizAnswer.findUnique({
+            where: { id: answerId },
+            include: {
+                item: { select: { points: true } },
+                attempt: { include: { quiz: { select: { id: true, subjectId: true, createdById: true } } } },
+            },
+        });
+        if (!answer || answer.attempt.quizId !== quizId) {
+            throw new NotFoundException('Answer not found');
+        }
+        await this.assertQuizAccess(answer.attempt.quiz, user);
+        if (points > answer.item.points) {
+            throw new BadRequestException(`This question is worth at most ${answer.item.points} points`);
+        }
+
+        return this.prisma.$transaction(async (tx) => {
+            await tx.quizAnswer.update({
+                where: { id: answerId },
+                data: { points, isCorrect: points === answer.item.points },
+            });
+
+            const answers = await tx.quizAnswer.findMany({
+                where: { attemptId: answer.attemptId },
+                select: { points: true },
+            });
+            return tx.quizAttempt.update({
+                where: { id: answer.attemptId },
+                data: {
+                    score: answers.reduce((sum, a) => sum + (a.points ?? 0), 0),
+                    pendingGrading: answers.some((a) => a.points === null),
+                },
+                include: { answers: true },
+            });
+        });
+    }
+
+    /** A student's own quiz scores, newest first */
+    async getStudentResults(userId: string) {
+        const attempts = await this.prisma.quizAttempt.findMany({
+            where: { userId },
+            orderBy: { submittedAt: 'desc' },
+            include: {
+                quiz: {
+                    select: {
+                        id: true,
+                        title: true,
+                        subject: { select: { id: true, name: true, color: true } },
+                        meeting: { select: { id: true, title: true } },
+                    },
+                },
+            },
+        });
+
+        return attempts.map((attempt) => ({
+            id: attempt.id,
+            quizId: attempt.quiz.id,
+            title: attempt.quiz.title,
+            subject: attempt.quiz.subject,
+            meeting: attempt.quiz.meeting,
+            score: attempt.score,
+            maxScore: attempt.maxScore,
+            pendingGrading: attempt.pendingGrading,
+            submittedAt: attempt.submittedAt,
+        }));
+    }
+
+    // ─── HELPERS ───────────────────────────────────────
+
+    private findRunningQuiz(meetingId: string) {
+        return this.prisma.quiz.findFirst({
+            where: { meetingId, closedAt: null, endsAt: { gt: new Date() } },
+            include: { items: { orderBy: { position: 'asc' } } },
+        });
+    }
+
+    private async findQuestion(subjectId: string, questionId: string) {
+        const question = await this.prisma.quizQuestion.findUnique({ where: { id: questionId } });
+        if (!question || question.subjectId !== subjectId) {
+            throw new NotFoundException('Question not found');
+        }
+        return question;
+    }
+
+    private async canManageSubject(subjectId: string, user: QuizUser): Promise<boolean> {
+        if (user.role === UserRole.ADMIN) return true;
+
+        const assignment = await this.prisma.teacherSubject.findUnique({
+            where: { teacherId_subjectId: { teacherId: user.id, subjectId } },
+            select: { id: true },
+        });
+        return !!assignment;
+    }
+
+    private async assertSubjectAccess(subjectId: string, user: QuizUser): Promise<void> {
+        const subject = await this.prisma.subject.findUnique({
+            where: { id: subjectId },
+            select: { id: true },
+        });
+        if (!subject) {
+            throw new NotFoundException(`Subject with ID ${subjectId} not found`);
+        }
+        if (!(await this.canManageSubject(subjectId, user))) {
+            throw new ForbiddenException('You are not assigned to this subject');
+        }
+    }
+
+    private async assertQuizAccess(quiz: { subjectId: string; createdById: string }, user: QuizUser): Promise<void> {
+        if (quiz.createdById === user.id) return;
+        if (!(await this.canManageSubject(quiz.subjectId, user))) {
+            throw new ForbiddenException('You are not assigned to this subject');
+        }
+    }
+}
+
+/** Rejects a question that can't be graded as asked; clears fields its type doesn't use */
+function checkQuestion(q: {
+    type: QuizQuestionType;
+    prompt: string;
+    choices?: string[];
+    correctChoices?: number[];
+    acceptedAnswers?: string[];
+}) {
+    const choices = (q.choices ?? []).map((c) => c.trim()).filter(Boolean);
+    const correctChoices = [...new Set(q.correctChoices ?? [])].sort((a, b) => a - b);
+    const acceptedAnswers = (q.acceptedAnswers ?? []).map((a) => a.trim()).filter(Boolean);
+
+    if (q.type === 'single' || q.type === 'multiple') {
+        if (choices.length < 2) {
+            throw new BadRequestException('A choice question needs at least two choices');
+        }
+        if (correctChoices.length === 0 || correctChoices.some((i) => i >= choices.length)) {
+            throw new BadRequestException('Mark which of the choices are correct');
+        }
+        if (q.type === 'single' && correctChoices.length > 1) {
+            throw new BadRequestException('A single choice question has exactly one correct choice');
+        }
+        return { type: q.type, prompt: q.prompt.trim(), choices, correctChoices, acceptedAnswers: [] };
+    }
+
+    if (q.type === 'short_answer' && acceptedAnswers.length === 0) {
+        throw new BadRequestException('A short answer question needs at least one accepted answer');
+    }
+    return { type: q.type, prompt: q.prompt.trim(), choices: [], correctChoices: [], acceptedAnswers };
+}
+
+/** Choice questions score only an exact match; open questions are left for the teacher */
+function gradeAnswer(
+    item: QuizItemRow,
+    choices: number[],
+    text: string | null,
+): { isCorrect: boolean | null; points: number | null } {
+    let isCorrect: boolean;
+    switch (item.type as QuizQuestionType) {
+        case 'open':
+            return { isCorrect: null, points: null };
+        case 'short_answer':
+            isCorrect = text !== null && item.acceptedAnswers.some((a) => normalize(a) === normalize(text));
+            break;
+        default:
+            isCorrect = choices.length === item.correctChoices.length
+                && choices.every((c) => item.correctChoices.includes(c));
+    }
+    return { isCorrect, points: isCorrect ? item.points : 0 };
+}
+
+function normalize(text: string): string {
+    return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function toActiveQuiz(quiz: {
+    id: string;
+    meetingId: string;
+    subjectId: string;
+    title: string;
+    startedAt: Date;
+    endsAt: Date;
+    items: QuizItemRow[];
+}): ActiveQuiz {
+    return {
+        id: quiz.id,
+        roomId: quiz.meetingId,
+        subjectId: quiz.subjectId,
+        title: quiz.title,
+        items: quiz.items.map((item) => ({
+            id: item.id,
+            position: item.position,
+            type: item.type as QuizQuestionType,
+            prompt: item.prompt,
+            choices: item.choices,
+            points: item.points,
+        })),
+        startedAt: quiz.startedAt.toISOString(),
+        endsAt: quiz.endsAt.toISOString(),
+    };
+}
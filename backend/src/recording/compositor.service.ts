@@ -0,0 +1,216 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { spawn, ChildProcess } from 'child_process';
+import { promises as fs } from 'fs';
+import { MediaService, PlainRtpTap, buildPlainRtpSdp } from '../media/media.service';
+import { RtpPortPool } from '../media/rtp-port-pool';
+
+export const OUTPUT_WIDTH = 1280;
+export const OUTPUT_HEIGHT = 720;
+export const OUTPUT_FPS = 25;
+
+// Time given to ffmpeg to bind its RTP sockets before consumers are resumed
+const FFMPEG_WARMUP_MS = 1000;
+
+const FFMPEG_STOP_TIMEOUT_MS = 5000;
+
+export interface CompositeProcess {
+  process: ChildProcess;
+  taps: PlainRtpTap[];
+  sdpPath: string;
+  /** Resolves when ffmpeg exits, for whatever reason */
+  exited: Promise<void>;
+}
+
+/**
+ * Taps a room's producers into a single ffmpeg process.
+ *
+ * Each producer is forwarded over a mediasoup PlainTransport; ffmpeg tiles
+ * the video and mixes the audio, then encodes to whatever output the caller
+ * asks for (a recording segment, an RTMP push, …). The RTP port range is
+ * shared by every composite running on this node.
+ */
+@Injectable()
+export class CompositorService {
+  private readonly logger = new Logger(CompositorService.name);
+
+  private readonly ports: RtpPortPool;
+
+  private readonly ffmpegPath: string;
+
+  constructor(
+    private readonly media: MediaService,
+    private readonly config: ConfigService,
+  ) {
+    this.ffmpegPath = this.config.get<string>('recording.ffmpegPath', 'ffmpeg');
+    this.ports = new RtpPortPool(
+      this.config.get<number>('recording.rtpMinPort', 50000),
+      this.config.get<number>('recording.rtpMaxPort', 50999),
+      'media capture',
+    );
+  }
+
+  /**
+   * Starts compositing the room's current producers. `outputArgs` are the
+   * ffmpeg encoder/output arguments applied to the `[vout]`/`[aout]` mix.
+   * Returns null when the room has no media to capture yet.
+   */
+  async start(params: {
+    roomId: string;
+    sdpPath: string;
+    outputArgs: string[];
+    /** Prefix for ffmpeg log lines, e.g. the recording ID */
+    logTag: string;
+  }): Promise<CompositeProcess | null> {
+    const taps: PlainRtpTap[] = [];
+    let composite: CompositeProcess | null = null;
+
+    try {
+      for (const producer of this.media.getProducersForRoom(params.roomId)) {
+        const [port, rtcpPort] = this.ports.allocatePair();
+        try {
+          const tap = await this.media.createPlainRtpTap({
+            roomId: params.roomId,
+            producerId: producer.producerId,
+            ip: '127.0.0.1',
+            port,
+            rtcpPort,
+          });
+
+          // A paused camera sends no frames and would stall the compositor
+          if (tap.kind === 'video' && tap.consumer.producerPaused) {
+            tap.transport.close();
+            this.ports.release(port, rtcpPort);
+            continue;
+          }
+
+          taps.push(tap);
+        } catch (error) {
+          this.ports.release(port, rtcpPort);
+          throw error;
+        }
+      }
+
+      if (taps.length === 0) {
+        return null;
+      }
+
+      await fs.writeFile(params.sdpPath, buildPlainRtpSdp(taps));
+
+      const ffmpeg = spawn(this.ffmpegPath, this.buildFfmpegArgs(taps, params.sdpPath, params.outputArgs), {
+        stdio: ['pipe', 'ignore', 'pipe'],
+      });
+
+      const exited = new Promise<void>((resolve) => {
+        ffmpeg.once('close', () => resolve());
+        ffmpeg.once('error', (error) => {
+          this.logger.error(`ffmpeg failed for ${params.logTag}: ${error.message}`);
+          resolve();
+        });
+      });
+
+      ffmpeg.stderr?.on('data', (chunk: Buffer) => {
+        this.logger.debug(`[ffmpeg ${params.logTag}] ${chunk.toString().trim()}`);
+      });
+
+      composite = { process: ffmpeg, taps, sdpPath: params.sdpPath, exited };
+
+      await new Promise((resolve) => setTimeout(resolve, FFMPEG_WARMUP_MS));
+
+      for (const tap of taps) {
+        await tap.consumer.resume();
+        if (tap.kind === 'video') {
+          await tap.consumer.requestKeyFrame();
+        }
+      }
+
+      return composite;
+    } catch (error) {
+      for (const tap of taps) {
+        tap.transport.close();
+        this.ports.release(tap.port, tap.rtcpPort);
+      }
+      composite?.process.kill('SIGKILL');
+      throw error;
+    }
+  }
+
+  /**
+   * Asks ffmpeg to finish its output, then releases the taps.
+   */
+  async stop(composite: CompositeProcess): Promise<void> {
+    // 'q' lets ffmpeg flush and close the output cleanly
+    if (composite.process.exitCode === null) {
+      composite.process.stdin?.write('q');
+      composite.process.stdin?.end();
+    }
+
+    const timeout = setTimeout(() => composite.process.kill('SIGKILL'), FFMPEG_STOP_TIMEOUT_MS);
+    await composite.exited;
+    clearTimeout(timeout);
+
+    for (const tap of composite.taps) {
+      tap.transport.close();
+      this.ports.release(tap.port, tap.rtcpPort);
+    }
+
+    await fs.rm(composite.sdpPath, { force: true });
+  }
+
+  // ─── Private: ffmpeg ────────────────────────────────────────────
+
+  private buildFfmpegArgs(taps: PlainRtpTap[], sdpPath: string, outputArgs: string[]): string[] {
+    const videoCount = taps.filter((t) => t.kind === 'video').length;
+    const audioCount = taps.filter((t) => t.kind === 'audio').length;
+
+    const filters: string[] = [];
+
+    if (videoCount === 0) {
+      filters.push(`color=c=black:s=${OUTPUT_WIDTH}x${OUTPUT_HEIGHT}:r=${OUTPUT_FPS}[vout]`);
+    } else {
+      const cols = Math.ceil(Math.sqrt(videoCount));
+      const rows = Math.ceil(videoCount / cols);
+      const tileW = Math.floor(OUTPUT_WIDTH / cols / 2) * 2;
+      const tileH = Math.floor(OUTPUT_HEIGHT / rows / 2) * 2;
+
+      filters.push(`color=c=black:s=${OUTPUT_WIDTH}x${OUTPUT_HEIGHT}:r=${OUTPUT_FPS}[base]`);
+
+      for (let i = 0; i < videoCount; i++) {
+        filters.push(
+          `[0:v:${i}]scale=${tileW}:${tileH}:force_original_aspect_ratio=decrease,` +
+          `pad=${tileW}:${tileH}:(ow-iw)/2:(oh-ih)/2,setsar=1[v${i}]`,
+        );
+      }
+
+      let previous = 'base';
+      for (let i = 0; i < videoCount; i++) {
+        const x = (i % cols) * tileW;
+        const y = Math.floor(i / cols) * tileH;
+        const label = i === videoCount - 1 ? 'vout' : `o${i}`;
+        filters.push(`[${previous}][v${i}]overlay=x=${x}:y=${y}:shortest=0[${label}]`);
+        previous = label;
+      }
+    }
+
+    if (audioCount === 0) {
+      filters.push('anullsrc=r=48000:cl=stereo[aout]');
+    } else if (audioCount === 1) {
+      filters.push('[0:a:0]anull[aout]');
+    } else {
+      const inputs = Array.from({ length: audioCount }, (_, i) => `[0:a:${i}]`).join('');
+      filters.push(`${inputs}amix=inputs=${audioCount}:dropout_transition=0[aout]`);
+    }
+
+    return [
+      '-loglevel', 'warning',
+      '-y',
+      '-protocol_whitelist', 'file,udp,rtp',
+      '-fflags', '+genpts',
+      '-i', sdpPath,
+      '-filter_complex', filters.join(';'),
+      '-map', '[vout]',
+      '-map', '[aout]',
+      ...outputArgs,
+    ];
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { RecordingService } from './recording.service';
+import { CompositorService } from './compositor.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [RecordingService, CompositorService],
+  exports: [RecordingService, CompositorService],
+})
+export class RecordingModule { }
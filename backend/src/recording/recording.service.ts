@@ -0,0 +1,404 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { RecordingStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../shared/enums';
+import { WsMediaException, WsRoomException } from '../shared/exceptions';
+import { CompositeProcess, CompositorService, OUTPUT_FPS } from './compositor.service';
+
+// Producer set changes (join, leave, camera toggle) are coalesced before
+// the active segment is rolled over.
+const REFRESH_DEBOUNCE_MS = 1500;
+
+interface ActiveRecording {
+  recordingId: string;
+  roomId: string;
+  ownerId: string;
+  workDir: string;
+  startedAt: Date;
+  segmentFiles: string[];
+  current: CompositeProcess | null;
+  refreshTimer: NodeJS.Timeout | null;
+  // Serialises segment rollovers so stop() never races a refresh
+  queue: Promise<void>;
+}
+
+export interface RecordingStatusPayload {
+  recordingId: string;
+  startedAt: number;
+}
+
+/**
+ * Composites every producer in a room into a single file.
+ *
+ * The compositor writes the tiled room into an MPEG-TS segment. Whenever the producer set changes the segment is rolled over; on stop the
+ * segments are concatenated into the final MP4 and probed for metadata.
+ */
+@Injectable()
+export class RecordingService implements OnModuleDestroy {
+  private readonly logger = new Logger(RecordingService.name);
+
+  // roomId → ActiveRecording
+  private readonly active = new Map<string, ActiveRecording>();
+
+  private readonly outputDir: string;
+  private readonly ffmpegPath: string;
+  private readonly ffprobePath: string;
+
+  constructor(
+    private readonly compositor: CompositorService,
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+    private readonly config: ConfigService,
+  ) {
+    this.outputDir = path.resolve(this.config.get<string>('recording.outputDir', './recordings'));
+    this.ffmpegPath = this.config.get<string>('recording.ffmpegPath', 'ffmpeg');
+    this.ffprobePath = this.config.get<string>('recording.ffprobePath', 'ffprobe');
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    for (const roomId of Array.from(this.active.keys())) {
+      await this.stopForRoom(roomId);
+    }
+  }
+
+  // ─── Lifecycle ──────────────────────────────────────────────────
+
+  /**
+   * Starts recording a room. Only one recording may run per room.
+   */
+  async start(roomId: string, userId: string): Promise<RecordingStatusPayload> {
+    if (this.active.has(roomId)) {
+      throw new WsRoomException('Recording already in progress');
+    }
+
+    const recordingId = randomUUID();
+    const filename = `${recordingId}.mp4`;
+    const workDir = path.join(this.outputDir, roomId, recordingId);
+
+    const recording = await this.prisma.recording.create({
+      data: {
+        id: recordingId,
+        roomId,
+        ownerId: userId,
+        storageKey: `${roomId}/${filename}`,
+        storageBucket: 'local',
+        filename,
+        status: RecordingStatus.STARTED,
+      },
+    });
+
+    const state: ActiveRecording = {
+      recordingId,
+      roomId,
+      ownerId: userId,
+      workDir,
+      startedAt: recording.startedAt,
+      segmentFiles: [],
+      current: null,
+      refreshTimer: null,
+      queue: Promise.resolve(),
+    };
+    this.active.set(roomId, state);
+
+    try {
+      await fs.mkdir(workDir, { recursive: true });
+      await this.startSegment(state);
+    } catch (error) {
+      this.active.delete(roomId);
+      await this.markFailed(recordingId, (error as Error).message);
+      throw new WsMediaException('Failed to start recording');
+    }
+
+    await this.prisma.recording.update({
+      where: { id: recordingId },
+      data: { status: RecordingStatus.IN_PROGRESS },
+    });
+
+    await this.audit.log({
+      action: AuditAction.RECORDING_STARTED,
+      userId,
+      roomId,
+      metadata: { recordingId },
+    });
+
+    this.logger.log(`Recording ${recordingId} started for room ${roomId}`);
+
+    return { recordingId, startedAt: state.startedAt.getTime() };
+  }
+
+  /**
+   * Stops the room's recording. Post-processing continues in the background
+   * and moves the row to READY or FAILED.
+   */
+  async stop(roomId: string, userId: string): Promise<RecordingStatusPayload> {
+    const state = this.active.get(roomId);
+    if (!state) {
+      throw new WsRoomException('No recording in progress');
+    }
+
+    await this.finishCapture(state);
+
+    await this.audit.log({
+      action: AuditAction.RECORDING_STOPPED,
+      userId,
+      roomId,
+      metadata: { recordingId: state.recordingId },
+    });
+
+    return { recordingId: state.recordingId, startedAt: state.startedAt.getTime() };
+  }
+
+  /**
+   * Stops any recording still running when a room is torn down.
+   */
+  async stopForRoom(roomId: string): Promise<void> {
+    const state = this.active.get(roomId);
+    if (!state) return;
+
+    try {
+      await this.finishCapture(state);
+    } catch (error) {
+      this.logger.error(
+        `Failed to stop recording ${state.recordingId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  isRecording(roomId: string): boolean {
+    return this.active.has(roomId);
+  }
+
+  getStatus(roomId: string): RecordingStatusPayload | null {
+    const state = this.active.get(roomId);
+    if (!state) return null;
+    return { recordingId: state.recordingId, startedAt: state.startedAt.getTime() };
+  }
+
+  /**
+   * Signals that the room's producers changed. The active segment is rolled
+   * over so the composite picks up new, closed, paused or resumed tracks.
+   */
+  refresh(roomId: string): void {
+    const state = this.active.get(roomId);
+    if (!state) return;
+
+    if (state.refreshTimer) clearTimeout(state.refreshTimer);
+    state.refreshTimer = setTimeout(() => {
+      state.refreshTimer = null;
+      this.enqueue(state, async () => {
+        if (this.active.get(roomId) !== state) return;
+        await this.stopSegment(state);
+        await this.startSegment(state);
+      });
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
+  // ─── Private: Capture ───────────────────────────────────────────
+
+  private async finishCapture(state: ActiveRecording): Promise<void> {
+    this.active.delete(state.roomId);
+    if (state.refreshTimer) {
+      clearTimeout(state.refreshTimer);
+      state.refreshTimer = null;
+    }
+
+    await this.enqueue(state, () => this.stopSegment(state));
+
+    await this.prisma.recording.update({
+      where: { id: state.recordingId },
+      data: { status: RecordingStatus.STOPPED, stoppedAt: new Date() },
+    });
+
+    this.logger.log(`Recording ${state.recordingId} stopped for room ${state.roomId}`);
+
+    void this.finalize(state);
+  }
+
+  private enqueue(state: ActiveRecording, task: () => Promise<void>): Promise<void> {
+    const next = state.queue.then(task).catch((error: Error) => {
+      this.logger.error(`Recording ${state.recordingId} segment error: ${error.message}`);
+    });
+    state.queue = next;
+    return next;
+  }
+
+  private async startSegment(state: ActiveRecording): Promise<void> {
+    const index = state.segmentFiles.length;
+    const filePath = path.join(state.workDir, `segment-${index}.ts`);
+
+    state.current = await this.compositor.start({
+      roomId: state.roomId,
+      sdpPath: path.join(state.workDir, `segment-${index}.sdp`),
+      logTag: state.recordingId,
+      outputArgs: [
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-pix_fmt', 'yuv420p',
+        '-r', String(OUTPUT_FPS),
+        '-c:a', 'aac',
+        '-ar', '48000',
+        '-ac', '2',
+        '-f', 'mpegts',
+        filePath,
+      ],
+    });
+
+    if (!state.current) {
+      this.logger.debug(`Recording ${state.recordingId}: no media to capture yet`);
+      return;
+    }
+
+    state.segmentFiles.push(filePath);
+  }
+
+  private async stopSegment(state: ActiveRecording): Promise<void> {
+    const segment = state.current;
+    if (!segment) return;
+    state.current = null;
+
+    await this.compositor.stop(segment);
+  }
+
+  // ─── Private: Post-processing ───────────────────────────────────
+
+  private async finalize(state: ActiveRecording): Promise<void> {
+    const { recordingId } = state;
+    const outputPath = path.join(this.outputDir, state.roomId, `${recordingId}.mp4`);
+
+    try {
+      await this.prisma.recording.update({
+        where: { id: recordingId },
+        data: { status: RecordingStatus.PROCESSING },
+      });
+
+      const segments: string[] = [];
+      for (const file of state.segmentFiles) {
+        const stat = await fs.stat(file).catch(() => null);
+        if (stat && stat.size > 0) segments.push(file);
+      }
+
+      if (segments.length === 0) {
+        throw new Error('No media was captured');
+      }
+
+      const listPath = path.join(state.workDir, 'segments.txt');
+      await fs.writeFile(listPath, segments.map((file) => `file '${file}'`).join('\n'));
+
+      await this.run(this.ffmpegPath, [
+        '-loglevel', 'error',
+        '-y',
+        '-f', 'concat',
+        '-safe', '0',
+        '-i', listPath,
+        '-c', 'copy',
+        '-bsf:a', 'aac_adtstoasc',
+        '-movflags', '+faststart',
+        outputPath,
+      ]);
+
+      const metadata = await this.probe(outputPath);
+
+      await this.prisma.recording.update({
+        where: { id: recordingId },
+        data: {
+          status: RecordingStatus.READY,
+          ...metadata,
+        },
+      });
+
+      await fs.rm(state.workDir, { recursive: true, force: true });
+
+      this.logger.log(`Recording ${recordingId} ready at ${outputPath}`);
+    } catch (error) {
+      this.logger.error(`Recording ${recordingId} processing failed: ${(error as Error).message}`);
+      await this.markFailed(recordingId, (error as Error).message);
+    }
+  }
+
+  private async probe(filePath: string): Promise<{
+    sizeBytes: bigint;
+    durationSeconds: number;
+    codec: string | null;
+    resolution: string | null;
+    fps: number | null;
+    bitrate: number | null;
+  }> {
+    const output = await this.run(this.ffprobePath, [
+      '-v', 'error',
+      '-print_format', 'json',
+      '-show_format',
+      '-show_streams',
+      filePath,
+    ]);
+
+    const info = JSON.parse(output) as {
+      format?: { size?: string; duration?: string; bit_rate?: string };
+      streams?: Array<{
+        codec_type?: string;
+        codec_name?: string;
+        width?: number;
+        height?: number;
+        avg_frame_rate?: string;
+      }>;
+    };
+
+    const video = info.streams?.find((s) => s.codec_type === 'video');
+    const audio = info.streams?.find((s) => s.codec_type === 'audio');
+    const codec = [video?.codec_name, audio?.codec_name].filter(Boolean).join('/');
+
+    let fps: number | null = null;
+    if (video?.avg_frame_rate) {
+      const [num, den] = video.avg_frame_rate.split('/').map(Number);
+      if (num && den) fps = Math.round(num / den);
+    }
+
+    const stat = await fs.stat(filePath);
+
+    return {
+      sizeBytes: BigInt(stat.size),
+      durationSeconds: Math.round(parseFloat(info.format?.duration ?? '0')),
+      codec: codec || null,
+      resolution: video?.width && video?.height ? `${video.width}x${video.height}` : null,
+      fps,
+      bitrate: info.format?.bit_rate ? parseInt(info.format.bit_rate, 10) : null,
+    };
+  }
+
+  private async markFailed(recordingId: string, errorMessage: string): Promise<void> {
+    try {
+      await this.prisma.recording.update({
+        where: { id: recordingId },
+        data: { status: RecordingStatus.FAILED, errorMessage },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to mark recording ${recordingId} as failed: ${(error as Error).message}`);
+    }
+  }
+
+  // ─── Private: Helpers ──────────────────────────────────────────
+
+  private run(command: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      let stdout = '';
+      let stderr = '';
+
+      child.stdout.on('data', (chunk: Buffer) => (stdout += chunk.toString()));
+      child.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString()));
+      child.once('error', reject);
+      child.once('close', (code) => {
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`${command} exited with code ${code}: ${stderr.trim().slice(-500)}`));
+        }
+      });
+    });
+  }
+}
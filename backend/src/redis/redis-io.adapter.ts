@@ -0,0 +1,50 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import type { ServerOptions, Server } from 'socket.io';
+
+/**
+ * Socket.IO adapter that fans room broadcasts out through Redis pub/sub, so
+ * emits and fetchSockets() reach sockets connected to any backend node.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private adapterConstructor: ReturnType<typeof createAdapter> | null = null;
+
+  constructor(app: INestApplicationContext) {
+    super(app);
+  }
+
+  /**
+   * Opens the pub/sub connections. Runs before the app initialises, so it
+   * can't borrow RedisService's client.
+   */
+  async connectToRedis(config: ConfigService): Promise<void> {
+    // The adapter needs two dedicated connections: SUBSCRIBE blocks a client
+    const pubClient = new Redis({
+      host: config.get<string>('redis.host', 'localhost'),
+      port: config.get<number>('redis.port', 6379),
+      password: config.get<string>('redis.password') || undefined,
+      lazyConnect: true,
+    });
+    const subClient = pubClient.duplicate();
+
+    pubClient.on('error', (err: Error) => this.logger.error(`Redis pub client error: ${err.message}`));
+    subClient.on('error', (err: Error) => this.logger.error(`Redis sub client error: ${err.message}`));
+
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+    this.logger.log('Socket.IO Redis adapter connected');
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    if (this.adapterConstructor) {
+      server.adapter(this.adapterConstructor);
+    }
+    return server;
+  }
+}
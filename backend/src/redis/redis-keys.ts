@@ -6,12 +6,29 @@
  *   room:{roomId}:participants → Hash  (userId → JSON<RoomParticipant>)
  *   socket:user:{socketId}    → String (userId)
  *   user:socket:{userId}      → String (socketId)
+ *   socket:room:{socketId}    → String (roomId the socket has joined)
+ *   room:{roomId}:waiting     → Hash  (userId → JSON<WaitingParticipant>)
+ *   room:{roomId}:admitted    → Set   (userIds let in from the waiting room)
+ *   room:{roomId}:node        → String (nodeId owning the room's mediasoup router)
+ *   room:{roomId}:breakouts   → Hash  (breakoutRoomId → name)
+ *   room:{roomId}:breakout_assignments → Hash (userId → breakoutRoomId)
+ *   room:{roomId}:resume_tokens → Hash  (userId → token for rejoining after a drop)
+ *   room:{roomId}:passcode_failures:{userId} → String (wrong passcode count, 15 min)
+ *   room:{roomId}:end_warned  → String (set once the room was warned of its scheduled end)
+ *   room:{roomId}:engagement  → Hash   ({userId}:{signal} → running total, or when a timed signal started)
+ *   settings:meetings         → Hash   (admin meeting settings, e.g. autoCreateRooms)
+ *   node:{nodeId}             → String (JSON<MediaNodeInfo>, heartbeat)
+ *   scheduler:lock            → String (nodeId running this scheduler tick)
  *   active_rooms              → Set    (roomId[])
+ *   held_seats                → Sorted Set ({meetingId}:{userId} of dropped participants, scored by when their seat is released)
  *
  * TTLs:
  *   room:*                    → 24 h (auto-cleaned)
  *   socket:user:*             → 2 h
  *   user:socket:*             → 2 h
+ *   socket:room:*             → 2 h
+ *   node:*                    → 3 × heartbeat interval
+ *   scheduler:lock            → half the scheduler tick interval
  */
 
 const ROOM_TTL = 86400; // 24 hours
@@ -22,7 +39,21 @@ export const RedisKeys = {
   roomParticipants: (roomId: string): string => `room:${roomId}:participants`,
   socketToUser: (socketId: string): string => `socket:user:${socketId}`,
   userToSocket: (userId: string): string => `user:socket:${userId}`,
+  socketRoom: (socketId: string): string => `socket:room:${socketId}`,
+  roomWaiting: (roomId: string): string => `room:${roomId}:waiting`,
+  roomAdmitted: (roomId: string): string => `room:${roomId}:admitted`,
+  roomNode: (roomId: string): string => `room:${roomId}:node`,
+  roomBreakouts: (roomId: string): string => `room:${roomId}:breakouts`,
+  roomBreakoutAssignments: (roomId: string): string => `room:${roomId}:breakout_assignments`,
+  roomResumeTokens: (roomId: string): string => `room:${roomId}:resume_tokens`,
+  passcodeFailures: (roomId: string, userId: string): string => `room:${roomId}:passcode_failures:${userId}`,
+  roomEndWarned: (roomId: string): string => `room:${roomId}:end_warned`,
+  roomEngagement: (roomId: string): string => `room:${roomId}:engagement`,
+  meetingSettings: 'settings:meetings',
+  node: (nodeId: string): string => `node:${nodeId}`,
   activeRooms: 'active_rooms',
+  heldSeats: 'held_seats',
+  schedulerLock: 'scheduler:lock',
   roomCodeToId: (code: string): string => `room_code:${code}`,
   ROOM_TTL,
   SOCKET_TTL,
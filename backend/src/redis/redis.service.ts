@@ -2,6 +2,22 @@ import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/commo
 import { ConfigService } from '@nestjs/config';
 import Redis from 'ioredis';
 
+// GET and SET in one step, so no other client can write in between
+const COMPARE_AND_SET_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+  return 1
+end
+return 0
+`;
+
+const COMPARE_AND_DELETE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
 @Injectable()
 export class RedisService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(RedisService.name);
@@ -71,6 +87,10 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return this.client.hget(key, field);
   }
 
+  async hmget(key: string, ...fields: string[]): Promise<Array<string | null>> {
+    return this.client.hmget(key, ...fields);
+  }
+
   async hgetall(key: string): Promise<Record<string, string>> {
     return this.client.hgetall(key);
   }
@@ -96,6 +116,23 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return this.client.get(key);
   }
 
+  /** SET NX: returns true if the key was created, false if it already existed */
+  async setnx(key: string, value: string, ttl: number): Promise<boolean> {
+    return (await this.client.set(key, value, 'EX', ttl, 'NX')) === 'OK';
+  }
+
+  /** Sets the key only if it still holds `expected`; returns whether it did */
+  async compareAndSet(key: string, expected: string, value: string, ttl: number): Promise<boolean> {
+    const result = await this.client.eval(COMPARE_AND_SET_SCRIPT, 1, key, expected, value, ttl);
+    return result === 1;
+  }
+
+  /** Deletes the key only if it still holds `expected`; returns whether it did */
+  async compareAndDelete(key: string, expected: string): Promise<boolean> {
+    const result = await this.client.eval(COMPARE_AND_DELETE_SCRIPT, 1, key, expected);
+    return result === 1;
+  }
+
   // ─── Set Operations ─────────────────────────────────────────────
 
   async sadd(key: string, ...members: string[]): Promise<number> {
@@ -114,6 +151,20 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     return this.client.sismember(key, member);
   }
 
+  // ─── Sorted Set Operations ──────────────────────────────────────
+
+  async zadd(key: string, score: number, member: string): Promise<number> {
+    return this.client.zadd(key, score, member);
+  }
+
+  async zrem(key: string, ...members: string[]): Promise<number> {
+    return this.client.zrem(key, ...members);
+  }
+
+  async zrangebyscore(key: string, min: number | string, max: number | string): Promise<string[]> {
+    return this.client.zrangebyscore(key, min, max);
+  }
+
   // ─── Key Operations ─────────────────────────────────────────────
 
   async del(...keys: string[]): Promise<number> {
@@ -1,4 +1,5 @@
-import { IsString, IsOptional, IsInt, Min, Max, MaxLength } from 'class-validator';
+import { IsString, IsOptional, IsInt, IsEnum, IsBoolean, IsUUID, Min, Max, MinLength, MaxLength, Matches } from 'class-validator';
+import { RoomType } from '../../shared/enums';
 
 export class CreateRoomDto {
   @IsOptional()
@@ -12,11 +13,37 @@ export class CreateRoomDto {
   @Max(500)
   maxParticipants?: number;
 
+  @IsOptional()
+  @IsEnum(RoomType)
+  roomType?: RoomType;
+
   @IsOptional()
   allowScreenShare?: boolean;
 
   @IsOptional()
   allowWhiteboard?: boolean;
+
+  /** Waiting users need a host's approval unless an auto-admit rule matches */
+  @IsOptional()
+  @IsBoolean()
+  requireApproval?: boolean;
+
+  /** Auto-admit students with access to this subject */
+  @IsOptional()
+  @IsUUID()
+  subjectId?: string;
+
+  /** Auto-admit teachers who share a subject with the host */
+  @IsOptional()
+  @IsBoolean()
+  autoAdmitCoTeachers?: boolean;
+
+  /** Auto-admit users with a verified email on this domain */
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  @Matches(/^@?[a-z0-9-]+(\.[a-z0-9-]+)+$/i, { message: 'autoAdmitEmailDomain must be a domain like school.edu' })
+  autoAdmitEmailDomain?: string;
 }
 
 export class ScheduleMeetingDto extends CreateRoomDto {
@@ -29,6 +56,82 @@ export class ScheduleMeetingDto extends CreateRoomDto {
 
   @IsString()
   scheduledEnd!: string;
+
+  /** Optional join passcode; stored hashed */
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(64)
+  passcode?: string;
+
+  /** Makes this a recurring meeting, e.g. FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  rrule?: string;
+
+  /** IANA time zone occurrences keep their wall-clock time in */
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timezone?: string;
+}
+
+export class UpdateMeetingSeriesDto extends CreateRoomDto {
+  @IsOptional()
+  @IsString()
+  scheduledStart?: string;
+
+  @IsOptional()
+  @IsString()
+  scheduledEnd?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  rrule?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timezone?: string;
+
+  /** New passcode; null removes it */
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(64)
+  passcode?: string | null;
+}
+
+export class UpdateScheduledMeetingDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  scheduledStart?: string;
+
+  @IsOptional()
+  @IsString()
+  scheduledEnd?: string;
+}
+
+export class UpdateMeetingSettingsDto {
+  @IsOptional()
+  @IsBoolean()
+  autoCreateRooms?: boolean;
+}
+
+export class UpdateStreamSettingsDto {
+  /** RTMP(S) ingest URL including the stream key; null clears it */
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @Matches(/^rtmps?:\/\/\S+$/, { message: 'rtmpUrl must be an rtmp:// or rtmps:// URL' })
+  rtmpUrl?: string | null;
 }
 
 export class JoinRoomDto {
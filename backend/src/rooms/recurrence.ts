@@ -0,0 +1,190 @@
+/**
+ * RRULE-style recurrence for scheduled meetings. Only the subset the
+ * scheduler needs is supported: `FREQ=WEEKLY` with optional `INTERVAL`,
+ * `BYDAY` and an end given by `UNTIL` or `COUNT`, e.g.
+ *
+ *   FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261218T000000Z
+ *   FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=8
+ *
+ * Occurrences keep the first meeting's wall-clock time in the series' time
+ * zone, so a 10:00 class stays at 10:00 across daylight saving changes.
+ */
+
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  freq: 'WEEKLY';
+  /** Every Nth week */
+  interval: number;
+  /** Days of the week; empty means the first meeting's weekday */
+  byDay: Weekday[];
+  /** Last moment an occurrence may start */
+  until?: Date;
+  count?: number;
+}
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Parses an RRULE string. Throws an Error naming the offending part when
+ * the rule is malformed or outside the supported subset.
+ */
+export function parseRRule(rrule: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of rrule.replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Invalid recurrence rule part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  if (parts.get('FREQ') !== 'WEEKLY') {
+    throw new Error('Only weekly recurrence (FREQ=WEEKLY) is supported');
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+    throw new Error('INTERVAL must be a whole number of weeks between 1 and 52');
+  }
+
+  const byDay = (parts.get('BYDAY') ?? '').split(',').filter(Boolean) as Weekday[];
+  const unknownDay = byDay.find((day) => !WEEKDAYS.includes(day));
+  if (unknownDay) {
+    throw new Error(`Unknown weekday "${unknownDay}" in BYDAY`);
+  }
+
+  const rule: RecurrenceRule = { freq: 'WEEKLY', interval, byDay: [...new Set(byDay)] };
+
+  if (parts.has('UNTIL')) {
+    rule.until = parseRRuleDate(parts.get('UNTIL')!);
+  }
+  if (parts.has('COUNT')) {
+    rule.count = Number(parts.get('COUNT'));
+    if (!Number.isInteger(rule.count) || rule.count < 1) {
+      throw new Error('COUNT must be a positive whole number');
+    }
+  }
+  if (rule.until && rule.count) {
+    throw new Error('A recurrence rule takes UNTIL or COUNT, not both');
+  }
+  if (!rule.until && !rule.count) {
+    throw new Error('A recurrence rule needs an end: UNTIL or COUNT');
+  }
+
+  return rule;
+}
+
+/** Canonical RRULE string for a rule, as stored on the series */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+/**
+ * Start times of every occurrence of the rule, beginning with `dtstart`.
+ * Stops after `max` occurrences, so callers can detect rules that run
+ * longer than they allow by asking for one more.
+ */
+export function expandRRule(rule: RecurrenceRule, dtstart: Date, timeZone: string, max: number): Date[] {
+  const start = wallClock(dtstart, timeZone);
+  const startDay = Date.UTC(start.year, start.month - 1, start.day);
+  const startWeekday = new Date(startDay).getUTCDay();
+  const days = new Set(rule.byDay.length > 0 ? rule.byDay : [WEEKDAYS[startWeekday]]);
+  const limit = Math.min(rule.count ?? max, max);
+
+  // Weeks start on Monday (WKST=MO): offset of the first day within its week
+  const weekOffset = (startWeekday + 6) % 7;
+  const occurrences: Date[] = [];
+
+  for (let offset = 0; occurrences.length < limit; offset++) {
+    const day = new Date(startDay + offset * DAY_MS);
+    const week = Math.floor((offset + weekOffset) / 7);
+    if (week % rule.interval !== 0 || !days.has(WEEKDAYS[day.getUTCDay()])) continue;
+
+    const occurrence = wallClockToUtc(
+      day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), start.hour, start.minute, timeZone,
+    );
+    if (rule.until && occurrence > rule.until) break;
+    if (occurrence >= dtstart) occurrences.push(occurrence);
+  }
+
+  return occurrences;
+}
+
+/** Whether the runtime knows the IANA time zone */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/** Accepts RRULE dates (20261218 or 20261218T090000Z) and ISO strings */
+function parseRRuleDate(value: string): Date {
+  const compact = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  const date = compact
+    ? new Date(Date.UTC(+compact[1], +compact[2] - 1, +compact[3], +(compact[4] ?? 23), +(compact[5] ?? 59), +(compact[6] ?? 59)))
+    : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid UNTIL date "${value}"`);
+  }
+  return date;
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function wallClock(date: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/** How far the zone's wall clock is ahead of UTC at `date` */
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const wall = wallClock(date, timeZone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return wallAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function wallClockToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = zoneOffsetMs(new Date(guess), timeZone);
+  // Re-check across a DST change between the guess and the answer
+  const corrected = zoneOffsetMs(new Date(guess - offset), timeZone);
+  return new Date(guess - corrected);
+}
@@ -0,0 +1,180 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '../redis/redis.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisKeys } from '../redis/redis-keys';
+import { RoomRole, RoomType } from '../shared/enums';
+import type { RoomParticipant } from '../shared/interfaces';
+import { WsMediaException, WsRoomException } from '../shared/exceptions';
+
+/** `appData.label` the client gives its screen-share producer */
+export const SCREEN_SHARE_LABEL = 'screen';
+
+/** DataChannel label the whiteboard streams cursors and strokes on */
+export const WHITEBOARD_DATA_LABEL = 'whiteboard';
+
+/** Which rule let a waiting user in without a host */
+export type AutoAdmitReason = 'no_approval' | 'subject_access' | 'co_teacher' | 'email_domain';
+
+interface PolicyContext {
+  roomType: RoomType;
+  allowScreenShare: boolean;
+  allowWhiteboard: boolean;
+  participant: RoomParticipant;
+}
+
+/**
+ * Decides what a participant may do in a room, from the room settings in
+ * Redis and the caller's role. Hosts and co-hosts are exempt from the
+ * screen-share and whiteboard settings. Also decides who skips the waiting
+ * room under the meeting's admission policy.
+ */
+@Injectable()
+export class RoomPolicyService {
+  constructor(
+    private readonly redis: RedisService,
+    private readonly prisma: PrismaService,
+  ) { }
+
+  /**
+   * The rule under which the meeting lets a waiting user straight in, or
+   * null if a host has to admit them. Rules are checked cheapest first.
+   */
+  async autoAdmitReason(roomId: string, userId: string): Promise<AutoAdmitReason | null> {
+    const [requireApproval, hostUserId, subjectId, autoAdmitCoTeachers, emailDomain] = await this.redis.hmget(
+      RedisKeys.room(roomId),
+      'requireApproval',
+      'hostUserId',
+      'subjectId',
+      'autoAdmitCoTeachers',
+      'autoAdmitEmailDomain',
+    );
+
+    if (requireApproval === 'false') {
+      return 'no_approval';
+    }
+
+    if (subjectId) {
+      const access = await this.prisma.studentSubjectAccess.findFirst({
+        where: { studentId: userId, subjectId, subject: { isActive: true } },
+        select: { id: true },
+      });
+      if (access) return 'subject_access';
+    }
+
+    if (autoAdmitCoTeachers === 'true' && hostUserId) {
+      const shared = await this.prisma.teacherSubject.count({
+        where: { teacherId: userId, subject: { teachers: { some: { teacherId: hostUserId } } } },
+      });
+      if (shared > 0) return 'co_teacher';
+    }
+
+    if (emailDomain) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true, emailVerified: true },
+      });
+      if (user?.emailVerified && user.email.toLowerCase().endsWith(`@${emailDomain}`)) {
+        return 'email_domain';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Checks a produce request. `label` is the producer's `appData.label`;
+   * without one (e.g. creating a send transport) only the webinar stage
+   * rule applies.
+   */
+  async assertCanProduce(roomId: string, userId: string, label?: string): Promise<void> {
+    const ctx = await this.load(roomId, userId);
+
+    // Webinar attendees only receive media until invited to the stage
+    if (
+      ctx.roomType === RoomType.WEBINAR &&
+      ctx.participant.role === RoomRole.PARTICIPANT &&
+      !ctx.participant.onStage
+    ) {
+      throw new WsMediaException('Only speakers can send media in this webinar');
+    }
+
+    if (label === SCREEN_SHARE_LABEL && !this.canShareScreen(ctx)) {
+      throw new WsMediaException('Screen sharing is disabled in this room');
+    }
+  }
+
+  /**
+   * Checks a whiteboard event or whiteboard DataChannel.
+   */
+  async assertCanUseWhiteboard(roomId: string, userId: string): Promise<void> {
+    if (!this.canUseWhiteboard(await this.load(roomId, userId))) {
+      throw new WsRoomException('The whiteboard is disabled in this room');
+    }
+  }
+
+  /**
+   * Checks a produce-data request. The whiteboard is the only feature that
+   * streams over DataChannels, so any other label is refused.
+   */
+  async assertCanProduceData(roomId: string, userId: string, label?: string): Promise<void> {
+    if (label !== WHITEBOARD_DATA_LABEL) {
+      throw new WsMediaException(`Unknown DataChannel label "${label ?? ''}"`);
+    }
+    await this.assertCanUseWhiteboard(roomId, userId);
+  }
+
+  /**
+   * Whether the user may keep a whiteboard DataChannel open under the
+   * current settings. Users no longer in the room may not.
+   */
+  async mayUseWhiteboard(roomId: string, userId: string): Promise<boolean> {
+    try {
+      return this.canUseWhiteboard(await this.load(roomId, userId));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether the user may keep sharing their screen under the current
+   * settings. Users no longer in the room may not.
+   */
+  async mayShareScreen(roomId: string, userId: string): Promise<boolean> {
+    try {
+      return this.canShareScreen(await this.load(roomId, userId));
+    } catch {
+      return false;
+    }
+  }
+
+  private canShareScreen(ctx: PolicyContext): boolean {
+    return ctx.allowScreenShare || this.isModerator(ctx.participant);
+  }
+
+  private canUseWhiteboard(ctx: PolicyContext): boolean {
+    return ctx.allowWhiteboard || this.isModerator(ctx.participant);
+  }
+
+  private isModerator(participant: RoomParticipant): boolean {
+    return participant.role === RoomRole.HOST || participant.role === RoomRole.CO_HOST;
+  }
+
+  private async load(roomId: string, userId: string): Promise<PolicyContext> {
+    const [[roomType, allowScreenShare, allowWhiteboard], participantData] = await Promise.all([
+      this.redis.hmget(RedisKeys.room(roomId), 'roomType', 'allowScreenShare', 'allowWhiteboard'),
+      this.redis.hget(RedisKeys.roomParticipants(roomId), userId),
+    ]);
+
+    if (!participantData) {
+      throw new WsRoomException('Not a participant in this room');
+    }
+
+    return {
+      roomType: (roomType as RoomType) || RoomType.MEETING,
+      // Rooms created before the settings existed allow everything
+      allowScreenShare: allowScreenShare !== 'false',
+      allowWhiteboard: allowWhiteboard !== 'false',
+      participant: JSON.parse(participantData) as RoomParticipant,
+    };
+  }
+}
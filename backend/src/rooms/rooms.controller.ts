@@ -2,6 +2,8 @@ import {
     Controller,
     Get,
     Post,
+    Patch,
+    Delete,
     Body,
     Query,
     Param,
@@ -12,7 +14,14 @@ import {
 import { RoomsService } from './rooms.service';
 import { JwtAuthGuard, RolesGuard, Roles } from '../auth/guards';
 import { UserRole } from '../shared/enums';
-import { CreateRoomDto, ScheduleMeetingDto } from './dto/room.dto';
+import {
+    CreateRoomDto,
+    ScheduleMeetingDto,
+    UpdateMeetingSeriesDto,
+    UpdateMeetingSettingsDto,
+    UpdateScheduledMeetingDto,
+    UpdateStreamSettingsDto,
+} from './dto/room.dto';
 
 @Controller('admin/meetings')
 @UseGuards(JwtAuthGuard, RolesGuard)
@@ -54,17 +63,74 @@ export class RoomsController {
     @Post('schedule')
     @Roles(UserRole.ADMIN, UserRole.TEACHER)
     async scheduleMeeting(@Req() req: any, @Body() dto: ScheduleMeetingDto) {
-        return this.roomsService.scheduleMeeting({
+        const params = {
             hostUserId: req.user.id,
             title: dto.title,
             scheduledStart: new Date(dto.scheduledStart),
             scheduledEnd: new Date(dto.scheduledEnd),
             maxParticipants: dto.maxParticipants,
+            roomType: dto.roomType,
             allowScreenShare: dto.allowScreenShare,
             allowWhiteboard: dto.allowWhiteboard,
+            passcode: dto.passcode,
+            requireApproval: dto.requireApproval,
+            subjectId: dto.subjectId,
+            autoAdmitCoTeachers: dto.autoAdmitCoTeachers,
+            autoAdmitEmailDomain: dto.autoAdmitEmailDomain,
+        };
+
+        // A recurrence rule schedules a series instead of a single meeting
+        if (dto.rrule) {
+            return this.roomsService.scheduleSeries({ ...params, rrule: dto.rrule, timezone: dto.timezone });
+        }
+        return this.roomsService.scheduleMeeting(params);
+    }
+
+    @Get('series/:id')
+    @Roles(UserRole.ADMIN, UserRole.TEACHER)
+    async getSeries(@Req() req: any, @Param('id') id: string) {
+        return this.roomsService.getSeries(id, req.user);
+    }
+
+    @Patch('series/:id')
+    @Roles(UserRole.ADMIN, UserRole.TEACHER)
+    async updateSeries(@Req() req: any, @Param('id') id: string, @Body() dto: UpdateMeetingSeriesDto) {
+        return this.roomsService.updateSeries(id, req.user, {
+            title: dto.title,
+            scheduledStart: dto.scheduledStart ? new Date(dto.scheduledStart) : undefined,
+            scheduledEnd: dto.scheduledEnd ? new Date(dto.scheduledEnd) : undefined,
+            rrule: dto.rrule,
+            timezone: dto.timezone,
+            maxParticipants: dto.maxParticipants,
+            roomType: dto.roomType,
+            allowScreenShare: dto.allowScreenShare,
+            allowWhiteboard: dto.allowWhiteboard,
+            passcode: dto.passcode,
+            requireApproval: dto.requireApproval,
+            subjectId: dto.subjectId,
+            autoAdmitCoTeachers: dto.autoAdmitCoTeachers,
+            autoAdmitEmailDomain: dto.autoAdmitEmailDomain,
         });
     }
 
+    @Delete('series/:id')
+    @Roles(UserRole.ADMIN, UserRole.TEACHER)
+    async cancelSeries(@Req() req: any, @Param('id') id: string) {
+        return this.roomsService.cancelSeries(id, req.user);
+    }
+
+    @Get('settings')
+    @Roles(UserRole.ADMIN)
+    async getSettings() {
+        return this.roomsService.getMeetingSettings();
+    }
+
+    @Patch('settings')
+    @Roles(UserRole.ADMIN)
+    async updateSettings(@Req() req: any, @Body() dto: UpdateMeetingSettingsDto) {
+        return this.roomsService.updateMeetingSettings(req.user.id, dto);
+    }
+
     @Post('create')
     @Roles(UserRole.ADMIN, UserRole.TEACHER)
     async createInstantMeeting(@Req() req: any, @Body() dto: CreateRoomDto) {
@@ -72,8 +138,13 @@ export class RoomsController {
             hostUserId: req.user.id,
             title: dto.title || 'Instant Meeting',
             maxParticipants: dto.maxParticipants || 100,
+            roomType: dto.roomType,
             allowScreenShare: dto.allowScreenShare,
             allowWhiteboard: dto.allowWhiteboard,
+            requireApproval: dto.requireApproval,
+            subjectId: dto.subjectId,
+            autoAdmitCoTeachers: dto.autoAdmitCoTeachers,
+            autoAdmitEmailDomain: dto.autoAdmitEmailDomain,
         });
     }
 
@@ -83,6 +154,37 @@ export class RoomsController {
         return this.roomsService.startScheduledMeeting(id, req.user.id);
     }
 
+    @Patch(':id/stream')
+    @Roles(UserRole.ADMIN, UserRole.TEACHER)
+    async updateStreamSettings(
+        @Req() req: any,
+        @Param('id') id: string,
+        @Body() dto: UpdateStreamSettingsDto,
+    ) {
+        return this.roomsService.updateStreamSettings(id, req.user, dto.rtmpUrl ?? null);
+    }
+
+    /** Moves or renames one scheduled meeting, e.g. a single occurrence of a series */
+    @Patch(':id')
+    @Roles(UserRole.ADMIN, UserRole.TEACHER)
+    async updateScheduledMeeting(
+        @Req() req: any,
+        @Param('id') id: string,
+        @Body() dto: UpdateScheduledMeetingDto,
+    ) {
+        return this.roomsService.updateScheduledMeeting(id, req.user, {
+            title: dto.title,
+            scheduledStart: dto.scheduledStart ? new Date(dto.scheduledStart) : undefined,
+            scheduledEnd: dto.scheduledEnd ? new Date(dto.scheduledEnd) : undefined,
+        });
+    }
+
+    @Post(':id/cancel')
+    @Roles(UserRole.ADMIN, UserRole.TEACHER)
+    async cancelScheduledMeeting(@Req() req: any, @Param('id') id: string) {
+        return this.roomsService.cancelScheduledMeeting(id, req.user);
+    }
+
     @Get('upcoming')
     async getUpcoming() {
         return this.roomsService.getMeetingSchedule({
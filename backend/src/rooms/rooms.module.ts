@@ -1,17 +1,18 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { MeetingEntity, UserEntity, RoomParticipantEntity } from '../database/entities';
+import { MeetingEntity, MeetingSeriesEntity, UserEntity, RoomParticipantEntity } from '../database/entities';
 import { RoomsService } from './rooms.service';
+import { RoomPolicyService } from './room-policy.service';
 import { RoomsController } from './rooms.controller';
 import { BillingModule } from '../billing/billing.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([MeetingEntity, UserEntity, RoomParticipantEntity]),
+    TypeOrmModule.forFeature([MeetingEntity, MeetingSeriesEntity, UserEntity, RoomParticipantEntity]),
     BillingModule,
   ],
   controllers: [RoomsController],
-  providers: [RoomsService],
-  exports: [RoomsService],
+  providers: [RoomsService, RoomPolicyService],
+  exports: [RoomsService, RoomPolicyService],
 })
 export class RoomsModule { }
@@ -1,26 +1,72 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Not, MoreThan, LessThan, Between } from 'typeorm';
+import { Repository, Not, MoreThan, LessThan, LessThanOrEqual, Between, In, IsNull } from 'typeorm';
 import { v4 as uuidv4 } from 'uuid';
+import * as bcrypt from 'bcrypt';
 import { ConfigService } from '@nestjs/config';
 import { RedisService } from '../redis/redis.service';
 import { RedisKeys } from '../redis/redis-keys';
 import { AuditService } from '../audit/audit.service';
-import { MeetingEntity, UserEntity, RoomParticipantEntity, ParticipantRole } from '../database/entities';
-import { RoomRole, RoomStatus, AuditAction } from '../shared/enums';
-import type { RoomParticipant, RedisRoomState } from '../shared/interfaces';
-import { WsRoomException } from '../shared/exceptions';
+import { MeetingEntity, MeetingSeriesEntity, UserEntity, RoomParticipantEntity, ParticipantRole } from '../database/entities';
+import { RoomRole, RoomStatus, RoomType, AuditAction } from '../shared/enums';
+import type {
+  RoomParticipant,
+  RedisRoomState,
+  WaitingParticipant,
+  BreakoutParticipant,
+  BreakoutRoomInfo,
+  BreakoutState,
+  RoomBan,
+} from '../shared/interfaces';
+import { WsPasscodeException, WsRoomException } from '../shared/exceptions';
 import { BillingService } from '../billing/billing.service';
 import { UserRole } from '../shared/enums';
+import { expandRRule, formatRRule, isValidTimeZone, parseRRule } from './recurrence';
+
+const MAX_BREAKOUT_ROOMS = 50;
+const MAX_BREAKOUT_COUNTDOWN_SECONDS = 3600;
+const BCRYPT_ROUNDS = 12;
+/** Wrong passcodes allowed per user and meeting before a lockout */
+const MAX_PASSCODE_FAILURES = 10;
+const PASSCODE_LOCKOUT_SECONDS = 900;
+const MAX_SERIES_OCCURRENCES = 200;
+
+/** Admin-controlled meeting behaviour, stored in Redis */
+export interface MeetingSettings {
+  /** Joining an unknown room ID creates a room for it */
+  autoCreateRooms: boolean;
+}
+
+/** A recurring meeting and its occurrences, earliest first */
+export interface MeetingSeriesDetails {
+  series: MeetingSeriesEntity;
+  occurrences: MeetingEntity[];
+}
+
+/** Per-meeting waiting-room rules: who a host has to let in */
+export interface AdmissionPolicy {
+  /** Off: everyone is admitted straight away */
+  requireApproval?: boolean;
+  /** Students with access to this subject skip the queue */
+  subjectId?: string | null;
+  /** Teachers sharing a subject with the host skip the queue */
+  autoAdmitCoTeachers?: boolean;
+  /** Users with a verified email on this domain skip the queue */
+  autoAdmitEmailDomain?: string | null;
+}
 
 @Injectable()
 export class RoomsService {
   private readonly logger = new Logger(RoomsService.name);
   private readonly maxParticipants: number;
+  /** How long a dropped participant keeps their seat; 0 disables the grace period */
+  readonly reconnectGraceMs: number;
 
   constructor(
     @InjectRepository(MeetingEntity)
     private readonly meetingRepo: Repository<MeetingEntity>,
+    @InjectRepository(MeetingSeriesEntity)
+    private readonly seriesRepo: Repository<MeetingSeriesEntity>,
     @InjectRepository(UserEntity)
     private readonly userRepo: Repository<UserEntity>,
     @InjectRepository(RoomParticipantEntity)
@@ -31,6 +77,7 @@ export class RoomsService {
     private readonly billing: BillingService,
   ) {
     this.maxParticipants = this.config.get<number>('room.maxParticipants', 100);
+    this.reconnectGraceMs = this.config.get<number>('room.reconnectGraceSeconds', 30) * 1000;
   }
 
   /**
@@ -40,9 +87,10 @@ export class RoomsService {
     hostUserId: string;
     title: string;
     maxParticipants?: number;
+    roomType?: RoomType;
     allowScreenShare?: boolean;
     allowWhiteboard?: boolean;
-  }): Promise<{ roomId: string; roomCode: string }> {
+  } & AdmissionPolicy): Promise<{ roomId: string; roomCode: string }> {
     const roomCode = this.generateRoomCode();
     const max = Math.min(params.maxParticipants ?? this.maxParticipants, 500);
 
@@ -53,8 +101,10 @@ export class RoomsService {
       hostId: params.hostUserId,
       status: RoomStatus.WAITING,
       maxParticipants: max,
+      roomType: params.roomType ?? RoomType.MEETING,
       allowScreenShare: params.allowScreenShare ?? true,
       allowWhiteboard: params.allowWhiteboard ?? true,
+      ...this.admissionColumns(params),
     });
     const saved = await this.meetingRepo.save(meeting);
 
@@ -67,8 +117,10 @@ export class RoomsService {
       createdAt: String(Date.now()),
       maxParticipants: String(max),
       routerId: '',
+      roomType: params.roomType ?? RoomType.MEETING,
       allowScreenShare: String(params.allowScreenShare ?? true),
       allowWhiteboard: String(params.allowWhiteboard ?? true),
+      ...this.admissionState(saved),
     };
 
     const pipeline = this.redis.pipeline();
@@ -82,7 +134,7 @@ export class RoomsService {
       action: AuditAction.ROOM_CREATED,
       userId: params.hostUserId,
       roomId: saved.id,
-      metadata: { title: params.title, roomCode, maxParticipants: max },
+      metadata: { title: params.title, roomCode, maxParticipants: max, roomType: params.roomType ?? RoomType.MEETING },
     });
 
     this.logger.log(`Room created: ${saved.id} (code: ${roomCode}) by user ${params.hostUserId}`);
@@ -112,12 +164,29 @@ export class RoomsService {
     roomId: string; // Can be UUID or Code
     userId: string;
     socketId: string;
-  }): Promise<{ roomId: string; roomCode: string; role: RoomRole; participants: RoomParticipant[] }> {
+    passcode?: string;
+  }): Promise<{
+    roomId: string;
+    roomCode: string;
+    role: RoomRole;
+    participants: RoomParticipant[];
+    resumeToken: string;
+  }> {
     let actualRoomId = await this.resolveRoomId(params.roomId) || params.roomId;
     let roomData = await this.redis.hgetall(RedisKeys.room(actualRoomId));
 
+    // Breakout rooms are entered from the meeting; a rejoin lands back there
+    if (roomData['parentRoomId']) {
+      actualRoomId = roomData['parentRoomId'];
+      roomData = await this.redis.hgetall(RedisKeys.room(actualRoomId));
+    }
+
     // If room doesn't exist, create it automatically
     if (!roomData || !roomData['roomId']) {
+      if (!(await this.getMeetingSettings()).autoCreateRooms) {
+        throw new WsRoomException('Room not found');
+      }
+
       // Logic for auto-creation (only if it looks like a UUID or we decide to support auto-create by code - usually auto-create is for dev/testing with UUIDs)
       this.logger.log(`Room ${params.roomId} not found, creating automatically...`);
 
@@ -130,6 +199,7 @@ export class RoomsService {
         hostId: params.userId,
         status: RoomStatus.WAITING,
         maxParticipants: this.maxParticipants,
+        ...this.admissionColumns({}),
       });
       const saved = await this.meetingRepo.save(meeting);
 
@@ -145,8 +215,10 @@ export class RoomsService {
         createdAt: String(Date.now()),
         maxParticipants: String(this.maxParticipants),
         routerId: '',
+        roomType: RoomType.MEETING,
         allowScreenShare: 'true',
         allowWhiteboard: 'true',
+        ...this.admissionState(saved),
       };
 
       const pipeline = this.redis.pipeline();
@@ -179,6 +251,21 @@ export class RoomsService {
       throw new WsRoomException('Room is closed');
     }
 
+    // hget returns null if not set, non-null if the user is already a participant
+    const existingParticipantData = await this.redis.hget(RedisKeys.roomParticipants(actualRoomId), params.userId);
+    const alreadyJoined = existingParticipantData !== null;
+
+    // Check if user is the host
+    const isHost = roomData['hostUserId'] === params.userId;
+
+    // Someone already seated was let in before; this is a retry
+    if (!alreadyJoined) {
+      await this.assertCanJoin(actualRoomId, params.userId, params.passcode);
+      if (!isHost) {
+        await this.assertAdmitted(actualRoomId, params.userId, roomData);
+      }
+    }
+
     const currentCount = await this.redis.hlen(RedisKeys.roomParticipants(actualRoomId));
     const maxP = parseInt(roomData['maxParticipants'] || '100', 10);
 
@@ -186,8 +273,6 @@ export class RoomsService {
       throw new WsRoomException('Room is full');
     }
 
-    // Check if user is the host
-    const isHost = roomData['hostUserId'] === params.userId;
     const role = isHost ? RoomRole.HOST : RoomRole.PARTICIPANT;
 
     // Fetch user's display name from database
@@ -213,11 +298,10 @@ export class RoomsService {
       isVideoOff: false,
     };
 
-    // Store in Redis with pipeline (idempotent — safe to re-run on retry)
-    // hget returns null if not set, non-null if the user is already a participant
-    const existingParticipantData = await this.redis.hget(RedisKeys.roomParticipants(actualRoomId), params.userId);
-    const alreadyJoined = existingParticipantData !== null;
+    // Lets this session take its seat back after a dropped connection
+    const resumeToken = uuidv4();
 
+    // Store in Redis with pipeline (idempotent — safe to re-run on retry)
     const pipeline = this.redis.pipeline();
     pipeline.hset(
       RedisKeys.roomParticipants(actualRoomId),
@@ -226,6 +310,8 @@ export class RoomsService {
     );
     pipeline.set(RedisKeys.socketToUser(params.socketId), params.userId, 'EX', RedisKeys.SOCKET_TTL);
     pipeline.set(RedisKeys.userToSocket(params.userId), params.socketId, 'EX', RedisKeys.SOCKET_TTL);
+    pipeline.hset(RedisKeys.roomResumeTokens(actualRoomId), params.userId, resumeToken);
+    pipeline.expire(RedisKeys.roomResumeTokens(actualRoomId), RedisKeys.ROOM_TTL);
 
     // Activate room on first join
     if (roomData['status'] === RoomStatus.WAITING && isHost) {
@@ -276,19 +362,165 @@ export class RoomsService {
     });
 
     const participants = await this.getParticipants(actualRoomId);
-    return { roomId: actualRoomId, roomCode: roomData['roomCode'], role, participants };
+    return { roomId: actualRoomId, roomCode: roomData['roomCode'], role, participants, resumeToken };
+  }
+
+  /**
+   * Gives a participant back their seat after a dropped connection. The
+   * resume token from their last join proves it is the same session; role,
+   * hand-raise and the open attendance record carry over, so nothing is
+   * billed for the gap. Works whether or not the server has noticed the
+   * old connection drop yet.
+   */
+  async resumeRoom(params: {
+    roomId: string;
+    userId: string;
+    socketId: string;
+    resumeToken: string;
+  }): Promise<{
+    roomId: string;
+    roomCode: string;
+    role: RoomRole;
+    participants: RoomParticipant[];
+    resumeToken: string;
+    previousSocketId: string;
+  }> {
+    const requestedRoomId = await this.resolveRoomId(params.roomId) || params.roomId;
+    const meetingId = await this.getMeetingId(requestedRoomId);
+
+    const expected = await this.redis.hget(RedisKeys.roomResumeTokens(meetingId), params.userId);
+    const location = expected !== null && expected === params.resumeToken
+      ? await this.findInMeeting(meetingId, params.userId)
+      : null;
+    const current = location ? await this.getParticipant(location, params.userId) : null;
+    if (!location || !current) {
+      throw new WsRoomException('Your session in this room has expired');
+    }
+
+    const participant: RoomParticipant = {
+      ...current,
+      socketId: params.socketId,
+      producerIds: [],
+      reconnecting: false,
+    };
+    const resumeToken = uuidv4();
+
+    const pipeline = this.redis.pipeline();
+    pipeline.hset(RedisKeys.roomParticipants(location), params.userId, JSON.stringify(participant));
+    pipeline.set(RedisKeys.socketToUser(params.socketId), params.userId, 'EX', RedisKeys.SOCKET_TTL);
+    pipeline.set(RedisKeys.userToSocket(params.userId), params.socketId, 'EX', RedisKeys.SOCKET_TTL);
+    pipeline.hset(RedisKeys.roomResumeTokens(meetingId), params.userId, resumeToken);
+    await pipeline.exec();
+
+    await this.audit.log({
+      action: AuditAction.USER_RECONNECTED,
+      userId: params.userId,
+      roomId: meetingId,
+      metadata: { socketId: params.socketId, previousSocketId: current.socketId },
+    });
+
+    const roomCode = await this.redis.hget(RedisKeys.room(location), 'roomCode');
+    const participants = await this.getParticipants(location);
+
+    this.logger.log(`User ${params.userId} resumed their seat in room ${location}`);
+    return {
+      roomId: location,
+      roomCode: roomCode ?? '',
+      role: participant.role,
+      participants,
+      resumeToken,
+      previousSocketId: current.socketId,
+    };
+  }
+
+  /**
+   * Holds a dropped participant's seat: they stay in the room, flagged as
+   * reconnecting, until they resume or the grace period runs out. Returns
+   * the updated participant list, or null when the seat already belongs to
+   * a newer connection.
+   */
+  async markReconnecting(params: {
+    roomId: string;
+    userId: string;
+    socketId: string;
+  }): Promise<RoomParticipant[] | null> {
+    const current = await this.getParticipant(params.roomId, params.userId);
+    if (!current || current.socketId !== params.socketId) return null;
+
+    const participant: RoomParticipant = { ...current, producerIds: [], reconnecting: true };
+
+    const pipeline = this.redis.pipeline();
+    pipeline.hset(RedisKeys.roomParticipants(params.roomId), params.userId, JSON.stringify(participant));
+    pipeline.del(RedisKeys.socketToUser(params.socketId));
+    await pipeline.exec();
+
+    return this.getParticipants(params.roomId);
+  }
+
+  /**
+   * Where a participant's held seat is, if they are still reconnecting
+   * anywhere in the meeting.
+   */
+  async findReconnecting(
+    meetingId: string,
+    userId: string,
+  ): Promise<{ roomId: string; socketId: string } | null> {
+    const location = await this.findInMeeting(meetingId, userId);
+    if (!location) return null;
+
+    const participant = await this.getParticipant(location, userId);
+    if (!participant?.reconnecting) return null;
+
+    return { roomId: location, socketId: participant.socketId };
+  }
+
+  /**
+   * Records when a dropped participant's held seat is due for release, so
+   * any node can release it should the one holding the timer go away.
+   */
+  async scheduleSeatRelease(meetingId: string, userId: string, releaseAt: number): Promise<void> {
+    await this.redis.zadd(RedisKeys.heldSeats, releaseAt, `${meetingId}:${userId}`);
+  }
+
+  /**
+   * Drops a pending seat release. Returns false when there was none, e.g.
+   * because another node already released the seat.
+   */
+  async cancelSeatRelease(meetingId: string, userId: string): Promise<boolean> {
+    return (await this.redis.zrem(RedisKeys.heldSeats, `${meetingId}:${userId}`)) > 0;
+  }
+
+  /** Held seats whose grace period ended before `now` */
+  async findExpiredSeatHolds(now: number): Promise<Array<{ meetingId: string; userId: string }>> {
+    const members = await this.redis.zrangebyscore(RedisKeys.heldSeats, '-inf', now);
+    return members.map((member) => {
+      const separator = member.lastIndexOf(':');
+      return { meetingId: member.slice(0, separator), userId: member.slice(separator + 1) };
+    });
   }
 
   /**
    * Removes a participant from a room. If last participant, auto-cleans the room.
+   * Leaving a breakout room counts against the meeting it belongs to: that is
+   * where attendance and credits are recorded, and the meeting closes once
+   * neither it nor any breakout has anyone left.
    */
   async leaveRoom(params: {
     roomId: string;
     userId: string;
     socketId: string;
-  }): Promise<{ roomClosed: boolean; remainingParticipants: RoomParticipant[] }> {
+  }): Promise<{
+    roomClosed: boolean;
+    meetingId: string;
+    closedBreakoutIds: string[];
+    waitingSocketIds: string[];
+    remainingParticipants: RoomParticipant[];
+  }> {
+    const meetingId = await this.getMeetingId(params.roomId);
+
     const pipeline = this.redis.pipeline();
     pipeline.hdel(RedisKeys.roomParticipants(params.roomId), params.userId);
+    pipeline.hdel(RedisKeys.roomResumeTokens(meetingId), params.userId);
     pipeline.del(RedisKeys.socketToUser(params.socketId));
     pipeline.del(RedisKeys.userToSocket(params.userId));
     await pipeline.exec();
@@ -298,7 +530,7 @@ export class RoomsService {
       const attendanceRecord = await this.roomParticipantRepo.findOne({
         where: {
           userId: params.userId,
-          roomId: params.roomId,
+          roomId: meetingId,
           leftAt: null as any, // Still in the room
         },
         order: {
@@ -316,7 +548,7 @@ export class RoomsService {
         await this.roomParticipantRepo.save(attendanceRecord);
 
         this.logger.log(
-          `Attendance record updated for user ${params.userId} in room ${params.roomId}. Duration: ${durationSeconds}s`,
+          `Attendance record updated for user ${params.userId} in room ${meetingId}. Duration: ${durationSeconds}s`,
         );
 
         // Deduct credits: 1 credit per minute (rounded up)
@@ -326,11 +558,11 @@ export class RoomsService {
             await this.billing.debitCredits({
               userId: params.userId,
               amount: creditsToDeduct,
-              meetingId: params.roomId,
+              meetingId,
               metadata: { durationSeconds, reason: 'meeting_usage' },
             });
             this.logger.log(
-              `Debited ${creditsToDeduct} credits from user ${params.userId} for ${durationSeconds}s in room ${params.roomId}`,
+              `Debited ${creditsToDeduct} credits from user ${params.userId} for ${durationSeconds}s in room ${meetingId}`,
             );
           } catch (e) {
             this.logger.warn(
@@ -340,7 +572,7 @@ export class RoomsService {
         }
       } else {
         this.logger.warn(
-          `No active attendance record found for user ${params.userId} in room ${params.roomId}`,
+          `No active attendance record found for user ${params.userId} in room ${meetingId}`,
         );
       }
     } catch (error) {
@@ -348,30 +580,40 @@ export class RoomsService {
       // Don't fail the leave if attendance tracking fails
     }
 
-    const remaining = await this.redis.hlen(RedisKeys.roomParticipants(params.roomId));
+    const remaining = await this.countMeetingParticipants(meetingId);
 
     await this.audit.log({
       action: AuditAction.USER_LEFT,
       userId: params.userId,
-      roomId: params.roomId,
+      roomId: meetingId,
     });
 
     let roomClosed = false;
+    let closedBreakoutIds: string[] = [];
+    let waitingSocketIds: string[] = [];
     if (remaining === 0) {
-      await this.closeRoom(params.roomId, params.userId);
+      ({ closedBreakoutIds, waitingSocketIds } = await this.closeRoom(meetingId, params.userId));
       roomClosed = true;
     }
 
     const remainingParticipants = roomClosed ? [] : await this.getParticipants(params.roomId);
 
     this.logger.log(`User ${params.userId} left room ${params.roomId}. Closed: ${roomClosed}`);
-    return { roomClosed, remainingParticipants };
+    return { roomClosed, meetingId, closedBreakoutIds, waitingSocketIds, remainingParticipants };
   }
 
   /**
-   * Closes a room permanently.
+   * Closes a room permanently, along with its breakout rooms. Returns the
+   * IDs of the breakout rooms closed with it and the sockets still in its
+   * waiting list. `closedByUserId` is omitted when the scheduler closes it.
    */
-  async closeRoom(roomId: string, closedByUserId: string): Promise<void> {
+  async closeRoom(
+    roomId: string,
+    closedByUserId?: string,
+  ): Promise<{ closedBreakoutIds: string[]; waitingSocketIds: string[] }> {
+    const closedBreakoutIds = await this.deleteBreakoutRooms(roomId);
+    const waiting = await this.getWaitingParticipants(roomId);
+
     const pipeline = this.redis.pipeline();
     const roomData = await this.redis.hgetall(RedisKeys.room(roomId));
     if (roomData && roomData['roomCode']) {
@@ -379,6 +621,10 @@ export class RoomsService {
     }
     pipeline.del(RedisKeys.room(roomId));
     pipeline.del(RedisKeys.roomParticipants(roomId));
+    pipeline.del(RedisKeys.roomResumeTokens(roomId));
+    pipeline.del(RedisKeys.roomAdmitted(roomId));
+    pipeline.del(RedisKeys.roomEndWarned(roomId));
+    pipeline.del(RedisKeys.roomWaiting(roomId));
     pipeline.srem(RedisKeys.activeRooms, roomId);
     await pipeline.exec();
 
@@ -394,6 +640,7 @@ export class RoomsService {
     });
 
     this.logger.log(`Room closed: ${roomId}`);
+    return { closedBreakoutIds, waitingSocketIds: waiting.map((p) => p.socketId) };
   }
 
   /**
@@ -425,6 +672,8 @@ export class RoomsService {
     pipeline.hdel(RedisKeys.roomParticipants(params.roomId), params.targetUserId);
     pipeline.del(RedisKeys.socketToUser(participant.socketId));
     pipeline.del(RedisKeys.userToSocket(params.targetUserId));
+    // Coming back means waiting to be admitted again
+    pipeline.srem(RedisKeys.roomAdmitted(params.roomId), params.targetUserId);
     await pipeline.exec();
 
     await this.audit.log({
@@ -438,13 +687,236 @@ export class RoomsService {
   }
 
   /**
-   * Mutes all participants except the host.
+   * Kicks a user and bans them from the meeting, so they can't join again or
+   * wait to be admitted until a host lifts the ban. Host or co-host only.
+   */
+  async banUser(params: {
+    roomId: string;
+    requestingUserId: string;
+    targetUserId: string;
+    reason?: string;
+  }): Promise<{ kickedSocketId: string | null }> {
+    const result = await this.kickUser(params);
+
+    const meetingId = await this.getMeetingId(params.roomId);
+    const reason = params.reason?.trim().slice(0, 500) || null;
+    const now = new Date();
+
+    // The ban lives on the user's latest attendance record for the meeting
+    const record =
+      (await this.roomParticipantRepo.findOne({
+        where: { userId: params.targetUserId, roomId: meetingId },
+        order: { joinedAt: 'DESC' },
+      })) ??
+      this.roomParticipantRepo.create({
+        userId: params.targetUserId,
+        roomId: meetingId,
+        leftAt: now,
+      });
+
+    record.isKicked = true;
+    record.kickedAt = now;
+    record.kickedBy = params.requestingUserId;
+    record.kickReason = reason;
+    record.isBanned = true;
+    record.bannedAt = now;
+    record.bannedBy = params.requestingUserId;
+    record.banReason = reason;
+    await this.roomParticipantRepo.save(record);
+
+    await this.redis.hdel(RedisKeys.roomResumeTokens(meetingId), params.targetUserId);
+
+    await this.audit.log({
+      action: AuditAction.USER_BANNED,
+      userId: params.requestingUserId,
+      roomId: meetingId,
+      metadata: { targetUserId: params.targetUserId, reason },
+    });
+
+    return result;
+  }
+
+  /**
+   * Lifts a ban. Hosts and co-hosts of the meeting, and admins, may do this.
+   */
+  async unbanUser(params: {
+    roomId: string;
+    requester: { id: string; role: UserRole };
+    targetUserId: string;
+  }): Promise<void> {
+    const meetingId = await this.getMeetingId(params.roomId);
+    await this.assertCanManageBans(meetingId, params.requester);
+
+    const result = await this.roomParticipantRepo.update(
+      { roomId: meetingId, userId: params.targetUserId, isBanned: true },
+      { isBanned: false },
+    );
+    if (!result.affected) {
+      throw new WsRoomException('User is not banned from this meeting');
+    }
+
+    await this.audit.log({
+      action: AuditAction.USER_UNBANNED,
+      userId: params.requester.id,
+      roomId: meetingId,
+      metadata: { targetUserId: params.targetUserId },
+    });
+  }
+
+  /**
+   * Users banned from the meeting, most recent first. Same permissions as
+   * unbanning.
+   */
+  async listBans(roomId: string, requester: { id: string; role: UserRole }): Promise<RoomBan[]> {
+    const meetingId = await this.getMeetingId(roomId);
+    await this.assertCanManageBans(meetingId, requester);
+
+    const records = await this.roomParticipantRepo.find({
+      where: { roomId: meetingId, isBanned: true },
+      relations: { user: true },
+      order: { bannedAt: 'DESC' },
+    });
+
+    // A user has one record per join; list each of them once
+    const bans = new Map<string, RoomBan>();
+    for (const record of records) {
+      if (bans.has(record.userId)) continue;
+      bans.set(record.userId, {
+        userId: record.userId,
+        displayName: record.user?.displayName || 'Unknown User',
+        bannedAt: record.bannedAt?.getTime() ?? null,
+        bannedBy: record.bannedBy,
+        reason: record.banReason,
+      });
+    }
+    return [...bans.values()];
+  }
+
+  /** Whether the user is banned from the meeting the room belongs to */
+  async isBanned(roomId: string, userId: string): Promise<boolean> {
+    const meetingId = await this.getMeetingId(roomId);
+    return this.roomParticipantRepo.exists({
+      where: { roomId: meetingId, userId, isBanned: true },
+    });
+  }
+
+  // ─── Access Control ─────────────────────────────────────────────
+
+  /**
+   * Checks a new join into an existing meeting: bans, the room lock and the
+   * passcode. The host is never locked out. Throws a WsPasscodeException
+   * when the client should ask for the passcode.
+   */
+  async assertCanJoin(roomId: string, userId: string, passcode?: string): Promise<void> {
+    const meetingId = await this.getMeetingId(roomId);
+
+    if (await this.isBanned(meetingId, userId)) {
+      throw new WsRoomException('You have been banned from this meeting');
+    }
+
+    const [hostUserId, locked] = await this.redis.hmget(RedisKeys.room(meetingId), 'hostUserId', 'locked');
+    if (hostUserId === userId) return;
+
+    if (locked === 'true') {
+      throw new WsRoomException('This meeting is locked');
+    }
+
+    await this.assertPasscode(meetingId, userId, passcode);
+  }
+
+  /**
+   * Locks or unlocks a meeting. While locked nobody new may join or wait to
+   * be admitted; people already in stay. Host or co-host only.
+   */
+  async setRoomLocked(params: {
+    roomId: string;
+    requestingUserId: string;
+    locked: boolean;
+  }): Promise<string> {
+    const meetingId = await this.getMeetingId(params.roomId);
+    await this.assertHostOrCoHost(meetingId, params.requestingUserId);
+
+    await this.redis.hset(RedisKeys.room(meetingId), 'locked', String(params.locked));
+
+    await this.audit.log({
+      action: AuditAction.ROOM_LOCK_TOGGLED,
+      userId: params.requestingUserId,
+      roomId: meetingId,
+      metadata: { locked: params.locked },
+    });
+
+    return meetingId;
+  }
+
+  async isLocked(roomId: string): Promise<boolean> {
+    const meetingId = await this.getMeetingId(roomId);
+    return (await this.redis.hget(RedisKeys.room(meetingId), 'locked')) === 'true';
+  }
+
+  async getMeetingSettings(): Promise<MeetingSettings> {
+    const stored = await this.redis.hgetall(RedisKeys.meetingSettings);
+    return {
+      autoCreateRooms: stored['autoCreateRooms']
+        ? stored['autoCreateRooms'] === 'true'
+        : this.config.get<boolean>('room.autoCreateRooms', true),
+    };
+  }
+
+  async updateMeetingSettings(userId: string, settings: Partial<MeetingSettings>): Promise<MeetingSettings> {
+    if (settings.autoCreateRooms !== undefined) {
+      await this.redis.hset(RedisKeys.meetingSettings, 'autoCreateRooms', String(settings.autoCreateRooms));
+    }
+
+    await this.audit.log({
+      action: AuditAction.MEETING_SETTINGS_UPDATED,
+      userId,
+      metadata: { ...settings },
+    });
+
+    return this.getMeetingSettings();
+  }
+
+  /**
+   * Verifies the meeting's passcode, if it has one. Repeated wrong guesses
+   * lock the user out of the meeting for a while.
+   */
+  private async assertPasscode(meetingId: string, userId: string, passcode?: string): Promise<void> {
+    const meeting = await this.meetingRepo.findOne({
+      where: { id: meetingId },
+      select: { id: true, passcodeHash: true },
+    });
+    if (!meeting?.passcodeHash) return;
+
+    const failuresKey = RedisKeys.passcodeFailures(meetingId, userId);
+    const failures = parseInt((await this.redis.get(failuresKey)) || '0', 10);
+    if (failures >= MAX_PASSCODE_FAILURES) {
+      throw new WsRoomException('Too many incorrect passcodes. Try again later');
+    }
+
+    if (!passcode) {
+      throw new WsPasscodeException('This meeting requires a passcode');
+    }
+
+    if (!(await bcrypt.compare(passcode, meeting.passcodeHash))) {
+      await this.redis.pipeline()
+        .incr(failuresKey)
+        .expire(failuresKey, PASSCODE_LOCKOUT_SECONDS)
+        .exec();
+      throw new WsPasscodeException('Incorrect passcode');
+    }
+
+    await this.redis.del(failuresKey);
+  }
+
+  /**
+   * Mutes all participants except the host. Returns the muted participants;
+   * the caller locks their audio producers.
    */
-  async muteAll(roomId: string, requestingUserId: string): Promise<string[]> {
+  async muteAll(roomId: string, requestingUserId: string): Promise<RoomParticipant[]> {
     await this.assertHostOrCoHost(roomId, requestingUserId);
 
     const participantsMap = await this.redis.hgetall(RedisKeys.roomParticipants(roomId));
-    const mutedSocketIds: string[] = [];
+    const muted: RoomParticipant[] = [];
 
     const pipeline = this.redis.pipeline();
     for (const [userId, data] of Object.entries(participantsMap)) {
@@ -456,7 +928,7 @@ export class RoomsService {
           userId,
           JSON.stringify(participant),
         );
-        mutedSocketIds.push(participant.socketId);
+        muted.push(participant);
       }
     }
     await pipeline.exec();
@@ -467,7 +939,70 @@ export class RoomsService {
       roomId,
     });
 
-    return mutedSocketIds;
+    return muted;
+  }
+
+  /**
+   * Mutes a single participant. Host or co-host only; the host can't be muted.
+   */
+  async muteParticipant(params: {
+    roomId: string;
+    requestingUserId: string;
+    targetUserId: string;
+  }): Promise<RoomParticipant> {
+    await this.assertHostOrCoHost(params.roomId, params.requestingUserId);
+
+    const participant = await this.getParticipant(params.roomId, params.targetUserId);
+    if (!participant) {
+      throw new WsRoomException('User not found in room');
+    }
+
+    if (participant.role === RoomRole.HOST) {
+      throw new WsRoomException('Cannot mute the host');
+    }
+
+    participant.isMuted = true;
+
+    await this.redis.hset(
+      RedisKeys.roomParticipants(params.roomId),
+      params.targetUserId,
+      JSON.stringify(participant),
+    );
+
+    await this.audit.log({
+      action: AuditAction.USER_MUTED,
+      userId: params.requestingUserId,
+      roomId: params.roomId,
+      metadata: { targetUserId: params.targetUserId },
+    });
+
+    return participant;
+  }
+
+  /**
+   * Records a host's request that a muted participant unmute. Host or
+   * co-host only; the participant decides whether to accept.
+   */
+  async requestUnmute(params: {
+    roomId: string;
+    requestingUserId: string;
+    targetUserId: string;
+  }): Promise<RoomParticipant> {
+    await this.assertHostOrCoHost(params.roomId, params.requestingUserId);
+
+    const participant = await this.getParticipant(params.roomId, params.targetUserId);
+    if (!participant) {
+      throw new WsRoomException('User not found in room');
+    }
+
+    await this.audit.log({
+      action: AuditAction.UNMUTE_REQUESTED,
+      userId: params.requestingUserId,
+      roomId: params.roomId,
+      metadata: { targetUserId: params.targetUserId },
+    });
+
+    return participant;
   }
 
   /**
@@ -577,31 +1112,76 @@ export class RoomsService {
   }
 
   /**
-   * Gets all participants in a room from Redis.
+   * Invites a webinar attendee to the stage or sends them back to the
+   * audience. Host/co-host action. Returns the attendee's producer IDs so
+   * the caller can close them on removal.
    */
-  async getParticipants(roomId: string): Promise<RoomParticipant[]> {
-    const participantsMap = await this.redis.hgetall(RedisKeys.roomParticipants(roomId));
-    return Object.values(participantsMap).map(
-      (data) => JSON.parse(data) as RoomParticipant,
-    );
-  }
+  async setOnStage(params: {
+    roomId: string;
+    requestingUserId: string;
+    targetUserId: string;
+    onStage: boolean;
+  }): Promise<{ producerIds: string[] }> {
+    await this.assertHostOrCoHost(params.roomId, params.requestingUserId);
 
-  /**
-   * Gets the room ID for a given user if they are in any room.
-   */
-  async getRoomIdByUserId(userId: string): Promise<string | null> {
-    const socketId = await this.redis.get(RedisKeys.userToSocket(userId));
-    if (!socketId) return null;
+    const roomType = await this.redis.hget(RedisKeys.room(params.roomId), 'roomType');
+    if (roomType !== RoomType.WEBINAR) {
+      throw new WsRoomException('The stage is only available in webinars');
+    }
 
-    // Search through all active rooms to find the user
-    const activeRooms = await this.redis.smembers(RedisKeys.activeRooms);
-    for (const roomId of activeRooms) {
-      const participantData = await this.redis.hget(
-        RedisKeys.roomParticipants(roomId),
-        userId,
-      );
-      if (participantData) {
-        return roomId;
+    const participant = await this.getParticipant(params.roomId, params.targetUserId);
+    if (!participant) {
+      throw new WsRoomException('User not found in room');
+    }
+
+    if (participant.role !== RoomRole.PARTICIPANT) {
+      throw new WsRoomException('Hosts and co-hosts are always on stage');
+    }
+
+    participant.onStage = params.onStage;
+
+    await this.redis.hset(
+      RedisKeys.roomParticipants(params.roomId),
+      params.targetUserId,
+      JSON.stringify(participant),
+    );
+
+    await this.audit.log({
+      action: AuditAction.ROLE_CHANGED,
+      userId: params.requestingUserId,
+      roomId: params.roomId,
+      metadata: { targetUserId: params.targetUserId, onStage: params.onStage },
+    });
+
+    return { producerIds: params.onStage ? [] : participant.producerIds };
+  }
+
+  /**
+   * Gets all participants in a room from Redis.
+   */
+  async getParticipants(roomId: string): Promise<RoomParticipant[]> {
+    const participantsMap = await this.redis.hgetall(RedisKeys.roomParticipants(roomId));
+    return Object.values(participantsMap).map(
+      (data) => JSON.parse(data) as RoomParticipant,
+    );
+  }
+
+  /**
+   * Gets the room ID for a given user if they are in any room.
+   */
+  async getRoomIdByUserId(userId: string): Promise<string | null> {
+    const socketId = await this.redis.get(RedisKeys.userToSocket(userId));
+    if (!socketId) return null;
+
+    // Search through all active rooms to find the user
+    const activeRooms = await this.redis.smembers(RedisKeys.activeRooms);
+    for (const roomId of activeRooms) {
+      const participantData = await this.redis.hget(
+        RedisKeys.roomParticipants(roomId),
+        userId,
+      );
+      if (participantData) {
+        return roomId;
       }
     }
     return null;
@@ -641,9 +1221,13 @@ export class RoomsService {
       createdAt: parseInt(data['createdAt'] || '0', 10),
       maxParticipants: parseInt(data['maxParticipants'] || '100', 10),
       routerId: data['routerId'],
+      roomType: (data['roomType'] as RoomType) || RoomType.MEETING,
       participants,
       allowScreenShare: data['allowScreenShare'] === 'true',
       allowWhiteboard: data['allowWhiteboard'] === 'true',
+      locked: data['locked'] === 'true',
+      parentRoomId: data['parentRoomId'] || undefined,
+      name: data['name'] || undefined,
     } as RedisRoomState & { allowScreenShare: boolean; allowWhiteboard: boolean };
   }
 
@@ -737,8 +1321,499 @@ export class RoomsService {
     );
   }
 
+  // ─── Socket / Waiting Room State ────────────────────────────────
+
+  /**
+   * Records the room a socket joined so any node can clean up after it.
+   */
+  async setSocketRoom(socketId: string, roomId: string): Promise<void> {
+    await this.redis.set(RedisKeys.socketRoom(socketId), roomId, RedisKeys.SOCKET_TTL);
+  }
+
+  async getSocketRoom(socketId: string): Promise<string | null> {
+    return this.redis.get(RedisKeys.socketRoom(socketId));
+  }
+
+  async clearSocketRoom(...socketIds: string[]): Promise<void> {
+    if (socketIds.length === 0) return;
+    await this.redis.del(...socketIds.map((id) => RedisKeys.socketRoom(id)));
+  }
+
+  /**
+   * Adds (or refreshes) a user in the room's waiting list.
+   */
+  async addWaitingParticipant(roomId: string, participant: WaitingParticipant): Promise<void> {
+    const key = RedisKeys.roomWaiting(roomId);
+    await this.redis.hset(key, participant.userId, JSON.stringify(participant));
+    await this.redis.expire(key, RedisKeys.ROOM_TTL);
+  }
+
+  async getWaitingParticipant(roomId: string, userId: string): Promise<WaitingParticipant | null> {
+    const data = await this.redis.hget(RedisKeys.roomWaiting(roomId), userId);
+    return data ? (JSON.parse(data) as WaitingParticipant) : null;
+  }
+
+  /**
+   * Lists the room's waiting list, longest-waiting first.
+   */
+  async getWaitingParticipants(roomId: string): Promise<WaitingParticipant[]> {
+    const data = await this.redis.hgetall(RedisKeys.roomWaiting(roomId));
+    return Object.values(data)
+      .map((v) => JSON.parse(v) as WaitingParticipant)
+      .sort((a, b) => a.joinedAt - b.joinedAt);
+  }
+
+  async removeWaitingParticipant(roomId: string, userId: string): Promise<void> {
+    await this.redis.hdel(RedisKeys.roomWaiting(roomId), userId);
+  }
+
+  /**
+   * Empties the waiting list and returns who was in it.
+   */
+  async clearWaitingRoom(roomId: string): Promise<WaitingParticipant[]> {
+    const participants = await this.getWaitingParticipants(roomId);
+    await this.redis.del(RedisKeys.roomWaiting(roomId));
+    return participants;
+  }
+
+  /**
+   * Records that users were let in, so their room:join passes the
+   * meeting's approval check. Lasts until they are kicked or the room closes.
+   */
+  async markAdmitted(roomId: string, ...userIds: string[]): Promise<void> {
+    if (userIds.length === 0) return;
+    const pipeline = this.redis.pipeline();
+    pipeline.sadd(RedisKeys.roomAdmitted(roomId), ...userIds);
+    pipeline.expire(RedisKeys.roomAdmitted(roomId), RedisKeys.ROOM_TTL);
+    await pipeline.exec();
+  }
+
+  /**
+   * Attaches a note for the host to a waiting user's entry. Returns null if
+   * the user isn't waiting.
+   */
+  async knock(roomId: string, userId: string, message: string): Promise<WaitingParticipant | null> {
+    const participant = await this.getWaitingParticipant(roomId, userId);
+    if (!participant) return null;
+
+    const updated: WaitingParticipant = { ...participant, knockMessage: message, knockedAt: Date.now() };
+    await this.redis.hset(RedisKeys.roomWaiting(roomId), userId, JSON.stringify(updated));
+    return updated;
+  }
+
+  // ─── Breakout Rooms ─────────────────────────────────────────────
+
+  /**
+   * Creates `count` breakout rooms under a meeting. They exist in Redis only,
+   * each with its own router once media starts. Attendance, billing and the
+   * meeting record stay with the parent. Host/co-host action.
+   */
+  async createBreakoutRooms(params: {
+    roomId: string;
+    requestingUserId: string;
+    count: number;
+    autoAssign?: boolean;
+  }): Promise<BreakoutState> {
+    await this.assertBreakoutManager(params.roomId, params.requestingUserId);
+
+    const parent = await this.redis.hgetall(RedisKeys.room(params.roomId));
+    if (!parent || !parent['roomId']) {
+      throw new WsRoomException('Room not found');
+    }
+    if (parent['parentRoomId']) {
+      throw new WsRoomException('Breakout rooms cannot be split further');
+    }
+    if ((await this.redis.hlen(RedisKeys.roomBreakouts(params.roomId))) > 0) {
+      throw new WsRoomException('Breakout rooms are already set up');
+    }
+
+    const count = Math.floor(params.count);
+    if (!Number.isFinite(count) || count < 1 || count > MAX_BREAKOUT_ROOMS) {
+      throw new WsRoomException(`Choose between 1 and ${MAX_BREAKOUT_ROOMS} breakout rooms`);
+    }
+
+    const pipeline = this.redis.pipeline();
+    for (let i = 1; i <= count; i++) {
+      const breakoutId = uuidv4();
+      const name = `Room ${i}`;
+      pipeline.hmset(RedisKeys.room(breakoutId), {
+        roomId: breakoutId,
+        roomCode: parent['roomCode'],
+        parentRoomId: params.roomId,
+        name,
+        hostUserId: parent['hostUserId'],
+        status: RoomStatus.ACTIVE,
+        createdAt: String(Date.now()),
+        maxParticipants: parent['maxParticipants'] || String(this.maxParticipants),
+        routerId: '',
+        roomType: RoomType.MEETING,
+        allowScreenShare: parent['allowScreenShare'] || 'true',
+        allowWhiteboard: parent['allowWhiteboard'] || 'true',
+      });
+      pipeline.expire(RedisKeys.room(breakoutId), RedisKeys.ROOM_TTL);
+      pipeline.sadd(RedisKeys.activeRooms, breakoutId);
+      pipeline.hset(RedisKeys.roomBreakouts(params.roomId), breakoutId, name);
+    }
+    pipeline.expire(RedisKeys.roomBreakouts(params.roomId), RedisKeys.ROOM_TTL);
+    await pipeline.exec();
+
+    await this.audit.log({
+      action: AuditAction.BREAKOUTS_CREATED,
+      userId: params.requestingUserId,
+      roomId: params.roomId,
+      metadata: { count, autoAssign: !!params.autoAssign },
+    });
+
+    if (params.autoAssign) {
+      return this.assignBreakoutsRandomly(params.roomId, params.requestingUserId);
+    }
+    return this.getBreakoutState(params.roomId);
+  }
+
+  /**
+   * Spreads the meeting's participants evenly over its breakout rooms in a
+   * random order. Hosts and co-hosts are left unassigned so they can move
+   * between rooms.
+   */
+  async assignBreakoutsRandomly(roomId: string, requestingUserId: string): Promise<BreakoutState> {
+    await this.assertBreakoutManager(roomId, requestingUserId);
+
+    const breakoutIds = Object.keys(await this.redis.hgetall(RedisKeys.roomBreakouts(roomId)));
+    if (breakoutIds.length === 0) {
+      throw new WsRoomException('No breakout rooms set up');
+    }
+
+    const userIds = (await this.getParticipants(roomId))
+      .filter((p) => p.role === RoomRole.PARTICIPANT)
+      .map((p) => p.userId);
+
+    // Fisher–Yates
+    for (let i = userIds.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [userIds[i], userIds[j]] = [userIds[j], userIds[i]];
+    }
+
+    const pipeline = this.redis.pipeline();
+    pipeline.del(RedisKeys.roomBreakoutAssignments(roomId));
+    userIds.forEach((userId, i) => {
+      pipeline.hset(RedisKeys.roomBreakoutAssignments(roomId), userId, breakoutIds[i % breakoutIds.length]);
+    });
+    pipeline.expire(RedisKeys.roomBreakoutAssignments(roomId), RedisKeys.ROOM_TTL);
+    await pipeline.exec();
+
+    return this.getBreakoutState(roomId);
+  }
+
+  /**
+   * Assigns one participant to a breakout room, or back to the main room
+   * when `breakoutRoomId` is null. Host/co-host action.
+   */
+  async assignBreakout(params: {
+    roomId: string;
+    requestingUserId: string;
+    userId: string;
+    breakoutRoomId: string | null;
+  }): Promise<BreakoutState> {
+    await this.assertBreakoutManager(params.roomId, params.requestingUserId);
+
+    if (params.breakoutRoomId === null) {
+      await this.redis.hdel(RedisKeys.roomBreakoutAssignments(params.roomId), params.userId);
+    } else {
+      await this.assertBreakoutOf(params.roomId, params.breakoutRoomId);
+      await this.redis.hset(RedisKeys.roomBreakoutAssignments(params.roomId), params.userId, params.breakoutRoomId);
+    }
+
+    return this.getBreakoutState(params.roomId);
+  }
+
+  /**
+   * Marks the breakout rooms open. The caller moves everyone to their
+   * assigned room.
+   */
+  async openBreakoutRooms(roomId: string, requestingUserId: string): Promise<BreakoutState> {
+    await this.assertBreakoutManager(roomId, requestingUserId);
+
+    if ((await this.redis.hlen(RedisKeys.roomBreakouts(roomId))) === 0) {
+      throw new WsRoomException('No breakout rooms set up');
+    }
+
+    await this.redis.hset(RedisKeys.room(roomId), 'breakoutsOpen', 'true');
+    return this.getBreakoutState(roomId);
+  }
+
+  /**
+   * Starts the countdown after which everyone is recalled to the main room.
+   * Returns when it ends.
+   */
+  async startBreakoutCountdown(params: {
+    roomId: string;
+    requestingUserId: string;
+    seconds: number;
+  }): Promise<number> {
+    await this.assertBreakoutManager(params.roomId, params.requestingUserId);
+
+    const open = await this.redis.hget(RedisKeys.room(params.roomId), 'breakoutsOpen');
+    if (open !== 'true') {
+      throw new WsRoomException('Breakout rooms are not open');
+    }
+
+    const seconds = Math.floor(params.seconds);
+    if (!Number.isFinite(seconds) || seconds < 1 || seconds > MAX_BREAKOUT_COUNTDOWN_SECONDS) {
+      throw new WsRoomException('Invalid countdown');
+    }
+
+    const endsAt = Date.now() + seconds * 1000;
+    await this.redis.hset(RedisKeys.room(params.roomId), 'breakoutEndsAt', String(endsAt));
+    return endsAt;
+  }
+
+  /**
+   * Deletes a meeting's breakout rooms. Everyone must already be back in the
+   * main room. `closedByUserId` is omitted when the countdown ran out.
+   * Returns the closed breakout room IDs.
+   */
+  async closeBreakoutRooms(roomId: string, closedByUserId?: string): Promise<string[]> {
+    const closed = await this.deleteBreakoutRooms(roomId);
+    if (closed.length === 0) return closed;
+
+    const hostUserId = await this.redis.hget(RedisKeys.room(roomId), 'hostUserId');
+    await this.audit.log({
+      action: AuditAction.BREAKOUTS_CLOSED,
+      userId: closedByUserId ?? hostUserId ?? undefined,
+      roomId,
+      metadata: { count: closed.length, countdownExpired: !closedByUserId },
+    });
+
+    return closed;
+  }
+
+  async getBreakoutState(roomId: string): Promise<BreakoutState> {
+    const [breakouts, assignments, [open, endsAt]] = await Promise.all([
+      this.redis.hgetall(RedisKeys.roomBreakouts(roomId)),
+      this.redis.hgetall(RedisKeys.roomBreakoutAssignments(roomId)),
+      this.redis.hmget(RedisKeys.room(roomId), 'breakoutsOpen', 'breakoutEndsAt'),
+    ]);
+
+    const participants: BreakoutParticipant[] = [];
+    const locate = (inRoomId: string, list: RoomParticipant[]) => {
+      for (const p of list) {
+        participants.push({ userId: p.userId, displayName: p.displayName, role: p.role, roomId: inRoomId });
+      }
+      return list.map((p) => p.userId);
+    };
+
+    locate(roomId, await this.getParticipants(roomId));
+    const rooms: BreakoutRoomInfo[] = await Promise.all(
+      Object.entries(breakouts).map(async ([id, name]) => ({
+        id,
+        name,
+        participantIds: locate(id, await this.getParticipants(id)),
+      })),
+    );
+    rooms.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+    return {
+      roomId,
+      rooms,
+      participants,
+      assignments,
+      open: open === 'true',
+      endsAt: endsAt ? parseInt(endsAt, 10) : null,
+    };
+  }
+
+  /**
+   * Returns which room of the meeting (the main room or one of its breakouts)
+   * the user is currently in, or null.
+   */
+  async findInMeeting(roomId: string, userId: string): Promise<string | null> {
+    if (await this.getParticipant(roomId, userId)) return roomId;
+
+    const breakoutIds = Object.keys(await this.redis.hgetall(RedisKeys.roomBreakouts(roomId)));
+    for (const breakoutId of breakoutIds) {
+      if (await this.getParticipant(breakoutId, userId)) return breakoutId;
+    }
+    return null;
+  }
+
+  /**
+   * Checks that a user may move to `toRoomId`. The main room is always open
+   * to them; hosts and co-hosts may visit any breakout, everyone else only
+   * the one they're assigned to while breakouts are open.
+   */
+  async assertCanEnterBreakout(params: {
+    roomId: string;
+    userId: string;
+    toRoomId: string;
+  }): Promise<void> {
+    if (params.toRoomId === params.roomId) return;
+
+    await this.assertBreakoutOf(params.roomId, params.toRoomId);
+
+    if (await this.isBreakoutManager(params.roomId, params.userId)) return;
+
+    const [open, assigned] = await Promise.all([
+      this.redis.hget(RedisKeys.room(params.roomId), 'breakoutsOpen'),
+      this.redis.hget(RedisKeys.roomBreakoutAssignments(params.roomId), params.userId),
+    ]);
+    if (open !== 'true' || assigned !== params.toRoomId) {
+      throw new WsRoomException('You are not assigned to this breakout room');
+    }
+  }
+
+  /** The meeting a room belongs to: its parent for a breakout room, else itself */
+  async getMeetingId(roomId: string): Promise<string> {
+    const parentRoomId = await this.redis.hget(RedisKeys.room(roomId), 'parentRoomId');
+    return parentRoomId || roomId;
+  }
+
+  /** Host or co-host of the meeting, wherever in its breakouts they are */
+  async isBreakoutManager(roomId: string, userId: string): Promise<boolean> {
+    const hostUserId = await this.redis.hget(RedisKeys.room(roomId), 'hostUserId');
+    if (hostUserId === userId) return true;
+
+    const location = await this.findInMeeting(roomId, userId);
+    if (!location) return false;
+
+    const participant = await this.getParticipant(location, userId);
+    return participant?.role === RoomRole.CO_HOST;
+  }
+
+  async assertBreakoutManager(roomId: string, userId: string): Promise<void> {
+    if (!(await this.isBreakoutManager(roomId, userId))) {
+      throw new WsRoomException('Only hosts or co-hosts can manage breakout rooms');
+    }
+  }
+
+  /**
+   * Moves a participant between a meeting and its breakout rooms without
+   * leaving the meeting, so attendance keeps running. Their media starts
+   * over in the new room.
+   */
+  async moveParticipant(params: {
+    fromRoomId: string;
+    toRoomId: string;
+    userId: string;
+  }): Promise<{
+    participant: RoomParticipant;
+    fromParticipants: RoomParticipant[];
+    toParticipants: RoomParticipant[];
+  } | null> {
+    const current = await this.getParticipant(params.fromRoomId, params.userId);
+    if (!current) return null;
+
+    const participant: RoomParticipant = {
+      ...current,
+      producerIds: [],
+      handRaised: false,
+      onStage: false,
+    };
+
+    const pipeline = this.redis.pipeline();
+    pipeline.hdel(RedisKeys.roomParticipants(params.fromRoomId), params.userId);
+    pipeline.hset(RedisKeys.roomParticipants(params.toRoomId), params.userId, JSON.stringify(participant));
+    pipeline.expire(RedisKeys.roomParticipants(params.toRoomId), RedisKeys.ROOM_TTL);
+    await pipeline.exec();
+
+    const [fromParticipants, toParticipants] = await Promise.all([
+      this.getParticipants(params.fromRoomId),
+      this.getParticipants(params.toRoomId),
+    ]);
+
+    return { participant, fromParticipants, toParticipants };
+  }
+
+  // ─── Scheduler ──────────────────────────────────────────────────
+
+  /** Scheduled meetings starting by `openBefore` whose end hasn't passed */
+  async findMeetingsToOpen(openBefore: Date): Promise<MeetingEntity[]> {
+    return this.meetingRepo.find({
+      where: {
+        status: RoomStatus.SCHEDULED,
+        scheduledStart: LessThanOrEqual(openBefore),
+        scheduledEnd: MoreThan(new Date()),
+      },
+      order: { scheduledStart: 'ASC' },
+    });
+  }
+
+  /** Scheduled meetings whose room is open */
+  async findOpenScheduledMeetings(): Promise<MeetingEntity[]> {
+    return this.meetingRepo.find({
+      where: {
+        status: In([RoomStatus.WAITING, RoomStatus.ACTIVE]),
+        scheduledEnd: Not(IsNull()),
+      },
+    });
+  }
+
+  /**
+   * Records that the room was warned of its scheduled end. Returns false if
+   * it already was, so each room is warned once.
+   */
+  async markEndWarningSent(roomId: string): Promise<boolean> {
+    return this.redis.setnx(RedisKeys.roomEndWarned(roomId), String(Date.now()), RedisKeys.ROOM_TTL);
+  }
+
+  /** Whether the meeting's host has joined it at any point */
+  async hasHostJoined(meeting: MeetingEntity): Promise<boolean> {
+    return this.roomParticipantRepo.exists({
+      where: { roomId: meeting.id, userId: meeting.hostId, role: ParticipantRole.HOST },
+    });
+  }
+
+  /** Flags the host as a no-show. Returns false if they already were. */
+  async markHostNoShow(meeting: MeetingEntity): Promise<boolean> {
+    const result = await this.meetingRepo.update(
+      { id: meeting.id, hostNoShow: false },
+      { hostNoShow: true },
+    );
+    if (!result.affected) return false;
+
+    await this.audit.log({
+      action: AuditAction.HOST_NO_SHOW,
+      userId: meeting.hostId,
+      roomId: meeting.id,
+      metadata: { scheduledStart: meeting.scheduledStart?.toISOString() },
+    });
+
+    this.logger.warn(`Host ${meeting.hostId} did not join scheduled meeting ${meeting.id}`);
+    return true;
+  }
+
   // ─── Private Helpers ────────────────────────────────────────────
 
+  /**
+   * Rejects a room:join from someone who never passed the waiting room.
+   * Rooms created before the setting existed don't check.
+   */
+  private async assertAdmitted(roomId: string, userId: string, roomData: Record<string, string>): Promise<void> {
+    if (roomData['requireApproval'] !== 'true') return;
+
+    if (!(await this.redis.sismember(RedisKeys.roomAdmitted(roomId), userId))) {
+      throw new WsRoomException('Waiting for the host to admit you');
+    }
+  }
+
+  private admissionColumns(policy: AdmissionPolicy): Required<AdmissionPolicy> {
+    return {
+      requireApproval: policy.requireApproval ?? true,
+      subjectId: policy.subjectId || null,
+      autoAdmitCoTeachers: policy.autoAdmitCoTeachers ?? false,
+      autoAdmitEmailDomain: policy.autoAdmitEmailDomain?.replace(/^@/, '').toLowerCase() || null,
+    };
+  }
+
+  /** The meeting's admission policy as room state fields for RoomPolicyService */
+  private admissionState(meeting: MeetingEntity): Record<string, string> {
+    return {
+      requireApproval: String(meeting.requireApproval),
+      subjectId: meeting.subjectId ?? '',
+      autoAdmitCoTeachers: String(meeting.autoAdmitCoTeachers),
+      autoAdmitEmailDomain: meeting.autoAdmitEmailDomain ?? '',
+    };
+  }
+
   private async getParticipantsMap(roomId: string): Promise<Record<string, RoomParticipant>> {
     const raw = await this.redis.hgetall(RedisKeys.roomParticipants(roomId));
     const result: Record<string, RoomParticipant> = {};
@@ -755,6 +1830,11 @@ export class RoomsService {
     }
   }
 
+  private async assertCanManageBans(meetingId: string, requester: { id: string; role: UserRole }): Promise<void> {
+    if (requester.role === UserRole.ADMIN) return;
+    await this.assertHostOrCoHost(meetingId, requester.id);
+  }
+
   private async assertHostOrCoHost(roomId: string, userId: string): Promise<void> {
     const roomData = await this.redis.hgetall(RedisKeys.room(roomId));
     if (roomData['hostUserId'] === userId) return;
@@ -773,6 +1853,40 @@ export class RoomsService {
     }
   }
 
+  private async assertBreakoutOf(roomId: string, breakoutRoomId: string): Promise<void> {
+    const name = await this.redis.hget(RedisKeys.roomBreakouts(roomId), breakoutRoomId);
+    if (name === null) {
+      throw new WsRoomException('Breakout room not found');
+    }
+  }
+
+  /** Users still in the meeting, counting those in its breakout rooms */
+  private async countMeetingParticipants(roomId: string): Promise<number> {
+    let count = await this.redis.hlen(RedisKeys.roomParticipants(roomId));
+    const breakoutIds = Object.keys(await this.redis.hgetall(RedisKeys.roomBreakouts(roomId)));
+    for (const breakoutId of breakoutIds) {
+      count += await this.redis.hlen(RedisKeys.roomParticipants(breakoutId));
+    }
+    return count;
+  }
+
+  private async deleteBreakoutRooms(roomId: string): Promise<string[]> {
+    const breakoutIds = Object.keys(await this.redis.hgetall(RedisKeys.roomBreakouts(roomId)));
+
+    const pipeline = this.redis.pipeline();
+    for (const breakoutId of breakoutIds) {
+      pipeline.del(RedisKeys.room(breakoutId));
+      pipeline.del(RedisKeys.roomParticipants(breakoutId));
+      pipeline.srem(RedisKeys.activeRooms, breakoutId);
+    }
+    pipeline.del(RedisKeys.roomBreakouts(roomId));
+    pipeline.del(RedisKeys.roomBreakoutAssignments(roomId));
+    pipeline.hdel(RedisKeys.room(roomId), 'breakoutsOpen', 'breakoutEndsAt');
+    await pipeline.exec();
+
+    return breakoutIds;
+  }
+
   async getMeetingHistory(filters: {
     startDate?: Date;
     endDate?: Date;
@@ -838,9 +1952,11 @@ export class RoomsService {
     scheduledStart: Date;
     scheduledEnd: Date;
     maxParticipants?: number;
+    roomType?: RoomType;
     allowScreenShare?: boolean;
     allowWhiteboard?: boolean;
-  }): Promise<MeetingEntity> {
+    passcode?: string;
+  } & AdmissionPolicy): Promise<MeetingEntity> {
     const roomCode = this.generateRoomCode();
     const max = Math.min(params.maxParticipants ?? this.maxParticipants, 500);
 
@@ -852,11 +1968,16 @@ export class RoomsService {
       maxParticipants: max,
       scheduledStart: params.scheduledStart,
       scheduledEnd: params.scheduledEnd,
+      roomType: params.roomType ?? RoomType.MEETING,
       allowScreenShare: params.allowScreenShare ?? true,
       allowWhiteboard: params.allowWhiteboard ?? true,
+      passcodeHash: params.passcode ? await bcrypt.hash(params.passcode, BCRYPT_ROUNDS) : null,
+      ...this.admissionColumns(params),
     });
 
-    return this.meetingRepo.save(meeting);
+    const saved = await this.meetingRepo.save(meeting);
+    // Reload so the passcode hash isn't sent back
+    return this.meetingRepo.findOneOrFail({ where: { id: saved.id } });
   }
 
   /**
@@ -885,8 +2006,10 @@ export class RoomsService {
       createdAt: String(Date.now()),
       maxParticipants: String(meeting.maxParticipants),
       routerId: '',
+      roomType: meeting.roomType,
       allowScreenShare: String(meeting.allowScreenShare),
       allowWhiteboard: String(meeting.allowWhiteboard),
+      ...this.admissionState(meeting),
     };
 
     const pipeline = this.redis.pipeline();
@@ -913,6 +2036,338 @@ export class RoomsService {
     return { roomId: meeting.id, roomCode: meeting.roomCode };
   }
 
+  /**
+   * Sets the RTMP endpoint the meeting is live streamed to. Only the host
+   * or an admin may change it.
+   */
+  async updateStreamSettings(
+    meetingId: string,
+    user: { id: string; role: UserRole },
+    rtmpUrl: string | null,
+  ): Promise<{ id: string; rtmpUrl: string | null }> {
+    const meeting = await this.meetingRepo.findOne({ where: { id: meetingId } });
+    if (!meeting) {
+      throw new WsRoomException('Meeting not found');
+    }
+
+    if (meeting.hostId !== user.id && user.role !== UserRole.ADMIN) {
+      throw new WsRoomException('Only the host can change stream settings');
+    }
+
+    await this.meetingRepo.update(meeting.id, { rtmpUrl });
+
+    return { id: meeting.id, rtmpUrl };
+  }
+
+  /**
+   * Moves or renames one scheduled meeting. On a recurring meeting this
+   * makes the occurrence an exception that later series edits skip.
+   */
+  async updateScheduledMeeting(
+    meetingId: string,
+    user: { id: string; role: UserRole },
+    changes: { title?: string; scheduledStart?: Date; scheduledEnd?: Date },
+  ): Promise<MeetingEntity> {
+    const meeting = await this.findScheduledMeeting(meetingId, user);
+
+    const scheduledStart = changes.scheduledStart ?? meeting.scheduledStart;
+    const scheduledEnd = changes.scheduledEnd ?? meeting.scheduledEnd;
+    if (scheduledStart && scheduledEnd && scheduledEnd <= scheduledStart) {
+      throw new WsRoomException('A meeting must end after it starts');
+    }
+
+    await this.meetingRepo.update(meeting.id, {
+      title: changes.title ?? meeting.title,
+      scheduledStart,
+      scheduledEnd,
+      isException: meeting.seriesId !== null,
+    });
+    return this.meetingRepo.findOneOrFail({ where: { id: meeting.id } });
+  }
+
+  /**
+   * Cancels one scheduled meeting. On a recurring meeting only this
+   * occurrence is cancelled; series edits won't bring it back.
+   */
+  async cancelScheduledMeeting(meetingId: string, user: { id: string; role: UserRole }): Promise<MeetingEntity> {
+    const meeting = await this.findScheduledMeeting(meetingId, user);
+
+    await this.meetingRepo.update(meeting.id, {
+      status: RoomStatus.CANCELLED,
+      isException: meeting.seriesId !== null,
+    });
+    return this.meetingRepo.findOneOrFail({ where: { id: meeting.id } });
+  }
+
+  // ─── Recurring Meetings ─────────────────────────────────────────
+
+  /**
+   * Schedules a recurring meeting. `scheduledStart`/`scheduledEnd` are the
+   * first occurrence; `rrule` says how it repeats. Every occurrence is
+   * created up front as its own scheduled meeting with its own room code.
+   */
+  async scheduleSeries(params: {
+    hostUserId: string;
+    title: string;
+    scheduledStart: Date;
+    scheduledEnd: Date;
+    rrule: string;
+    timezone?: string;
+    maxParticipants?: number;
+    roomType?: RoomType;
+    allowScreenShare?: boolean;
+    allowWhiteboard?: boolean;
+    passcode?: string;
+  } & AdmissionPolicy): Promise<MeetingSeriesDetails> {
+    const series = this.seriesRepo.create({
+      title: params.title,
+      hostId: params.hostUserId,
+      rrule: params.rrule,
+      dtstart: params.scheduledStart,
+      durationMinutes: this.seriesDuration(params.scheduledStart, params.scheduledEnd),
+      timezone: params.timezone ?? 'UTC',
+      maxParticipants: Math.min(params.maxParticipants ?? this.maxParticipants, 500),
+      roomType: params.roomType ?? RoomType.MEETING,
+      allowScreenShare: params.allowScreenShare ?? true,
+      allowWhiteboard: params.allowWhiteboard ?? true,
+      passcodeHash: params.passcode ? await bcrypt.hash(params.passcode, BCRYPT_ROUNDS) : null,
+      ...this.admissionColumns(params),
+    });
+    series.rrule = this.seriesRule(series).rrule;
+
+    const saved = await this.seriesRepo.save(series);
+    await this.syncOccurrences(saved);
+
+    this.logger.log(`Meeting series scheduled: ${saved.id} (${saved.rrule}) by user ${params.hostUserId}`);
+    return this.seriesDetails(saved);
+  }
+
+  async getSeries(seriesId: string, user: { id: string; role: UserRole }): Promise<MeetingSeriesDetails> {
+    return this.seriesDetails(await this.findSeries(seriesId, user));
+  }
+
+  /**
+   * Edits a series from now on. Upcoming occurrences follow the new rule
+   * and settings, rescheduled in place where possible so their room codes
+   * stay valid; surplus ones are deleted and missing ones created. Past,
+   * started and individually edited occurrences are left alone.
+   */
+  async updateSeries(
+    seriesId: string,
+    user: { id: string; role: UserRole },
+    changes: {
+      title?: string;
+      scheduledStart?: Date;
+      scheduledEnd?: Date;
+      rrule?: string;
+      timezone?: string;
+      maxParticipants?: number;
+      roomType?: RoomType;
+      allowScreenShare?: boolean;
+      allowWhiteboard?: boolean;
+      /** null removes the passcode */
+      passcode?: string | null;
+    } & AdmissionPolicy,
+  ): Promise<MeetingSeriesDetails> {
+    const series = await this.findSeries(seriesId, user);
+    if (series.cancelledAt) {
+      throw new WsRoomException('This series has been cancelled');
+    }
+
+    const scheduledStart = changes.scheduledStart ?? series.dtstart;
+    const scheduledEnd = changes.scheduledEnd
+      ?? new Date(scheduledStart.getTime() + series.durationMinutes * 60_000);
+
+    Object.assign(series, {
+      title: changes.title ?? series.title,
+      rrule: changes.rrule ?? series.rrule,
+      dtstart: scheduledStart,
+      durationMinutes: this.seriesDuration(scheduledStart, scheduledEnd),
+      timezone: changes.timezone ?? series.timezone,
+      maxParticipants: changes.maxParticipants !== undefined
+        ? Math.min(changes.maxParticipants, 500)
+        : series.maxParticipants,
+      roomType: changes.roomType ?? series.roomType,
+      allowScreenShare: changes.allowScreenShare ?? series.allowScreenShare,
+      allowWhiteboard: changes.allowWhiteboard ?? series.allowWhiteboard,
+      ...this.admissionColumns({
+        requireApproval: changes.requireApproval ?? series.requireApproval,
+        subjectId: changes.subjectId !== undefined ? changes.subjectId : series.subjectId,
+        autoAdmitCoTeachers: changes.autoAdmitCoTeachers ?? series.autoAdmitCoTeachers,
+        autoAdmitEmailDomain: changes.autoAdmitEmailDomain !== undefined
+          ? changes.autoAdmitEmailDomain
+          : series.autoAdmitEmailDomain,
+      }),
+    });
+    if (changes.passcode !== undefined) {
+      series.passcodeHash = changes.passcode ? await bcrypt.hash(changes.passcode, BCRYPT_ROUNDS) : null;
+    }
+    series.rrule = this.seriesRule(series).rrule;
+
+    const saved = await this.seriesRepo.save(series);
+    await this.syncOccurrences(saved);
+
+    return this.seriesDetails(saved);
+  }
+
+  /**
+   * Cancels every upcoming occurrence of a series. Occurrences that already
+   * ran or are running are kept.
+   */
+  async cancelSeries(
+    seriesId: string,
+    user: { id: string; role: UserRole },
+  ): Promise<{ id: string; cancelledCount: number }> {
+    const series = await this.findSeries(seriesId, user);
+
+    const result = await this.meetingRepo.update(
+      { seriesId, status: RoomStatus.SCHEDULED },
+      { status: RoomStatus.CANCELLED },
+    );
+    await this.seriesRepo.update(series.id, { cancelledAt: new Date() });
+
+    this.logger.log(`Meeting series cancelled: ${series.id}`);
+    return { id: series.id, cancelledCount: result.affected ?? 0 };
+  }
+
+  private async seriesDetails(series: MeetingSeriesEntity): Promise<MeetingSeriesDetails> {
+    const [fresh, occurrences] = await Promise.all([
+      // Reload so the passcode hash isn't sent back
+      this.seriesRepo.findOneOrFail({ where: { id: series.id } }),
+      this.meetingRepo.find({ where: { seriesId: series.id }, order: { occurrenceStart: 'ASC' } }),
+    ]);
+    return { series: fresh, occurrences };
+  }
+
+  private async findSeries(seriesId: string, user: { id: string; role: UserRole }): Promise<MeetingSeriesEntity> {
+    const series = await this.seriesRepo.findOne({ where: { id: seriesId } });
+    if (!series) {
+      throw new WsRoomException('Meeting series not found');
+    }
+    if (series.hostId !== user.id && user.role !== UserRole.ADMIN) {
+      throw new WsRoomException('Only the host can change this series');
+    }
+    return series;
+  }
+
+  private async findScheduledMeeting(meetingId: string, user: { id: string; role: UserRole }): Promise<MeetingEntity> {
+    const meeting = await this.meetingRepo.findOne({ where: { id: meetingId } });
+    if (!meeting) {
+      throw new WsRoomException('Meeting not found');
+    }
+    if (meeting.hostId !== user.id && user.role !== UserRole.ADMIN) {
+      throw new WsRoomException('Only the host can change this meeting');
+    }
+    if (meeting.status !== RoomStatus.SCHEDULED) {
+      throw new WsRoomException(`Meeting cannot be changed — current status is "${meeting.status}"`);
+    }
+    return meeting;
+  }
+
+  private seriesDuration(scheduledStart: Date, scheduledEnd: Date): number {
+    const minutes = Math.round((scheduledEnd.getTime() - scheduledStart.getTime()) / 60_000);
+    if (minutes <= 0) {
+      throw new WsRoomException('A meeting must end after it starts');
+    }
+    return minutes;
+  }
+
+  /**
+   * Validates the series' rule and time zone and expands its occurrence
+   * start times. Returns the rule in canonical form.
+   */
+  private seriesRule(series: MeetingSeriesEntity): { rrule: string; starts: Date[] } {
+    if (!isValidTimeZone(series.timezone)) {
+      throw new WsRoomException(`Unknown time zone "${series.timezone}"`);
+    }
+
+    let rule;
+    try {
+      rule = parseRRule(series.rrule);
+    } catch (error) {
+      throw new WsRoomException((error as Error).message);
+    }
+
+    const starts = expandRRule(rule, series.dtstart, series.timezone, MAX_SERIES_OCCURRENCES + 1);
+    if (starts.length > MAX_SERIES_OCCURRENCES) {
+      throw new WsRoomException(`A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`);
+    }
+    return { rrule: formatRRule(rule), starts };
+  }
+
+  /**
+   * Brings the series' upcoming, unedited occurrences in line with its rule
+   * and settings.
+   */
+  private async syncOccurrences(series: MeetingSeriesEntity): Promise<void> {
+    const now = new Date();
+    const slots = this.seriesRule(series).starts.filter((start) => start > now);
+    const { passcodeHash } = await this.seriesRepo.findOneOrFail({
+      where: { id: series.id },
+      select: { id: true, passcodeHash: true },
+    });
+
+    const existing = await this.meetingRepo.find({
+      where: { seriesId: series.id, occurrenceStart: MoreThan(now) },
+    });
+    const taken = new Set(existing.map((meeting) => meeting.occurrenceStart!.getTime()));
+    const wanted = new Set(slots.map((start) => start.getTime()));
+
+    const occurrence = (start: Date) => ({
+      title: series.title,
+      hostId: series.hostId,
+      maxParticipants: series.maxParticipants,
+      roomType: series.roomType,
+      allowScreenShare: series.allowScreenShare,
+      allowWhiteboard: series.allowWhiteboard,
+      passcodeHash,
+      requireApproval: series.requireApproval,
+      subjectId: series.subjectId,
+      autoAdmitCoTeachers: series.autoAdmitCoTeachers,
+      autoAdmitEmailDomain: series.autoAdmitEmailDomain,
+      scheduledStart: start,
+      scheduledEnd: new Date(start.getTime() + series.durationMinutes * 60_000),
+    });
+
+    const editable = existing
+      .filter((meeting) => meeting.status === RoomStatus.SCHEDULED && !meeting.isException)
+      .sort((a, b) => a.occurrenceStart!.getTime() - b.occurrenceStart!.getTime());
+    const open = slots.filter((start) => !taken.has(start.getTime()));
+
+    // Occurrences whose slot survived keep it; the rest move to the new
+    // slots in order, so shared room codes stay valid where possible
+    const moved: MeetingEntity[] = [];
+    for (const meeting of editable) {
+      if (wanted.has(meeting.occurrenceStart!.getTime())) {
+        await this.meetingRepo.update(meeting.id, occurrence(meeting.occurrenceStart!));
+      } else {
+        moved.push(meeting);
+      }
+    }
+
+    for (const [i, meeting] of moved.entries()) {
+      if (i < open.length) {
+        await this.meetingRepo.update(meeting.id, { ...occurrence(open[i]), occurrenceStart: open[i] });
+      }
+    }
+
+    const dropped = moved.slice(open.length);
+    if (dropped.length > 0) {
+      await this.meetingRepo.delete({ id: In(dropped.map((meeting) => meeting.id)) });
+    }
+
+    const added = open.slice(moved.length).map((start) => this.meetingRepo.create({
+      ...occurrence(start),
+      roomCode: this.generateRoomCode(),
+      status: RoomStatus.SCHEDULED,
+      seriesId: series.id,
+      occurrenceStart: start,
+    }));
+    if (added.length > 0) {
+      await this.meetingRepo.save(added);
+    }
+  }
+
   private generateRoomCode(): string {
     const min = 100000000;
     const max = 999999999;
@@ -0,0 +1,163 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../redis/redis.service';
+import { RedisKeys } from '../redis/redis-keys';
+import { RoomsService } from '../rooms/rooms.service';
+import { ClusterService } from '../cluster/cluster.service';
+import { ConferenceGateway } from '../gateway/conference.gateway';
+import type { MeetingEntity } from '../database/entities';
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Runs scheduled meetings without anyone pressing start or end.
+ *
+ * Each tick opens meetings shortly before their scheduled start, warns rooms
+ * nearing their scheduled end, closes them once a grace period has passed
+ * and flags hosts who never turned up. It also releases seats held for
+ * dropped participants whose node went away before their grace period ran
+ * out. One node at a time does the bookkeeping; closing is left to the node
+ * that owns the room's media.
+ */
+@Injectable()
+export class MeetingSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MeetingSchedulerService.name);
+
+  private readonly enabled: boolean;
+  private readonly tickIntervalMs: number;
+  private readonly openLeadMs: number;
+  private readonly endWarningMs: number;
+  private readonly closeGraceMs: number;
+  private readonly noShowMs: number;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly rooms: RoomsService,
+    private readonly cluster: ClusterService,
+    private readonly gateway: ConferenceGateway,
+    private readonly config: ConfigService,
+  ) {
+    this.enabled = this.config.get<boolean>('scheduler.enabled', true);
+    this.tickIntervalMs = this.config.get<number>('scheduler.tickIntervalMs', 30000);
+    this.openLeadMs = this.config.get<number>('scheduler.openLeadMinutes', 10) * MINUTE_MS;
+    this.endWarningMs = this.config.get<number>('scheduler.endWarningMinutes', 5) * MINUTE_MS;
+    this.closeGraceMs = this.config.get<number>('scheduler.closeGraceMinutes', 10) * MINUTE_MS;
+    this.noShowMs = this.config.get<number>('scheduler.noShowMinutes', 15) * MINUTE_MS;
+  }
+
+  onModuleInit(): void {
+    if (!this.enabled) {
+      this.logger.log('Meeting scheduler disabled');
+      return;
+    }
+
+    this.tickTimer = setInterval(() => {
+      this.tick().catch((error) =>
+        this.logger.warn(`Scheduler tick failed: ${(error as Error).message}`),
+      );
+    }, this.tickIntervalMs);
+  }
+
+  onModuleDestroy(): void {
+    if (this.tickTimer) clearInterval(this.tickTimer);
+  }
+
+  private async tick(): Promise<void> {
+    // A slow tick must not overlap the next one
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = Date.now();
+      const lockTtl = Math.max(1, Math.floor(this.tickIntervalMs / 2000));
+      const holdsLock = await this.redis.setnx(RedisKeys.schedulerLock, this.cluster.nodeId, lockTtl);
+
+      if (holdsLock) {
+        await this.openDueMeetings(now);
+      }
+
+      for (const meeting of await this.rooms.findOpenScheduledMeetings()) {
+        await this.superviseMeeting(meeting, now, holdsLock).catch((error) =>
+          this.logger.warn(`Scheduler failed for meeting ${meeting.id}: ${(error as Error).message}`),
+        );
+      }
+
+      await this.releaseExpiredSeats(now);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async openDueMeetings(now: number): Promise<void> {
+    const due = await this.rooms.findMeetingsToOpen(new Date(now + this.openLeadMs));
+
+    for (const meeting of due) {
+      try {
+        await this.rooms.startScheduledMeeting(meeting.id, meeting.hostId);
+        this.logger.log(`Opened scheduled meeting ${meeting.id}`);
+      } catch (error) {
+        this.logger.warn(`Could not open scheduled meeting ${meeting.id}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Releases held seats whose grace timer went down with the node that set
+   * it. The node owning the meeting's media does the leave, taking the room
+   * over first if its owner is gone.
+   */
+  private async releaseExpiredSeats(now: number): Promise<void> {
+    for (const { meetingId, userId } of await this.rooms.findExpiredSeatHolds(now)) {
+      try {
+        // Resumed, or the meeting is gone; don't claim a room nobody is in
+        if (!(await this.rooms.findReconnecting(meetingId, userId))) {
+          await this.rooms.cancelSeatRelease(meetingId, userId);
+          continue;
+        }
+
+        const owner = await this.cluster.claimRoom(meetingId);
+        if (!this.cluster.isLocal(owner)) continue;
+
+        await this.gateway.expireHeldSeat(meetingId, userId);
+      } catch (error) {
+        this.logger.warn(`Could not release seat of ${userId} in ${meetingId}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Warnings and no-shows are handled by whichever node holds the lock;
+   * the close happens on the node owning the room, which has its media.
+   */
+  private async superviseMeeting(meeting: MeetingEntity, now: number, holdsLock: boolean): Promise<void> {
+    const endsAt = meeting.scheduledEnd!.getTime();
+    const closesAt = endsAt + this.closeGraceMs;
+
+    if (now >= closesAt) {
+      const owner = await this.cluster.claimRoom(meeting.id);
+      if (!this.cluster.isLocal(owner)) return;
+
+      await this.gateway.closeMeeting(meeting.id);
+      this.logger.log(`Closed meeting ${meeting.id} after its scheduled end`);
+      return;
+    }
+
+    if (!holdsLock) return;
+
+    if (now >= endsAt - this.endWarningMs && (await this.rooms.markEndWarningSent(meeting.id))) {
+      await this.gateway.warnMeetingEnding(meeting.id, new Date(endsAt), new Date(closesAt));
+    }
+
+    const startsAt = meeting.scheduledStart?.getTime();
+    if (
+      !meeting.hostNoShow &&
+      startsAt !== undefined &&
+      now >= startsAt + this.noShowMs &&
+      !(await this.rooms.hasHostJoined(meeting))
+    ) {
+      await this.rooms.markHostNoShow(meeting);
+    }
+  }
+}
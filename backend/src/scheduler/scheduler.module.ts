@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { MeetingSchedulerService } from './meeting-scheduler.service';
+import { RoomsModule } from '../rooms/rooms.module';
+import { ClusterModule } from '../cluster/cluster.module';
+import { GatewayModule } from '../gateway/gateway.module';
+
+@Module({
+  imports: [RoomsModule, ClusterModule, GatewayModule],
+  providers: [MeetingSchedulerService],
+})
+export class SchedulerModule { }
@@ -1,14 +1,27 @@
 export enum AuditAction {
   ROOM_CREATED = 'room_created',
   ROOM_CLOSED = 'room_closed',
+  HOST_NO_SHOW = 'host_no_show',
+  ROOM_LOCK_TOGGLED = 'room_lock_toggled',
+  MEETING_SETTINGS_UPDATED = 'meeting_settings_updated',
   USER_JOINED = 'user_joined',
   USER_LEFT = 'user_left',
+  USER_RECONNECTED = 'user_reconnected',
   USER_KICKED = 'user_kicked',
+  USER_BANNED = 'user_banned',
+  USER_UNBANNED = 'user_unbanned',
   USER_MUTED = 'user_muted',
   ALL_MUTED = 'all_muted',
+  UNMUTE_REQUESTED = 'unmute_requested',
   ROLE_CHANGED = 'role_changed',
   PRODUCER_CREATED = 'producer_created',
   PRODUCER_CLOSED = 'producer_closed',
   CONSUMER_CREATED = 'consumer_created',
   HAND_RAISE_TOGGLED = 'hand_raise_toggled',
+  RECORDING_STARTED = 'recording_started',
+  RECORDING_STOPPED = 'recording_stopped',
+  STREAM_STARTED = 'stream_started',
+  STREAM_STOPPED = 'stream_stopped',
+  BREAKOUTS_CREATED = 'breakouts_created',
+  BREAKOUTS_CLOSED = 'breakouts_closed',
 }
@@ -1,5 +1,6 @@
 export { RoomRole } from './room-role.enum';
 export { RoomStatus } from './room-status.enum';
+export { RoomType } from './room-type.enum';
 export { AuditAction } from './audit-action.enum';
 export { UserRole } from './user-role.enum';
 export { TransactionType } from './transaction-type.enum';
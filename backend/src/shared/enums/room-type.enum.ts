@@ -0,0 +1,4 @@
+export enum RoomType {
+  MEETING = 'meeting',
+  WEBINAR = 'webinar',
+}
@@ -1 +1 @@
-export { WsAuthException, WsRoomException, WsMediaException, WsRateLimitException } from './ws-exceptions';
+export { WsAuthException, WsRoomException, WsPasscodeException, WsMediaException, WsRateLimitException, WsValidationException } from './ws-exceptions';
@@ -12,6 +12,9 @@ export class WsRoomException extends WsException {
   }
 }
 
+/** A meeting passcode is missing or wrong; the client should ask for one */
+export class WsPasscodeException extends WsRoomException {}
+
 export class WsMediaException extends WsException {
   constructor(message: string) {
     super({ status: 'error', message });
@@ -23,3 +26,10 @@ export class WsRateLimitException extends WsException {
     super({ status: 'error', message: 'Rate limit exceeded' });
   }
 }
+
+/** A message body doesn't match its event's contract schema */
+export class WsValidationException extends WsException {
+  constructor(message: string) {
+    super({ status: 'error', message });
+  }
+}
@@ -1,4 +1,4 @@
-import type { RoomRole, UserRole } from '../enums';
+import type { RoomRole, RoomType, UserRole } from '../enums';
 
 export interface JwtPayload {
   sub: string;
@@ -30,20 +30,86 @@ export interface RoomParticipant {
   isMuted: boolean;
   isVideoOff: boolean;
   handRaised?: boolean;
+  /** Webinar attendee currently invited to send media */
+  onStage?: boolean;
+  /** Connection dropped; the seat is held for the reconnect grace period */
+  reconnecting?: boolean;
+}
+
+export interface WaitingParticipant {
+  userId: string;
+  displayName: string;
+  socketId: string;
+  joinedAt: number;
+  /** Short note to the host sent from the waiting room */
+  knockMessage?: string;
+  knockedAt?: number;
+}
+
+/** A backend node as advertised in Redis for room affinity */
+export interface MediaNodeInfo {
+  nodeId: string;
+  /** Socket.IO URL clients should connect to for rooms owned by this node */
+  url: string;
 }
 
 export interface RedisRoomState {
   roomId: string;
+  roomCode?: string;
   hostUserId: string;
   status: string;
   createdAt: number;
   maxParticipants: number;
   routerId: string;
+  roomType?: RoomType;
   allowScreenShare?: boolean;
   allowWhiteboard?: boolean;
+  /** No new participants may join */
+  locked?: boolean;
+  /** Set on breakout rooms: the meeting they belong to */
+  parentRoomId?: string;
+  /** Breakout room name, e.g. "Room 2" */
+  name?: string;
   participants: Record<string, RoomParticipant>;
 }
 
+/** Someone banned from a meeting, as listed to its hosts */
+export interface RoomBan {
+  userId: string;
+  displayName: string;
+  bannedAt: number | null;
+  bannedBy: string | null;
+  reason: string | null;
+}
+
+export interface BreakoutRoomInfo {
+  id: string;
+  name: string;
+  /** Users currently inside the breakout */
+  participantIds: string[];
+}
+
+/** Someone in the meeting and which of its rooms they're in */
+export interface BreakoutParticipant {
+  userId: string;
+  displayName: string;
+  role: RoomRole;
+  roomId: string;
+}
+
+/** A meeting's breakout rooms, as shown to everyone in the meeting */
+export interface BreakoutState {
+  roomId: string;
+  rooms: BreakoutRoomInfo[];
+  /** Everyone in the main room or a breakout */
+  participants: BreakoutParticipant[];
+  /** userId → breakout room ID */
+  assignments: Record<string, string>;
+  open: boolean;
+  /** When the countdown recalls everyone, if one is running */
+  endsAt: number | null;
+}
+
 export interface TransportOptions {
   id: string;
   iceParameters: Record<string, unknown>;
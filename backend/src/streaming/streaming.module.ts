@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { StreamingService } from './streaming.service';
+import { RecordingModule } from '../recording/recording.module';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule, RecordingModule],
+  providers: [StreamingService],
+  exports: [StreamingService],
+})
+export class StreamingModule { }
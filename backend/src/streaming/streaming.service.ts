@@ -0,0 +1,325 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import * as os from 'os';
+import * as path from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../shared/enums';
+import { WsMediaException, WsRoomException } from '../shared/exceptions';
+import { CompositeProcess, CompositorService, OUTPUT_FPS } from '../recording/compositor.service';
+
+// Producer set changes are coalesced before the push is restarted
+const REFRESH_DEBOUNCE_MS = 1500;
+
+// ffmpeg exits when the RTMP server drops the connection; it is restarted
+// this many times in a row before the stream is given up on
+const MAX_RESTARTS = 3;
+const RESTART_DELAY_MS = 2000;
+
+// A push that stayed up this long resets the restart counter
+const STABLE_AFTER_MS = 30_000;
+
+export type StreamState = 'live' | 'reconnecting' | 'stopped' | 'failed';
+
+export interface StreamStatusPayload {
+  roomId: string;
+  state: StreamState;
+  startedAt: number | null;
+  error?: string;
+}
+
+interface ActiveStream {
+  roomId: string;
+  rtmpUrl: string;
+  startedBy: string;
+  startedAt: Date;
+  state: StreamState;
+  current: CompositeProcess | null;
+  currentStartedAt: number;
+  restarts: number;
+  pushCount: number;
+  refreshTimer: NodeJS.Timeout | null;
+  // Serialises restarts so stop() never races a refresh
+  queue: Promise<void>;
+}
+
+/**
+ * Pushes a room's composite to the meeting's RTMP endpoint.
+ *
+ * The compositor tiles the room exactly as a recording does, but ffmpeg
+ * encodes for live delivery and publishes FLV to `meetings.rtmpUrl`. The push
+ * is restarted whenever the producer set changes or ffmpeg drops out.
+ */
+@Injectable()
+export class StreamingService implements OnModuleDestroy {
+  private readonly logger = new Logger(StreamingService.name);
+
+  // roomId → ActiveStream
+  private readonly active = new Map<string, ActiveStream>();
+
+  private readonly statusListeners = new Set<(status: StreamStatusPayload) => void>();
+
+  constructor(
+    private readonly compositor: CompositorService,
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+  ) { }
+
+  async onModuleDestroy(): Promise<void> {
+    for (const roomId of Array.from(this.active.keys())) {
+      await this.stopForRoom(roomId);
+    }
+  }
+
+  // ─── Lifecycle ──────────────────────────────────────────────────
+
+  /**
+   * Starts pushing the room to its configured RTMP URL.
+   */
+  async start(roomId: string, userId: string): Promise<StreamStatusPayload> {
+    if (this.active.has(roomId)) {
+      throw new WsRoomException('Stream already in progress');
+    }
+
+    // The URL carries the stream key, so it is only ever loaded here
+    const meeting = await this.prisma.meetings.findUnique({
+      where: { id: roomId },
+      select: { rtmpUrl: true },
+    });
+    if (!meeting?.rtmpUrl) {
+      throw new WsRoomException('No RTMP URL configured for this meeting');
+    }
+
+    const state: ActiveStream = {
+      roomId,
+      rtmpUrl: meeting.rtmpUrl,
+      startedBy: userId,
+      startedAt: new Date(),
+      state: 'live',
+      current: null,
+      currentStartedAt: 0,
+      restarts: 0,
+      pushCount: 0,
+      refreshTimer: null,
+      queue: Promise.resolve(),
+    };
+    this.active.set(roomId, state);
+
+    try {
+      await this.startPush(state);
+    } catch (error) {
+      this.active.delete(roomId);
+      this.logger.error(`Stream for room ${roomId} failed to start: ${(error as Error).message}`);
+      throw new WsMediaException('Failed to start stream');
+    }
+
+    await this.audit.log({
+      action: AuditAction.STREAM_STARTED,
+      userId,
+      roomId,
+      metadata: { host: this.describeTarget(state.rtmpUrl) },
+    });
+
+    this.logger.log(`Stream started for room ${roomId}`);
+
+    return this.toStatus(state);
+  }
+
+  /**
+   * Stops the room's stream.
+   */
+  async stop(roomId: string, userId: string): Promise<StreamStatusPayload> {
+    const state = this.active.get(roomId);
+    if (!state) {
+      throw new WsRoomException('No stream in progress');
+    }
+
+    await this.finish(state, 'stopped');
+
+    await this.audit.log({
+      action: AuditAction.STREAM_STOPPED,
+      userId,
+      roomId,
+      metadata: { durationSeconds: Math.round((Date.now() - state.startedAt.getTime()) / 1000) },
+    });
+
+    return this.toStatus(state);
+  }
+
+  /**
+   * Stops any stream still running when a room is torn down.
+   */
+  async stopForRoom(roomId: string): Promise<void> {
+    const state = this.active.get(roomId);
+    if (!state) return;
+
+    try {
+      await this.finish(state, 'stopped');
+    } catch (error) {
+      this.logger.error(`Failed to stop stream for room ${roomId}: ${(error as Error).message}`);
+    }
+  }
+
+  getStatus(roomId: string): StreamStatusPayload | null {
+    const state = this.active.get(roomId);
+    return state ? this.toStatus(state) : null;
+  }
+
+  /**
+   * Signals that the room's producers changed. The push is restarted so the
+   * composite picks up new, closed, paused or resumed tracks.
+   */
+  refresh(roomId: string): void {
+    const state = this.active.get(roomId);
+    if (!state) return;
+
+    if (state.refreshTimer) clearTimeout(state.refreshTimer);
+    state.refreshTimer = setTimeout(() => {
+      state.refreshTimer = null;
+      this.enqueue(state, async () => {
+        if (this.active.get(roomId) !== state) return;
+        await this.stopPush(state);
+        await this.startPush(state);
+      });
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
+  /**
+   * Registers a listener for stream state changes, including ones that
+   * happen outside a host request (ffmpeg dropping out, giving up).
+   */
+  onStatusChange(listener: (status: StreamStatusPayload) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  // ─── Private: Push ──────────────────────────────────────────────
+
+  private async finish(state: ActiveStream, final: 'stopped' | 'failed', error?: string): Promise<void> {
+    this.active.delete(state.roomId);
+    if (state.refreshTimer) {
+      clearTimeout(state.refreshTimer);
+      state.refreshTimer = null;
+    }
+
+    await this.enqueue(state, () => this.stopPush(state));
+
+    this.setState(state, final, error);
+    this.logger.log(`Stream ${final} for room ${state.roomId}`);
+  }
+
+  private enqueue(state: ActiveStream, task: () => Promise<void>): Promise<void> {
+    const next = state.queue.then(task).catch((error: Error) => {
+      this.logger.error(`Stream for room ${state.roomId} error: ${error.message}`);
+    });
+    state.queue = next;
+    return next;
+  }
+
+  private async startPush(state: ActiveStream): Promise<void> {
+    const composite = await this.compositor.start({
+      roomId: state.roomId,
+      sdpPath: path.join(os.tmpdir(), `stream-${state.roomId}-${state.pushCount++}.sdp`),
+      logTag: `stream ${state.roomId}`,
+      outputArgs: [
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-tune', 'zerolatency',
+        '-pix_fmt', 'yuv420p',
+        '-r', String(OUTPUT_FPS),
+        '-g', String(OUTPUT_FPS * 2),
+        '-b:v', '2500k',
+        '-maxrate', '2500k',
+        '-bufsize', '5000k',
+        '-c:a', 'aac',
+        '-b:a', '128k',
+        '-ar', '48000',
+        '-ac', '2',
+        '-f', 'flv',
+        state.rtmpUrl,
+      ],
+    });
+
+    state.current = composite;
+    if (!composite) {
+      this.logger.debug(`Stream for room ${state.roomId}: no media to push yet`);
+      return;
+    }
+
+    state.currentStartedAt = Date.now();
+    void composite.exited.then(() => this.handleExit(state, composite));
+  }
+
+  private async stopPush(state: ActiveStream): Promise<void> {
+    const composite = state.current;
+    if (!composite) return;
+    state.current = null;
+
+    await this.compositor.stop(composite);
+  }
+
+  /**
+   * ffmpeg exited on its own — usually the RTMP server closed the
+   * connection. Retry a few times before failing the stream.
+   */
+  private handleExit(state: ActiveStream, composite: CompositeProcess): void {
+    // Stopped or restarted on purpose
+    if (state.current !== composite || this.active.get(state.roomId) !== state) return;
+
+    if (Date.now() - state.currentStartedAt >= STABLE_AFTER_MS) {
+      state.restarts = 0;
+    }
+
+    if (state.restarts >= MAX_RESTARTS) {
+      this.logger.error(`Stream for room ${state.roomId} kept failing; giving up`);
+      void this.finish(state, 'failed', 'The RTMP server rejected or dropped the stream');
+      return;
+    }
+
+    state.restarts++;
+    this.logger.warn(
+      `Stream for room ${state.roomId} dropped; restarting (${state.restarts}/${MAX_RESTARTS})`,
+    );
+    this.setState(state, 'reconnecting');
+
+    this.enqueue(state, async () => {
+      await this.stopPush(state);
+      await new Promise((resolve) => setTimeout(resolve, RESTART_DELAY_MS));
+      if (this.active.get(state.roomId) !== state) return;
+      try {
+        await this.startPush(state);
+      } catch (error) {
+        this.logger.error(`Stream for room ${state.roomId} restart failed: ${(error as Error).message}`);
+        // Not awaited: finish() queues behind this very task
+        void this.finish(state, 'failed', 'Could not restart the stream');
+        return;
+      }
+      this.setState(state, 'live');
+    });
+  }
+
+  private setState(state: ActiveStream, next: StreamState, error?: string): void {
+    state.state = next;
+    const status = this.toStatus(state, error);
+    for (const listener of this.statusListeners) {
+      listener(status);
+    }
+  }
+
+  private toStatus(state: ActiveStream, error?: string): StreamStatusPayload {
+    return {
+      roomId: state.roomId,
+      state: state.state,
+      startedAt: state.startedAt.getTime(),
+      ...(error ? { error } : {}),
+    };
+  }
+
+  /** Host part of the RTMP URL, so stream keys never reach the audit log */
+  private describeTarget(rtmpUrl: string): string {
+    try {
+      return new URL(rtmpUrl).host;
+    } catch {
+      return 'unknown';
+    }
+  }
+}
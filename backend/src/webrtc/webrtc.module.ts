@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { WebrtcService } from './webrtc.service';
 import { RoomsModule } from '../rooms/rooms.module';
+import { ClusterModule } from '../cluster/cluster.module';
 
 @Module({
-  imports: [RoomsModule],
+  imports: [RoomsModule, ClusterModule],
   providers: [WebrtcService],
   exports: [WebrtcService],
 })
@@ -1,16 +1,27 @@
 import { Injectable, Logger } from '@nestjs/common';
-import type { DtlsParameters, MediaKind, RtpCapabilities, RtpParameters } from 'mediasoup/node/lib/types';
-import { MediaService } from '../media/media.service';
+import type {
+  DtlsParameters,
+  MediaKind,
+  RtpCapabilities,
+  RtpParameters,
+  SctpCapabilities,
+  SctpStreamParameters,
+} from 'mediasoup/node/lib/types';
+import { MediaService, ActiveSpeakerUpdate, RoomMediaRebuilt, UserMediaStats } from '../media/media.service';
 import { RoomsService } from '../rooms/rooms.service';
 import { AuditService } from '../audit/audit.service';
+import { ClusterService } from '../cluster/cluster.service';
 import { AuditAction } from '../shared/enums';
 import { WsMediaException } from '../shared/exceptions';
+import type { MediaNodeInfo } from '../shared/interfaces';
 
 export interface TransportCreatedPayload {
   id: string;
   iceParameters: Record<string, unknown>;
   iceCandidates: Record<string, unknown>[];
   dtlsParameters: Record<string, unknown>;
+  /** Present when the transport was created with SCTP enabled */
+  sctpParameters?: Record<string, unknown>;
 }
 
 export interface ProduceResult {
@@ -24,6 +35,14 @@ export interface ConsumeResult {
   rtpParameters: RtpParameters;
 }
 
+export interface ConsumeDataResult {
+  dataConsumerId: string;
+  dataProducerId: string;
+  sctpStreamParameters: SctpStreamParameters;
+  label: string;
+  protocol: string;
+}
+
 @Injectable()
 export class WebrtcService {
   private readonly logger = new Logger(WebrtcService.name);
@@ -32,8 +51,19 @@ export class WebrtcService {
     private readonly media: MediaService,
     private readonly rooms: RoomsService,
     private readonly audit: AuditService,
+    private readonly cluster: ClusterService,
   ) { }
 
+  /**
+   * Returns the node hosting the room's media, claiming the room for this
+   * node when nobody hosts it yet. `isLocal` is false when the client must
+   * reconnect to `node.url`.
+   */
+  async resolveMediaNode(roomId: string): Promise<{ node: MediaNodeInfo; isLocal: boolean }> {
+    const node = await this.cluster.claimRoom(roomId);
+    return { node, isLocal: this.cluster.isLocal(node) };
+  }
+
   /**
    * Initializes a mediasoup router for the room if one doesn't already exist.
    * Returns the router's RTP capabilities for the client.
@@ -54,11 +84,13 @@ export class WebrtcService {
     roomId: string;
     userId: string;
     direction: 'send' | 'recv';
+    sctpCapabilities?: SctpCapabilities;
   }): Promise<TransportCreatedPayload> {
     const result = await this.media.createWebRtcTransport({
       roomId: params.roomId,
       userId: params.userId,
       direction: params.direction,
+      sctpCapabilities: params.sctpCapabilities,
     });
 
     return {
@@ -66,6 +98,7 @@ export class WebrtcService {
       iceParameters: result.iceParameters as unknown as Record<string, unknown>,
       iceCandidates: result.iceCandidates as unknown as Record<string, unknown>[],
       dtlsParameters: result.dtlsParameters as unknown as Record<string, unknown>,
+      sctpParameters: result.sctpParameters as unknown as Record<string, unknown> | undefined,
     };
   }
 
@@ -87,6 +120,24 @@ export class WebrtcService {
     }
   }
 
+  /**
+   * Restarts ICE on one of the user's transports and returns the new ICE
+   * parameters for the client.
+   */
+  async restartIce(params: {
+    transportId: string;
+    userId: string;
+  }): Promise<{ iceParameters: Record<string, unknown> }> {
+    try {
+      const { iceParameters } = await this.media.restartIce(params);
+      return { iceParameters: iceParameters as unknown as Record<string, unknown> };
+    } catch (error) {
+      if (error instanceof WsMediaException) throw error;
+      this.logger.error(`Failed to restart ICE: ${(error as Error).message}`);
+      throw new WsMediaException(`ICE restart failed: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Produces media (audio or video) on a send transport.
    */
@@ -162,6 +213,51 @@ export class WebrtcService {
     }
   }
 
+  /**
+   * Opens a DataChannel from the user into the SFU on their send transport.
+   */
+  async produceData(params: {
+    roomId: string;
+    userId: string;
+    transportId: string;
+    sctpStreamParameters: SctpStreamParameters;
+    label?: string;
+    protocol?: string;
+  }): Promise<{ dataProducerId: string }> {
+    try {
+      return await this.media.produceData(params);
+    } catch (error) {
+      if (error instanceof WsMediaException) throw error;
+      this.logger.error(`Failed to produce data: ${(error as Error).message}`);
+      throw new WsMediaException(`Produce data failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Closes a DataProducer, and with it every DataConsumer of its channel.
+   */
+  async closeDataProducer(dataProducerId: string): Promise<void> {
+    await this.media.closeDataProducer(dataProducerId);
+  }
+
+  /**
+   * Subscribes the user to a remote DataChannel on their recv transport.
+   */
+  async consumeData(params: {
+    roomId: string;
+    userId: string;
+    transportId: string;
+    dataProducerId: string;
+  }): Promise<ConsumeDataResult> {
+    try {
+      return await this.media.consumeData(params);
+    } catch (error) {
+      if (error instanceof WsMediaException) throw error;
+      this.logger.error(`Failed to consume data: ${(error as Error).message}`);
+      throw new WsMediaException(`Consume data failed: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Resumes a consumer (unpauses receiving media).
    */
@@ -169,6 +265,19 @@ export class WebrtcService {
     await this.media.resumeConsumer(consumerId);
   }
 
+  /**
+   * Requests a simulcast layer (and optional bandwidth priority) for a consumer.
+   */
+  async setPreferredLayers(params: {
+    consumerId: string;
+    userId: string;
+    spatialLayer: number;
+    temporalLayer?: number;
+    priority?: number;
+  }): Promise<void> {
+    await this.media.setConsumerPreferredLayers(params);
+  }
+
   /**
    * Closes a producer and notifies the room service.
    */
@@ -195,17 +304,33 @@ export class WebrtcService {
   /**
    * Pauses a producer (e.g., user mutes audio or turns off camera).
    */
-  async pauseProducer(producerId: string): Promise<{ kind: string }> {
+  async pauseProducer(producerId: string): Promise<{ kind: MediaKind }> {
     return await this.media.pauseProducer(producerId);
   }
 
   /**
    * Resumes a paused producer.
    */
-  async resumeProducer(producerId: string): Promise<{ kind: string }> {
+  async resumeProducer(producerId: string): Promise<{ kind: MediaKind }> {
     return await this.media.resumeProducer(producerId);
   }
 
+  /**
+   * Host mute: pauses the user's audio producers and blocks resuming them.
+   * Returns the producer IDs that were paused.
+   */
+  async lockAudio(roomId: string, userId: string): Promise<string[]> {
+    return await this.media.lockAudio(roomId, userId);
+  }
+
+  releaseAudioLock(roomId: string, userId: string): void {
+    this.media.releaseAudioLock(roomId, userId);
+  }
+
+  isAudioLocked(roomId: string, userId: string): boolean {
+    return this.media.isAudioLocked(roomId, userId);
+  }
+
   /**
    * Gets all producers in a room that a user hasn't produced themselves.
    */
@@ -216,6 +341,89 @@ export class WebrtcService {
     return this.media.getProducersForRoom(roomId, excludeUserId);
   }
 
+  /**
+   * Returns a room's producers with the given `appData.label`.
+   */
+  getProducersByLabel(roomId: string, label: string): Array<{ producerId: string; userId: string }> {
+    return this.media.getProducersByLabel(roomId, label);
+  }
+
+  /**
+   * Returns all DataProducers in a room (excluding the requesting user).
+   */
+  getExistingDataProducers(
+    roomId: string,
+    excludeUserId: string,
+  ): Array<{ dataProducerId: string; userId: string; label: string }> {
+    return this.media.getDataProducersForRoom(roomId, excludeUserId);
+  }
+
+  /**
+   * Returns a room's DataProducers with the given label.
+   */
+  getDataProducersByLabel(roomId: string, label: string): Array<{ dataProducerId: string; userId: string }> {
+    return this.media
+      .getDataProducersForRoom(roomId)
+      .filter((channel) => channel.label === label);
+  }
+
+  /**
+   * Returns live media stats for one user, or for every user in the room.
+   */
+  async getStats(roomId: string, userId?: string): Promise<UserMediaStats[]> {
+    try {
+      if (userId) {
+        return [await this.media.getUserStats(roomId, userId)];
+      }
+      return await this.media.getRoomStats(roomId);
+    } catch (error) {
+      this.logger.error(`Failed to collect stats for room ${roomId}: ${(error as Error).message}`);
+      throw new WsMediaException('Failed to collect media stats');
+    }
+  }
+
+  /**
+   * Subscribes to dominant speaker and audio level changes for all rooms.
+   */
+  onActiveSpeakerUpdate(listener: (update: ActiveSpeakerUpdate) => void): () => void {
+    return this.media.onActiveSpeakerUpdate(listener);
+  }
+
+  /**
+   * Subscribes to rooms whose media was rebuilt after a worker died. Redis
+   * room state is brought in line with the new router before the listener runs.
+   */
+  onRoomMediaRebuilt(listener: (event: RoomMediaRebuilt) => void): () => void {
+    return this.media.onRoomMediaRebuilt((event) => {
+      this.syncRebuiltRoomState(event)
+        .catch((error) =>
+          this.logger.error(`Failed to sync rebuilt room ${event.roomId}: ${(error as Error).message}`),
+        )
+        .finally(() => listener(event));
+    });
+  }
+
+  private async syncRebuiltRoomState(event: RoomMediaRebuilt): Promise<void> {
+    await this.rooms.setRouterId(event.roomId, event.routerId);
+    for (const { producerId, userId } of event.lostProducers) {
+      await this.rooms.removeProducerFromParticipant(event.roomId, userId, producerId);
+    }
+  }
+
+  /**
+   * Stops the user sending anything while they keep receiving. Returns the
+   * DataProducers that closed with the send transport.
+   */
+  async closeSendTransport(roomId: string, userId: string): Promise<{ dataProducerIds: string[] }> {
+    const dataProducerIds = this.media
+      .getDataProducersForRoom(roomId)
+      .filter((channel) => channel.userId === userId)
+      .map((channel) => channel.dataProducerId);
+
+    await this.media.closeSendTransport(roomId, userId);
+    return { dataProducerIds };
+  }
+
   /**
    * Cleans up all media resources for a user in a room.
    */
@@ -228,5 +436,6 @@ export class WebrtcService {
    */
   async cleanupRoomMedia(roomId: string): Promise<void> {
     await this.media.cleanupRoom(roomId);
+    await this.cluster.releaseRoom(roomId);
   }
 }
@@ -1,6 +1,7 @@
 "use client";
 
-import { use, useEffect, useRef } from 'react';
+import { use, useEffect, useRef, useState } from 'react';
+import { MAX_KNOCK_LENGTH } from '@contract';
 import { RoomPage } from '@/views/RoomPage';
 import { useSignalingContext } from '@/providers/SignalingProvider';
 
@@ -10,11 +11,17 @@ export default function Page({ params }: { params: Promise<{ id: string }> }) {
         signaling,
         existingProducers,
         newProducerHandlerRef,
+        existingDataProducers,
+        newDataProducerHandlerRef,
+        reconnectHandlerRef,
+        roomSwitchHandlerRef,
         handleLeaveRoom,
         handleJoinRoom,
+        handleKnock,
         isInWaitingRoom,
         wasRejected,
-        rejectionMessage
+        rejectionMessage,
+        passcodePrompt
     } = useSignalingContext();
 
     // Use a ref so the effect below only fires when `id` changes, not every
@@ -44,12 +51,26 @@ export default function Page({ params }: { params: Promise<{ id: string }> }) {
         );
     }
 
+    if (passcodePrompt) {
+        return (
+            <PasscodeForm
+                message={passcodePrompt}
+                onSubmit={(passcode) =>
+                    handleJoinRoomRef.current(id, undefined, passcode).catch(err =>
+                        console.error("Failed to join room with passcode:", err)
+                    )
+                }
+            />
+        );
+    }
+
     if (isInWaitingRoom) {
         return (
             <div className="min-h-screen flex flex-col items-center justify-center bg-[#111] text-white p-4 text-center">
                 <div className="w-16 h-16 rounded-full border-4 border-blue-500/30 border-t-blue-500 animate-spin mb-6" />
                 <h1 className="text-2xl font-bold mb-2">Waiting Room</h1>
-                <p className="text-white/60">Please wait, the meeting host will let you in soon.</p>
+                <p className="text-white/60 mb-6">Please wait, the meeting host will let you in soon.</p>
+                <KnockForm onKnock={handleKnock} />
             </div>
         );
     }
@@ -61,7 +82,84 @@ export default function Page({ params }: { params: Promise<{ id: string }> }) {
             signaling={signaling}
             existingProducers={existingProducers}
             onNewProducerRef={newProducerHandlerRef}
+            existingDataProducers={existingDataProducers}
+            onNewDataProducerRef={newDataProducerHandlerRef}
+            onReconnectRequiredRef={reconnectHandlerRef}
+            onRoomSwitchRef={roomSwitchHandlerRef}
             onLeave={handleLeaveRoom}
         />
     );
 }
+
+function PasscodeForm({ message, onSubmit }: { message: string; onSubmit: (passcode: string) => void }) {
+    const [passcode, setPasscode] = useState('');
+
+    return (
+        <div className="min-h-screen flex flex-col items-center justify-center bg-[#111] text-white p-4 text-center">
+            <h1 className="text-2xl font-bold mb-2">Enter Passcode</h1>
+            <p className="text-white/60 mb-6">{message}</p>
+            <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    if (passcode) onSubmit(passcode);
+                }}
+            >
+                <input
+                    type="password"
+                    autoFocus
+                    value={passcode}
+                    onChange={(e) => setPasscode(e.target.value)}
+                    className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white"
+                    placeholder="Passcode"
+                />
+                <button
+                    type="submit"
+                    className="px-4 py-2 text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+                >
+                    Join
+                </button>
+            </form>
+        </div>
+    );
+}
+
+function KnockForm({ onKnock }: { onKnock: (message: string) => Promise<string | null> }) {
+    const [message, setMessage] = useState('');
+    const [status, setStatus] = useState<string | null>(null);
+    const [sending, setSending] = useState(false);
+
+    return (
+        <form
+            className="w-full max-w-sm space-y-2"
+            onSubmit={async (e) => {
+                e.preventDefault();
+                const text = message.trim();
+                if (!text || sending) return;
+                setSending(true);
+                const error = await onKnock(text);
+                setSending(false);
+                setStatus(error ?? 'The host has your message.');
+                if (!error) setMessage('');
+            }}
+        >
+            <div className="flex gap-2">
+                <input
+                    value={message}
+                    maxLength={MAX_KNOCK_LENGTH}
+                    onChange={(e) => setMessage(e.target.value)}
+                    className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm"
+                    placeholder="Message the host (optional)"
+                />
+                <button
+                    type="submit"
+                    disabled={!message.trim() || sending}
+                    className="px-4 py-2 text-sm font-semibold bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+                >
+                    Knock
+                </button>
+            </div>
+            {status && <p className="text-xs text-white/50">{status}</p>}
+        </form>
+    );
+}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import type { BreakoutState } from '../types';
+
+interface BreakoutRoomsProps {
+  breakouts: BreakoutState | null;
+  /** The room we're in: the main room or one of its breakouts */
+  currentRoomId: string;
+  onCreate: (count: number, autoAssign: boolean) => void;
+  onAssign: (userId: string, breakoutRoomId: string | null) => void;
+  onShuffle: () => void;
+  onOpen: () => void;
+  onJoin: (roomId: string) => void;
+  onCountdown: (seconds: number) => void;
+  onClose: () => void;
+}
+
+const COUNTDOWN_OPTIONS = [60, 120, 300, 600];
+
+/** Seconds left until `endsAt`, ticking once a second */
+export function useCountdown(endsAt: number | null): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (endsAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  if (endsAt === null) return null;
+  return Math.max(0, Math.ceil((endsAt - now) / 1000));
+}
+
+export function formatCountdown(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function BreakoutRooms({
+  breakouts,
+  currentRoomId,
+  onCreate,
+  onAssign,
+  onShuffle,
+  onOpen,
+  onJoin,
+  onCountdown,
+  onClose,
+}: BreakoutRoomsProps) {
+  const [count, setCount] = useState(2);
+  const [autoAssign, setAutoAssign] = useState(true);
+  const secondsLeft = useCountdown(breakouts?.endsAt ?? null);
+
+  if (!breakouts) {
+    return (
+      <div className="flex flex-col h-full">
+        <div className="h-12 flex items-center px-4 border-b border-white/5 shrink-0">
+          <h2 className="text-white text-sm font-semibold">Breakout Rooms</h2>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <label className="flex items-center justify-between text-sm text-white/80">
+            Number of rooms
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={count}
+              onChange={(e) => setCount(Math.max(1, Number(e.target.value) || 1))}
+              className="w-20 px-2 py-1 bg-white/5 border border-white/10 rounded-md text-white text-right"
+            />
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-white/80">
+            <input type="checkbox" checked={autoAssign} onChange={(e) => setAutoAssign(e.target.checked)} />
+            Assign participants randomly
+          </label>
+
+          <button
+            onClick={() => onCreate(count, autoAssign)}
+            className="w-full py-2 text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+          >
+            Create Rooms
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const mainRoomId = breakouts.roomId;
+  const attendees = breakouts.participants.filter((p) => p.role === 'participant');
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="h-12 flex items-center justify-between px-4 border-b border-white/5 shrink-0">
+        <h2 className="text-white text-sm font-semibold">
+          Breakout Rooms
+          {secondsLeft !== null && (
+            <span className="ml-1.5 text-amber-300 text-xs font-mono">{formatCountdown(secondsLeft)}</span>
+          )}
+        </h2>
+
+        <div className="flex items-center gap-1.5">
+          {!breakouts.open && (
+            <>
+              <button
+                onClick={onShuffle}
+                className="px-2.5 py-1 text-[10px] font-semibold uppercase tracking-wider text-white/70 bg-white/5 hover:bg-white/10 border border-white/10 rounded-md transition-all"
+              >
+                Shuffle
+              </button>
+              <button
+                onClick={onOpen}
+                className="px-2.5 py-1 text-[10px] font-semibold uppercase tracking-wider text-green-400 bg-green-500/10 hover:bg-green-500/20 border border-green-500/15 rounded-md transition-all"
+              >
+                Open
+              </button>
+            </>
+          )}
+          <button
+            onClick={onClose}
+            className="px-2.5 py-1 text-[10px] font-semibold uppercase tracking-wider text-red-400 bg-red-500/10 hover:bg-red-500/20 border border-red-500/15 rounded-md transition-all"
+          >
+            {breakouts.open ? 'Recall All' : 'Discard'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-3 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+        {breakouts.open && (
+          <div className="flex items-center gap-1.5 px-2">
+            <span className="text-[11px] text-white/50 mr-auto">Recall in</span>
+            {COUNTDOWN_OPTIONS.map((seconds) => (
+              <button
+                key={seconds}
+                onClick={() => onCountdown(seconds)}
+                className="px-2 py-0.5 text-[11px] font-mono text-white/70 bg-white/5 hover:bg-white/10 border border-white/10 rounded-md transition-all"
+              >
+                {seconds / 60}m
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Rooms */}
+        {[{ id: mainRoomId, name: 'Main Room' }, ...breakouts.rooms].map((room) => {
+          const inRoom = breakouts.participants.filter((p) => p.roomId === room.id);
+          return (
+            <div key={room.id} className="flex items-center gap-3 p-2.5 rounded-lg bg-white/[0.03]">
+              <div className="flex-1 min-w-0">
+                <div className="text-white text-sm font-medium truncate">{room.name}</div>
+                <div className="text-[10px] text-white/30 truncate">
+                  {inRoom.length === 0 ? 'Empty' : inRoom.map((p) => p.displayName).join(', ')}
+                </div>
+              </div>
+
+              {room.id === currentRoomId ? (
+                <span className="text-[10px] text-white/40 uppercase tracking-wider">You are here</span>
+              ) : (
+                <button
+                  onClick={() => onJoin(room.id)}
+                  className="px-2.5 py-1 text-[11px] font-semibold text-blue-400 bg-blue-500/10 hover:bg-blue-500/20 border border-blue-500/15 rounded-md transition-all"
+                >
+                  Join
+                </button>
+              )}
+            </div>
+          );
+        })}
+
+        {/* Assignments */}
+        <div className="pt-2 border-t border-white/5 space-y-0.5">
+          {attendees.length === 0 ? (
+            <p className="px-2 py-4 text-center text-xs text-white/30">No participants to assign</p>
+          ) : (
+            attendees.map((p) => (
+              <div key={p.userId} className="flex items-center gap-3 p-2 rounded-lg hover:bg-white/[0.04] transition-colors">
+                <div className="flex-1 min-w-0 text-white text-sm truncate">{p.displayName}</div>
+                <select
+                  value={breakouts.assignments[p.userId] ?? ''}
+                  onChange={(e) => onAssign(p.userId, e.target.value || null)}
+                  className="px-2 py-1 bg-white/5 border border-white/10 rounded-md text-xs text-white"
+                >
+                  <option value="">Main Room</option>
+                  {breakouts.rooms.map((room) => (
+                    <option key={room.id} value={room.id}>{room.name}</option>
+                  ))}
+                </select>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { CaptionSegment } from '../types';
+
+interface CaptionsOverlayProps {
+    segments: CaptionSegment[];
+}
+
+/** Live caption lines, centred above the controls bar */
+export function CaptionsOverlay({ segments }: CaptionsOverlayProps) {
+    if (segments.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-40 w-full max-w-3xl px-4 pointer-events-none flex flex-col items-center gap-1.5">
+            {segments.map((segment) => (
+                <div
+                    key={segment.id}
+                    className="max-w-full px-4 py-1.5 rounded-lg bg-black/75 backdrop-blur-sm text-white text-base leading-snug text-center animate-in fade-in-0"
+                >
+                    <span className="font-semibold text-sky-300 mr-2">{segment.displayName}</span>
+                    {segment.text}
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -1,10 +1,11 @@
 import { useState, useRef, useEffect, useMemo } from 'react';
 import type { ChatMessage } from '../types/chat.types';
-import type { Question } from '../types/chat.types';
+import type { CreatePollPayload, Poll, Question } from '../types/chat.types';
 import { QnA } from './QnA';
+import { Polls } from './Polls';
 
 /**
- * Chat + QnA side panel for the meeting room.
+ * Chat + QnA + Polls side panel for the meeting room.
  * All messaging, file sharing, typing indicators, and Q&A functionality preserved.
  */
 
@@ -31,20 +32,26 @@ interface ChatProps {
   onUpvoteQuestion: (questionId: string) => void;
   onMarkAnswered: (questionId: string) => void;
   onDeleteQuestion: (questionId: string) => void;
+
+  // Polls
+  polls: Poll[];
+  onCreatePoll: (poll: CreatePollPayload) => void;
+  onVotePoll: (pollId: string, optionIds: string[]) => void;
+  onClosePoll: (pollId: string) => void;
   isHost: boolean;
 }
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024;
 const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
 
-function formatFileSize(bytes?: number): string {
+function formatFileSize(bytes?: number | null): string {
   if (!bytes) return '0 B';
   const kb = bytes / 1024;
   if (kb < 1024) return `${kb.toFixed(1)} KB`;
   return `${(kb / 1024).toFixed(1)} MB`;
 }
 
-function getFileIcon(fileType?: string): string {
+function getFileIcon(fileType?: string | null): string {
   if (!fileType) return '📎';
   if (fileType.startsWith('image/')) return '🖼️';
   if (fileType.includes('pdf')) return '📄';
@@ -75,13 +82,18 @@ export function Chat({
   onUpvoteQuestion,
   onMarkAnswered,
   onDeleteQuestion,
+  polls,
+  onCreatePoll,
+  onVotePoll,
+  onClosePoll,
   isHost,
 }: ChatProps) {
   const [message, setMessage] = useState('');
   const [showPrivateSelector, setShowPrivateSelector] = useState(false);
-  const [activeTab, setActiveTab] = useState<'chat' | 'qna'>('chat');
+  const [activeTab, setActiveTab] = useState<'chat' | 'qna' | 'polls'>('chat');
   const [showMenu, setShowMenu] = useState(false);
   const bottomRef = useRef<HTMLDivElement>(null);
+  const openPolls = polls.filter(p => !p.closed).length;
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Auto-scroll to latest message
@@ -158,6 +170,15 @@ export function Chat({
           >
             Q&A {questions.length > 0 && `(${questions.length})`}
           </button>
+          <button
+            onClick={() => setActiveTab('polls')}
+            className={`px-3 py-1 rounded-md text-xs font-semibold transition-all ${activeTab === 'polls'
+              ? 'bg-white/15 text-white shadow-sm'
+              : 'text-white/50 hover:text-white/80'
+              }`}
+          >
+            Polls {openPolls > 0 && `(${openPolls})`}
+          </button>
         </div>
 
         {/* Overflow Menu */}
@@ -251,7 +272,7 @@ export function Chat({
                             <div className="relative group/image overflow-hidden rounded-lg">
                               <img
                                 src={msg.fileData}
-                                alt={msg.fileName}
+                                alt={msg.fileName ?? undefined}
                                 className="max-w-full h-auto object-cover"
                                 style={{ maxHeight: '200px' }}
                               />
@@ -400,7 +421,7 @@ export function Chat({
             </div>
           </div>
         </>
-      ) : (
+      ) : activeTab === 'qna' ? (
         /* QnA Tab */
         <QnA
           questions={questions}
@@ -410,6 +431,15 @@ export function Chat({
           onDeleteQuestion={onDeleteQuestion}
           isHost={isHost}
         />
+      ) : (
+        /* Polls Tab */
+        <Polls
+          polls={polls}
+          onCreatePoll={onCreatePoll}
+          onVote={onVotePoll}
+          onClosePoll={onClosePoll}
+          isHost={isHost}
+        />
       )}
     </div>
   );
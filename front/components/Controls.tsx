@@ -126,6 +126,18 @@ const WaitingRoomIcon = (
   </svg>
 );
 
+const BreakoutIcon = (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM14 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zM14 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z" />
+  </svg>
+);
+
+const QuizIcon = (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+  </svg>
+);
+
 const ParticipantsIcon = (
   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
     <path d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
@@ -162,6 +174,29 @@ const ShieldIcon = (
   </svg>
 );
 
+const RecordIcon = (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <circle cx="12" cy="12" r="10" />
+    <circle cx="12" cy="12" r="4" fill="currentColor" />
+  </svg>
+);
+
+const BroadcastIcon = (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <circle cx="12" cy="12" r="2" />
+    <path d="M16.24 7.76a6 6 0 0 1 0 8.49M7.76 16.24a6 6 0 0 1 0-8.49" />
+    <path d="M19.07 4.93a10 10 0 0 1 0 14.14M4.93 19.07a10 10 0 0 1 0-14.14" />
+  </svg>
+);
+
+const CaptionsIcon = (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <rect x="2" y="5" width="20" height="14" rx="2" />
+    <path d="M10 10.5a2 2 0 1 0 0 3" />
+    <path d="M17 10.5a2 2 0 1 0 0 3" />
+  </svg>
+);
+
 // ─── Controls bar ───────────────────────────────────────────────
 
 interface ControlsProps {
@@ -178,8 +213,8 @@ interface ControlsProps {
   onMuteAll: () => void;
   showWhiteboard: boolean;
   onToggleWhiteboard: () => void;
-  panelOpen: 'none' | 'participants' | 'chat' | 'waiting';
-  onTogglePanel: (panel: 'participants' | 'chat' | 'waiting') => void;
+  panelOpen: 'none' | 'participants' | 'chat' | 'waiting' | 'breakouts' | 'quiz';
+  onTogglePanel: (panel: 'participants' | 'chat' | 'waiting' | 'breakouts' | 'quiz') => void;
   waitingRoomCount: number;
 
   // Hand Raise / Reactions
@@ -191,6 +226,25 @@ interface ControlsProps {
   allowScreenShare: boolean;
   allowWhiteboard: boolean;
   onUpdateRoomSettings?: (settings: { allowScreenShare?: boolean; allowWhiteboard?: boolean }) => void;
+  locked?: boolean;
+  onToggleLock?: (locked: boolean) => void;
+
+  // Recording (host only)
+  isRecording: boolean;
+  onToggleRecording?: () => void;
+
+  // Live streaming (host only)
+  isStreaming: boolean;
+  onToggleStreaming?: () => void;
+
+  // Live captions: the host turns them on for the room, everyone can hide them
+  isCaptioning: boolean;
+  onToggleCaptioning?: () => void;
+  showCaptions: boolean;
+  onToggleShowCaptions: () => void;
+
+  // Webinar attendees off stage are receive-only
+  canPublish?: boolean;
 }
 
 
@@ -216,6 +270,17 @@ export function Controls({
   allowScreenShare,
   allowWhiteboard,
   onUpdateRoomSettings,
+  locked = false,
+  onToggleLock,
+  isRecording,
+  onToggleRecording,
+  isStreaming,
+  onToggleStreaming,
+  isCaptioning,
+  onToggleCaptioning,
+  showCaptions,
+  onToggleShowCaptions,
+  canPublish = true,
 }: ControlsProps) {
   const [showShareMenu, setShowShareMenu] = useState(false);
   const [showReactionMenu, setShowReactionMenu] = useState(false);
@@ -223,7 +288,7 @@ export function Controls({
 
   const reactions = ['👍', '👏', '💖', '😂', '😮', '🎉'];
 
-  const canShareScreen = isHost || allowScreenShare;
+  const canShareScreen = canPublish && (isHost || allowScreenShare);
   const canUseWhiteboard = isHost || allowWhiteboard;
   const showPresentMenu = canShareScreen || canUseWhiteboard;
 
@@ -231,22 +296,26 @@ export function Controls({
     <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center justify-center h-16 px-6 bg-card/60 backdrop-blur-xl rounded-full border border-white/10 shadow-[0_8px_32px_rgba(0,0,0,0.5)]">
       <div className="flex items-center gap-3">
         {/* Media Controls */}
-        <div className="flex items-center gap-2">
-          <ControlButton
-            label={isMicOn ? 'Mute' : 'Unmute'}
-            variant={isMicOn ? 'default' : 'danger'}
-            onClick={onToggleMic}
-            icon={isMicOn ? MicOn : MicOff}
-          />
-          <ControlButton
-            label={isCameraOn ? 'Stop Video' : 'Start Video'}
-            variant={isCameraOn ? 'default' : 'danger'}
-            onClick={onToggleCamera}
-            icon={isCameraOn ? CameraOn : CameraOff}
-          />
-        </div>
+        {canPublish && (
+          <>
+            <div className="flex items-center gap-2">
+              <ControlButton
+                label={isMicOn ? 'Mute' : 'Unmute'}
+                variant={isMicOn ? 'default' : 'danger'}
+                onClick={onToggleMic}
+                icon={isMicOn ? MicOn : MicOff}
+              />
+              <ControlButton
+                label={isCameraOn ? 'Stop Video' : 'Start Video'}
+                variant={isCameraOn ? 'default' : 'danger'}
+                onClick={onToggleCamera}
+                icon={isCameraOn ? CameraOn : CameraOff}
+              />
+            </div>
 
-        <div className="w-px h-8 bg-white/10" />
+            <div className="w-px h-8 bg-white/10" />
+          </>
+        )}
 
         {/* Share Controls */}
         {showPresentMenu && (
@@ -327,6 +396,58 @@ export function Controls({
             />
           )}
 
+          {isHost && (
+            <ControlButton
+              label="Breakout Rooms"
+              variant={panelOpen === 'breakouts' ? 'primary' : 'default'}
+              onClick={() => onTogglePanel('breakouts')}
+              icon={BreakoutIcon}
+            />
+          )}
+
+          {isHost && (
+            <ControlButton
+              label="Quiz"
+              variant={panelOpen === 'quiz' ? 'primary' : 'default'}
+              onClick={() => onTogglePanel('quiz')}
+              icon={QuizIcon}
+            />
+          )}
+
+          {onToggleRecording && (
+            <ControlButton
+              label={isRecording ? 'Stop Recording' : 'Record'}
+              variant={isRecording ? 'danger' : 'default'}
+              onClick={onToggleRecording}
+              icon={RecordIcon}
+            />
+          )}
+
+          {onToggleStreaming && (
+            <ControlButton
+              label={isStreaming ? 'End Stream' : 'Go Live'}
+              variant={isStreaming ? 'danger' : 'default'}
+              onClick={onToggleStreaming}
+              icon={BroadcastIcon}
+            />
+          )}
+
+          {onToggleCaptioning ? (
+            <ControlButton
+              label={isCaptioning ? 'Stop Captions' : 'Captions'}
+              variant={isCaptioning ? 'primary' : 'default'}
+              onClick={onToggleCaptioning}
+              icon={CaptionsIcon}
+            />
+          ) : isCaptioning && (
+            <ControlButton
+              label={showCaptions ? 'Hide Captions' : 'Show Captions'}
+              variant={showCaptions ? 'primary' : 'default'}
+              onClick={onToggleShowCaptions}
+              icon={CaptionsIcon}
+            />
+          )}
+
           {isHost && (
             <div className="relative">
               <ControlButton
@@ -361,6 +482,20 @@ export function Controls({
                         className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500 focus:ring-offset-gray-800"
                       />
                     </label>
+                    {onToggleLock && (
+                      <>
+                        <div className="my-1 border-t border-white/10" />
+                        <label className="flex items-center justify-between px-3 py-2 hover:bg-white/10 rounded-lg cursor-pointer transition-colors">
+                          <span className="text-white/90">Lock Meeting</span>
+                          <input
+                            type="checkbox"
+                            checked={locked}
+                            onChange={(e) => onToggleLock(e.target.checked)}
+                            className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500 focus:ring-offset-gray-800"
+                          />
+                        </label>
+                      </>
+                    )}
                   </div>
                 </>
               )}
@@ -1,23 +1,98 @@
+import { useEffect, useState } from 'react';
 import { useParticipantsStore } from '../store/participants.store';
+import type { RoomBan, UserMediaStats } from '../types';
 
 interface ParticipantsPanelProps {
   localUserId: string;
   localDisplayName: string;
   isHost: boolean;
   onKick: (userId: string) => void;
+  /** Host-only: kicks a participant and keeps them out of the meeting */
+  onBan?: (userId: string) => Promise<RoomBan[] | null>;
+  /** Hosts and admins: the meeting's ban list, and lifting a ban */
+  onFetchBans?: () => Promise<RoomBan[]>;
+  onUnban?: (userId: string) => Promise<RoomBan[]>;
   onMuteAll: () => void;
+  /** Host-only: mutes one participant; the server keeps them muted */
+  onMuteUser?: (userId: string) => void;
+  /** Host-only: asks a muted participant to unmute */
+  onRequestUnmute?: (userId: string) => void;
   onStartPrivateMessage: (userId: string) => void;
+  /** Host-only: fetches server-side media stats for everyone in the room */
+  onFetchStats?: () => Promise<UserMediaStats[]>;
+  /** Host-only, webinars: invites an attendee to the stage or sends them back */
+  onToggleStage?: (userId: string, onStage: boolean) => void;
 }
 
+const formatKbps = (bps: number) => `${Math.round(bps / 1000)} kbps`;
+const formatMs = (ms: number | null) => (ms === null ? '—' : `${Math.round(ms)} ms`);
+const formatLoss = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
 export function ParticipantsPanel({
+  localUserId,
   localDisplayName,
   isHost,
   onKick,
+  onBan,
+  onFetchBans,
+  onUnban,
   onMuteAll,
+  onMuteUser,
+  onRequestUnmute,
   onStartPrivateMessage,
+  onFetchStats,
+  onToggleStage,
 }: ParticipantsPanelProps) {
   const participants = useParticipantsStore((s) => s.participants);
   const entries = Array.from(participants.entries());
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [stats, setStats] = useState<UserMediaStats[]>([]);
+  const [showBans, setShowBans] = useState(false);
+  const [bans, setBans] = useState<RoomBan[] | null>(null);
+
+  // Poll server stats while the diagnostics drawer is open
+  useEffect(() => {
+    if (!showDiagnostics || !onFetchStats) return;
+    let cancelled = false;
+    const load = () => {
+      onFetchStats()
+        .then((result) => { if (!cancelled) setStats(result); })
+        .catch(console.error);
+    };
+    load();
+    const timer = setInterval(load, 5000);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [showDiagnostics, onFetchStats]);
+
+  // Reload the ban list each time it's opened
+  useEffect(() => {
+    if (!showBans || !onFetchBans) return;
+    let cancelled = false;
+    onFetchBans()
+      .then((result) => { if (!cancelled) setBans(result); })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [showBans, onFetchBans]);
+
+  const handleBan = (targetUserId: string) => {
+    onBan?.(targetUserId)
+      .then((result) => { if (result) setBans(result); })
+      .catch(console.error);
+  };
+
+  const handleUnban = (bannedUserId: string) => {
+    onUnban?.(bannedUserId).then(setBans).catch(console.error);
+  };
+
+  const nameFor = (statsUserId: string) =>
+    statsUserId === localUserId
+      ? `${localDisplayName} (You)`
+      : participants.get(statsUserId)?.displayName ?? statsUserId.slice(0, 8);
 
   return (
     <div className="h-full bg-white/5 backdrop-blur-xl border-l border-white/10 flex flex-col overflow-hidden">
@@ -28,7 +103,36 @@ export function ParticipantsPanel({
           <span className="ml-1.5 text-white/40 text-xs font-normal">({entries.length + 1})</span>
         </h2>
 
-        {isHost && (
+        {(isHost || onFetchBans) && (
+          <div className="flex items-center gap-1.5">
+          {onFetchBans && (
+            <button
+              onClick={() => {
+                setBans(null);
+                setShowBans((v) => !v);
+              }}
+              className={`px-2.5 py-1 text-[10px] font-semibold uppercase tracking-wider border rounded-md transition-all ${showBans
+                ? 'text-blue-300 bg-blue-500/20 border-blue-500/30'
+                : 'text-white/60 bg-white/5 hover:bg-white/10 border-white/10'
+                }`}
+              title="Banned users"
+            >
+              Banned
+            </button>
+          )}
+          {isHost && onFetchStats && (
+            <button
+              onClick={() => setShowDiagnostics((v) => !v)}
+              className={`px-2.5 py-1 text-[10px] font-semibold uppercase tracking-wider border rounded-md transition-all ${showDiagnostics
+                ? 'text-blue-300 bg-blue-500/20 border-blue-500/30'
+                : 'text-white/60 bg-white/5 hover:bg-white/10 border-white/10'
+                }`}
+              title="Connection diagnostics"
+            >
+              Diagnostics
+            </button>
+          )}
+          {isHost && (
           <button
             onClick={onMuteAll}
             className="px-2.5 py-1 text-[10px] font-semibold uppercase tracking-wider text-red-400 bg-red-500/10 hover:bg-red-500/20 border border-red-500/15 rounded-md transition-all flex items-center gap-1.5"
@@ -40,9 +144,62 @@ export function ParticipantsPanel({
             </svg>
             Mute All
           </button>
+          )}
+          </div>
         )}
       </div>
 
+      {/* Diagnostics drawer */}
+      {isHost && showDiagnostics && (
+        <div className="max-h-[45%] overflow-y-auto border-b border-white/5 p-2 space-y-1 shrink-0 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+          {stats.length === 0 ? (
+            <p className="text-white/40 text-xs px-2 py-3 text-center">Collecting stats…</p>
+          ) : (
+            stats.map((s) => (
+              <div key={s.userId} className="p-2.5 rounded-lg bg-white/[0.03]">
+                <div className="text-white text-xs font-medium truncate mb-1.5">{nameFor(s.userId)}</div>
+                <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-[10px] text-white/60 font-mono">
+                  <span>↑ {formatKbps(s.upstream.bitrate)}</span>
+                  <span>↓ {formatKbps(s.downstream.bitrate)}</span>
+                  <span>↑ loss {formatLoss(s.upstream.packetLoss)}</span>
+                  <span>↓ loss {formatLoss(s.downstream.packetLoss)}</span>
+                  <span>RTT {formatMs(s.rtt)}</span>
+                  <span>jitter {formatMs(s.upstream.jitter)}</span>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {/* Ban list */}
+      {showBans && onFetchBans && (
+        <div className="max-h-[45%] overflow-y-auto border-b border-white/5 p-2 space-y-1 shrink-0 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+          {bans === null ? (
+            <p className="text-white/40 text-xs px-2 py-3 text-center">Loading…</p>
+          ) : bans.length === 0 ? (
+            <p className="text-white/40 text-xs px-2 py-3 text-center">Nobody is banned</p>
+          ) : (
+            bans.map((ban) => (
+              <div key={ban.userId} className="flex items-center gap-3 p-2.5 rounded-lg bg-white/[0.03]">
+                <div className="flex-1 min-w-0">
+                  <div className="text-white text-xs font-medium truncate">{ban.displayName}</div>
+                  {ban.reason && <div className="text-[10px] text-white/40 truncate">{ban.reason}</div>}
+                </div>
+                {onUnban && (
+                  <button
+                    onClick={() => handleUnban(ban.userId)}
+                    className="px-2.5 py-1 text-[10px] font-semibold uppercase tracking-wider text-white/70 bg-white/5 hover:bg-white/10 border border-white/10 rounded-md transition-all"
+                  >
+                    Unban
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
       {/* Participant list */}
       <div className="flex-1 overflow-y-auto p-2 space-y-0.5 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
         {/* Local user (you) */}
@@ -76,6 +233,9 @@ export function ParticipantsPanel({
                 {p.role === 'co_host' && (
                   <span className="text-[9px] px-1.5 py-0.5 rounded bg-teal-500/15 text-teal-400 font-bold tracking-wider uppercase">Co-Host</span>
                 )}
+                {p.onStage && (
+                  <span className="text-[9px] px-1.5 py-0.5 rounded bg-purple-500/15 text-purple-400 font-bold tracking-wider uppercase">On Stage</span>
+                )}
               </div>
               <div className="flex items-center gap-2 mt-0.5">
                 {p.isMuted && (
@@ -90,6 +250,9 @@ export function ParticipantsPanel({
                 {p.handRaised && (
                   <span className="text-[10px] text-amber-400">✋</span>
                 )}
+                {p.reconnecting && (
+                  <span className="text-[10px] text-amber-300/80">Reconnecting…</span>
+                )}
               </div>
             </div>
 
@@ -105,6 +268,59 @@ export function ParticipantsPanel({
                 </svg>
               </button>
 
+              {isHost && p.role !== 'host' && p.isMuted && onRequestUnmute && (
+                <button
+                  onClick={() => onRequestUnmute(pUserId)}
+                  className="p-1.5 rounded-md hover:bg-white/10 text-white/40 hover:text-white/80 transition-colors"
+                  title="Ask to unmute"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+                  </svg>
+                </button>
+              )}
+
+              {isHost && p.role !== 'host' && !p.isMuted && onMuteUser && (
+                <button
+                  onClick={() => onMuteUser(pUserId)}
+                  className="p-1.5 rounded-md hover:bg-red-500/15 text-white/30 hover:text-red-400 transition-colors"
+                  title="Mute"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                    <line x1="1" y1="1" x2="23" y2="23" />
+                    <path d="M9 9v3a3 3 0 005.12 2.12M15 9.34V4a3 3 0 00-5.94-.6" />
+                  </svg>
+                </button>
+              )}
+
+              {onToggleStage && p.role === 'participant' && (
+                <button
+                  onClick={() => onToggleStage(pUserId, !p.onStage)}
+                  className="p-1.5 rounded-md hover:bg-white/10 text-white/40 hover:text-white/80 transition-colors"
+                  title={p.onStage ? 'Remove from stage' : 'Invite to stage'}
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                    {p.onStage ? (
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M19 14l-7 7m0 0l-7-7m7 7V3" />
+                    ) : (
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M5 10l7-7m0 0l7 7m-7-7v18" />
+                    )}
+                  </svg>
+                </button>
+              )}
+
+              {isHost && p.role !== 'host' && onBan && (
+                <button
+                  onClick={() => handleBan(pUserId)}
+                  className="p-1.5 rounded-md hover:bg-red-500/15 text-white/30 hover:text-red-400 transition-colors"
+                  title="Ban from meeting"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                  </svg>
+                </button>
+              )}
+
               {isHost && (
                 <button
                   onClick={() => onKick(pUserId)}
@@ -0,0 +1,347 @@
+import { useState } from 'react';
+import { MAX_POLL_OPTIONS } from '@contract';
+import type { CreatePollPayload, Poll, PollType } from '../types/chat.types';
+
+interface PollsProps {
+    polls: Poll[];
+    onCreatePoll: (poll: CreatePollPayload) => void;
+    onVote: (pollId: string, optionIds: string[]) => void;
+    onClosePoll: (pollId: string) => void;
+    isHost: boolean;
+}
+
+const POLL_TYPE_LABELS: Record<PollType, string> = {
+    single: 'Single choice',
+    multiple: 'Multiple choice',
+    rating: 'Rating',
+};
+
+export function Polls({
+    polls,
+    onCreatePoll,
+    onVote,
+    onClosePoll,
+    isHost,
+}: PollsProps) {
+    const [isCreating, setIsCreating] = useState(false);
+
+    return (
+        <div className="flex flex-col h-full">
+            {/* Polls List */}
+            <div className="flex-1 overflow-y-auto p-3 space-y-2.5 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+                {isHost && isCreating && (
+                    <CreatePollForm
+                        onCreate={(poll) => {
+                            onCreatePoll(poll);
+                            setIsCreating(false);
+                        }}
+                        onCancel={() => setIsCreating(false)}
+                    />
+                )}
+
+                {polls.length === 0 && !isCreating ? (
+                    <div className="h-full flex flex-col items-center justify-center text-white/30 space-y-2">
+                        <svg className="w-10 h-10 opacity-40" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="1.5">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                        </svg>
+                        <div className="text-center">
+                            <p className="text-xs font-medium text-white/40">No polls yet</p>
+                            <p className="text-[10px] mt-0.5 text-white/25">
+                                {isHost ? 'Start one to check in with the room' : 'Polls from the host will show up here'}
+                            </p>
+                        </div>
+                    </div>
+                ) : (
+                    polls.map((poll) => (
+                        <PollCard
+                            key={poll.id}
+                            poll={poll}
+                            onVote={onVote}
+                            onClose={onClosePoll}
+                            isHost={isHost}
+                        />
+                    ))
+                )}
+            </div>
+
+            {isHost && !isCreating && (
+                <div className="p-3 border-t border-white/5">
+                    <button
+                        onClick={() => setIsCreating(true)}
+                        className="w-full flex items-center justify-center gap-1.5 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-500 active:scale-[0.98] transition-all"
+                    >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+                        </svg>
+                        New poll
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function CreatePollForm({
+    onCreate,
+    onCancel,
+}: {
+    onCreate: (poll: CreatePollPayload) => void;
+    onCancel: () => void;
+}) {
+    const [question, setQuestion] = useState('');
+    const [type, setType] = useState<PollType>('single');
+    const [options, setOptions] = useState<string[]>(['', '']);
+    const [scale, setScale] = useState(5);
+    const [anonymous, setAnonymous] = useState(false);
+
+    const filledOptions = options.map(o => o.trim()).filter(Boolean);
+    const canSubmit = question.trim().length > 0 && (type === 'rating' || filledOptions.length >= 2);
+
+    const handleSubmit = () => {
+        if (!canSubmit) return;
+        onCreate({
+            question: question.trim(),
+            type,
+            ...(type === 'rating' ? { scale } : { options: filledOptions }),
+            anonymous,
+        });
+    };
+
+    const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg text-white placeholder:text-white/30 focus:ring-1 focus:ring-blue-500/50 focus:border-blue-500/50 focus:outline-none py-1.5 px-2.5 text-sm transition-all';
+
+    return (
+        <div className="flex flex-col gap-2.5 p-3 rounded-lg border bg-white/[0.03] border-white/10">
+            <textarea
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                placeholder="Ask the room..."
+                maxLength={500}
+                rows={2}
+                className={`${inputClass} resize-none`}
+            />
+
+            <div className="flex gap-1">
+                {(Object.keys(POLL_TYPE_LABELS) as PollType[]).map((t) => (
+                    <button
+                        key={t}
+                        onClick={() => setType(t)}
+                        className={`flex-1 px-2 py-1 rounded-md text-[11px] font-medium transition-all ${type === t
+                            ? 'bg-blue-500/15 text-blue-400 border border-blue-500/20'
+                            : 'bg-white/5 text-white/40 hover:bg-white/10 border border-transparent'
+                            }`}
+                    >
+                        {POLL_TYPE_LABELS[t]}
+                    </button>
+                ))}
+            </div>
+
+            {type === 'rating' ? (
+                <label className="flex items-center justify-between text-xs text-white/60">
+                    Scale
+                    <select
+                        value={scale}
+                        onChange={(e) => setScale(Number(e.target.value))}
+                        className="bg-white/5 border border-white/10 rounded-md text-white text-xs py-1 px-2 focus:outline-none"
+                    >
+                        {Array.from({ length: 9 }, (_, i) => i + 2).map((n) => (
+                            <option key={n} value={n} className="bg-neutral-900">1 – {n}</option>
+                        ))}
+                    </select>
+                </label>
+            ) : (
+                <div className="flex flex-col gap-1.5">
+                    {options.map((option, index) => (
+                        <div key={index} className="flex items-center gap-1.5">
+                            <input
+                                value={option}
+                                onChange={(e) => setOptions(prev => prev.map((o, i) => (i === index ? e.target.value : o)))}
+                                placeholder={`Option ${index + 1}`}
+                                maxLength={200}
+                                className={inputClass}
+                            />
+                            {options.length > 2 && (
+                                <button
+                                    onClick={() => setOptions(prev => prev.filter((_, i) => i !== index))}
+                                    className="p-1 hover:bg-red-500/15 text-red-400/70 hover:text-red-400 rounded transition-colors"
+                                    title="Remove option"
+                                >
+                                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                                    </svg>
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    {options.length < MAX_POLL_OPTIONS && (
+                        <button
+                            onClick={() => setOptions(prev => [...prev, ''])}
+                            className="self-start text-[11px] font-medium text-blue-400 hover:text-blue-300 transition-colors"
+                        >
+                            + Add option
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <label className="flex items-center gap-2 text-xs text-white/60 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={anonymous}
+                    onChange={(e) => setAnonymous(e.target.checked)}
+                    className="accent-blue-500"
+                />
+                Anonymous — nobody sees who voted for what
+            </label>
+
+            <div className="flex justify-end gap-1.5">
+                <button
+                    onClick={onCancel}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white/5 text-white/60 hover:bg-white/10 transition-colors"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={handleSubmit}
+                    disabled={!canSubmit}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${canSubmit
+                        ? 'bg-blue-600 text-white hover:bg-blue-500 active:scale-95'
+                        : 'bg-white/5 text-white/20 cursor-not-allowed'
+                        }`}
+                >
+                    Start poll
+                </button>
+            </div>
+        </div>
+    );
+}
+
+function PollCard({
+    poll,
+    onVote,
+    onClose,
+    isHost,
+}: {
+    poll: Poll;
+    onVote: (pollId: string, optionIds: string[]) => void;
+    onClose: (pollId: string) => void;
+    isHost: boolean;
+}) {
+    const [selected, setSelected] = useState<string[]>(poll.myVotes);
+    const hasVoted = poll.myVotes.length > 0;
+    const showResults = hasVoted || poll.closed || isHost;
+    const totalVotes = poll.options.reduce((sum, o) => sum + o.votes, 0);
+
+    const toggleOption = (optionId: string) => {
+        if (poll.closed) return;
+        if (poll.type === 'multiple') {
+            setSelected(prev => (prev.includes(optionId) ? prev.filter(id => id !== optionId) : [...prev, optionId]));
+        } else if (poll.type === 'rating') {
+            // A rating is a single tap
+            setSelected([optionId]);
+            onVote(poll.id, [optionId]);
+        } else {
+            setSelected([optionId]);
+        }
+    };
+
+    const selectionChanged = selected.length !== poll.myVotes.length || selected.some(id => !poll.myVotes.includes(id));
+
+    return (
+        <div className={`flex flex-col gap-2 p-3 rounded-lg border ${poll.closed ? 'bg-white/[0.02] border-white/5' : 'bg-white/[0.03] border-white/10'}`}>
+            <div className="flex items-start justify-between gap-2">
+                <div>
+                    <p className="text-sm text-white/90 font-medium leading-snug">{poll.question}</p>
+                    <span className="text-[9px] text-white/30">
+                        {POLL_TYPE_LABELS[poll.type]}
+                        {poll.anonymous && ' · Anonymous'}
+                        {' · '}{poll.totalVoters} {poll.totalVoters === 1 ? 'voter' : 'voters'}
+                    </span>
+                </div>
+                {poll.closed ? (
+                    <span className="text-[10px] font-semibold text-white/40 bg-white/5 px-1.5 py-0.5 rounded shrink-0">Closed</span>
+                ) : isHost && (
+                    <button
+                        onClick={() => onClose(poll.id)}
+                        className="text-[10px] font-semibold text-red-400/80 hover:text-red-400 hover:bg-red-500/15 px-1.5 py-0.5 rounded transition-colors shrink-0"
+                        title="Stop accepting votes"
+                    >
+                        End poll
+                    </button>
+                )}
+            </div>
+
+            {poll.type === 'rating' ? (
+                <div className="flex flex-wrap gap-1">
+                    {poll.options.map((option) => (
+                        <button
+                            key={option.id}
+                            onClick={() => toggleOption(option.id)}
+                            disabled={poll.closed}
+                            className={`min-w-8 px-2 py-1 rounded-md text-xs font-semibold transition-all ${selected.includes(option.id)
+                                ? 'bg-blue-500/20 text-blue-300 border border-blue-500/30'
+                                : 'bg-white/5 text-white/50 border border-transparent enabled:hover:bg-white/10'
+                                } disabled:cursor-default`}
+                            title={showResults ? `${option.votes} ${option.votes === 1 ? 'vote' : 'votes'}` : undefined}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            ) : (
+                <div className="flex flex-col gap-1.5">
+                    {poll.options.map((option) => {
+                        const percent = totalVotes > 0 ? Math.round((option.votes / totalVotes) * 100) : 0;
+                        const isSelected = selected.includes(option.id);
+                        return (
+                            <button
+                                key={option.id}
+                                onClick={() => toggleOption(option.id)}
+                                disabled={poll.closed}
+                                className={`relative overflow-hidden text-left px-2.5 py-1.5 rounded-md border transition-colors disabled:cursor-default ${isSelected
+                                    ? 'border-blue-500/30'
+                                    : 'border-white/5 enabled:hover:border-white/15'
+                                    }`}
+                            >
+                                {showResults && (
+                                    <div
+                                        className={`absolute inset-y-0 left-0 ${isSelected ? 'bg-blue-500/20' : 'bg-white/[0.06]'}`}
+                                        style={{ width: `${percent}%` }}
+                                    />
+                                )}
+                                <div className="relative flex items-center justify-between gap-2">
+                                    <span className="flex items-center gap-2 text-xs text-white/80">
+                                        <span className={`w-3 h-3 shrink-0 border ${poll.type === 'multiple' ? 'rounded-sm' : 'rounded-full'} ${isSelected ? 'bg-blue-500 border-blue-500' : 'border-white/30'}`} />
+                                        {option.label}
+                                    </span>
+                                    {showResults && (
+                                        <span className="text-[10px] font-medium text-white/50 shrink-0">{percent}% · {option.votes}</span>
+                                    )}
+                                </div>
+                                {option.voters && option.voters.length > 0 && (
+                                    <p className="relative mt-0.5 pl-5 text-[10px] text-white/35 truncate">
+                                        {option.voters.map(v => v.displayName).join(', ')}
+                                    </p>
+                                )}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {poll.type === 'rating' && showResults && poll.averageRating !== null && (
+                <p className="text-[11px] text-white/50">
+                    Average <span className="font-semibold text-white/80">{poll.averageRating.toFixed(1)}</span> / {poll.options.length}
+                </p>
+            )}
+
+            {poll.type !== 'rating' && !poll.closed && selectionChanged && selected.length > 0 && (
+                <button
+                    onClick={() => onVote(poll.id, selected)}
+                    className="self-end px-3 py-1 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-500 active:scale-95 transition-all"
+                >
+                    {hasVoted ? 'Change vote' : 'Vote'}
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { useCountdown, formatCountdown } from './BreakoutRooms';
+import type { ActiveQuiz, QuizAnswerDraft, QuizItem, QuizScore } from '../types/quiz.types';
+
+interface QuizOverlayProps {
+    quiz: ActiveQuiz | null;
+    submitted: boolean;
+    result: QuizScore | null;
+    onSubmit: (answers: QuizAnswerDraft[]) => void;
+    onDismissResult: () => void;
+}
+
+/**
+ * The quiz as a student takes it: one sheet with every question and the
+ * clock. Whatever is filled in is handed in when the time runs out.
+ * Key it by quiz ID so each quiz starts with a blank sheet.
+ */
+export function QuizOverlay({ quiz, submitted, result, onSubmit, onDismissResult }: QuizOverlayProps) {
+    const [answers, setAnswers] = useState<Record<string, QuizAnswerDraft>>({});
+    const [minimized, setMinimized] = useState(false);
+    const secondsLeft = useCountdown(quiz && !submitted ? new Date(quiz.endsAt).getTime() : null);
+
+    useEffect(() => {
+        if (secondsLeft === 0 && !submitted) {
+            onSubmit(Object.values(answers));
+        }
+    }, [secondsLeft, submitted, answers, onSubmit]);
+
+    if (result) {
+        return (
+            <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 text-foreground">
+                <div className="bg-card border border-border rounded-3xl p-6 max-w-sm w-full shadow-2xl flex flex-col items-center text-center animate-slide-up">
+                    <h2 className="text-lg font-bold mb-1">Quiz handed in</h2>
+                    <p className="text-4xl font-bold tabular-nums my-3">
+                        {result.score}<span className="text-muted-foreground text-2xl"> / {result.maxScore}</span>
+                    </p>
+                    <p className="text-sm text-muted-foreground mb-6">
+                        {result.pendingGrading
+                            ? 'Some answers will be scored by your teacher; your final score may go up.'
+                            : 'You can find this score on your dashboard.'}
+                    </p>
+                    <button
+                        onClick={onDismissResult}
+                        className="w-full py-3 text-sm font-bold bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl transition-colors"
+                    >
+                        Back to class
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (!quiz || submitted) return null;
+
+    const answeredCount = quiz.items.filter(item => isAnswered(answers[item.id])).length;
+
+    if (minimized) {
+        return (
+            <button
+                onClick={() => setMinimized(false)}
+                className="fixed top-16 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-2 px-4 py-1.5 rounded-full bg-blue-600 text-white text-xs font-semibold shadow-lg hover:bg-blue-500 transition-colors"
+            >
+                {quiz.title} · {answeredCount}/{quiz.items.length} answered
+                {secondsLeft !== null && <span className="font-mono">{formatCountdown(secondsLeft)}</span>}
+            </button>
+        );
+    }
+
+    const setAnswer = (itemId: string, update: Partial<QuizAnswerDraft>) => {
+        setAnswers(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...update, itemId } }));
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 text-foreground">
+            <div className="bg-card border border-border rounded-3xl max-w-2xl w-full max-h-[85vh] shadow-2xl flex flex-col overflow-hidden animate-slide-up">
+                <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-border shrink-0">
+                    <div className="min-w-0">
+                        <h2 className="text-lg font-bold truncate">{quiz.title}</h2>
+                        <p className="text-xs text-muted-foreground">
+                            {answeredCount} of {quiz.items.length} answered
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                        {secondsLeft !== null && (
+                            <span className={`font-mono text-sm font-semibold px-2.5 py-1 rounded-lg ${secondsLeft <= 30 ? 'bg-red-500/15 text-red-500' : 'bg-muted text-foreground'}`}>
+                                {formatCountdown(secondsLeft)}
+                            </span>
+                        )}
+                        <button
+                            onClick={() => setMinimized(true)}
+                            className="p-2 rounded-lg hover:bg-muted/50 text-muted-foreground transition-colors"
+                            title="Minimize"
+                        >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M20 12H4" />
+                            </svg>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+                    {quiz.items.map((item, index) => (
+                        <QuizQuestionField
+                            key={item.id}
+                            item={item}
+                            index={index}
+                            answer={answers[item.id]}
+                            onChange={(update) => setAnswer(item.id, update)}
+                        />
+                    ))}
+                </div>
+
+                <div className="px-6 py-4 border-t border-border shrink-0">
+                    <button
+                        onClick={() => onSubmit(Object.values(answers))}
+                        className="w-full py-3 text-sm font-bold bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl transition-colors"
+                    >
+                        Hand in
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function QuizQuestionField({
+    item,
+    index,
+    answer,
+    onChange,
+}: {
+    item: QuizItem;
+    index: number;
+    answer: QuizAnswerDraft | undefined;
+    onChange: (update: Partial<QuizAnswerDraft>) => void;
+}) {
+    const picked = answer?.choices ?? [];
+
+    const toggleChoice = (choice: number) => {
+        if (item.type === 'multiple') {
+            onChange({ choices: picked.includes(choice) ? picked.filter(c => c !== choice) : [...picked, choice] });
+        } else {
+            onChange({ choices: [choice] });
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-start justify-between gap-3">
+                <p className="text-sm font-medium leading-relaxed">
+                    <span className="text-muted-foreground mr-1.5">{index + 1}.</span>
+                    {item.prompt}
+                </p>
+                <span className="text-[10px] font-semibold text-muted-foreground bg-muted px-1.5 py-0.5 rounded shrink-0">
+                    {item.points} {item.points === 1 ? 'pt' : 'pts'}
+                </span>
+            </div>
+
+            {item.type === 'single' || item.type === 'multiple' ? (
+                <div className="space-y-1.5">
+                    {item.type === 'multiple' && (
+                        <p className="text-[11px] text-muted-foreground">Pick every correct answer</p>
+                    )}
+                    {item.choices.map((choice, i) => (
+                        <label
+                            key={i}
+                            className={`flex items-center gap-2.5 px-3 py-2 rounded-xl border text-sm cursor-pointer transition-colors ${picked.includes(i)
+                                ? 'border-primary/50 bg-primary/5'
+                                : 'border-border hover:bg-muted/40'
+                                }`}
+                        >
+                            <input
+                                type={item.type === 'multiple' ? 'checkbox' : 'radio'}
+                                name={item.id}
+                                checked={picked.includes(i)}
+                                onChange={() => toggleChoice(i)}
+                                className="accent-primary"
+                            />
+                            {choice}
+                        </label>
+                    ))}
+                </div>
+            ) : item.type === 'short_answer' ? (
+                <input
+                    value={answer?.text ?? ''}
+                    onChange={(e) => onChange({ text: e.target.value })}
+                    maxLength={2000}
+                    placeholder="Your answer"
+                    className="w-full px-3 py-2 rounded-xl border border-border bg-background text-sm focus:outline-none focus:ring-1 focus:ring-primary/50"
+                />
+            ) : (
+                <textarea
+                    value={answer?.text ?? ''}
+                    onChange={(e) => onChange({ text: e.target.value })}
+                    maxLength={2000}
+                    rows={4}
+                    placeholder="Your answer"
+                    className="w-full px-3 py-2 rounded-xl border border-border bg-background text-sm resize-none focus:outline-none focus:ring-1 focus:ring-primary/50"
+                />
+            )}
+        </div>
+    );
+}
+
+function isAnswered(answer: QuizAnswerDraft | undefined): boolean {
+    return !!answer && ((answer.choices?.length ?? 0) > 0 || !!answer.text?.trim());
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { useAuthStore } from '../store/auth.store';
+import { subjectsApi } from '../services/subjects.service';
+import { quizzesApi } from '../services/quizzes.service';
+import type { Subject } from '../services/subjects.service';
+import type { QuizQuestion } from '../services/quizzes.service';
+import { useCountdown, formatCountdown } from './BreakoutRooms';
+import type { ActiveQuiz, LaunchQuizPayload } from '../types/quiz.types';
+
+const DURATION_OPTIONS = [60, 120, 300, 600, 900, 1200, 1800];
+
+const QUESTION_TYPE_LABELS: Record<QuizQuestion['type'], string> = {
+  single: 'Single choice',
+  multiple: 'Multiple choice',
+  short_answer: 'Short answer',
+  open: 'Open',
+};
+
+interface QuizPanelProps {
+  quiz: ActiveQuiz | null;
+  submittedCount: number;
+  onLaunch: (payload: LaunchQuizPayload) => void;
+  onEnd: () => void;
+}
+
+/** Host side: pick questions from a subject's bank, start the clock, watch hand-ins */
+export function QuizPanel({ quiz, submittedCount, onLaunch, onEnd }: QuizPanelProps) {
+  const token = useAuthStore((s) => s.token);
+  const userRole = useAuthStore((s) => s.role);
+  const secondsLeft = useCountdown(quiz ? new Date(quiz.endsAt).getTime() : null);
+
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [subjectId, setSubjectId] = useState('');
+  const [bank, setBank] = useState<{ subjectId: string; questions: QuizQuestion[] } | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [title, setTitle] = useState('');
+  const [duration, setDuration] = useState(300);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    const load = userRole === 'ADMIN'
+      ? subjectsApi.getAll(token)
+      : subjectsApi.getMySubjects(token).then((entries) => entries.map((e) => e.subject));
+    load
+      .then((list) => {
+        const active = list.filter((s) => s.isActive);
+        setSubjects(active);
+        if (active.length > 0) setSubjectId(active[0].id);
+      })
+      .catch((err) => setError((err as Error).message));
+  }, [token, userRole]);
+
+  useEffect(() => {
+    if (!token || !subjectId) return;
+    quizzesApi.getQuestions(token, subjectId)
+      .then((questions) => setBank({ subjectId, questions }))
+      .catch((err) => setError((err as Error).message));
+  }, [token, subjectId]);
+
+  const loadingQuestions = bank?.subjectId !== subjectId;
+  const questions = bank?.questions ?? [];
+
+  if (quiz) {
+    return (
+      <div className="flex flex-col h-full">
+        <div className="h-12 flex items-center justify-between px-4 border-b border-white/5 shrink-0">
+          <h2 className="text-white text-sm font-semibold truncate">
+            {quiz.title}
+            {secondsLeft !== null && (
+              <span className="ml-1.5 text-amber-300 text-xs font-mono">{formatCountdown(secondsLeft)}</span>
+            )}
+          </h2>
+          <button
+            onClick={onEnd}
+            className="px-2.5 py-1 text-[10px] font-semibold uppercase tracking-wider text-red-400 bg-red-500/10 hover:bg-red-500/20 border border-red-500/15 rounded-md transition-all shrink-0"
+          >
+            End Quiz
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="p-4 rounded-lg bg-white/[0.03] border border-white/5 text-center">
+            <p className="text-3xl font-bold text-white tabular-nums">{submittedCount}</p>
+            <p className="text-xs text-white/50 mt-1">
+              {submittedCount === 1 ? 'student has' : 'students have'} handed in
+            </p>
+          </div>
+          <ol className="space-y-1.5 list-decimal list-inside">
+            {quiz.items.map((item) => (
+              <li key={item.id} className="text-xs text-white/70 truncate">{item.prompt}</li>
+            ))}
+          </ol>
+          <p className="text-[11px] text-white/40">
+            Scores and open answers to grade are on your dashboard once the quiz ends.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const canLaunch = !!subjectId && selected.length > 0 && title.trim().length > 0;
+
+  const toggleQuestion = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((q) => q !== id) : [...prev, id]));
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="h-12 flex items-center px-4 border-b border-white/5 shrink-0">
+        <h2 className="text-white text-sm font-semibold">Quiz</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Quiz title"
+          maxLength={200}
+          className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm placeholder:text-white/30 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+        />
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="space-y-1 text-[11px] text-white/50">
+            Subject
+            <select
+              value={subjectId}
+              onChange={(e) => {
+                setSubjectId(e.target.value);
+                setSelected([]);
+              }}
+              className="w-full px-2 py-1.5 bg-white/5 border border-white/10 rounded-md text-white text-xs focus:outline-none"
+            >
+              {subjects.map((s) => (
+                <option key={s.id} value={s.id} className="bg-neutral-900">{s.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-[11px] text-white/50">
+            Time limit
+            <select
+              value={duration}
+              onChange={(e) => setDuration(Number(e.target.value))}
+              className="w-full px-2 py-1.5 bg-white/5 border border-white/10 rounded-md text-white text-xs focus:outline-none"
+            >
+              {DURATION_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds} className="bg-neutral-900">{seconds / 60} min</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <div className="space-y-1.5">
+          <p className="text-[11px] text-white/50">
+            Questions {selected.length > 0 && `(${selected.length} picked)`}
+          </p>
+          {subjects.length === 0 ? (
+            <p className="text-xs text-white/40">You have no subjects assigned yet.</p>
+          ) : loadingQuestions ? (
+            <p className="text-xs text-white/40">Loading question bank...</p>
+          ) : questions.length === 0 ? (
+            <p className="text-xs text-white/40">
+              This subject&apos;s question bank is empty. Add questions from My Subjects on your dashboard.
+            </p>
+          ) : (
+            questions.map((q) => (
+              <label
+                key={q.id}
+                className={`flex items-start gap-2 p-2 rounded-lg border cursor-pointer transition-colors ${selected.includes(q.id)
+                  ? 'bg-blue-500/10 border-blue-500/25'
+                  : 'bg-white/[0.03] border-white/5 hover:border-white/15'
+                  }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(q.id)}
+                  onChange={() => toggleQuestion(q.id)}
+                  className="mt-0.5 accent-blue-500"
+                />
+                <span className="min-w-0">
+                  <span className="block text-xs text-white/85 line-clamp-2">{q.prompt}</span>
+                  <span className="text-[10px] text-white/40">
+                    {QUESTION_TYPE_LABELS[q.type]} · {q.points} {q.points === 1 ? 'pt' : 'pts'}
+                  </span>
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-white/5 shrink-0">
+        <button
+          onClick={() => onLaunch({ title: title.trim(), subjectId, questionIds: selected, durationSeconds: duration })}
+          disabled={!canLaunch}
+          className="w-full py-2 text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Start Quiz
+        </button>
+      </div>
+    </div>
+  );
+}
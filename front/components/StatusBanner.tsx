@@ -3,6 +3,7 @@ import { useRoomStore } from '../store/room.store';
 
 export function StatusBanner() {
   const connectionState = useRoomStore((s) => s.connectionState);
+  const mediaRecovery = useRoomStore((s) => s.mediaRecovery);
   const error = useRoomStore((s) => s.error);
   const kickReason = useRoomStore((s) => s.kickReason);
   const [showError, setShowError] = useState(false);
@@ -17,8 +18,12 @@ export function StatusBanner() {
 
   const isReconnecting = connectionState === 'reconnecting';
   const isFailed = connectionState === 'failed';
+  // Signaling problems take precedence; media recovery can't finish without it
+  const isRecoveringMedia = !isReconnecting && !isFailed
+    && (mediaRecovery === 'restarting_ice' || mediaRecovery === 'recreating_transports');
+  const isMediaFailed = !isReconnecting && !isFailed && mediaRecovery === 'failed';
 
-  if (!isReconnecting && !isFailed && !showError && !kickReason) {
+  if (!isReconnecting && !isFailed && !isRecoveringMedia && !isMediaFailed && !showError && !kickReason) {
     return null;
   }
 
@@ -32,6 +37,25 @@ export function StatusBanner() {
         </div>
       )}
 
+      {/* Media recovery (ICE restart / transport rebuild) */}
+      {isRecoveringMedia && (
+        <div className="flex items-center gap-2.5 px-4 py-2.5 bg-amber-500/15 border border-amber-500/20 rounded-lg shadow-lg backdrop-blur-sm">
+          <div className="w-4 h-4 rounded-full border-2 border-amber-500/30 border-t-amber-500 animate-spin" />
+          <span className="text-amber-400 text-sm font-medium">
+            {mediaRecovery === 'restarting_ice' ? 'Network changed, reconnecting media...' : 'Re-establishing media connection...'}
+          </span>
+        </div>
+      )}
+
+      {isMediaFailed && (
+        <div className="flex items-center gap-2.5 px-4 py-2.5 bg-red-500/15 border border-red-500/20 rounded-lg shadow-lg backdrop-blur-sm">
+          <svg className="w-4 h-4 text-red-400 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16.5c-.77.833.192 2.5 1.732 2.5z" />
+          </svg>
+          <span className="text-red-400 text-sm font-medium">Media connection lost. Try rejoining.</span>
+        </div>
+      )}
+
       {/* Failed */}
       {isFailed && (
         <div className="flex items-center gap-2.5 px-4 py-2.5 bg-red-500/15 border border-red-500/20 rounded-lg shadow-lg backdrop-blur-sm">
@@ -4,29 +4,59 @@ import { VideoTile } from './VideoTile';
 import { useMediaStore } from '../store/media.store';
 import { useParticipantsStore } from '../store/participants.store';
 import { useAuthStore } from '../store/auth.store';
-import type { RemoteParticipant } from '../types';
+import { useRoomStore } from '../store/room.store';
+import type { RemoteParticipant, VideoQuality } from '../types';
+
+interface VideoGridProps {
+  /** Called with the simulcast quality each remote video should receive */
+  onVideoQualityChange?: (userId: string, quality: VideoQuality) => void;
+}
 
 /**
  * Dynamic grid of video tiles that adapts layout based on participant count.
- * Supports 1–30 participants.
+ * Supports 1–30 participants. In webinars only the stage gets tiles; the
+ * audience is summarised as a count.
  */
-export function VideoGrid() {
+export function VideoGrid({ onVideoQualityChange }: VideoGridProps = {}) {
   const localStream = useMediaStore((s) => s.localStream);
   const isMicOn = useMediaStore((s) => s.isMicOn);
   const isCameraOn = useMediaStore((s) => s.isCameraOn);
   const participants = useParticipantsStore((s) => s.participants);
   const activeSpeakerId = useParticipantsStore((s) => s.activeSpeakerId);
+  const audioLevels = useParticipantsStore((s) => s.audioLevels);
+  const pinnedUserId = useParticipantsStore((s) => s.pinnedUserId);
+  const connectionQuality = useParticipantsStore((s) => s.connectionQuality);
+  const setPinnedUser = useParticipantsStore((s) => s.setPinnedUser);
   const localHandRaised = useParticipantsStore((s) => s.localHandRaised);
   const localReaction = useParticipantsStore((s) => s.localReaction);
   const localUserId = useAuthStore((s) => s.userId);
   const localDisplayName = useAuthStore((s) => s.displayName);
+  const roomType = useRoomStore((s) => s.roomType);
+  const localRole = useRoomStore((s) => s.role);
+  const localOnStage = useRoomStore((s) => s.onStage);
+
+  const isWebinar = roomType === 'webinar';
+  const showLocal = !isWebinar || localRole !== 'participant' || localOnStage;
 
   const [page, setPage] = useState(0);
   const PAGE_SIZE = 16;
 
+  const attendeeCount = useMemo(() => {
+    if (!isWebinar) return 0;
+    let count = showLocal ? 0 : 1;
+    for (const p of participants.values()) {
+      if (!isOnStage(p)) count++;
+    }
+    return count;
+  }, [isWebinar, showLocal, participants]);
+
   const remoteList = useMemo(
     () => {
-      const sorted = Array.from(participants.values()).sort((a, b) => {
+      const stage = Array.from(participants.values()).filter((p) => !isWebinar || isOnStage(p));
+      const sorted = stage.sort((a, b) => {
+        // Priority 0: Pinned
+        if (a.userId === pinnedUserId) return -1;
+        if (b.userId === pinnedUserId) return 1;
         // Priority 1: Active Speaker
         if (a.userId === activeSpeakerId) return -1;
         if (b.userId === activeSpeakerId) return 1;
@@ -40,11 +70,12 @@ export function VideoGrid() {
       });
       return sorted;
     },
-    [participants, activeSpeakerId],
+    [participants, isWebinar, activeSpeakerId, pinnedUserId],
   );
 
   const totalRemoteCount = remoteList.length;
-  const totalPages = Math.ceil((totalRemoteCount + 1) / PAGE_SIZE); // +1 for local user
+  const localSlots = showLocal ? 1 : 0;
+  const totalPages = Math.ceil((totalRemoteCount + localSlots) / PAGE_SIZE);
 
   // Reset page if out of bounds (e.g. participants left)
   useEffect(() => {
@@ -61,16 +92,35 @@ export function VideoGrid() {
 
     if (page === 0) {
       // Page 0: Local + first 15 remotes
-      items = ['local', ...remoteList.slice(0, PAGE_SIZE - 1)];
+      items = showLocal
+        ? ['local', ...remoteList.slice(0, PAGE_SIZE - 1)]
+        : remoteList.slice(0, PAGE_SIZE);
     } else {
       // Page > 0: Remotes only (shifted by -1 because local took a spot on page 0)
-      const remoteStart = (page * PAGE_SIZE) - 1;
+      const remoteStart = (page * PAGE_SIZE) - localSlots;
       const remoteEnd = remoteStart + PAGE_SIZE;
       items = remoteList.slice(remoteStart, remoteEnd);
     }
     return items;
-  }, [page, remoteList, PAGE_SIZE]);
+  }, [page, remoteList, PAGE_SIZE, showLocal, localSlots]);
+
+
+  // Thumbnails get the low simulcast layer; the pinned user, the active speaker
+  // and tiles in a one-on-one layout get full resolution.
+  useEffect(() => {
+    if (!onVideoQualityChange) return;
 
+    const visibleIds = new Set(
+      visibleParticipants.filter((item): item is RemoteParticipant => item !== 'local').map((p) => p.userId),
+    );
+    const largeTiles = visibleParticipants.length <= 2;
+
+    for (const p of remoteList) {
+      const isFocused = p.userId === pinnedUserId || p.userId === activeSpeakerId;
+      const quality: VideoQuality = visibleIds.has(p.userId) && (isFocused || largeTiles) ? 'high' : 'low';
+      onVideoQualityChange(p.userId, quality);
+    }
+  }, [onVideoQualityChange, visibleParticipants, remoteList, pinnedUserId, activeSpeakerId]);
 
   const gridClass = useMemo(() => getGridClass(visibleParticipants.length), [visibleParticipants.length]);
 
@@ -79,6 +129,16 @@ export function VideoGrid() {
 
   return (
     <div className="relative w-full h-full p-3 pt-16 pb-24 flex flex-col items-center justify-center">
+      {isWebinar && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-card/80 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 text-white text-xs font-medium z-50">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+          <span className="tabular-nums">
+            {attendeeCount} {attendeeCount === 1 ? 'attendee' : 'attendees'}
+          </span>
+        </div>
+      )}
       <div className={`w-full h-full ${gridClass} gap-2 overflow-y-auto scrollbar-hide`}>
         <AnimatePresence mode="popLayout">
           {visibleParticipants.map((item) => {
@@ -101,6 +161,8 @@ export function VideoGrid() {
                     isVideoOff={!isCameraOn}
                     isLocal
                     isActiveSpeaker={activeSpeakerId === localUserId}
+                    audioLevel={localUserId ? audioLevels.get(localUserId) : undefined}
+                    connectionQuality={localUserId ? connectionQuality.get(localUserId) : undefined}
                     handRaised={localHandRaised}
                     reaction={localReaction ?? undefined}
                   />
@@ -124,8 +186,13 @@ export function VideoGrid() {
                     isMuted={item.isMuted}
                     isVideoOff={item.isVideoOff}
                     isActiveSpeaker={activeSpeakerId === item.userId}
+                    audioLevel={audioLevels.get(item.userId)}
+                    isPinned={pinnedUserId === item.userId}
+                    onTogglePin={() => setPinnedUser(pinnedUserId === item.userId ? null : item.userId)}
+                    connectionQuality={connectionQuality.get(item.userId)}
                     handRaised={item.handRaised}
                     reaction={item.reaction}
+                    reconnecting={item.reconnecting}
                   />
                 </motion.div>
               );
@@ -164,6 +231,11 @@ export function VideoGrid() {
   );
 }
 
+/** Hosts, co-hosts and invited attendees make up a webinar's stage */
+function isOnStage(p: RemoteParticipant): boolean {
+  return p.role !== 'participant' || !!p.onStage;
+}
+
 /** Returns Tailwind grid classes based on participant count */
 function getGridClass(count: number): string {
   if (count <= 1) return 'flex justify-center items-center'; // Center single tile
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef, memo } from 'react';
+import type { ConnectionQuality } from '../types';
 
 interface VideoTileProps {
   videoTrack: MediaStreamTrack | null;
@@ -8,8 +9,15 @@ interface VideoTileProps {
   isVideoOff: boolean;
   isLocal?: boolean;
   isActiveSpeaker?: boolean;
+  /** Normalised speaking level (0–1); undefined when silent */
+  audioLevel?: number;
+  isPinned?: boolean;
+  onTogglePin?: () => void;
+  connectionQuality?: ConnectionQuality;
   handRaised?: boolean;
   reaction?: string;
+  /** Their connection dropped and the seat is held for them */
+  reconnecting?: boolean;
 }
 
 function VideoTileInner({
@@ -20,8 +28,13 @@ function VideoTileInner({
   isVideoOff,
   isLocal = false,
   isActiveSpeaker = false,
+  audioLevel,
+  isPinned = false,
+  onTogglePin,
+  connectionQuality,
   handRaised = false,
   reaction,
+  reconnecting = false,
 }: VideoTileProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
@@ -29,6 +42,9 @@ function VideoTileInner({
 
   // Determine if video should be showing
   const showVideo = !isVideoOff && !!videoTrack;
+  const isSpeaking = !isMuted && audioLevel !== undefined && audioLevel > 0;
+  const signalBars = connectionQuality === 'good' ? 3 : connectionQuality === 'fair' ? 2 : 1;
+  const signalColor = connectionQuality === 'good' ? 'bg-emerald-400' : connectionQuality === 'fair' ? 'bg-amber-400' : 'bg-red-400';
 
   // Attach video track
   useEffect(() => {
@@ -127,7 +143,9 @@ function VideoTileInner({
     <div
       className={`relative w-full h-full bg-card rounded-xl overflow-hidden flex items-center justify-center transition-all duration-200 group ${isActiveSpeaker
         ? 'ring-2 ring-primary ring-offset-1 ring-offset-background z-10 animate-glow-pulse'
-        : 'ring-1 ring-white/10 hover:ring-white/20'
+        : isSpeaking
+          ? 'ring-2 ring-primary/50'
+          : 'ring-1 ring-white/10 hover:ring-white/20'
         }`}
     >
       {/* Video element — always in DOM, visibility controlled */}
@@ -157,6 +175,13 @@ function VideoTileInner({
         </div>
       )}
 
+      {/* Reconnecting overlay */}
+      {reconnecting && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60 z-10">
+          <span className="text-white/80 text-xs font-semibold uppercase tracking-wider animate-pulse">Reconnecting…</span>
+        </div>
+      )}
+
       {/* Always-visible bottom name strip */}
       <div className="absolute bottom-0 inset-x-0 px-3 py-2 flex items-center justify-between z-20">
         <div className="flex items-center gap-2 px-2.5 py-1 rounded-md bg-black/60 backdrop-blur-sm max-w-[70%]">
@@ -166,8 +191,8 @@ function VideoTileInner({
               <line x1="1" y1="1" x2="23" y2="23" />
               <path d="M9 9v3a3 3 0 0 0 5.12 2.12M15 9.34V4a3 3 0 0 0-5.94-.6" />
             </svg>
-          ) : isActiveSpeaker ? (
-            <div className="flex space-x-[2px] items-end h-3.5 shrink-0">
+          ) : isActiveSpeaker || isSpeaking ? (
+            <div className="flex space-x-[2px] items-end h-3.5 shrink-0" style={{ opacity: 0.5 + (audioLevel ?? 1) / 2 }}>
               <div className="w-[3px] h-2 bg-blue-400 rounded-full animate-[music-bar_0.5s_ease-in-out_infinite]" />
               <div className="w-[3px] h-3 bg-blue-400 rounded-full animate-[music-bar_0.5s_ease-in-out_infinite_0.1s]" />
               <div className="w-[3px] h-1.5 bg-blue-400 rounded-full animate-[music-bar_0.5s_ease-in-out_infinite_0.2s]" />
@@ -183,6 +208,19 @@ function VideoTileInner({
           <span className="text-white text-xs font-medium truncate">
             {isLocal ? `${label} (You)` : label}
           </span>
+
+          {/* Connection quality */}
+          {connectionQuality && (
+            <div className="flex gap-[2px] items-end h-3 shrink-0" title={`Connection: ${connectionQuality}`}>
+              {[1, 2, 3].map((bar) => (
+                <div
+                  key={bar}
+                  className={`w-[3px] rounded-sm ${bar <= signalBars ? signalColor : 'bg-white/25'}`}
+                  style={{ height: `${bar * 4}px` }}
+                />
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -203,6 +241,21 @@ function VideoTileInner({
 
         {/* Right side controls */}
         <div className="flex gap-1.5 pointer-events-auto">
+          {onTogglePin && (
+            <button
+              onClick={onTogglePin}
+              className={`p-1.5 rounded-lg backdrop-blur-sm transition-all ${isPinned
+                ? 'bg-primary/80 hover:bg-primary text-white'
+                : 'bg-black/50 hover:bg-black/70 text-white/80 hover:text-white'
+                }`}
+              title={isPinned ? 'Unpin' : 'Pin'}
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16 3l5 5-3 1-4 4 1 5-2 2-4-4-5 5-1-1 5-5-4-4 2-2 5 1 4-4 1-3z" />
+              </svg>
+            </button>
+          )}
+
           {showVideo && (
             <button
               onClick={togglePiP}
@@ -2,6 +2,7 @@ interface WaitingParticipant {
   userId: string;
   displayName: string;
   joinedAt: number;
+  knockMessage?: string;
 }
 
 interface WaitingRoomProps {
@@ -62,6 +63,9 @@ export function WaitingRoom({ participants, onAdmit, onReject, onAdmitAll }: Wai
                 <div className="text-[10px] text-white/30 font-mono">
                   Waiting {formatWaitTime(p.joinedAt)}
                 </div>
+                {p.knockMessage && (
+                  <div className="mt-0.5 text-[11px] text-amber-200/80 italic break-words">&ldquo;{p.knockMessage}&rdquo;</div>
+                )}
               </div>
 
               <div className="flex items-center gap-1.5">
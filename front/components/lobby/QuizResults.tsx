@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import { ClipboardCheck } from 'lucide-react';
+import { useAuthStore } from '../../store/auth.store';
+import { quizzesApi } from '../../services/quizzes.service';
+import type { StudentQuizResult } from '../../services/quizzes.service';
+
+export function QuizResults() {
+    const token = useAuthStore((s) => s.token);
+    const [results, setResults] = useState<StudentQuizResult[]>([]);
+
+    useEffect(() => {
+        if (!token) return;
+
+        quizzesApi.getMyResults(token)
+            .then((data) => setResults(data.slice(0, 6)))
+            .catch((err) => console.error('Failed to fetch quiz results', err));
+    }, [token]);
+
+    if (results.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="bg-background/40 backdrop-blur-md border border-border/50 rounded-3xl p-6 space-y-4">
+            <div className="flex items-center gap-2">
+                <ClipboardCheck className="w-5 h-5 text-primary" />
+                <h3 className="text-lg font-bold">Quiz Results</h3>
+            </div>
+
+            <div className="space-y-3">
+                {results.map((result) => {
+                    const percent = result.maxScore > 0 ? Math.round((result.score / result.maxScore) * 100) : 0;
+
+                    return (
+                        <div key={result.id} className="space-y-1.5">
+                            <div className="flex items-start justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium truncate">{result.title}</p>
+                                    <p className="text-xs text-muted-foreground truncate">
+                                        {result.subject.name} · {new Date(result.submittedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                                    </p>
+                                </div>
+                                <span className="text-sm font-semibold tabular-nums shrink-0">
+                                    {result.score}<span className="text-muted-foreground font-normal"> / {result.maxScore}</span>
+                                </span>
+                            </div>
+                            <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                                <div
+                                    className="h-full rounded-full"
+                                    style={{ width: `${percent}%`, backgroundColor: result.subject.color || 'hsl(var(--primary))' }}
+                                />
+                            </div>
+                            {result.pendingGrading && (
+                                <p className="text-[11px] text-amber-600">Waiting for your teacher to grade some answers</p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
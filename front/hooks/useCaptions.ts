@@ -0,0 +1,45 @@
+import { useEffect, useState, useRef } from 'react';
+import { WS_EVENTS } from '../constants';
+import type { SignalingSocket } from './useSignaling';
+import type { CaptionSegment } from '../types';
+
+// Lines on screen at once, and how long each one stays up
+const MAX_LINES = 3;
+const LINE_TTL_MS = 7000;
+
+interface UseCaptionsProps {
+    socket: SignalingSocket | null;
+    roomId: string;
+}
+
+/** The most recent caption lines for the room, dropped again after a few seconds */
+export function useCaptions({ socket, roomId }: UseCaptionsProps) {
+    const [segments, setSegments] = useState<CaptionSegment[]>([]);
+    const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+    useEffect(() => {
+        if (!socket) return;
+        const timers = timersRef.current;
+
+        const handleSegment = (segment: CaptionSegment) => {
+            setSegments((prev) => [...prev, segment].slice(-MAX_LINES));
+            timers.set(segment.id, setTimeout(() => {
+                timers.delete(segment.id);
+                setSegments((prev) => prev.filter((s) => s.id !== segment.id));
+            }, LINE_TTL_MS));
+        };
+
+        socket.on(WS_EVENTS.CAPTIONS_SEGMENT, handleSegment);
+
+        return () => {
+            socket.off(WS_EVENTS.CAPTIONS_SEGMENT, handleSegment);
+            timers.forEach(clearTimeout);
+            timers.clear();
+        };
+    }, [socket]);
+
+    // Lines from the room we were in before a breakout move are not ours any more
+    return {
+        segments: segments.filter((s) => s.roomId === roomId),
+    };
+}
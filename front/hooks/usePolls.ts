@@ -0,0 +1,95 @@
+import { useEffect, useState, useCallback } from 'react';
+import { WS_EVENTS } from '../constants';
+import type { SignalingSocket } from './useSignaling';
+import type { CreatePollPayload, Poll } from '../types/chat.types';
+import type { PollResults } from '@contract';
+
+interface UsePollsProps {
+    socket: SignalingSocket | null;
+    roomId: string;
+}
+
+export function usePolls({ socket, roomId }: UsePollsProps) {
+    const [polls, setPolls] = useState<Poll[]>([]);
+
+    // Replace a poll's tally, keeping what we picked
+    const applyResults = useCallback((results: PollResults, myVotes?: string[]) => {
+        setPolls(prev => {
+            const existing = prev.find(p => p.id === results.id);
+            if (!existing) return [{ ...results, myVotes: myVotes ?? [] }, ...prev];
+            return prev.map(p =>
+                p.id === results.id ? { ...results, myVotes: myVotes ?? p.myVotes } : p
+            );
+        });
+    }, []);
+
+    // Start a poll (host / co-host only)
+    const createPoll = useCallback((poll: CreatePollPayload) => {
+        if (!socket) return;
+
+        socket.emit(WS_EVENTS.POLL_CREATE, { roomId, ...poll }, (response) => {
+            if (response?.success) applyResults(response.poll);
+        });
+    }, [socket, roomId, applyResults]);
+
+    // Answer a poll; voting again replaces the earlier answer
+    const vote = useCallback((pollId: string, optionIds: string[]) => {
+        if (!socket || optionIds.length === 0) return;
+
+        socket.emit(WS_EVENTS.POLL_VOTE, { roomId, pollId, optionIds }, (response) => {
+            if (response?.success) applyResults(response.poll, response.myVotes);
+        });
+    }, [socket, roomId, applyResults]);
+
+    // Stop accepting votes (host / co-host only)
+    const closePoll = useCallback((pollId: string) => {
+        if (!socket) return;
+
+        socket.emit(WS_EVENTS.POLL_CLOSE, { roomId, pollId }, (response) => {
+            if (response?.success) applyResults(response.poll);
+        });
+    }, [socket, roomId, applyResults]);
+
+    useEffect(() => {
+        if (!socket) return;
+
+        // Load the meeting's polls so far
+        socket.emit(WS_EVENTS.POLL_RESULTS, { roomId }, (response) => {
+            if (response?.polls) {
+                setPolls(response.polls);
+            }
+        });
+
+        const handlePollCreated = (data: PollResults) => applyResults(data);
+
+        // Broadcasts carry counts only: keep voter names we already have
+        // when the tally hasn't moved, e.g. for the close of a named poll
+        const handlePollUpdated = (data: PollResults) => {
+            setPolls(prev => prev.map(p => {
+                if (p.id !== data.id) return p;
+                const options = data.options.map(option => {
+                    const known = p.options.find(o => o.id === option.id);
+                    return known?.voters && known.votes === option.votes
+                        ? { ...option, voters: known.voters }
+                        : option;
+                });
+                return { ...data, options, myVotes: p.myVotes };
+            }));
+        };
+
+        socket.on(WS_EVENTS.POLL_CREATED, handlePollCreated);
+        socket.on(WS_EVENTS.POLL_UPDATED, handlePollUpdated);
+
+        return () => {
+            socket.off(WS_EVENTS.POLL_CREATED, handlePollCreated);
+            socket.off(WS_EVENTS.POLL_UPDATED, handlePollUpdated);
+        };
+    }, [socket, roomId, applyResults]);
+
+    return {
+        polls,
+        createPoll,
+        vote,
+        closePoll,
+    };
+}
@@ -1,10 +1,10 @@
 import { useEffect, useState, useCallback } from 'react';
-import { Socket } from 'socket.io-client';
 import { WS_EVENTS } from '../constants';
+import type { SignalingSocket } from './useSignaling';
 import type { Question } from '../types/chat.types';
 
 interface UseQnAProps {
-    socket: Socket | null;
+    socket: SignalingSocket | null;
     roomId: string;
     userId: string;
 }
@@ -0,0 +1,97 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { WS_EVENTS } from '../constants';
+import type { SignalingSocket } from './useSignaling';
+import type { ActiveQuiz, LaunchQuizPayload, QuizAnswerDraft, QuizScore } from '../types/quiz.types';
+
+interface UseQuizProps {
+    socket: SignalingSocket | null;
+    roomId: string;
+}
+
+export function useQuiz({ socket, roomId }: UseQuizProps) {
+    const [quiz, setQuiz] = useState<ActiveQuiz | null>(null);
+    const [submitted, setSubmitted] = useState(false);
+    const [submittedCount, setSubmittedCount] = useState(0);
+    // Kept after the quiz ends so the student can read it
+    const [result, setResult] = useState<QuizScore | null>(null);
+    const quizIdRef = useRef<string | null>(null);
+
+    const startQuiz = useCallback((next: ActiveQuiz) => {
+        if (quizIdRef.current !== next.id) {
+            quizIdRef.current = next.id;
+            setSubmitted(false);
+            setSubmittedCount(0);
+            setResult(null);
+        }
+        setQuiz(next);
+    }, []);
+
+    // Start a quiz from the subject's question bank (host / co-host only)
+    const launchQuiz = useCallback((payload: LaunchQuizPayload) => {
+        if (!socket) return;
+
+        socket.emit(WS_EVENTS.QUIZ_LAUNCH, { roomId, ...payload }, (response) => {
+            if (response?.success) startQuiz(response.quiz);
+        });
+    }, [socket, roomId, startQuiz]);
+
+    // Hand in our answers; only one submission is taken per quiz
+    const submitQuiz = useCallback((answers: QuizAnswerDraft[]) => {
+        if (!socket || !quiz || submitted) return;
+
+        setSubmitted(true);
+        socket.emit(WS_EVENTS.QUIZ_SUBMIT, { roomId, quizId: quiz.id, answers }, (response) => {
+            if (response?.success) setResult(response.result);
+        });
+    }, [socket, roomId, quiz, submitted]);
+
+    // Stop taking answers before the time is up (host / co-host only)
+    const endQuiz = useCallback(() => {
+        if (!socket || !quiz) return;
+
+        socket.emit(WS_EVENTS.QUIZ_END, { roomId, quizId: quiz.id });
+    }, [socket, roomId, quiz]);
+
+    const dismissResult = useCallback(() => setResult(null), []);
+
+    useEffect(() => {
+        if (!socket) return;
+
+        // Catch up on a quiz that started before we joined
+        socket.emit(WS_EVENTS.QUIZ_STATE, { roomId }, (response) => {
+            if (response?.quiz) {
+                startQuiz(response.quiz);
+                setSubmitted(response.submitted);
+            }
+        });
+
+        const handleQuizProgress = (data: { quizId: string; submitted: number }) => {
+            if (quizIdRef.current === data.quizId) setSubmittedCount(data.submitted);
+        };
+
+        const handleQuizEnded = (data: { quizId: string }) => {
+            if (quizIdRef.current === data.quizId) setQuiz(null);
+        };
+
+        socket.on(WS_EVENTS.QUIZ_STARTED, startQuiz);
+        socket.on(WS_EVENTS.QUIZ_PROGRESS, handleQuizProgress);
+        socket.on(WS_EVENTS.QUIZ_ENDED, handleQuizEnded);
+
+        return () => {
+            socket.off(WS_EVENTS.QUIZ_STARTED, startQuiz);
+            socket.off(WS_EVENTS.QUIZ_PROGRESS, handleQuizProgress);
+            socket.off(WS_EVENTS.QUIZ_ENDED, handleQuizEnded);
+        };
+    }, [socket, roomId, startQuiz]);
+
+    return {
+        quiz,
+        submitted,
+        submittedCount,
+        result,
+        launchQuiz,
+        submitQuiz,
+        endQuiz,
+        dismissResult,
+    };
+}
@@ -9,61 +9,112 @@ import type {
   TransportCreatedResponse,
   ProduceResponse,
   ConsumeResponse,
+  ConsumeDataResponse,
   UserJoinedEvent,
   UserLeftEvent,
+  UserReconnectingEvent,
+  RoomBan,
   UserKickedEvent,
   AllMutedEvent,
   RoleChangedEvent,
+  StageUpdatedEvent,
+  UnmuteRequestedEvent,
+  RoomEndingSoonEvent,
   NewProducerEvent,
+  NewDataProducerEvent,
   ProducerClosedEvent,
   ProducerPausedEvent,
   ProducerResumedEvent,
   HandRaisedEvent,
   ReactionEvent,
+  ActiveSpeakerEvent,
+  MediaReconnectRequiredEvent,
+  RecordingStatus,
+  RecordingStartedEvent,
+  RecordingStoppedEvent,
+  StreamStatus,
+  CaptionsStatus,
+  BreakoutState,
+  UserMediaStats,
 } from '../types';
 import type { types as mediasoupTypes } from 'mediasoup-client';
+import type { ClientToServerEvents, ServerToClientEvents, WsAck, WsRequest, WsRequestEvent } from '@contract';
+
+/** A socket whose events are checked against the backend's WebSocket contract */
+export type SignalingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 // ─── Callback types for event listeners ───────────────────────────
 
 interface SignalingListeners {
   onUserJoined?: (data: UserJoinedEvent) => void;
   onUserLeft?: (data: UserLeftEvent) => void;
+  onUserReconnecting?: (data: UserReconnectingEvent) => void;
   onRoomClosed?: (data: { roomId: string }) => void;
+  onRoomEndingSoon?: (data: RoomEndingSoonEvent) => void;
   onUserKicked?: (data: UserKickedEvent) => void;
   onAllMuted?: (data: AllMutedEvent) => void;
+  onUserMuted?: (data: AllMutedEvent) => void;
+  onUnmuteRequested?: (data: UnmuteRequestedEvent) => void;
   onRoleChanged?: (data: RoleChangedEvent) => void;
+  onStageUpdated?: (data: StageUpdatedEvent) => void;
   onNewProducer?: (data: NewProducerEvent) => void;
+  onNewDataProducer?: (data: NewDataProducerEvent) => void;
   onProducerClosed?: (data: ProducerClosedEvent) => void;
   onProducerPaused?: (data: ProducerPausedEvent) => void;
   onProducerResumed?: (data: ProducerResumedEvent) => void;
   onHandRaised?: (data: HandRaisedEvent) => void;
   onReactionReceived?: (data: ReactionEvent) => void;
-  onRoomSettingsUpdated?: (data: { roomId: string; settings: { allowScreenShare?: boolean; allowWhiteboard?: boolean } }) => void;
+  onRoomSettingsUpdated?: (data: { roomId: string; settings: { allowScreenShare?: boolean; allowWhiteboard?: boolean; locked?: boolean } }) => void;
   onPeerMediaUpdate?: (data: { userId: string; audioEnabled: boolean; videoEnabled: boolean }) => void;
+  onActiveSpeaker?: (data: ActiveSpeakerEvent) => void;
+  onReconnectRequired?: (data: MediaReconnectRequiredEvent) => void;
+  onRecordingStarted?: (data: RecordingStartedEvent) => void;
+  onRecordingStopped?: (data: RecordingStoppedEvent) => void;
+  onStreamStatus?: (data: StreamStatus) => void;
+  onCaptionsStatus?: (data: CaptionsStatus) => void;
+  onBreakoutUpdated?: (data: BreakoutState) => void;
+  /** We were moved to another room of the meeting; same shape as a join */
+  onBreakoutMoved?: (data: JoinRoomResponse) => void;
+  /** The socket came back after a drop and is authenticated again */
+  onReconnected?: () => void;
   onError?: (data: { message: string }) => void;
 }
 
+/** room:join reached a node that doesn't host the room: reconnect to `nodeUrl` and join again */
+export class RoomRedirectError extends Error {
+  readonly nodeUrl: string;
+
+  constructor(nodeUrl: string) {
+    super('Room is hosted on another node');
+    this.name = 'RoomRedirectError';
+    this.nodeUrl = nodeUrl;
+  }
+}
+
 // ─── Typed emit wrapper ───────────────────────────────────────────
 
-function emitWithAck<T>(socket: Socket, event: string, payload: unknown): Promise<T> {
-  return new Promise<T>((resolve, reject) => {
+function emitWithAck<E extends WsRequestEvent>(socket: SignalingSocket, event: E, payload: WsRequest<E>): Promise<WsAck<E>> {
+  return new Promise<WsAck<E>>((resolve, reject) => {
     const timeout = setTimeout(() => {
       reject(new Error(`Socket event "${event}" timed out after 10s`));
     }, 10_000);
 
-    socket.emit(event, payload, (response: T | { status: string; message: string }) => {
+    // A generic event can't be matched against the per-event signatures
+    const emit = socket.emit.bind(socket) as (event: E, ...args: unknown[]) => void;
+    emit(event, payload, (response: WsAck<E> | { status: string; message: string }) => {
       clearTimeout(timeout);
       if (response && typeof response === 'object' && 'status' in response && response.status === 'error') {
-        reject(new Error((response as { message: string }).message));
+        reject(new Error(response.message));
       } else {
-        resolve(response as T);
+        resolve(response as WsAck<E>);
       }
     });
   });
 }
 
 export function useSignaling(listeners: SignalingListeners = {}) {
-  const socketRef = useRef<Socket | null>(null);
+  const socketRef = useRef<SignalingSocket | null>(null);
+  const urlRef = useRef<string | undefined>(WS_URL);
   const listenersRef = useRef(listeners);
   listenersRef.current = listeners;
 
@@ -73,14 +124,21 @@ export function useSignaling(listeners: SignalingListeners = {}) {
 
   // ─── Connect ──────────────────────────────────────────────────
 
-  const connect = useCallback(() => {
+  // `url` points at a specific backend node when the room is hosted elsewhere
+  const connect = useCallback((url: string | undefined = urlRef.current) => {
+    if (socketRef.current && url !== urlRef.current) {
+      socketRef.current.removeAllListeners();
+      socketRef.current.disconnect();
+      socketRef.current = null;
+    }
     if (socketRef.current?.connected) return socketRef.current;
     if (!token) {
       setError('Not authenticated');
       return null;
     }
 
-    const socket = io(WS_URL, {
+    urlRef.current = url;
+    const socket: SignalingSocket = io(url, {
       auth: { token },
       transports: ['websocket'],
       reconnection: true,
@@ -90,6 +148,9 @@ export function useSignaling(listeners: SignalingListeners = {}) {
       timeout: 10000,
     });
 
+    // Set by a socket.io reconnect; the server authenticates us again after it
+    let reconnected = false;
+
     socket.on('connect', () => {
       setConnectionState('connected');
       setError(null);
@@ -98,6 +159,10 @@ export function useSignaling(listeners: SignalingListeners = {}) {
     socket.on(WS_EVENTS.AUTHENTICATED, () => {
       // Mark socket as ready for operations
       (socket as Socket & { isAuthenticated?: boolean }).isAuthenticated = true;
+      if (reconnected) {
+        reconnected = false;
+        listenersRef.current.onReconnected?.();
+      }
     });
 
     socket.on('disconnect', (reason) => {
@@ -114,6 +179,7 @@ export function useSignaling(listeners: SignalingListeners = {}) {
     });
 
     socket.io.on('reconnect', () => {
+      reconnected = true;
       setConnectionState('connected');
       setError(null);
     });
@@ -137,10 +203,18 @@ export function useSignaling(listeners: SignalingListeners = {}) {
       listenersRef.current.onUserLeft?.(data);
     });
 
+    socket.on(WS_EVENTS.USER_RECONNECTING, (data: UserReconnectingEvent) => {
+      listenersRef.current.onUserReconnecting?.(data);
+    });
+
     socket.on(WS_EVENTS.ROOM_CLOSED, (data: { roomId: string }) => {
       listenersRef.current.onRoomClosed?.(data);
     });
 
+    socket.on(WS_EVENTS.ROOM_ENDING_SOON, (data: RoomEndingSoonEvent) => {
+      listenersRef.current.onRoomEndingSoon?.(data);
+    });
+
     socket.on(WS_EVENTS.USER_KICKED, (data: UserKickedEvent) => {
       listenersRef.current.onUserKicked?.(data);
     });
@@ -149,14 +223,30 @@ export function useSignaling(listeners: SignalingListeners = {}) {
       listenersRef.current.onAllMuted?.(data);
     });
 
+    socket.on(WS_EVENTS.USER_MUTED, (data: AllMutedEvent) => {
+      listenersRef.current.onUserMuted?.(data);
+    });
+
+    socket.on(WS_EVENTS.UNMUTE_REQUESTED, (data: UnmuteRequestedEvent) => {
+      listenersRef.current.onUnmuteRequested?.(data);
+    });
+
     socket.on(WS_EVENTS.ROLE_CHANGED, (data: RoleChangedEvent) => {
       listenersRef.current.onRoleChanged?.(data);
     });
 
+    socket.on(WS_EVENTS.STAGE_UPDATED, (data: StageUpdatedEvent) => {
+      listenersRef.current.onStageUpdated?.(data);
+    });
+
     socket.on(WS_EVENTS.NEW_PRODUCER, (data: NewProducerEvent) => {
       listenersRef.current.onNewProducer?.(data);
     });
 
+    socket.on(WS_EVENTS.NEW_DATA_PRODUCER, (data: NewDataProducerEvent) => {
+      listenersRef.current.onNewDataProducer?.(data);
+    });
+
     socket.on(WS_EVENTS.PRODUCER_CLOSED, (data: ProducerClosedEvent) => {
       listenersRef.current.onProducerClosed?.(data);
     });
@@ -186,6 +276,38 @@ export function useSignaling(listeners: SignalingListeners = {}) {
       listenersRef.current.onPeerMediaUpdate?.(data);
     });
 
+    socket.on(WS_EVENTS.ACTIVE_SPEAKER, (data: ActiveSpeakerEvent) => {
+      listenersRef.current.onActiveSpeaker?.(data);
+    });
+
+    socket.on(WS_EVENTS.RECONNECT_REQUIRED, (data: MediaReconnectRequiredEvent) => {
+      listenersRef.current.onReconnectRequired?.(data);
+    });
+
+    socket.on(WS_EVENTS.RECORDING_STARTED, (data: RecordingStartedEvent) => {
+      listenersRef.current.onRecordingStarted?.(data);
+    });
+
+    socket.on(WS_EVENTS.RECORDING_STOPPED, (data: RecordingStoppedEvent) => {
+      listenersRef.current.onRecordingStopped?.(data);
+    });
+
+    socket.on(WS_EVENTS.STREAM_STATUS, (data: StreamStatus) => {
+      listenersRef.current.onStreamStatus?.(data);
+    });
+
+    socket.on(WS_EVENTS.CAPTIONS_STATUS, (data: CaptionsStatus) => {
+      listenersRef.current.onCaptionsStatus?.(data);
+    });
+
+    socket.on(WS_EVENTS.BREAKOUT_UPDATED, (data: BreakoutState) => {
+      listenersRef.current.onBreakoutUpdated?.(data);
+    });
+
+    socket.on(WS_EVENTS.BREAKOUT_MOVED, (data) => {
+      listenersRef.current.onBreakoutMoved?.(data as JoinRoomResponse);
+    });
+
     socket.on(WS_EVENTS.ERROR, (data: { message: string }) => {
       listenersRef.current.onError?.(data);
     });
@@ -204,6 +326,7 @@ export function useSignaling(listeners: SignalingListeners = {}) {
       socketRef.current = null;
       setConnectionState('disconnected');
     }
+    urlRef.current = WS_URL;
   }, [setConnectionState]);
 
   // ─── Room operations ──────────────────────────────────────────
@@ -211,55 +334,193 @@ export function useSignaling(listeners: SignalingListeners = {}) {
   const createRoom = useCallback(async (title: string, maxParticipants?: number): Promise<CreateRoomResponse> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<CreateRoomResponse>(socket, WS_EVENTS.CREATE_ROOM, { title, maxParticipants });
+    return emitWithAck(socket, WS_EVENTS.CREATE_ROOM, { title, maxParticipants });
   }, []);
 
-  const joinRoom = useCallback(async (roomId: string): Promise<JoinRoomResponse> => {
+  // `resumeToken` takes back a seat held since our connection dropped
+  const joinRoom = useCallback(async (
+    roomId: string,
+    options: { resumeToken?: string; passcode?: string } = {},
+  ): Promise<JoinRoomResponse> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<JoinRoomResponse>(socket, WS_EVENTS.JOIN_ROOM, { roomId });
+    const response = await emitWithAck(socket, WS_EVENTS.JOIN_ROOM, { roomId, ...options });
+    if ('redirectUrl' in response) throw new RoomRedirectError(response.redirectUrl);
+    return response;
   }, []);
 
   const leaveRoom = useCallback(async (roomId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ success: boolean }>(socket, WS_EVENTS.LEAVE_ROOM, { roomId });
+    await emitWithAck(socket, WS_EVENTS.LEAVE_ROOM, { roomId });
   }, []);
 
   const closeRoom = useCallback(async (roomId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ success: boolean }>(socket, WS_EVENTS.CLOSE_ROOM, { roomId });
+    await emitWithAck(socket, WS_EVENTS.CLOSE_ROOM, { roomId });
   }, []);
 
   const kickUser = useCallback(async (roomId: string, targetUserId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ success: boolean }>(socket, WS_EVENTS.KICK_USER, { roomId, targetUserId });
+    await emitWithAck(socket, WS_EVENTS.KICK_USER, { roomId, targetUserId });
+  }, []);
+
+  // Ban operations resolve with the meeting's updated ban list
+  const banUser = useCallback(async (roomId: string, targetUserId: string, reason?: string): Promise<RoomBan[]> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) throw new Error('Socket not connected');
+    const { bans } = await emitWithAck(socket, WS_EVENTS.BAN_USER, { roomId, targetUserId, reason });
+    return bans;
+  }, []);
+
+  const unbanUser = useCallback(async (roomId: string, targetUserId: string): Promise<RoomBan[]> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) throw new Error('Socket not connected');
+    const { bans } = await emitWithAck(socket, WS_EVENTS.UNBAN_USER, { roomId, targetUserId });
+    return bans;
+  }, []);
+
+  const listBans = useCallback(async (roomId: string): Promise<RoomBan[]> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) throw new Error('Socket not connected');
+    const { bans } = await emitWithAck(socket, WS_EVENTS.LIST_BANS, { roomId });
+    return bans;
+  }, []);
+
+  const promoteToStage = useCallback(async (roomId: string, targetUserId: string): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.PROMOTE_TO_STAGE, { roomId, targetUserId });
+  }, []);
+
+  const removeFromStage = useCallback(async (roomId: string, targetUserId: string): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.REMOVE_FROM_STAGE, { roomId, targetUserId });
   }, []);
 
   const muteAll = useCallback(async (roomId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ success: boolean; mutedCount: number }>(socket, WS_EVENTS.MUTE_ALL, { roomId });
+    await emitWithAck(socket, WS_EVENTS.MUTE_ALL, { roomId });
+  }, []);
+
+  const muteUser = useCallback(async (roomId: string, targetUserId: string): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.MUTE_USER, { roomId, targetUserId });
+  }, []);
+
+  const requestUnmute = useCallback(async (roomId: string, targetUserId: string): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.REQUEST_UNMUTE, { roomId, targetUserId });
   }, []);
 
   const sendHandRaise = useCallback(async (roomId: string): Promise<{ success: boolean; handRaised: boolean }> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<{ success: boolean; handRaised: boolean }>(socket, WS_EVENTS.HAND_RAISE, { roomId });
+    return emitWithAck(socket, WS_EVENTS.HAND_RAISE, { roomId });
   }, []);
 
   const sendReaction = useCallback(async (roomId: string, reaction: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ success: boolean }>(socket, WS_EVENTS.REACTION, { roomId, reaction });
+    await emitWithAck(socket, WS_EVENTS.REACTION, { roomId, reaction });
   }, []);
 
   const updateRoomSettings = useCallback(async (roomId: string, settings: { allowScreenShare?: boolean; allowWhiteboard?: boolean }): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ success: boolean }>(socket, WS_EVENTS.UPDATE_ROOM_SETTINGS, { roomId, settings });
+    await emitWithAck(socket, WS_EVENTS.UPDATE_ROOM_SETTINGS, { roomId, settings });
+  }, []);
+
+  const lockRoom = useCallback(async (roomId: string, locked: boolean): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.LOCK_ROOM, { roomId, locked });
+  }, []);
+
+  const startRecording = useCallback(async (roomId: string): Promise<RecordingStatus> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) throw new Error('Socket not connected');
+    return emitWithAck(socket, WS_EVENTS.RECORDING_START, { roomId });
+  }, []);
+
+  const stopRecording = useCallback(async (roomId: string): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.RECORDING_STOP, { roomId });
+  }, []);
+
+  const startStream = useCallback(async (roomId: string): Promise<StreamStatus> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) throw new Error('Socket not connected');
+    return emitWithAck(socket, WS_EVENTS.STREAM_START, { roomId });
+  }, []);
+
+  const stopStream = useCallback(async (roomId: string): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.STREAM_STOP, { roomId });
+  }, []);
+
+  const startCaptions = useCallback(async (roomId: string): Promise<CaptionsStatus> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) throw new Error('Socket not connected');
+    return emitWithAck(socket, WS_EVENTS.CAPTIONS_START, { roomId });
+  }, []);
+
+  const stopCaptions = useCallback(async (roomId: string): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.CAPTIONS_STOP, { roomId });
+  }, []);
+
+  // ─── Breakout rooms ───────────────────────────────────────────
+
+  const createBreakouts = useCallback(async (roomId: string, count: number, autoAssign: boolean): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.BREAKOUT_CREATE, { roomId, count, autoAssign });
+  }, []);
+
+  const assignBreakout = useCallback(async (roomId: string, userId: string, breakoutRoomId: string | null): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.BREAKOUT_ASSIGN, { roomId, userId, breakoutRoomId });
+  }, []);
+
+  const shuffleBreakouts = useCallback(async (roomId: string): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.BREAKOUT_SHUFFLE, { roomId });
+  }, []);
+
+  const openBreakouts = useCallback(async (roomId: string): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.BREAKOUT_OPEN, { roomId });
+  }, []);
+
+  const joinBreakout = useCallback(async (roomId: string, toRoomId: string): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.BREAKOUT_JOIN, { roomId, toRoomId });
+  }, []);
+
+  const startBreakoutCountdown = useCallback(async (roomId: string, seconds: number): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.BREAKOUT_COUNTDOWN, { roomId, seconds });
+  }, []);
+
+  const closeBreakouts = useCallback(async (roomId: string): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.BREAKOUT_CLOSE, { roomId });
   }, []);
 
   // ─── Media signaling operations ───────────────────────────────
@@ -267,22 +528,34 @@ export function useSignaling(listeners: SignalingListeners = {}) {
   const getRouterCapabilities = useCallback(async (roomId: string): Promise<mediasoupTypes.RtpCapabilities> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    const data = await emitWithAck<{ rtpCapabilities: mediasoupTypes.RtpCapabilities }>(
+    const data = await emitWithAck(
       socket, WS_EVENTS.GET_ROUTER_CAPABILITIES, { roomId },
     );
     return data.rtpCapabilities;
   }, []);
 
-  const createTransport = useCallback(async (roomId: string, direction: 'send' | 'recv'): Promise<TransportCreatedResponse> => {
+  const createTransport = useCallback(async (
+    roomId: string,
+    direction: 'send' | 'recv',
+    sctpCapabilities?: mediasoupTypes.SctpCapabilities,
+  ): Promise<TransportCreatedResponse> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<TransportCreatedResponse>(socket, WS_EVENTS.CREATE_TRANSPORT, { roomId, direction });
+    const transport = await emitWithAck(socket, WS_EVENTS.CREATE_TRANSPORT, { roomId, direction, sctpCapabilities });
+    return transport as TransportCreatedResponse;
   }, []);
 
   const connectTransport = useCallback(async (transportId: string, dtlsParameters: mediasoupTypes.DtlsParameters): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    await emitWithAck<{ connected: boolean }>(socket, WS_EVENTS.CONNECT_TRANSPORT, { transportId, dtlsParameters });
+    await emitWithAck(socket, WS_EVENTS.CONNECT_TRANSPORT, { transportId, dtlsParameters });
+  }, []);
+
+  const restartIce = useCallback(async (transportId: string): Promise<mediasoupTypes.IceParameters> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) throw new Error('Socket not connected');
+    const res = await emitWithAck(socket, WS_EVENTS.RESTART_ICE, { transportId });
+    return res.iceParameters as mediasoupTypes.IceParameters;
   }, []);
 
   const produce = useCallback(async (params: {
@@ -294,7 +567,7 @@ export function useSignaling(listeners: SignalingListeners = {}) {
   }): Promise<ProduceResponse> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<ProduceResponse>(socket, WS_EVENTS.PRODUCE, params);
+    return emitWithAck(socket, WS_EVENTS.PRODUCE, params);
   }, []);
 
   const consume = useCallback(async (params: {
@@ -305,38 +578,86 @@ export function useSignaling(listeners: SignalingListeners = {}) {
   }): Promise<ConsumeResponse> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<ConsumeResponse>(socket, WS_EVENTS.CONSUME, params);
+    const consumer = await emitWithAck(socket, WS_EVENTS.CONSUME, params);
+    return consumer as ConsumeResponse;
+  }, []);
+
+  const produceData = useCallback(async (params: {
+    roomId: string;
+    transportId: string;
+    sctpStreamParameters: mediasoupTypes.SctpStreamParameters;
+    label?: string;
+    protocol?: string;
+  }): Promise<{ dataProducerId: string }> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) throw new Error('Socket not connected');
+    return emitWithAck(socket, WS_EVENTS.PRODUCE_DATA, params);
+  }, []);
+
+  const consumeData = useCallback(async (params: {
+    roomId: string;
+    transportId: string;
+    dataProducerId: string;
+  }): Promise<ConsumeDataResponse> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) throw new Error('Socket not connected');
+    return emitWithAck(socket, WS_EVENTS.CONSUME_DATA, params);
   }, []);
 
   const resumeConsumer = useCallback(async (consumerId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    await emitWithAck<{ resumed: boolean }>(socket, WS_EVENTS.RESUME_CONSUMER, { consumerId });
+    await emitWithAck(socket, WS_EVENTS.RESUME_CONSUMER, { consumerId });
+  }, []);
+
+  const setPreferredLayers = useCallback(async (params: {
+    consumerId: string;
+    spatialLayer: number;
+    temporalLayer?: number;
+    priority?: number;
+  }): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.SET_PREFERRED_LAYERS, params);
+  }, []);
+
+  const getStats = useCallback(async (roomId: string, userId?: string): Promise<UserMediaStats[]> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return [];
+    const res = await emitWithAck(socket, WS_EVENTS.GET_STATS, { roomId, userId });
+    return res.stats;
   }, []);
 
   const closeProducer = useCallback(async (roomId: string, producerId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ closed: boolean }>(socket, WS_EVENTS.CLOSE_PRODUCER, { roomId, producerId });
+    await emitWithAck(socket, WS_EVENTS.CLOSE_PRODUCER, { roomId, producerId });
   }, []);
 
   const pauseProducer = useCallback(async (producerId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ paused: boolean }>(socket, WS_EVENTS.PAUSE_PRODUCER, { producerId });
+    await emitWithAck(socket, WS_EVENTS.PAUSE_PRODUCER, { producerId });
   }, []);
 
   const resumeProducer = useCallback(async (producerId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ resumed: boolean }>(socket, WS_EVENTS.RESUME_PRODUCER, { producerId });
+    await emitWithAck(socket, WS_EVENTS.RESUME_PRODUCER, { producerId });
   }, []);
 
   const emitMediaState = useCallback(async (roomId: string, audioEnabled: boolean, videoEnabled: boolean): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
     console.log('CLIENT EMIT media-state-change', { roomId, audioEnabled, videoEnabled });
-    await emitWithAck<{ success: boolean }>(socket, WS_EVENTS.MEDIA_STATE_CHANGE, { roomId, audioEnabled, videoEnabled });
+    await emitWithAck(socket, WS_EVENTS.MEDIA_STATE_CHANGE, { roomId, audioEnabled, videoEnabled });
+  }, []);
+
+  // Whether our meeting tab is in front, for the host's engagement report
+  const emitVisibility = useCallback(async (roomId: string, visible: boolean): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    await emitWithAck(socket, WS_EVENTS.VISIBILITY_CHANGE, { roomId, visible });
   }, []);
 
   // ─── Cleanup on unmount ───────────────────────────────────────
@@ -357,20 +678,48 @@ export function useSignaling(listeners: SignalingListeners = {}) {
     leaveRoom,
     closeRoom,
     kickUser,
+    banUser,
+    unbanUser,
+    listBans,
+    promoteToStage,
+    removeFromStage,
     muteAll,
+    muteUser,
+    requestUnmute,
     sendHandRaise,
     sendReaction,
     updateRoomSettings,
+    lockRoom,
+    startRecording,
+    stopRecording,
+    startStream,
+    stopStream,
+    startCaptions,
+    stopCaptions,
+    // Breakout rooms
+    createBreakouts,
+    assignBreakout,
+    shuffleBreakouts,
+    openBreakouts,
+    joinBreakout,
+    startBreakoutCountdown,
+    closeBreakouts,
     // Media signaling
     getRouterCapabilities,
     createTransport,
     connectTransport,
+    restartIce,
     produce,
     consume,
+    produceData,
+    consumeData,
     resumeConsumer,
+    setPreferredLayers,
+    getStats,
     closeProducer,
     pauseProducer,
     resumeProducer,
     emitMediaState,
+    emitVisibility,
   };
 }
@@ -1,16 +1,15 @@
 import { useEffect, useState, useCallback } from 'react';
-import { Socket } from 'socket.io-client';
 import { WS_EVENTS } from '../constants';
+import type { SignalingSocket } from './useSignaling';
 import type {
   WaitingParticipant,
-  WaitingParticipantJoinedEvent,
   ParticipantAdmittedEvent,
   ParticipantRejectedEvent,
   WaitingRoomUpdatedEvent,
 } from '../types/waitingRoom.types';
 
 interface UseWaitingRoomProps {
-  socket: Socket | null;
+  socket: SignalingSocket | null;
   roomId: string;
   isHost: boolean;
 }
@@ -25,7 +24,7 @@ export function useWaitingRoom({ socket, roomId, isHost }: UseWaitingRoomProps)
   const joinWaitingRoom = useCallback(() => {
     if (!socket || !roomId) return;
 
-    socket.emit(WS_EVENTS.JOIN_WAITING_ROOM, { roomId }, (response: any) => {
+    socket.emit(WS_EVENTS.JOIN_WAITING_ROOM, { roomId }, (response) => {
       if (response.success) {
         setIsInWaitingRoom(true);
         setWaitingRoomMessage(response.message || 'Waiting for host approval...');
@@ -37,7 +36,7 @@ export function useWaitingRoom({ socket, roomId, isHost }: UseWaitingRoomProps)
   const admitParticipant = useCallback((userId: string) => {
     if (!socket || !roomId || !isHost) return;
 
-    socket.emit(WS_EVENTS.ADMIT_PARTICIPANT, { roomId, userId }, (response: any) => {
+    socket.emit(WS_EVENTS.ADMIT_PARTICIPANT, { roomId, userId }, (response) => {
       if (!response.success) {
         console.error('Failed to admit participant:', response.error);
       }
@@ -48,7 +47,7 @@ export function useWaitingRoom({ socket, roomId, isHost }: UseWaitingRoomProps)
   const rejectParticipant = useCallback((userId: string) => {
     if (!socket || !roomId || !isHost) return;
 
-    socket.emit(WS_EVENTS.REJECT_PARTICIPANT, { roomId, userId }, (response: any) => {
+    socket.emit(WS_EVENTS.REJECT_PARTICIPANT, { roomId, userId }, (response) => {
       if (!response.success) {
         console.error('Failed to reject participant:',response.error);
       }
@@ -59,7 +58,7 @@ export function useWaitingRoom({ socket, roomId, isHost }: UseWaitingRoomProps)
   const admitAll = useCallback(() => {
     if (!socket || !roomId || !isHost) return;
 
-    socket.emit(WS_EVENTS.ADMIT_ALL, { roomId }, (response: any) => {
+    socket.emit(WS_EVENTS.ADMIT_ALL, { roomId }, (response) => {
       if (!response.success) {
         console.error('Failed to admit all:', response.error);
       }
@@ -70,13 +69,6 @@ export function useWaitingRoom({ socket, roomId, isHost }: UseWaitingRoomProps)
   useEffect(() => {
     if (!socket) return;
 
-    // Host receives notifications when someone joins waiting room
-    const handleParticipantJoined = (data: WaitingParticipantJoinedEvent) => {
-      if (isHost) {
-        setWaitingParticipants(prev => [...prev, data.participant]);
-      }
-    };
-
     // Guest receives notification when admitted
     const handleAdmitted = (data: ParticipantAdmittedEvent) => {
       if (!isHost && data.roomId === roomId) {
@@ -102,13 +94,11 @@ export function useWaitingRoom({ socket, roomId, isHost }: UseWaitingRoomProps)
       }
     };
 
-    socket.on(WS_EVENTS.WAITING_PARTICIPANT_JOINED, handleParticipantJoined);
     socket.on(WS_EVENTS.PARTICIPANT_ADMITTED, handleAdmitted);
     socket.on(WS_EVENTS.PARTICIPANT_REJECTED, handleRejected);
     socket.on(WS_EVENTS.WAITING_ROOM_UPDATED, handleWaitingRoomUpdated);
 
     return () => {
-      socket.off(WS_EVENTS.WAITING_PARTICIPANT_JOINED, handleParticipantJoined);
       socket.off(WS_EVENTS.PARTICIPANT_ADMITTED, handleAdmitted);
       socket.off(WS_EVENTS.PARTICIPANT_REJECTED, handleRejected);
       socket.off(WS_EVENTS.WAITING_ROOM_UPDATED, handleWaitingRoomUpdated);
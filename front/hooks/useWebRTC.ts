@@ -1,9 +1,91 @@
-import { useRef, useCallback } from 'react';
+import { useRef, useCallback, useEffect } from 'react';
 import { Device, type types as mediasoupTypes } from 'mediasoup-client';
 import { useParticipantsStore } from '../store/participants.store';
+import { useRoomStore } from '../store/room.store';
 import type { useSignaling } from './useSignaling';
+import type { VideoQuality, ConnectionQuality, MediaRecoveryState } from '../types';
 
 type Signaling = ReturnType<typeof useSignaling>;
+type TransportDirection = 'send' | 'recv';
+
+/** How long a transport may sit in 'disconnected' before ICE is restarted */
+const ICE_DISCONNECT_GRACE_MS = 2000;
+/** How long an ICE restart may take before the transport is recreated */
+const ICE_RESTART_TIMEOUT_MS = 10000;
+/** Bigger DataChannel messages are refused so callers fall back to Socket.IO */
+const MAX_DATA_MESSAGE_BYTES = 64 * 1024;
+
+export type DataMessageListener = (message: string, userId: string) => void;
+
+/** A local track detached from its producer so it can be republished */
+interface PublishedTrack {
+  producerId: string;
+  label: string;
+  track: MediaStreamTrack;
+  paused: boolean;
+  appData: Record<string, unknown>;
+}
+
+const RECOVERY_SEVERITY: Record<MediaRecoveryState, number> = {
+  idle: 0,
+  restarting_ice: 1,
+  recreating_transports: 2,
+  failed: 3,
+};
+
+/** Resolves true once the transport reports 'connected', false on failure or timeout */
+function waitForConnected(transport: mediasoupTypes.Transport, timeoutMs: number): Promise<boolean> {
+  if (transport.connectionState === 'connected') return Promise.resolve(true);
+
+  return new Promise((resolve) => {
+    const onStateChange = (state: mediasoupTypes.ConnectionState) => {
+      if (state === 'connected') finish(true);
+      else if (state === 'failed' || state === 'closed') finish(false);
+    };
+    const timer = setTimeout(() => finish(false), timeoutMs);
+
+    function finish(connected: boolean) {
+      clearTimeout(timer);
+      transport.off('connectionstatechange', onStateChange);
+      resolve(connected);
+    }
+
+    transport.on('connectionstatechange', onStateChange);
+  });
+}
+
+interface LinkSample {
+  /** Fraction of packets lost, 0–1 */
+  packetLoss: number;
+  rttMs: number | null;
+  jitterMs: number | null;
+}
+
+const QUALITY_RANK: Record<ConnectionQuality, number> = { good: 0, fair: 1, poor: 2 };
+
+function classifyQuality({ packetLoss, rttMs, jitterMs }: LinkSample): ConnectionQuality {
+  const rtt = rttMs ?? 0;
+  const jitter = jitterMs ?? 0;
+  if (packetLoss < 0.02 && rtt < 300 && jitter < 30) return 'good';
+  if (packetLoss < 0.08 && rtt < 600) return 'fair';
+  return 'poor';
+}
+
+function worstQuality(a: ConnectionQuality | undefined, b: ConnectionQuality): ConnectionQuality {
+  if (!a) return b;
+  return QUALITY_RANK[b] > QUALITY_RANK[a] ? b : a;
+}
+
+/** Round-trip time (ms) of the nominated ICE candidate pair in a stats report */
+function candidatePairRtt(report: RTCStatsReport): number | null {
+  let rtt: number | null = null;
+  report.forEach((stat) => {
+    if (stat.type === 'candidate-pair' && stat.nominated && typeof stat.currentRoundTripTime === 'number') {
+      rtt = stat.currentRoundTripTime * 1000;
+    }
+  });
+  return rtt;
+}
 
 /**
  * Manages the mediasoup Device, send/recv transports, producers, and consumers.
@@ -19,6 +101,12 @@ export function useWebRTC(signaling: Signaling) {
 
   const roomIdRef = useRef<string | null>(null);
 
+  /** consumerId → last simulcast quality requested from the server */
+  const videoQualityRef = useRef<Map<string, VideoQuality>>(new Map());
+
+  /** consumerId → cumulative inbound-rtp counters from the previous stats sample */
+  const statsHistoryRef = useRef<Map<string, { packetsLost: number; packetsReceived: number }>>(new Map());
+
   const {
     setParticipantAudioTrack,
     setParticipantVideoTrack,
@@ -33,6 +121,34 @@ export function useWebRTC(signaling: Signaling) {
     resolve: (value: mediasoupTypes.Consumer | null) => void;
   }>>([]);
 
+  // Serialises media reconnects so back-to-back server rebuilds don't interleave
+  const reconnectChainRef = useRef<Promise<void>>(Promise.resolve());
+
+  /** direction → recovery progress; the most severe one is shown in the room store */
+  const recoveryRef = useRef<Map<TransportDirection, MediaRecoveryState>>(new Map());
+
+  // Ref to hold the recovery function so transport listeners can reach it
+  const recoverTransportRef = useRef<(transport: mediasoupTypes.Transport, direction: TransportDirection) => Promise<void>>(
+    () => Promise.resolve(),
+  );
+
+  /** label → local DataProducer (one DataChannel per feature, e.g. whiteboard) */
+  const dataProducersRef = useRef<Map<string, mediasoupTypes.DataProducer>>(new Map());
+
+  /** dataProducerId → remote DataConsumer and the user sending on it */
+  const dataConsumersRef = useRef<Map<string, { dataConsumer: mediasoupTypes.DataConsumer; userId: string }>>(new Map());
+
+  /** label → listeners for messages arriving on remote DataChannels */
+  const dataListenersRef = useRef<Map<string, Set<DataMessageListener>>>(new Map());
+
+  // DataProducers announced before the recv transport existed
+  const pendingDataConsumersRef = useRef<Array<{ roomId: string; dataProducerId: string; userId: string }>>([]);
+
+  // Ref to hold consumeData so createRecvTransport can drain the queue above
+  const consumeDataRef = useRef<(roomId: string, dataProducerId: string, userId: string) => Promise<void>>(
+    () => Promise.resolve(),
+  );
+
   // Ref to hold the process function so it can be called from createRecvTransport
   const processPendingConsumersRef = useRef<() => Promise<void>>(() => Promise.resolve());
 
@@ -47,6 +163,39 @@ export function useWebRTC(signaling: Signaling) {
     return device;
   }, []);
 
+  // ─── Transport health ─────────────────────────────────────────
+
+  /**
+   * Restarts ICE when a transport fails, or stays disconnected past a short
+   * grace period (network switch, Wi-Fi drop).
+   */
+  const watchTransport = useCallback((transport: mediasoupTypes.Transport, direction: TransportDirection) => {
+    let graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+    transport.on('connectionstatechange', (state) => {
+      if (graceTimer) {
+        clearTimeout(graceTimer);
+        graceTimer = null;
+      }
+
+      if (state === 'disconnected') {
+        graceTimer = setTimeout(() => {
+          graceTimer = null;
+          if (transport.connectionState === 'disconnected') {
+            recoverTransportRef.current(transport, direction);
+          }
+        }, ICE_DISCONNECT_GRACE_MS);
+      } else if (state === 'failed') {
+        console.error(`${direction} transport connection failed`);
+        recoverTransportRef.current(transport, direction);
+      }
+    });
+
+    transport.observer.once('close', () => {
+      if (graceTimer) clearTimeout(graceTimer);
+    });
+  }, []);
+
   // ─── Create Send Transport ────────────────────────────────────
 
   const createSendTransport = useCallback(async (roomId: string): Promise<mediasoupTypes.Transport> => {
@@ -57,13 +206,14 @@ export function useWebRTC(signaling: Signaling) {
     const device = deviceRef.current;
     if (!device) throw new Error('Device not loaded');
 
-    const transportData = await signaling.createTransport(roomId, 'send');
+    const transportData = await signaling.createTransport(roomId, 'send', device.sctpCapabilities);
 
     const transport = device.createSendTransport({
       id: transportData.id,
       iceParameters: transportData.iceParameters,
       iceCandidates: transportData.iceCandidates,
       dtlsParameters: transportData.dtlsParameters,
+      sctpParameters: transportData.sctpParameters,
       iceServers: [
         { urls: 'stun:stun.l.google.com:19302' },
         { urls: 'stun:stun1.l.google.com:19302' },
@@ -88,17 +238,24 @@ export function useWebRTC(signaling: Signaling) {
         .catch(errback);
     });
 
-    transport.on('connectionstatechange', (state: string) => {
-      if (state === 'failed') {
-        console.error('Send transport connection failed');
-        transport.close();
-      }
+    transport.on('producedata', (parameters, callback, errback) => {
+      signaling.produceData({
+        roomId,
+        transportId: transport.id,
+        sctpStreamParameters: parameters.sctpStreamParameters,
+        label: parameters.label,
+        protocol: parameters.protocol,
+      })
+        .then(({ dataProducerId }) => callback({ id: dataProducerId }))
+        .catch(errback);
     });
 
+    watchTransport(transport, 'send');
+
     sendTransportRef.current = transport;
     roomIdRef.current = roomId;
     return transport;
-  }, [signaling]);
+  }, [signaling, watchTransport]);
 
   // ─── Create Recv Transport ────────────────────────────────────
 
@@ -112,13 +269,14 @@ export function useWebRTC(signaling: Signaling) {
     const device = deviceRef.current;
     if (!device) throw new Error('Device not loaded');
 
-    const transportData = await signaling.createTransport(roomId, 'recv');
+    const transportData = await signaling.createTransport(roomId, 'recv', device.sctpCapabilities);
 
     const transport = device.createRecvTransport({
       id: transportData.id,
       iceParameters: transportData.iceParameters,
       iceCandidates: transportData.iceCandidates,
       dtlsParameters: transportData.dtlsParameters,
+      sctpParameters: transportData.sctpParameters,
       iceServers: [
         { urls: 'stun:stun.l.google.com:19302' },
         { urls: 'stun:stun1.l.google.com:19302' },
@@ -131,20 +289,20 @@ export function useWebRTC(signaling: Signaling) {
         .catch(errback);
     });
 
-    transport.on('connectionstatechange', (state: string) => {
-      if (state === 'failed') {
-        console.error('Recv transport connection failed');
-        transport.close();
-      }
-    });
+    watchTransport(transport, 'recv');
 
     recvTransportRef.current = transport;
 
     // Transport is ready, process any queued consumers
     processPendingConsumersRef.current();
+    const pendingData = pendingDataConsumersRef.current;
+    pendingDataConsumersRef.current = [];
+    for (const item of pendingData) {
+      consumeDataRef.current(item.roomId, item.dataProducerId, item.userId);
+    }
 
     return transport;
-  }, [signaling]);
+  }, [signaling, watchTransport]);
 
   // ─── Produce (publish a track) ────────────────────────────────
 
@@ -302,6 +460,257 @@ export function useWebRTC(signaling: Signaling) {
     await signaling.resumeProducer(producer.id);
   }, [signaling]);
 
+  // ─── Simulcast layer selection ────────────────────────────────
+
+  /**
+   * Requests the low (thumbnail) or high simulcast layer for all of a remote
+   * participant's video consumers. Repeated requests are deduplicated.
+   */
+  const setVideoQuality = useCallback(async (userId: string, quality: VideoQuality): Promise<void> => {
+    const participant = useParticipantsStore.getState().participants.get(userId);
+    if (!participant) return;
+
+    for (const consumer of participant.consumers.values()) {
+      if (consumer.closed || consumer.kind !== 'video') continue;
+      if (videoQualityRef.current.get(consumer.id) === quality) continue;
+
+      videoQualityRef.current.set(consumer.id, quality);
+      consumer.observer.once('close', () => videoQualityRef.current.delete(consumer.id));
+
+      try {
+        await signaling.setPreferredLayers({
+          consumerId: consumer.id,
+          spatialLayer: quality === 'high' ? 1 : 0,
+          priority: quality === 'high' ? 2 : 1,
+        });
+      } catch (err) {
+        videoQualityRef.current.delete(consumer.id);
+        console.error(`Failed to set preferred layers for ${consumer.id}:`, err);
+      }
+    }
+  }, [signaling]);
+
+  // ─── Connection quality sampling ──────────────────────────────
+
+  /**
+   * Samples transport/consumer stats and publishes a per-user connection
+   * quality to the participants store. Remote users are rated on what we
+   * receive from them; the local user on what the SFU reports for our uplink.
+   * Returns a function that stops sampling.
+   */
+  const startStatsSampler = useCallback((localUserId: string, intervalMs = 3000): (() => void) => {
+    let stopped = false;
+
+    const sample = async () => {
+      const next = new Map<string, ConnectionQuality>();
+
+      const recvTransport = recvTransportRef.current;
+      let recvRtt: number | null = null;
+      if (recvTransport && !recvTransport.closed) {
+        try {
+          recvRtt = candidatePairRtt(await recvTransport.getStats());
+        } catch {
+          // Transport may be closing
+        }
+      }
+
+      for (const [userId, participant] of useParticipantsStore.getState().participants) {
+        for (const consumer of participant.consumers.values()) {
+          if (consumer.closed || consumer.paused) continue;
+
+          let report: RTCStatsReport;
+          try {
+            report = await consumer.getStats();
+          } catch {
+            continue;
+          }
+
+          report.forEach((stat) => {
+            if (stat.type !== 'inbound-rtp') return;
+            const packetsLost = stat.packetsLost ?? 0;
+            const packetsReceived = stat.packetsReceived ?? 0;
+            const prev = statsHistoryRef.current.get(consumer.id);
+            statsHistoryRef.current.set(consumer.id, { packetsLost, packetsReceived });
+
+            const lostDelta = prev ? Math.max(0, packetsLost - prev.packetsLost) : 0;
+            const receivedDelta = prev ? Math.max(0, packetsReceived - prev.packetsReceived) : 0;
+            const total = lostDelta + receivedDelta;
+
+            next.set(userId, worstQuality(next.get(userId), classifyQuality({
+              packetLoss: total > 0 ? lostDelta / total : 0,
+              rttMs: recvRtt,
+              jitterMs: typeof stat.jitter === 'number' ? stat.jitter * 1000 : null,
+            })));
+          });
+        }
+      }
+
+      const sendTransport = sendTransportRef.current;
+      if (sendTransport && !sendTransport.closed) {
+        try {
+          const report = await sendTransport.getStats();
+          let local: ConnectionQuality | undefined;
+          let rttMs = candidatePairRtt(report);
+
+          report.forEach((stat) => {
+            if (stat.type !== 'remote-inbound-rtp') return;
+            if (typeof stat.roundTripTime === 'number') rttMs = stat.roundTripTime * 1000;
+            local = worstQuality(local, classifyQuality({
+              packetLoss: stat.fractionLost ?? 0,
+              rttMs,
+              jitterMs: typeof stat.jitter === 'number' ? stat.jitter * 1000 : null,
+            }));
+          });
+
+          if (!local && rttMs !== null) {
+            local = classifyQuality({ packetLoss: 0, rttMs, jitterMs: null });
+          }
+          if (local) next.set(localUserId, local);
+        } catch {
+          // Transport may be closing
+        }
+      }
+
+      if (!stopped) {
+        useParticipantsStore.getState().setConnectionQuality(next);
+      }
+    };
+
+    const timer = setInterval(() => { sample().catch(console.error); }, intervalMs);
+    sample().catch(console.error);
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  // ─── Data channels ────────────────────────────────────────────
+
+  /**
+   * Opens a DataChannel on the send transport. Resolves false when SCTP
+   * couldn't be negotiated with the server, in which case callers keep
+   * using Socket.IO.
+   */
+  const produceData = useCallback(async (label: string): Promise<boolean> => {
+    const transport = sendTransportRef.current;
+    if (!transport || transport.closed) return false;
+
+    const existing = dataProducersRef.current.get(label);
+    if (existing && !existing.closed) return true;
+
+    try {
+      // Unordered and unreliable: a late cursor or stroke frame is worthless
+      const dataProducer = await transport.produceData({ label, ordered: false, maxRetransmits: 0 });
+      dataProducersRef.current.set(label, dataProducer);
+      dataProducer.observer.once('close', () => {
+        if (dataProducersRef.current.get(label) === dataProducer) {
+          dataProducersRef.current.delete(label);
+        }
+      });
+      return true;
+    } catch (err) {
+      console.warn(`DataChannel "${label}" unavailable, using Socket.IO instead:`, err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Sends a message on one of our DataChannels. Returns false when the
+   * channel isn't open or the message is too big, so the caller can fall back.
+   */
+  const sendData = useCallback((label: string, message: string): boolean => {
+    const dataProducer = dataProducersRef.current.get(label);
+    if (!dataProducer || dataProducer.closed || dataProducer.readyState !== 'open') return false;
+    if (message.length > MAX_DATA_MESSAGE_BYTES) return false;
+
+    try {
+      dataProducer.send(message);
+      return true;
+    } catch {
+      return false;
+    }
+  }, []);
+
+  const consumeData = useCallback(async (roomId: string, dataProducerId: string, userId: string): Promise<void> => {
+    if (dataConsumersRef.current.has(dataProducerId)) return;
+
+    const recvTransport = recvTransportRef.current;
+    if (!recvTransport || recvTransport.closed) {
+      pendingDataConsumersRef.current.push({ roomId, dataProducerId, userId });
+      return;
+    }
+
+    try {
+      const data = await signaling.consumeData({ roomId, transportId: recvTransport.id, dataProducerId });
+
+      const dataConsumer = await recvTransport.consumeData({
+        id: data.dataConsumerId,
+        dataProducerId: data.dataProducerId,
+        sctpStreamParameters: data.sctpStreamParameters,
+        label: data.label,
+        protocol: data.protocol,
+      });
+
+      dataConsumer.on('message', (message) => {
+        if (typeof message !== 'string') return;
+        dataListenersRef.current.get(data.label)?.forEach((listener) => listener(message, userId));
+      });
+
+      dataConsumer.observer.once('close', () => {
+        if (dataConsumersRef.current.get(dataProducerId)?.dataConsumer === dataConsumer) {
+          dataConsumersRef.current.delete(dataProducerId);
+        }
+      });
+
+      dataConsumersRef.current.set(dataProducerId, { dataConsumer, userId });
+    } catch (err) {
+      // The peer's messages still arrive through Socket.IO
+      console.warn(`Failed to consume DataProducer ${dataProducerId}:`, err);
+    }
+  }, [signaling]);
+
+  useEffect(() => {
+    consumeDataRef.current = consumeData;
+  }, [consumeData]);
+
+  /** Subscribes to messages on remote DataChannels with the given label */
+  const onDataMessage = useCallback((label: string, listener: DataMessageListener): (() => void) => {
+    let listeners = dataListenersRef.current.get(label);
+    if (!listeners) {
+      listeners = new Set();
+      dataListenersRef.current.set(label, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      dataListenersRef.current.get(label)?.delete(listener);
+    };
+  }, []);
+
+  /** The server closed a DataProducer: drop our end of that channel, sending or receiving */
+  const closeDataChannel = useCallback((dataProducerId: string) => {
+    dataConsumersRef.current.get(dataProducerId)?.dataConsumer.close();
+    dataConsumersRef.current.delete(dataProducerId);
+
+    // Ours: sendData falls back to Socket.IO once it is gone
+    for (const dataProducer of dataProducersRef.current.values()) {
+      if (dataProducer.id === dataProducerId) dataProducer.close();
+    }
+  }, []);
+
+  const closeDataChannels = useCallback(() => {
+    for (const dataProducer of dataProducersRef.current.values()) {
+      if (!dataProducer.closed) dataProducer.close();
+    }
+    dataProducersRef.current.clear();
+
+    for (const { dataConsumer } of dataConsumersRef.current.values()) {
+      if (!dataConsumer.closed) dataConsumer.close();
+    }
+    dataConsumersRef.current.clear();
+    pendingDataConsumersRef.current = [];
+  }, []);
+
   // ─── Replace track on a producer (device switch) ──────────────
 
   const replaceProducerTrack = useCallback(async (label: string, newTrack: MediaStreamTrack): Promise<void> => {
@@ -310,6 +719,30 @@ export function useWebRTC(signaling: Signaling) {
     await producer.replaceTrack({ track: newTrack });
   }, []);
 
+  // ─── Stop publishing (webinar attendee left the stage) ────────
+
+  /**
+   * Closes every local producer, data producer and the send transport while
+   * keeping the receive side intact. The server has already closed the
+   * producers, so nothing is signalled.
+   */
+  const closeSendTransport = useCallback(() => {
+    for (const producer of producersRef.current.values()) {
+      if (!producer.closed) producer.close();
+    }
+    producersRef.current.clear();
+
+    for (const dataProducer of dataProducersRef.current.values()) {
+      if (!dataProducer.closed) dataProducer.close();
+    }
+    dataProducersRef.current.clear();
+
+    if (sendTransportRef.current && !sendTransportRef.current.closed) {
+      sendTransportRef.current.close();
+    }
+    sendTransportRef.current = null;
+  }, []);
+
   // ─── Cleanup everything ───────────────────────────────────────
 
   const cleanup = useCallback(() => {
@@ -317,6 +750,7 @@ export function useWebRTC(signaling: Signaling) {
       if (!producer.closed) producer.close();
     }
     producersRef.current.clear();
+    closeDataChannels();
 
     if (sendTransportRef.current && !sendTransportRef.current.closed) {
       sendTransportRef.current.close();
@@ -330,8 +764,171 @@ export function useWebRTC(signaling: Signaling) {
 
     deviceRef.current = null;
     roomIdRef.current = null;
+    videoQualityRef.current.clear();
+    statsHistoryRef.current.clear();
+  }, [closeDataChannels]);
+
+  // ─── Republishing local tracks ────────────────────────────────
+
+  /**
+   * Detaches the live track from every producer (so closing the producer
+   * doesn't stop it) and returns what is needed to publish it again.
+   */
+  const detachProducers = useCallback(async (): Promise<PublishedTrack[]> => {
+    const published: PublishedTrack[] = [];
+    for (const [label, producer] of producersRef.current) {
+      const track = producer.track;
+      if (track && track.readyState === 'live') {
+        published.push({ producerId: producer.id, label, track, paused: producer.paused, appData: producer.appData });
+      }
+      await producer.replaceTrack({ track: null }).catch(() => undefined);
+    }
+    return published;
+  }, []);
+
+  const republish = useCallback(async (published: PublishedTrack[]): Promise<void> => {
+    for (const { label, track, paused, appData } of published) {
+      await produceTrack(track, appData);
+      if (paused) await pauseProducer(label);
+    }
+  }, [produceTrack, pauseProducer]);
+
+  // ─── Recovery after a network change ──────────────────────────
+
+  const setRecovery = useCallback((direction: TransportDirection, state: MediaRecoveryState) => {
+    if (state === 'idle') recoveryRef.current.delete(direction);
+    else recoveryRef.current.set(direction, state);
+
+    let worst: MediaRecoveryState = 'idle';
+    for (const s of recoveryRef.current.values()) {
+      if (RECOVERY_SEVERITY[s] > RECOVERY_SEVERITY[worst]) worst = s;
+    }
+    useRoomStore.getState().setMediaRecovery(worst);
   }, []);
 
+  /**
+   * Replaces one transport with a fresh one. Send: producers are closed on
+   * the server (so peers drop them) and republished. Recv: every current
+   * subscription is consumed again.
+   */
+  const recreateTransport = useCallback(async (direction: TransportDirection): Promise<void> => {
+    const roomId = roomIdRef.current;
+    if (!roomId) throw new Error('Not in a room');
+
+    if (direction === 'send') {
+      const published = await detachProducers();
+      for (const { producerId } of published) {
+        await signaling.closeProducer(roomId, producerId).catch(() => undefined);
+      }
+      for (const producer of producersRef.current.values()) {
+        if (!producer.closed) producer.close();
+      }
+      producersRef.current.clear();
+      const dataLabels = [...dataProducersRef.current.keys()];
+      dataProducersRef.current.clear();
+
+      sendTransportRef.current?.close();
+      sendTransportRef.current = null;
+      await createSendTransport(roomId);
+      await republish(published);
+      for (const label of dataLabels) await produceData(label);
+      return;
+    }
+
+    const subscriptions: Array<{ userId: string; producerId: string }> = [];
+    for (const [userId, participant] of useParticipantsStore.getState().participants) {
+      for (const consumer of participant.consumers.values()) {
+        if (!consumer.closed) subscriptions.push({ userId, producerId: consumer.producerId });
+      }
+    }
+    useParticipantsStore.getState().clearConsumers();
+    const dataSubscriptions = [...dataConsumersRef.current].map(([dataProducerId, { userId }]) => ({ dataProducerId, userId }));
+    dataConsumersRef.current.clear();
+
+    recvTransportRef.current?.close();
+    recvTransportRef.current = null;
+    await createRecvTransport(roomId);
+    for (const { userId, producerId } of subscriptions) {
+      await consumeProducer(roomId, producerId, userId);
+    }
+    for (const { userId, dataProducerId } of dataSubscriptions) {
+      await consumeData(roomId, dataProducerId, userId);
+    }
+  }, [signaling, detachProducers, republish, produceData, createSendTransport, createRecvTransport, consumeProducer, consumeData]);
+
+  /**
+   * Tries an ICE restart first; if the transport doesn't reconnect in time,
+   * recreates it.
+   */
+  const recoverTransport = useCallback(async (transport: mediasoupTypes.Transport, direction: TransportDirection): Promise<void> => {
+    if (recoveryRef.current.has(direction) || transport.closed) return;
+
+    try {
+      setRecovery(direction, 'restarting_ice');
+      try {
+        const iceParameters = await signaling.restartIce(transport.id);
+        await transport.restartIce({ iceParameters });
+        if (await waitForConnected(transport, ICE_RESTART_TIMEOUT_MS)) {
+          setRecovery(direction, 'idle');
+          return;
+        }
+      } catch (err) {
+        console.warn(`ICE restart on ${direction} transport failed:`, err);
+      }
+
+      // Torn down meanwhile (left the room, server-side rebuild)
+      const current = direction === 'send' ? sendTransportRef.current : recvTransportRef.current;
+      if (current !== transport) {
+        setRecovery(direction, 'idle');
+        return;
+      }
+
+      setRecovery(direction, 'recreating_transports');
+      await recreateTransport(direction);
+      setRecovery(direction, 'idle');
+    } catch (err) {
+      console.error(`Failed to recover ${direction} transport:`, err);
+      setRecovery(direction, 'failed');
+    }
+  }, [signaling, setRecovery, recreateTransport]);
+
+  useEffect(() => {
+    recoverTransportRef.current = recoverTransport;
+  }, [recoverTransport]);
+
+  // ─── Reconnect after a server-side media rebuild ─────────────
+
+  /**
+   * Tears down the device, transports, producers and remote consumers, then
+   * recreates them against the room's new router and republishes the local
+   * tracks. Remote media comes back through media:newProducer as the other
+   * participants republish.
+   */
+  const reconnect = useCallback((roomId: string): Promise<void> => {
+    const run = async () => {
+      const published = await detachProducers();
+      const dataLabels = [...dataProducersRef.current.keys()];
+      // Receive-only webinar attendees have no send side to rebuild
+      const wasPublishing = sendTransportRef.current !== null;
+
+      useParticipantsStore.getState().clearConsumers();
+      cleanup();
+
+      const rtpCapabilities = await signaling.getRouterCapabilities(roomId);
+      await loadDevice(rtpCapabilities);
+      if (wasPublishing) {
+        await createSendTransport(roomId);
+        await republish(published);
+        for (const label of dataLabels) await produceData(label);
+      }
+      await createRecvTransport(roomId);
+    };
+
+    const next = reconnectChainRef.current.catch(() => undefined).then(run);
+    reconnectChainRef.current = next;
+    return next;
+  }, [signaling, cleanup, detachProducers, republish, produceData, loadDevice, createSendTransport, createRecvTransport]);
+
   return {
     deviceRef,
     sendTransportRef,
@@ -343,9 +940,18 @@ export function useWebRTC(signaling: Signaling) {
     produceTrack,
     consumeProducer,
     closeProducer,
+    closeSendTransport,
     pauseProducer,
     resumeProducer,
     replaceProducerTrack,
+    produceData,
+    sendData,
+    consumeData,
+    closeDataChannel,
+    onDataMessage,
+    setVideoQuality,
+    startStatsSampler,
+    reconnect,
     hasProducer: (label: string) => producersRef.current.has(label),
     cleanup,
   };
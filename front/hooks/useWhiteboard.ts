@@ -1,17 +1,35 @@
 import { useCallback, useRef, useState } from 'react';
-import type { Socket } from 'socket.io-client';
 import { WS_EVENTS } from '../constants';
-import type { WhiteboardCursor } from '../types/whiteboard.types';
+import type { SignalingSocket } from './useSignaling';
+import type { WhiteboardCursor, WhiteboardDataMessage } from '../types/whiteboard.types';
+
+/** Label of the DataChannel carrying cursors and in-progress strokes */
+export const WHITEBOARD_DATA_LABEL = 'whiteboard';
+
+// Minimum gap between in-progress scene frames sent over the DataChannel
+const LIVE_FRAME_INTERVAL_MS = 30;
 
 interface UseWhiteboardProps {
-  socket: Socket | null;
+  socket: SignalingSocket | null;
   roomId: string;
   userId: string;
   displayName?: string;
   onStateChange?: (active: boolean) => void;
+  /** Sends on the whiteboard DataChannel; false means use Socket.IO */
+  sendData?: (message: string) => boolean;
+  /** Subscribes to peers' whiteboard DataChannels */
+  onDataMessage?: (listener: (message: string, userId: string) => void) => () => void;
 }
 
-export function useWhiteboard({ socket, roomId, userId, displayName = 'User', onStateChange }: UseWhiteboardProps) {
+export function useWhiteboard({
+  socket,
+  roomId,
+  userId,
+  displayName = 'User',
+  onStateChange,
+  sendData,
+  onDataMessage,
+}: UseWhiteboardProps) {
   // Listeners for direct cursor updates (bypass React state for performance)
   const cursorListenersRef = useRef<Set<(data: WhiteboardCursor) => void>>(new Set());
 
@@ -24,6 +42,12 @@ export function useWhiteboard({ socket, roomId, userId, displayName = 'User', on
   // Guard to not re-apply our own broadcast
   const isBroadcastingRef = useRef(false);
 
+  // DataChannel frame bookkeeping: our sequence number / last frame time,
+  // and the latest sequence number applied per peer
+  const liveSeqRef = useRef(0);
+  const lastLiveFrameAtRef = useRef(0);
+  const remoteSeqRef = useRef<Map<string, number>>(new Map());
+
   // Subscribe to cursor updates
   const onCursorUpdate = useCallback((callback: (data: WhiteboardCursor) => void) => {
     cursorListenersRef.current.add(callback);
@@ -32,10 +56,20 @@ export function useWhiteboard({ socket, roomId, userId, displayName = 'User', on
     };
   }, []);
 
-  // Send full Excalidraw elements state (debounced 80ms)
+  // Send full Excalidraw elements state: live frames over the DataChannel,
+  // then the settled scene over Socket.IO (debounced 80ms)
   const sendElements = useCallback(
     (elements: readonly any[]) => {
-      if (!socket || !roomId) return;
+      if (!roomId) return;
+
+      const now = Date.now();
+      if (sendData && now - lastLiveFrameAtRef.current >= LIVE_FRAME_INTERVAL_MS) {
+        lastLiveFrameAtRef.current = now;
+        const frame: WhiteboardDataMessage = { type: 'draw', seq: ++liveSeqRef.current, elements };
+        sendData(JSON.stringify(frame));
+      }
+
+      if (!socket) return;
 
       if (broadcastTimerRef.current) {
         clearTimeout(broadcastTimerRef.current);
@@ -43,21 +77,24 @@ export function useWhiteboard({ socket, roomId, userId, displayName = 'User', on
 
       broadcastTimerRef.current = setTimeout(() => {
         isBroadcastingRef.current = true;
-        socket.emit(WS_EVENTS.WHITEBOARD_DRAW, { roomId, elements });
+        socket.emit(WS_EVENTS.WHITEBOARD_DRAW, { roomId, elements: [...elements] });
         // Reset flag after a short delay to allow the echo to be ignored
         setTimeout(() => { isBroadcastingRef.current = false; }, 100);
       }, 80);
     },
-    [socket, roomId],
+    [socket, roomId, sendData],
   );
 
   // Send cursor position
   const sendCursorPosition = useCallback(
     (x: number, y: number) => {
-      if (!socket || !roomId) return;
-      socket.emit(WS_EVENTS.WHITEBOARD_CURSOR, { roomId, x, y, displayName });
+      if (!roomId) return;
+      const message: WhiteboardDataMessage = { type: 'cursor', displayName, x, y };
+      if (sendData?.(JSON.stringify(message))) return;
+      if (!socket) return;
+      socket.emit(WS_EVENTS.WHITEBOARD_CURSOR, { roomId, x, y });
     },
-    [socket, roomId, displayName],
+    [socket, roomId, displayName, sendData],
   );
 
   // Send clear
@@ -109,6 +146,26 @@ export function useWhiteboard({ socket, roomId, userId, displayName = 'User', on
     [userId],
   );
 
+  const handleDataMessage = useCallback(
+    (raw: string, senderId: string) => {
+      let message: WhiteboardDataMessage;
+      try {
+        message = JSON.parse(raw) as WhiteboardDataMessage;
+      } catch {
+        return;
+      }
+
+      if (message.type === 'cursor') {
+        handleRemoteCursor({ userId: senderId, displayName: message.displayName, x: message.x, y: message.y });
+      } else if (message.type === 'draw') {
+        if (message.seq <= (remoteSeqRef.current.get(senderId) ?? 0)) return;
+        remoteSeqRef.current.set(senderId, message.seq);
+        handleRemoteDraw({ userId: senderId, elements: message.elements });
+      }
+    },
+    [handleRemoteCursor, handleRemoteDraw],
+  );
+
   const handleRemoteState = useCallback(
     (data: { userId: string; active: boolean }) => {
       if (data.userId === userId) return;
@@ -125,14 +182,16 @@ export function useWhiteboard({ socket, roomId, userId, displayName = 'User', on
     socket.on(WS_EVENTS.WHITEBOARD_CURSOR, handleRemoteCursor);
     socket.on(WS_EVENTS.WHITEBOARD_CLEAR, handleRemoteClear);
     socket.on(WS_EVENTS.WHITEBOARD_STATE, handleRemoteState);
+    const unsubscribeData = onDataMessage?.(handleDataMessage);
 
     return () => {
       socket.off(WS_EVENTS.WHITEBOARD_DRAW, handleRemoteDraw);
       socket.off(WS_EVENTS.WHITEBOARD_CURSOR, handleRemoteCursor);
       socket.off(WS_EVENTS.WHITEBOARD_CLEAR, handleRemoteClear);
       socket.off(WS_EVENTS.WHITEBOARD_STATE, handleRemoteState);
+      unsubscribeData?.();
     };
-  }, [socket, handleRemoteDraw, handleRemoteCursor, handleRemoteClear, handleRemoteState]);
+  }, [socket, handleRemoteDraw, handleRemoteCursor, handleRemoteClear, handleRemoteState, onDataMessage, handleDataMessage]);
 
   return {
     remoteElements,
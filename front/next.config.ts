@@ -1,7 +1,15 @@
+import path from "path";
 import type { NextConfig } from "next";
 
+// The WebSocket contract is imported from ../backend, so the build root is the repo
+const repoRoot = path.join(__dirname, "..");
+
 const nextConfig: NextConfig = {
   transpilePackages: ["@excalidraw/excalidraw"],
+  outputFileTracingRoot: repoRoot,
+  turbopack: {
+    root: repoRoot,
+  },
 };
 
 export default nextConfig;
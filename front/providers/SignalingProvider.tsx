@@ -1,20 +1,29 @@
 "use client";
 
 import React, { createContext, useContext, useEffect, useState, useRef, useCallback } from 'react';
-import { useSignaling } from '../hooks/useSignaling';
+import { useSignaling, RoomRedirectError } from '../hooks/useSignaling';
 import { useRoomStore } from '../store/room.store';
 import { useAuthStore } from '../store/auth.store';
 import { useParticipantsStore } from '../store/participants.store';
 import { useMediaStore } from '../store/media.store';
-import type { NewProducerEvent, UserJoinedEvent, UserLeftEvent, UserKickedEvent, AllMutedEvent, RoleChangedEvent, ProducerClosedEvent, ProducerPausedEvent, ProducerResumedEvent, HandRaisedEvent, ReactionEvent } from '../types';
+import type { NewProducerEvent, NewDataProducerEvent, UserJoinedEvent, UserLeftEvent, UserReconnectingEvent, UserKickedEvent, RoleChangedEvent, StageUpdatedEvent, UnmuteRequestedEvent, RoomEndingSoonEvent, ProducerClosedEvent, ProducerPausedEvent, ProducerResumedEvent, HandRaisedEvent, ReactionEvent, ActiveSpeakerEvent, MediaReconnectRequiredEvent, RecordingStartedEvent, StreamStatus, CaptionsStatus, BreakoutState, JoinRoomResponse } from '../types';
 
 type CustomNewProducerHandler = ((data: NewProducerEvent) => Promise<void>) | null;
+type CustomNewDataProducerHandler = ((data: NewDataProducerEvent) => Promise<void>) | null;
+type CustomReconnectHandler = ((data: MediaReconnectRequiredEvent) => Promise<void>) | null;
+type CustomRoomSwitchHandler = (() => void) | null;
+
+type ExistingDataProducer = { dataProducerId: string; userId: string; label: string };
 
 interface SignalingContextValue {
     signaling: ReturnType<typeof useSignaling>;
     existingProducers: Array<{ producerId: string; userId: string; kind: string }>;
     setExistingProducers: React.Dispatch<React.SetStateAction<Array<{ producerId: string; userId: string; kind: string }>>>;
     newProducerHandlerRef: React.MutableRefObject<CustomNewProducerHandler>;
+    existingDataProducers: ExistingDataProducer[];
+    newDataProducerHandlerRef: React.MutableRefObject<CustomNewDataProducerHandler>;
+    reconnectHandlerRef: React.MutableRefObject<CustomReconnectHandler>;
+    roomSwitchHandlerRef: React.MutableRefObject<CustomRoomSwitchHandler>;
     isInWaitingRoom: boolean;
     setIsInWaitingRoom: React.Dispatch<React.SetStateAction<boolean>>;
     waitingRoomId: string | null;
@@ -24,7 +33,11 @@ interface SignalingContextValue {
     rejectionMessage: string;
     setRejectionMessage: React.Dispatch<React.SetStateAction<string>>;
     handleLeaveRoom: () => void;
-    handleJoinRoom: (id: string) => Promise<void>;
+    /** Set when the meeting asked for a passcode; holds the server's message */
+    passcodePrompt: string | null;
+    handleJoinRoom: (id: string, nodeUrl?: string, passcode?: string) => Promise<void>;
+    /** Sends the host a note from the waiting room; resolves to an error message or null */
+    handleKnock: (message: string) => Promise<string | null>;
     handleCreateRoom: (title: string) => Promise<void>;
 }
 
@@ -38,6 +51,18 @@ export function useSignalingContext() {
     return ctx;
 }
 
+/** A host muted us: the server has paused our mic, so mirror it locally */
+function muteLocalMic() {
+    const stream = useMediaStore.getState().localStream;
+    if (stream) {
+        const audioTrack = stream.getAudioTracks()[0];
+        if (audioTrack) audioTrack.enabled = false;
+    }
+    useMediaStore.getState().setMicOn(false);
+    useRoomStore.getState().setMutedByHost(true);
+    useRoomStore.getState().setUnmuteRequest(null);
+}
+
 export function SignalingProvider({ children }: { children: React.ReactNode }) {
     const token = useAuthStore((s) => s.token);
     const userId = useAuthStore((s) => s.userId);
@@ -46,17 +71,61 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
     const [existingProducers, setExistingProducers] = useState<
         Array<{ producerId: string; userId: string; kind: string }>
     >([]);
+    const [existingDataProducers, setExistingDataProducers] = useState<ExistingDataProducer[]>([]);
 
     // Waiting room state
     const [isInWaitingRoom, setIsInWaitingRoom] = useState(false);
     const [waitingRoomId, setWaitingRoomId] = useState<string | null>(null);
     const [wasRejected, setWasRejected] = useState(false);
     const [rejectionMessage, setRejectionMessage] = useState('');
+    const [passcodePrompt, setPasscodePrompt] = useState<string | null>(null);
+    // Kept for the room:join that follows admission from the waiting room
+    const passcodeRef = useRef<string | undefined>(undefined);
 
     const newProducerHandlerRef = useRef<CustomNewProducerHandler>(null);
+    const newDataProducerHandlerRef = useRef<CustomNewDataProducerHandler>(null);
+    const reconnectHandlerRef = useRef<CustomReconnectHandler>(null);
+    const roomSwitchHandlerRef = useRef<CustomRoomSwitchHandler>(null);
     // Guard against concurrent room:join calls (prevents the retry storm)
     const joiningRef = useRef(false);
 
+    /** Load the room we just joined, moved to or resumed into */
+    const applyRoomSnapshot = useCallback((data: JoinRoomResponse) => {
+        const localId = useAuthStore.getState().userId ?? '';
+        const self = data.participants.find((p) => p.userId === localId);
+
+        useParticipantsStore.getState().syncParticipants(
+            data.participants.map((p) => ({
+                userId: p.userId,
+                displayName: p.displayName,
+                role: p.role,
+                isMuted: p.isMuted,
+                isVideoOff: p.isVideoOff,
+                handRaised: p.handRaised,
+                onStage: p.onStage,
+                reconnecting: p.reconnecting,
+            })),
+            localId,
+        );
+        useParticipantsStore.getState().setLocalHandRaised(!!self?.handRaised);
+
+        setExistingProducers(data.existingProducers.map((p) => ({ ...p, kind: p.kind })));
+        setExistingDataProducers(data.existingDataProducers ?? []);
+
+        const room = useRoomStore.getState();
+        room.setRoom(data.roomId, data.roomCode ?? null, data.role, data.allowScreenShare, data.allowWhiteboard);
+        room.setRecording(data.recording ?? null);
+        room.setStream(data.stream ?? null);
+        room.setCaptions(data.captions ?? null);
+        room.setRoomType(data.roomType ?? 'meeting');
+        room.setOnStage(!!self?.onStage);
+        room.setMutedByHost(!!data.mutedByHost);
+        room.setBreakoutRoom(data.parentRoomId ?? null, data.breakoutName ?? null);
+        room.setBreakouts(data.breakouts ?? null);
+        room.setResumeToken(data.resumeToken ?? null);
+        room.setRoomSettings({ locked: !!data.locked });
+    }, []);
+
     const signaling = useSignaling({
         onUserJoined: (data: UserJoinedEvent) => {
             useParticipantsStore.getState().addParticipant(data.userId, data.displayName, data.role);
@@ -64,21 +133,29 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
         onUserLeft: (data: UserLeftEvent) => {
             useParticipantsStore.getState().removeParticipant(data.userId);
         },
+        onUserReconnecting: (data: UserReconnectingEvent) => {
+            useParticipantsStore.getState().setParticipantReconnecting(data.userId, data.reconnecting);
+        },
         onRoomClosed: () => {
             handleLeaveRoom();
         },
+        onRoomEndingSoon: (data: RoomEndingSoonEvent) => {
+            useRoomStore.getState().setClosingAt(data.closesAt);
+        },
         onUserKicked: (data: UserKickedEvent) => {
             useRoomStore.getState().setKicked(data.reason);
             handleLeaveRoom();
         },
         onAllMuted: () => {
-            // Mute local mic
-            const stream = useMediaStore.getState().localStream;
-            if (stream) {
-                const audioTrack = stream.getAudioTracks()[0];
-                if (audioTrack) audioTrack.enabled = false;
-            }
-            useMediaStore.getState().setMicOn(false);
+            muteLocalMic();
+        },
+        onUserMuted: () => {
+            muteLocalMic();
+        },
+        onUnmuteRequested: (data: UnmuteRequestedEvent) => {
+            // The server lifted the lock; RoomPage asks before unmuting
+            useRoomStore.getState().setMutedByHost(false);
+            useRoomStore.getState().setUnmuteRequest(data);
         },
         onRoleChanged: (data: RoleChangedEvent) => {
             if (data.userId === userId) {
@@ -87,10 +164,22 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
                 useParticipantsStore.getState().setParticipantRole(data.userId, data.newRole);
             }
         },
+        onStageUpdated: (data: StageUpdatedEvent) => {
+            // RoomPage starts or stops publishing when the local flag flips
+            if (data.userId === userId) {
+                useRoomStore.getState().setOnStage(data.onStage);
+            } else {
+                useParticipantsStore.getState().setParticipantOnStage(data.userId, data.onStage);
+            }
+        },
         onNewProducer: (data: NewProducerEvent) => {
             // Forward to RoomPage's consume handler
             newProducerHandlerRef.current?.(data);
         },
+        onNewDataProducer: (data: NewDataProducerEvent) => {
+            // Forward to RoomPage's DataChannel subscribe handler
+            newDataProducerHandlerRef.current?.(data);
+        },
         onProducerClosed: (data: ProducerClosedEvent) => {
             useParticipantsStore.getState().removeConsumer(data.userId, data.producerId);
         },
@@ -124,9 +213,67 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
             store.setParticipantMuted(data.userId, !data.audioEnabled);
             store.setParticipantVideoOff(data.userId, !data.videoEnabled);
         },
-        onRoomSettingsUpdated: (data: { roomId: string; settings: { allowScreenShare?: boolean; allowWhiteboard?: boolean } }) => {
+        onRoomSettingsUpdated: (data: { roomId: string; settings: { allowScreenShare?: boolean; allowWhiteboard?: boolean; locked?: boolean } }) => {
             useRoomStore.getState().setRoomSettings(data.settings);
         },
+        onActiveSpeaker: (data: ActiveSpeakerEvent) => {
+            const store = useParticipantsStore.getState();
+            store.setActiveSpeaker(data.activeSpeakerId);
+            store.setAudioLevels(data.levels);
+        },
+        onReconnectRequired: (data: MediaReconnectRequiredEvent) => {
+            // Forward to RoomPage, which owns the WebRTC transports
+            reconnectHandlerRef.current?.(data);
+        },
+        onRecordingStarted: (data: RecordingStartedEvent) => {
+            useRoomStore.getState().setRecording({ recordingId: data.recordingId, startedAt: data.startedAt });
+        },
+        onRecordingStopped: () => {
+            useRoomStore.getState().setRecording(null);
+        },
+        onStreamStatus: (data: StreamStatus) => {
+            const active = data.state === 'live' || data.state === 'reconnecting';
+            useRoomStore.getState().setStream(active ? data : null);
+            if (data.state === 'failed') {
+                useRoomStore.getState().setError(data.error ?? 'Live stream failed');
+            }
+        },
+        onCaptionsStatus: (data: CaptionsStatus) => {
+            useRoomStore.getState().setCaptions(data.active ? data : null);
+        },
+        onBreakoutUpdated: (data: BreakoutState) => {
+            useRoomStore.getState().setBreakouts(data.rooms.length > 0 ? data : null);
+        },
+        onBreakoutMoved: (data: JoinRoomResponse) => {
+            // RoomPage drops the old room's media, then bootstraps the new one
+            roomSwitchHandlerRef.current?.();
+            applyRoomSnapshot(data);
+        },
+        onReconnected: () => {
+            // The server holds our seat for a grace period; take it back
+            const { roomId: currentRoomId, resumeToken } = useRoomStore.getState();
+            if (!currentRoomId || !resumeToken) return;
+
+            signaling.joinRoom(currentRoomId, { resumeToken })
+                .then((data) => {
+                    // Our transports died with the old connection
+                    roomSwitchHandlerRef.current?.();
+                    applyRoomSnapshot(data);
+                })
+                .catch((error: Error) => {
+                    if (error instanceof RoomRedirectError) {
+                        // We came back on a node that doesn't host the room: resume on its own
+                        roomSwitchHandlerRef.current?.();
+                        handleJoinRoom(currentRoomId, error.nodeUrl).catch((err: Error) => {
+                            handleLeaveRoom();
+                            useRoomStore.getState().setError(err.message);
+                        });
+                        return;
+                    }
+                    handleLeaveRoom();
+                    useRoomStore.getState().setError(error.message);
+                });
+        },
         onError: (data: { message: string }) => {
             useRoomStore.getState().setError(data.message);
         },
@@ -137,16 +284,20 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
         useMediaStore.getState().reset();
         useRoomStore.getState().reset();
         setExistingProducers([]);
+        setExistingDataProducers([]);
         setIsInWaitingRoom(false);
         setWaitingRoomId(null);
         setWasRejected(false);
         setRejectionMessage('');
+        setPasscodePrompt(null);
+        passcodeRef.current = undefined;
         signaling.disconnect();
     }, [signaling]);
 
 
-    const handleJoinRoom = useCallback(async (id: string) => {
-        const socket = signaling.connect();
+    const handleJoinRoom = useCallback(async (id: string, nodeUrl?: string, passcode?: string) => {
+        if (passcode !== undefined) passcodeRef.current = passcode;
+        const socket = signaling.connect(nodeUrl);
         if (!socket) throw new Error('Failed to connect');
 
         await new Promise<void>((resolve, reject) => {
@@ -178,27 +329,57 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
             checkReady();
         });
 
+        // Coming back (e.g. a reload) within the grace period: take our seat back
+        const persisted = useRoomStore.getState();
+        if (persisted.resumeToken && persisted.roomId && (id === persisted.roomId || id === persisted.roomCode)) {
+            try {
+                applyRoomSnapshot(await signaling.joinRoom(persisted.roomId, { resumeToken: persisted.resumeToken }));
+                return;
+            } catch (error) {
+                if (error instanceof RoomRedirectError && !nodeUrl) {
+                    // The seat is held on the room's own node; resume there
+                    return handleJoinRoom(id, error.nodeUrl, passcode);
+                }
+                persisted.setResumeToken(null);
+            }
+        }
+
         setWaitingRoomId(id);
         setIsInWaitingRoom(true);
         setWasRejected(false);
         setRejectionMessage('');
 
-        socket.emit('waitingRoom:join', { roomId: id }, async (response: any) => {
+        setPasscodePrompt(null);
+
+        socket.emit('waitingRoom:join', { roomId: id, passcode: passcodeRef.current }, async (response) => {
             console.log('JOIN_WAITING_ROOM response:', response);
-            if (!response.success) {
+            if (!response.success && response.redirectUrl && !nodeUrl) {
+                // The room lives on another backend node: reconnect there and retry once
+                console.log('Room hosted on another node, redirecting to', response.redirectUrl);
+                handleJoinRoom(id, response.redirectUrl, passcode).catch((error) => {
+                    console.error('Failed to join room on its node:', error);
+                    setIsInWaitingRoom(false);
+                    setWaitingRoomId(null);
+                    useRoomStore.getState().setError('Failed to join room');
+                });
+            } else if (!response.success && response.passcodeRequired) {
+                setIsInWaitingRoom(false);
+                setWaitingRoomId(null);
+                setPasscodePrompt(response.error || 'This meeting requires a passcode');
+            } else if (!response.success) {
                 setIsInWaitingRoom(false);
                 setWaitingRoomId(null);
                 useRoomStore.getState().setError(response.error || 'Failed to join waiting room');
-            } else if (response.isHost) {
-                // If the user is the host, bypass the waiting room and join immediately
-                console.log('User is host, joining directly');
+            } else if (response.isHost || response.admitted) {
+                // Hosts, and users the meeting admits automatically, skip the waiting room
+                console.log('Admitted without approval, joining directly');
                 if (joiningRef.current) {
                     console.warn('Join already in progress, skipping duplicate host join');
                     return;
                 }
                 joiningRef.current = true;
                 try {
-                    const joined = await signaling.joinRoom(id);
+                    const joined = await signaling.joinRoom(id, { passcode: passcodeRef.current });
                     const localId = useAuthStore.getState().userId ?? '';
 
                     useParticipantsStore.getState().syncParticipants(
@@ -208,6 +389,8 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
                             role: p.role,
                             isMuted: p.isMuted,
                             isVideoOff: p.isVideoOff,
+                            onStage: p.onStage,
+                            reconnecting: p.reconnecting,
                         })),
                         localId,
                     );
@@ -215,18 +398,38 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
                     setExistingProducers(
                         joined.existingProducers.map((p) => ({ ...p, kind: p.kind })),
                     );
+                    setExistingDataProducers(joined.existingDataProducers ?? []);
 
                     useRoomStore.getState().setRoom(
                         joined.roomId,
-                        joined.roomCode,
+                        joined.roomCode ?? null,
                         joined.role,
                         joined.allowScreenShare,
                         joined.allowWhiteboard
                     );
+                    useRoomStore.getState().setRecording(joined.recording ?? null);
+                    useRoomStore.getState().setStream(joined.stream ?? null);
+                    useRoomStore.getState().setCaptions(joined.captions ?? null);
+                    useRoomStore.getState().setRoomType(joined.roomType ?? 'meeting');
+                    useRoomStore.getState().setOnStage(false);
+                    useRoomStore.getState().setMutedByHost(!!joined.mutedByHost);
+                    useRoomStore.getState().setBreakoutRoom(joined.parentRoomId ?? null, joined.breakoutName ?? null);
+                    useRoomStore.getState().setBreakouts(joined.breakouts ?? null);
+                    useRoomStore.getState().setResumeToken(joined.resumeToken ?? null);
+                    useRoomStore.getState().setRoomSettings({ locked: !!joined.locked });
 
                     setIsInWaitingRoom(false);
                     setWaitingRoomId(null);
                 } catch (error) {
+                    if (error instanceof RoomRedirectError && !nodeUrl) {
+                        handleJoinRoom(id, error.nodeUrl, passcode).catch((err) => {
+                            console.error('Failed to join room on its node:', err);
+                            setIsInWaitingRoom(false);
+                            setWaitingRoomId(null);
+                            useRoomStore.getState().setError('Failed to join room');
+                        });
+                        return;
+                    }
                     console.error('Failed to join room directly as host:', error);
                     setIsInWaitingRoom(false);
                     setWaitingRoomId(null);
@@ -238,7 +441,18 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
                 setWaitingRoomId(response.roomId);
             }
         });
-    }, [signaling]);
+    }, [signaling, applyRoomSnapshot]);
+
+    const handleKnock = useCallback((message: string) => {
+        const socket = signaling.socketRef.current;
+        if (!socket || !waitingRoomId) return Promise.resolve('Not in a waiting room');
+
+        return new Promise<string | null>((resolve) => {
+            socket.emit('waitingRoom:knock', { roomId: waitingRoomId, message }, (response) => {
+                resolve(response.success ? null : response.error || 'Failed to send message');
+            });
+        });
+    }, [signaling, waitingRoomId]);
 
     const handleCreateRoom = useCallback(async (title: string) => {
         const socket = signaling.connect();
@@ -285,6 +499,8 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
                 role: p.role,
                 isMuted: p.isMuted,
                 isVideoOff: p.isVideoOff,
+                onStage: p.onStage,
+                reconnecting: p.reconnecting,
             })),
             localId,
         );
@@ -292,6 +508,7 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
         setExistingProducers(
             joined.existingProducers.map((p) => ({ ...p, kind: p.kind })),
         );
+        setExistingDataProducers(joined.existingDataProducers ?? []);
 
         useRoomStore.getState().setRoom(
             created.roomId,
@@ -300,13 +517,23 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
             joined.allowScreenShare,
             joined.allowWhiteboard
         );
+        useRoomStore.getState().setRecording(joined.recording ?? null);
+        useRoomStore.getState().setStream(joined.stream ?? null);
+        useRoomStore.getState().setCaptions(joined.captions ?? null);
+        useRoomStore.getState().setRoomType(joined.roomType ?? 'meeting');
+        useRoomStore.getState().setOnStage(false);
+        useRoomStore.getState().setMutedByHost(!!joined.mutedByHost);
+        useRoomStore.getState().setBreakoutRoom(joined.parentRoomId ?? null, joined.breakoutName ?? null);
+        useRoomStore.getState().setBreakouts(joined.breakouts ?? null);
+        useRoomStore.getState().setResumeToken(joined.resumeToken ?? null);
+        useRoomStore.getState().setRoomSettings({ locked: !!joined.locked });
     }, [signaling]);
 
     useEffect(() => {
         const socket = signaling.socketRef.current;
         if (!socket) return;
 
-        const handleAdmitted = async (data: { roomId: string; message: string }) => {
+        const handleAdmitted = async (data: { roomId: string; message?: string }) => {
             if (!isInWaitingRoom || data.roomId !== waitingRoomId) return;
             if (joiningRef.current) {
                 console.warn('Join already in progress, skipping duplicate admitted join');
@@ -314,7 +541,7 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
             }
             joiningRef.current = true;
             try {
-                const joined = await signaling.joinRoom(data.roomId);
+                const joined = await signaling.joinRoom(data.roomId, { passcode: passcodeRef.current });
                 const localId = useAuthStore.getState().userId ?? '';
 
                 useParticipantsStore.getState().syncParticipants(
@@ -324,6 +551,8 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
                         role: p.role,
                         isMuted: p.isMuted,
                         isVideoOff: p.isVideoOff,
+                        onStage: p.onStage,
+                        reconnecting: p.reconnecting,
                     })),
                     localId,
                 );
@@ -331,14 +560,25 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
                 setExistingProducers(
                     joined.existingProducers.map((p) => ({ ...p, kind: p.kind })),
                 );
+                setExistingDataProducers(joined.existingDataProducers ?? []);
 
                 useRoomStore.getState().setRoom(
                     joined.roomId,
-                    joined.roomCode,
+                    joined.roomCode ?? null,
                     joined.role,
                     joined.allowScreenShare,
                     joined.allowWhiteboard
                 );
+                useRoomStore.getState().setRecording(joined.recording ?? null);
+                useRoomStore.getState().setStream(joined.stream ?? null);
+                useRoomStore.getState().setCaptions(joined.captions ?? null);
+                useRoomStore.getState().setRoomType(joined.roomType ?? 'meeting');
+                useRoomStore.getState().setOnStage(false);
+                useRoomStore.getState().setMutedByHost(!!joined.mutedByHost);
+                useRoomStore.getState().setBreakoutRoom(joined.parentRoomId ?? null, joined.breakoutName ?? null);
+                useRoomStore.getState().setBreakouts(joined.breakouts ?? null);
+                useRoomStore.getState().setResumeToken(joined.resumeToken ?? null);
+                useRoomStore.getState().setRoomSettings({ locked: !!joined.locked });
 
                 setIsInWaitingRoom(false);
                 setWaitingRoomId(null);
@@ -379,6 +619,10 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
             existingProducers,
             setExistingProducers,
             newProducerHandlerRef,
+            existingDataProducers,
+            newDataProducerHandlerRef,
+            reconnectHandlerRef,
+            roomSwitchHandlerRef,
             isInWaitingRoom,
             setIsInWaitingRoom,
             waitingRoomId,
@@ -387,7 +631,9 @@ export function SignalingProvider({ children }: { children: React.ReactNode }) {
             setWasRejected,
             rejectionMessage,
             setRejectionMessage,
+            passcodePrompt,
             handleJoinRoom,
+            handleKnock,
             handleCreateRoom,
             handleLeaveRoom
         }}>
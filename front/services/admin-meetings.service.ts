@@ -1,5 +1,7 @@
 // Admin API endpoints for meeting management
 
+import type { RoomType } from '../types';
+
 export interface AdminMeeting {
     id: string;
     title: string;
@@ -12,6 +14,12 @@ export interface AdminMeeting {
     scheduledStart: string | null;
     scheduledEnd: string | null;
     peakParticipants: number;
+    /** Set on occurrences of a recurring meeting */
+    seriesId?: string | null;
+    /** Edited or cancelled on its own; series edits leave it alone */
+    isException?: boolean;
+    /** The host never joined the scheduled meeting in time */
+    hostNoShow?: boolean;
     createdAt: string;
     updatedAt: string;
     host?: {
@@ -30,8 +38,45 @@ export interface ScheduleMeetingRequest {
     scheduledStart: string;
     scheduledEnd: string;
     maxParticipants?: number;
+    roomType?: RoomType;
     allowScreenShare?: boolean;
     allowWhiteboard?: boolean;
+    /** Optional join passcode */
+    passcode?: string;
+    /** Waiting users need approval unless an auto-admit rule below matches */
+    requireApproval?: boolean;
+    /** Auto-admit students with access to this subject */
+    subjectId?: string;
+    /** Auto-admit teachers who share a subject with the host */
+    autoAdmitCoTeachers?: boolean;
+    /** Auto-admit verified emails on this domain */
+    autoAdmitEmailDomain?: string;
+    /** Makes this a recurring meeting, e.g. FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10 */
+    rrule?: string;
+    /** IANA time zone occurrences keep their wall-clock time in */
+    timezone?: string;
+}
+
+export interface MeetingSeries {
+    id: string;
+    title: string;
+    hostId: string;
+    rrule: string;
+    dtstart: string;
+    durationMinutes: number;
+    timezone: string;
+    cancelledAt: string | null;
+}
+
+export interface MeetingSeriesDetails {
+    series: MeetingSeries;
+    occurrences: AdminMeeting[];
+}
+
+/** Platform-wide meeting settings (admin only) */
+export interface MeetingSettings {
+    /** Joining an unknown room ID creates a room for it */
+    autoCreateRooms: boolean;
 }
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
@@ -88,8 +133,8 @@ export const adminMeetingsApi = {
         return response.json();
     },
 
-    // Schedule a meeting
-    schedule: async (token: string, data: ScheduleMeetingRequest): Promise<AdminMeeting> => {
+    // Schedule a meeting, or a series when `rrule` is set
+    schedule: async (token: string, data: ScheduleMeetingRequest): Promise<AdminMeeting | MeetingSeriesDetails> => {
         const response = await fetch(`${API_BASE}/admin/meetings/schedule`, {
             method: 'POST',
             headers: getAuthHeaders(token),
@@ -105,7 +150,7 @@ export const adminMeetingsApi = {
     },
 
     // Create instant meeting
-    createInstantMeeting: async (token: string, options?: { allowScreenShare?: boolean; allowWhiteboard?: boolean }): Promise<{ roomId: string; roomCode: string }> => {
+    createInstantMeeting: async (token: string, options?: { roomType?: RoomType; allowScreenShare?: boolean; allowWhiteboard?: boolean }): Promise<{ roomId: string; roomCode: string }> => {
         const response = await fetch(`${API_BASE}/admin/meetings/create`, {
             method: 'POST',
             headers: getAuthHeaders(token),
@@ -120,6 +165,36 @@ export const adminMeetingsApi = {
         return response.json();
     },
 
+    // Get platform-wide meeting settings
+    getSettings: async (token: string): Promise<MeetingSettings> => {
+        const response = await fetch(`${API_BASE}/admin/meetings/settings`, {
+            headers: getAuthHeaders(token),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to fetch settings' }));
+            throw new Error(error.message || 'Failed to fetch settings');
+        }
+
+        return response.json();
+    },
+
+    // Update platform-wide meeting settings
+    updateSettings: async (token: string, settings: Partial<MeetingSettings>): Promise<MeetingSettings> => {
+        const response = await fetch(`${API_BASE}/admin/meetings/settings`, {
+            method: 'PATCH',
+            headers: getAuthHeaders(token),
+            body: JSON.stringify(settings),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to update settings' }));
+            throw new Error(error.message || 'Failed to update settings');
+        }
+
+        return response.json();
+    },
+
     // Start a scheduled meeting (activate it in Redis)
     startMeeting: async (token: string, meetingId: string): Promise<{ roomId: string; roomCode: string }> => {
         const response = await fetch(`${API_BASE}/admin/meetings/${meetingId}/start`, {
@@ -134,4 +209,115 @@ export const adminMeetingsApi = {
 
         return response.json();
     },
+
+    // Move or rename one scheduled meeting (an exception when it belongs to a series)
+    updateMeeting: async (
+        token: string,
+        meetingId: string,
+        data: { title?: string; scheduledStart?: string; scheduledEnd?: string }
+    ): Promise<AdminMeeting> => {
+        const response = await fetch(`${API_BASE}/admin/meetings/${meetingId}`, {
+            method: 'PATCH',
+            headers: getAuthHeaders(token),
+            body: JSON.stringify(data),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to update meeting' }));
+            throw new Error(error.message || 'Failed to update meeting');
+        }
+
+        return response.json();
+    },
+
+    // Cancel one scheduled meeting, e.g. a single occurrence of a series
+    cancelMeeting: async (token: string, meetingId: string): Promise<AdminMeeting> => {
+        const response = await fetch(`${API_BASE}/admin/meetings/${meetingId}/cancel`, {
+            method: 'POST',
+            headers: getAuthHeaders(token),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to cancel meeting' }));
+            throw new Error(error.message || 'Failed to cancel meeting');
+        }
+
+        return response.json();
+    },
+
+    // Get a recurring meeting and its occurrences
+    getSeries: async (token: string, seriesId: string): Promise<MeetingSeriesDetails> => {
+        const response = await fetch(`${API_BASE}/admin/meetings/series/${seriesId}`, {
+            headers: getAuthHeaders(token),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to fetch series' }));
+            throw new Error(error.message || 'Failed to fetch series');
+        }
+
+        return response.json();
+    },
+
+    // Edit a recurring meeting from now on
+    updateSeries: async (
+        token: string,
+        seriesId: string,
+        data: Partial<Omit<ScheduleMeetingRequest, 'passcode'>> & { passcode?: string | null }
+    ): Promise<MeetingSeriesDetails> => {
+        const response = await fetch(`${API_BASE}/admin/meetings/series/${seriesId}`, {
+            method: 'PATCH',
+            headers: getAuthHeaders(token),
+            body: JSON.stringify(data),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to update series' }));
+            throw new Error(error.message || 'Failed to update series');
+        }
+
+        return response.json();
+    },
+
+    // Cancel every upcoming occurrence of a recurring meeting
+    cancelSeries: async (token: string, seriesId: string): Promise<{ id: string; cancelledCount: number }> => {
+        const response = await fetch(`${API_BASE}/admin/meetings/series/${seriesId}`, {
+            method: 'DELETE',
+            headers: getAuthHeaders(token),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to cancel series' }));
+            throw new Error(error.message || 'Failed to cancel series');
+        }
+
+        return response.json();
+    },
+
+    // Download a meeting's poll results as CSV
+    exportPolls: async (token: string, meetingId: string): Promise<Blob> => {
+        const response = await fetch(`${API_BASE}/admin/meetings/${meetingId}/polls/export`, {
+            headers: getAuthHeaders(token),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to export poll results' }));
+            throw new Error(error.message || 'Failed to export poll results');
+        }
+
+        return response.blob();
+    },
+
+    exportTranscript: async (token: string, meetingId: string): Promise<Blob> => {
+        const response = await fetch(`${API_BASE}/admin/meetings/${meetingId}/transcript`, {
+            headers: getAuthHeaders(token),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to download transcript' }));
+            throw new Error(error.message || 'Failed to download transcript');
+        }
+
+        return response.blob();
+    },
 };
@@ -32,6 +32,37 @@ export interface UserAttendanceSummary {
   lastAttended: string | null;
 }
 
+export interface EngagementRecord {
+  id: string;
+  meetingId: string;
+  meetingTitle: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  presentSeconds: number;
+  cameraSeconds: number;
+  speakingSeconds: number;
+  hiddenSeconds: number;
+  chatMessages: number;
+  questionsAsked: number;
+  questionUpvotes: number;
+  handRaises: number;
+  reactions: number;
+  /** 0–100 */
+  score: number;
+  updatedAt: string;
+}
+
+export interface UserEngagementSummary {
+  userId: string;
+  userName: string;
+  userEmail: string;
+  sessions: number;
+  averageScore: number;
+  lastScore: number;
+  lastSessionAt: string;
+}
+
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
 
 function getAuthHeaders(token: string) {
@@ -166,6 +197,70 @@ export const attendanceApi = {
       throw new Error(error.message || 'Failed to fetch room attendance');
     }
 
+    return response.json();
+  },
+  // Get per-meeting engagement records
+  getEngagement: async (
+    token: string,
+    filters?: {
+      meetingId?: string;
+      userId?: string;
+      startDate?: string;
+      endDate?: string;
+      limit?: number;
+      offset?: number;
+    },
+  ): Promise<{ records: EngagementRecord[]; total: number }> => {
+    const url = new URL(`${API_BASE}/attendance/engagement`);
+
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          url.searchParams.append(key, String(value));
+        }
+      });
+    }
+
+    const response = await fetch(url.toString(), {
+      headers: getAuthHeaders(token),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Failed to fetch engagement' }));
+      throw new Error(error.message || 'Failed to fetch engagement');
+    }
+
+    return response.json();
+  },
+
+  // Get average engagement per student, least engaged first
+  getEngagementSummary: async (
+    token: string,
+    filters?: {
+      startDate?: string;
+      endDate?: string;
+      limit?: number;
+    },
+  ): Promise<{ users: UserEngagementSummary[] }> => {
+    const url = new URL(`${API_BASE}/attendance/engagement/summary`);
+
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          url.searchParams.append(key, String(value));
+        }
+      });
+    }
+
+    const response = await fetch(url.toString(), {
+      headers: getAuthHeaders(token),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Failed to fetch engagement summary' }));
+      throw new Error(error.message || 'Failed to fetch engagement summary');
+    }
+
     return response.json();
   },
 };
@@ -0,0 +1,207 @@
+// Quizzes API service: question banks and results
+
+import type { QuizQuestionType } from '../types/quiz.types';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
+
+function getAuthHeaders(token: string) {
+    return {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+    };
+}
+
+export interface QuizQuestion {
+    id: string;
+    subjectId: string;
+    type: QuizQuestionType;
+    prompt: string;
+    choices: string[];
+    /** Indexes into `choices` */
+    correctChoices: number[];
+    acceptedAnswers: string[];
+    points: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface QuizQuestionInput {
+    type: QuizQuestionType;
+    prompt: string;
+    choices?: string[];
+    correctChoices?: number[];
+    acceptedAnswers?: string[];
+    points?: number;
+}
+
+interface QuizSubjectRef {
+    id: string;
+    name: string;
+    color: string | null;
+}
+
+export interface QuizSummary {
+    id: string;
+    title: string;
+    subject: QuizSubjectRef;
+    meeting: { id: string; title: string };
+    startedAt: string;
+    endsAt: string;
+    closedAt: string | null;
+    questionCount: number;
+    maxScore: number;
+    submissions: number;
+    averageScore: number | null;
+    /** Submissions with open answers still to grade */
+    pendingGrading: number;
+}
+
+export interface QuizAnswer {
+    id: string;
+    itemId: string;
+    choices: number[];
+    text: string | null;
+    isCorrect: boolean | null;
+    /** null until graded */
+    points: number | null;
+}
+
+export interface QuizAttempt {
+    id: string;
+    userId: string;
+    score: number;
+    maxScore: number;
+    pendingGrading: boolean;
+    submittedAt: string;
+    user: { id: string; displayName: string; email: string };
+    answers: QuizAnswer[];
+}
+
+export interface QuizResults {
+    id: string;
+    title: string;
+    subject: QuizSubjectRef;
+    meeting: { id: string; title: string };
+    startedAt: string;
+    endsAt: string;
+    closedAt: string | null;
+    items: Array<Omit<QuizQuestion, 'subjectId' | 'createdAt' | 'updatedAt'> & { position: number }>;
+    attempts: QuizAttempt[];
+}
+
+export interface StudentQuizResult {
+    id: string;
+    quizId: string;
+    title: string;
+    subject: QuizSubjectRef;
+    meeting: { id: string; title: string };
+    score: number;
+    maxScore: number;
+    pendingGrading: boolean;
+    submittedAt: string;
+}
+
+export const quizzesApi = {
+    // ─── QUESTION BANK ──────────────────────────────
+
+    getQuestions: async (token: string, subjectId: string): Promise<QuizQuestion[]> => {
+        const response = await fetch(`${API_BASE}/admin/subjects/${subjectId}/questions`, {
+            headers: getAuthHeaders(token),
+        });
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to fetch questions' }));
+            throw new Error(error.message || 'Failed to fetch questions');
+        }
+        return response.json();
+    },
+
+    createQuestion: async (token: string, subjectId: string, data: QuizQuestionInput): Promise<QuizQuestion> => {
+        const response = await fetch(`${API_BASE}/admin/subjects/${subjectId}/questions`, {
+            method: 'POST',
+            headers: getAuthHeaders(token),
+            body: JSON.stringify(data),
+        });
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to add question' }));
+            throw new Error(error.message || 'Failed to add question');
+        }
+        return response.json();
+    },
+
+    updateQuestion: async (token: string, subjectId: string, questionId: string, data: Partial<QuizQuestionInput>): Promise<QuizQuestion> => {
+        const response = await fetch(`${API_BASE}/admin/subjects/${subjectId}/questions/${questionId}`, {
+            method: 'PUT',
+            headers: getAuthHeaders(token),
+            body: JSON.stringify(data),
+        });
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to update question' }));
+            throw new Error(error.message || 'Failed to update question');
+        }
+        return response.json();
+    },
+
+    deleteQuestion: async (token: string, subjectId: string, questionId: string): Promise<void> => {
+        const response = await fetch(`${API_BASE}/admin/subjects/${subjectId}/questions/${questionId}`, {
+            method: 'DELETE',
+            headers: getAuthHeaders(token),
+        });
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to delete question' }));
+            throw new Error(error.message || 'Failed to delete question');
+        }
+    },
+
+    // ─── RESULTS ────────────────────────────────────
+
+    getQuizzes: async (token: string, subjectId?: string): Promise<QuizSummary[]> => {
+        const url = new URL(`${API_BASE}/admin/quizzes`);
+        if (subjectId) url.searchParams.append('subjectId', subjectId);
+
+        const response = await fetch(url.toString(), {
+            headers: getAuthHeaders(token),
+        });
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to fetch quizzes' }));
+            throw new Error(error.message || 'Failed to fetch quizzes');
+        }
+        return response.json();
+    },
+
+    getQuizResults: async (token: string, quizId: string): Promise<QuizResults> => {
+        const response = await fetch(`${API_BASE}/admin/quizzes/${quizId}`, {
+            headers: getAuthHeaders(token),
+        });
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to fetch quiz results' }));
+            throw new Error(error.message || 'Failed to fetch quiz results');
+        }
+        return response.json();
+    },
+
+    gradeAnswer: async (token: string, quizId: string, answerId: string, points: number): Promise<Omit<QuizAttempt, 'user'>> => {
+        const response = await fetch(`${API_BASE}/admin/quizzes/${quizId}/answers/${answerId}`, {
+            method: 'PATCH',
+            headers: getAuthHeaders(token),
+            body: JSON.stringify({ points }),
+        });
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to grade answer' }));
+            throw new Error(error.message || 'Failed to grade answer');
+        }
+        return response.json();
+    },
+
+    // ─── SELF-SERVICE ───────────────────────────────
+
+    getMyResults: async (token: string): Promise<StudentQuizResult[]> => {
+        const response = await fetch(`${API_BASE}/admin/quizzes/my-results`, {
+            headers: getAuthHeaders(token),
+        });
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ message: 'Failed to fetch your quiz results' }));
+            throw new Error(error.message || 'Failed to fetch your quiz results');
+        }
+        return response.json();
+    },
+};
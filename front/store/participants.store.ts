@@ -1,9 +1,14 @@
 import { create } from 'zustand';
-import type { RemoteParticipant, RoomRole } from '../types';
+import type { RemoteParticipant, RoomRole, ConnectionQuality } from '../types';
 
 interface ParticipantsState {
   participants: Map<string, RemoteParticipant>;
   activeSpeakerId: string | null;
+  /** userId → normalised speaking level (0–1) from the server's audio level observer */
+  audioLevels: Map<string, number>;
+  pinnedUserId: string | null;
+  /** userId → link quality sampled from local WebRTC stats (includes the local user) */
+  connectionQuality: Map<string, ConnectionQuality>;
   localHandRaised: boolean;
   localReaction: string | null;
 }
@@ -16,11 +21,17 @@ interface ParticipantsActions {
   setParticipantMuted: (userId: string, muted: boolean) => void;
   setParticipantVideoOff: (userId: string, videoOff: boolean) => void;
   setParticipantRole: (userId: string, role: RoomRole) => void;
+  setParticipantOnStage: (userId: string, onStage: boolean) => void;
   addConsumer: (userId: string, consumerId: string, consumer: import('mediasoup-client').types.Consumer) => void;
   removeConsumer: (userId: string, consumerId: string) => void;
+  clearConsumers: () => void;
   setActiveSpeaker: (userId: string | null) => void;
-  syncParticipants: (serverParticipants: Array<{ userId: string; displayName: string; role: RoomRole; isMuted: boolean; isVideoOff: boolean; handRaised?: boolean }>, localUserId: string) => void;
+  setAudioLevels: (levels: Array<{ userId: string; volume: number }>) => void;
+  setPinnedUser: (userId: string | null) => void;
+  setConnectionQuality: (quality: Map<string, ConnectionQuality>) => void;
+  syncParticipants: (serverParticipants: Array<{ userId: string; displayName: string; role: RoomRole; isMuted: boolean; isVideoOff: boolean; handRaised?: boolean; onStage?: boolean; reconnecting?: boolean }>, localUserId: string) => void;
   setParticipantHandRaised: (userId: string, handRaised: boolean) => void;
+  setParticipantReconnecting: (userId: string, reconnecting: boolean) => void;
   setParticipantReaction: (userId: string, reaction: string) => void;
   setLocalHandRaised: (handRaised: boolean) => void;
   setLocalReaction: (reaction: string) => void;
@@ -30,6 +41,9 @@ interface ParticipantsActions {
 export const useParticipantsStore = create<ParticipantsState & ParticipantsActions>((set, get) => ({
   participants: new Map(),
   activeSpeakerId: null,
+  audioLevels: new Map(),
+  pinnedUserId: null,
+  connectionQuality: new Map(),
   localHandRaised: false,
   localReaction: null,
 
@@ -63,7 +77,7 @@ export const useParticipantsStore = create<ParticipantsState & ParticipantsActio
 
     const next = new Map(current);
     next.delete(userId);
-    set({ participants: next });
+    set({ participants: next, pinnedUserId: get().pinnedUserId === userId ? null : get().pinnedUserId });
   },
 
   setParticipantAudioTrack: (userId, track) => {
@@ -120,6 +134,16 @@ export const useParticipantsStore = create<ParticipantsState & ParticipantsActio
     set({ participants: next });
   },
 
+  setParticipantOnStage: (userId, onStage) => {
+    const current = get().participants;
+    const participant = current.get(userId);
+    if (!participant) return;
+
+    const next = new Map(current);
+    next.set(userId, { ...participant, onStage });
+    set({ participants: next });
+  },
+
   addConsumer: (userId, consumerId, consumer) => {
     const current = get().participants;
     const participant = current.get(userId);
@@ -149,7 +173,34 @@ export const useParticipantsStore = create<ParticipantsState & ParticipantsActio
     set({ participants: next });
   },
 
-  setActiveSpeaker: (userId) => set({ activeSpeakerId: userId }),
+  clearConsumers: () => {
+    const next = new Map<string, RemoteParticipant>();
+    for (const [userId, participant] of get().participants) {
+      for (const consumer of participant.consumers.values()) {
+        if (!consumer.closed) consumer.close();
+      }
+      next.set(userId, { ...participant, audioTrack: null, videoTrack: null, consumers: new Map() });
+    }
+    set({ participants: next });
+  },
+
+  setActiveSpeaker: (userId) => {
+    if (get().activeSpeakerId !== userId) set({ activeSpeakerId: userId });
+  },
+
+  setAudioLevels: (levels) => {
+    // dBov from the observer threshold (-70) up to 0 → 0–1
+    const next = new Map<string, number>();
+    for (const { userId, volume } of levels) {
+      next.set(userId, Math.min(1, Math.max(0, (volume + 70) / 70)));
+    }
+    if (next.size === 0 && get().audioLevels.size === 0) return;
+    set({ audioLevels: next });
+  },
+
+  setPinnedUser: (userId) => set({ pinnedUserId: userId }),
+
+  setConnectionQuality: (quality) => set({ connectionQuality: quality }),
 
   syncParticipants: (serverParticipants, localUserId) => {
     const current = get().participants;
@@ -170,6 +221,8 @@ export const useParticipantsStore = create<ParticipantsState & ParticipantsActio
           isMuted: sp.isMuted,
           isVideoOff: sp.isVideoOff,
           handRaised: sp.handRaised,
+          onStage: sp.onStage,
+          reconnecting: sp.reconnecting,
           consumers: new Map(),
         });
       } else {
@@ -181,6 +234,8 @@ export const useParticipantsStore = create<ParticipantsState & ParticipantsActio
           isMuted: sp.isMuted,
           isVideoOff: sp.isVideoOff,
           handRaised: sp.handRaised,
+          onStage: sp.onStage,
+          reconnecting: sp.reconnecting,
         });
       }
     }
@@ -211,6 +266,16 @@ export const useParticipantsStore = create<ParticipantsState & ParticipantsActio
     set({ participants: next });
   },
 
+  setParticipantReconnecting: (userId, reconnecting) => {
+    const current = get().participants;
+    const participant = current.get(userId);
+    if (!participant) return;
+
+    const next = new Map(current);
+    next.set(userId, { ...participant, reconnecting });
+    set({ participants: next });
+  },
+
   setParticipantReaction: (userId, reaction) => {
     const current = get().participants;
     const participant = current.get(userId);
@@ -251,6 +316,6 @@ export const useParticipantsStore = create<ParticipantsState & ParticipantsActio
         if (!consumer.closed) consumer.close();
       }
     }
-    set({ participants: new Map(), activeSpeakerId: null, localHandRaised: false, localReaction: null });
+    set({ participants: new Map(), activeSpeakerId: null, audioLevels: new Map(), pinnedUserId: null, connectionQuality: new Map(), localHandRaised: false, localReaction: null });
   },
 }));
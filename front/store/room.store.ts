@@ -1,9 +1,10 @@
 import { create } from 'zustand';
-import type { RoomRole, ConnectionState } from '../types';
+import type { RoomRole, RoomType, ConnectionState, MediaRecoveryState, RecordingStatus, StreamStatus, CaptionsStatus, UnmuteRequestedEvent, BreakoutState } from '../types';
 
 const ROOM_ID_KEY = 'vc_roomId';
 const ROOM_CODE_KEY = 'vc_roomCode';
 const ROOM_ROLE_KEY = 'vc_roomRole';
+const RESUME_TOKEN_KEY = 'vc_resumeToken';
 
 function readPersistedRoomId(): string | null {
   try {
@@ -30,25 +31,66 @@ function readPersistedRoomRole(): RoomRole | null {
   }
 }
 
+function readPersistedResumeToken(): string | null {
+  try {
+    return sessionStorage.getItem(RESUME_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
 interface RoomState {
   roomId: string | null;
   roomCode: string | null;
   role: RoomRole | null;
   connectionState: ConnectionState;
+  mediaRecovery: MediaRecoveryState;
   error: string | null;
   isKicked: boolean;
   kickReason: string | null;
   allowScreenShare: boolean;
   allowWhiteboard: boolean;
+  /** Nobody new may join the meeting */
+  locked: boolean;
+  recording: RecordingStatus | null;
+  stream: StreamStatus | null;
+  /** Live captions the host turned on for this room */
+  captions: CaptionsStatus | null;
+  roomType: RoomType;
+  /** Webinar attendee currently invited to send media */
+  onStage: boolean;
+  /** The server holds our mic paused until a host asks us to unmute */
+  mutedByHost: boolean;
+  unmuteRequest: UnmuteRequestedEvent | null;
+  /** Set while we're in a breakout room: the meeting it belongs to */
+  parentRoomId: string | null;
+  breakoutName: string | null;
+  breakouts: BreakoutState | null;
+  /** When the scheduler will close the meeting, once it has warned us */
+  closingAt: number | null;
+  /** Lets us take our seat back if the connection drops */
+  resumeToken: string | null;
 }
 
 interface RoomActions {
   setRoom: (roomId: string, roomCode: string | null, role: RoomRole, allowScreenShare?: boolean, allowWhiteboard?: boolean) => void;
   setConnectionState: (state: ConnectionState) => void;
+  setMediaRecovery: (state: MediaRecoveryState) => void;
   setError: (error: string | null) => void;
   setKicked: (reason: string) => void;
   setRole: (role: RoomRole) => void;
-  setRoomSettings: (settings: { allowScreenShare?: boolean; allowWhiteboard?: boolean }) => void;
+  setRoomSettings: (settings: { allowScreenShare?: boolean; allowWhiteboard?: boolean; locked?: boolean }) => void;
+  setRecording: (recording: RecordingStatus | null) => void;
+  setStream: (stream: StreamStatus | null) => void;
+  setCaptions: (captions: CaptionsStatus | null) => void;
+  setRoomType: (roomType: RoomType) => void;
+  setOnStage: (onStage: boolean) => void;
+  setMutedByHost: (mutedByHost: boolean) => void;
+  setUnmuteRequest: (request: UnmuteRequestedEvent | null) => void;
+  setBreakoutRoom: (parentRoomId: string | null, breakoutName: string | null) => void;
+  setBreakouts: (breakouts: BreakoutState | null) => void;
+  setClosingAt: (closingAt: number | null) => void;
+  setResumeToken: (resumeToken: string | null) => void;
   reset: () => void;
 }
 
@@ -57,11 +99,25 @@ const initialState: RoomState = {
   roomCode: readPersistedRoomCode(),
   role: readPersistedRoomRole(),
   connectionState: 'disconnected',
+  mediaRecovery: 'idle',
   error: null,
   isKicked: false,
   kickReason: null,
   allowScreenShare: true,
   allowWhiteboard: true,
+  locked: false,
+  recording: null,
+  stream: null,
+  captions: null,
+  roomType: 'meeting',
+  onStage: false,
+  mutedByHost: false,
+  unmuteRequest: null,
+  parentRoomId: null,
+  breakoutName: null,
+  breakouts: null,
+  closingAt: null,
+  resumeToken: readPersistedResumeToken(),
 };
 
 export const useRoomStore = create<RoomState & RoomActions>((set) => ({
@@ -80,6 +136,8 @@ export const useRoomStore = create<RoomState & RoomActions>((set) => ({
 
   setConnectionState: (connectionState) => set({ connectionState }),
 
+  setMediaRecovery: (mediaRecovery) => set({ mediaRecovery }),
+
   setError: (error) => set({ error }),
 
   setKicked: (reason) => set({ isKicked: true, kickReason: reason }),
@@ -95,14 +153,45 @@ export const useRoomStore = create<RoomState & RoomActions>((set) => ({
 
   setRoomSettings: (settings) => set((state) => ({ ...state, ...settings })),
 
+  setRecording: (recording) => set({ recording }),
+
+  setStream: (stream) => set({ stream }),
+
+  setCaptions: (captions) => set({ captions }),
+
+  setRoomType: (roomType) => set({ roomType }),
+
+  setOnStage: (onStage) => set({ onStage }),
+
+  setMutedByHost: (mutedByHost) => set({ mutedByHost }),
+
+  setUnmuteRequest: (unmuteRequest) => set({ unmuteRequest }),
+
+  setBreakoutRoom: (parentRoomId, breakoutName) => set({ parentRoomId, breakoutName }),
+
+  setBreakouts: (breakouts) => set({ breakouts }),
+
+  setClosingAt: (closingAt) => set({ closingAt }),
+
+  setResumeToken: (resumeToken) => {
+    try {
+      if (resumeToken) sessionStorage.setItem(RESUME_TOKEN_KEY, resumeToken);
+      else sessionStorage.removeItem(RESUME_TOKEN_KEY);
+    } catch {
+      // Private browsing
+    }
+    set({ resumeToken });
+  },
+
   reset: () => {
     try {
       sessionStorage.removeItem(ROOM_ID_KEY);
       sessionStorage.removeItem(ROOM_CODE_KEY);
       sessionStorage.removeItem(ROOM_ROLE_KEY);
+      sessionStorage.removeItem(RESUME_TOKEN_KEY);
     } catch {
       // Private browsing
     }
-    set({ ...initialState, roomId: null, roomCode: null, role: null });
+    set({ ...initialState, roomId: null, roomCode: null, role: null, resumeToken: null });
   },
 }));
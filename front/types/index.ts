@@ -1,4 +1,12 @@
 import type { types as mediasoupTypes } from 'mediasoup-client';
+import type {
+  Participant,
+  RoomRole,
+  RoomSnapshot as ContractRoomSnapshot,
+  WsAck,
+  WsBroadcast,
+  WsEvents,
+} from '@contract';
 
 // Re-export API types for convenience
 export type {
@@ -17,126 +25,96 @@ export { ValidationRules } from './api.types';
 
 // ─── Enums ────────────────────────────────────────────────────────
 
-export type RoomRole = 'host' | 'co_host' | 'participant';
+export type { RoomRole, RoomType } from '@contract';
 
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
 
+/** Progress of recovering the media transports after a network change */
+export type MediaRecoveryState = 'idle' | 'restarting_ice' | 'recreating_transports' | 'failed';
+
 export type MediaDeviceKind = 'audioinput' | 'videoinput' | 'audiooutput';
 
-// ─── Backend payloads (mirrored from gateway) ─────────────────────
+// ─── Backend payloads (from the WebSocket contract) ───────────────
 
-export interface ServerParticipant {
-  userId: string;
-  displayName: string;
-  socketId: string;
-  role: RoomRole;
-  joinedAt: number;
-  producerIds: string[];
-  isMuted: boolean;
-  isVideoOff: boolean;
-  handRaised?: boolean;
-}
-
-export interface JoinRoomResponse {
-  roomId: string; // The actual room ID (may differ from requested if auto-created)
-  roomCode: string;
-  role: RoomRole;
-  participants: ServerParticipant[];
+export type {
+  RecordingStatus,
+  StreamState,
+  StreamStatus,
+  CaptionsStatus,
+  CaptionSegment,
+  BreakoutRoomInfo,
+  BreakoutParticipant,
+  BreakoutState,
+  RoomBan,
+  UserMediaStats,
+} from '@contract';
+
+export type ServerParticipant = Participant;
+
+/**
+ * What a client needs to (re)enter a room, sent with room:join and
+ * breakout:moved. The contract leaves mediasoup objects untyped.
+ */
+export type RoomSnapshot = Omit<ContractRoomSnapshot, 'rtpCapabilities'> & {
   rtpCapabilities: mediasoupTypes.RtpCapabilities;
-  existingProducers: Array<{
-    producerId: string;
-    userId: string;
-    kind: mediasoupTypes.MediaKind;
-  }>;
-  allowScreenShare?: boolean;
-  allowWhiteboard?: boolean;
-}
+};
 
-export interface CreateRoomResponse {
-  roomId: string;
-  roomCode: string;
-}
+export type JoinRoomResponse = RoomSnapshot & {
+  /** Presented on rejoin to take the seat back after a dropped connection */
+  resumeToken?: string;
+};
+
+export type CreateRoomResponse = WsAck<typeof WsEvents.CREATE_ROOM>;
 
 export interface TransportCreatedResponse {
   id: string;
   iceParameters: mediasoupTypes.IceParameters;
   iceCandidates: mediasoupTypes.IceCandidate[];
   dtlsParameters: mediasoupTypes.DtlsParameters;
+  /** Only set when SCTP was negotiated (DataChannels available) */
+  sctpParameters?: mediasoupTypes.SctpParameters;
 }
 
-export interface ProduceResponse {
-  producerId: string;
-}
+export type ProduceResponse = WsAck<typeof WsEvents.PRODUCE>;
 
-export interface ConsumeResponse {
-  consumerId: string;
-  producerId: string;
-  kind: mediasoupTypes.MediaKind;
+export type ConsumeResponse = Omit<WsAck<typeof WsEvents.CONSUME>, 'rtpParameters'> & {
   rtpParameters: mediasoupTypes.RtpParameters;
-}
-
-export interface NewProducerEvent {
-  producerId: string;
-  userId: string;
-  kind: mediasoupTypes.MediaKind;
-}
-
-export interface ProducerClosedEvent {
-  producerId: string;
-  userId: string;
-}
-
-export interface ProducerPausedEvent {
-  producerId: string;
-  userId: string;
-  kind: 'audio' | 'video';
-}
-
-export interface ProducerResumedEvent {
-  producerId: string;
-  userId: string;
-  kind: 'audio' | 'video';
-}
-
-export interface UserJoinedEvent {
-  userId: string;
-  displayName: string;
-  role: RoomRole;
-  participants: ServerParticipant[];
-}
-
-export interface UserLeftEvent {
-  userId: string;
-  kicked?: boolean;
-  participants: ServerParticipant[];
-}
-
-export interface UserKickedEvent {
-  roomId: string;
-  reason: string;
-}
+};
+
+export type ConsumeDataResponse = Omit<WsAck<typeof WsEvents.CONSUME_DATA>, 'sctpStreamParameters'> & {
+  sctpStreamParameters: mediasoupTypes.SctpStreamParameters;
+};
+
+export type NewDataProducerEvent = WsBroadcast<typeof WsEvents.NEW_DATA_PRODUCER>;
+export type DataProducerClosedEvent = WsBroadcast<typeof WsEvents.DATA_PRODUCER_CLOSED>;
+export type NewProducerEvent = WsBroadcast<typeof WsEvents.NEW_PRODUCER>;
+export type ProducerClosedEvent = WsBroadcast<typeof WsEvents.PRODUCER_CLOSED>;
+export type ProducerPausedEvent = WsBroadcast<typeof WsEvents.PRODUCER_PAUSED>;
+export type ProducerResumedEvent = WsBroadcast<typeof WsEvents.PRODUCER_RESUMED>;
+export type UserJoinedEvent = WsBroadcast<typeof WsEvents.USER_JOINED>;
+export type UserLeftEvent = WsBroadcast<typeof WsEvents.USER_LEFT>;
+export type UserReconnectingEvent = WsBroadcast<typeof WsEvents.USER_RECONNECTING>;
+export type UserKickedEvent = WsBroadcast<typeof WsEvents.USER_KICKED>;
+/** Sent for both mute-all and a single host mute; the mic stays locked */
+export type AllMutedEvent = WsBroadcast<typeof WsEvents.ALL_MUTED>;
+export type RoomEndingSoonEvent = WsBroadcast<typeof WsEvents.ROOM_ENDING_SOON>;
+export type UnmuteRequestedEvent = WsBroadcast<typeof WsEvents.UNMUTE_REQUESTED>;
+export type RoleChangedEvent = WsBroadcast<typeof WsEvents.ROLE_CHANGED>;
+export type StageUpdatedEvent = WsBroadcast<typeof WsEvents.STAGE_UPDATED>;
+export type HandRaisedEvent = WsBroadcast<typeof WsEvents.HAND_RAISED>;
+export type ReactionEvent = WsBroadcast<typeof WsEvents.REACTION_RECEIVED>;
+export type ActiveSpeakerEvent = WsBroadcast<typeof WsEvents.ACTIVE_SPEAKER>;
+export type MediaReconnectRequiredEvent = WsBroadcast<typeof WsEvents.RECONNECT_REQUIRED>;
+export type RecordingStartedEvent = WsBroadcast<typeof WsEvents.RECORDING_STARTED>;
+export type RecordingStoppedEvent = WsBroadcast<typeof WsEvents.RECORDING_STOPPED>;
 
-export interface AllMutedEvent {
-  roomId: string;
-  mutedBy: string;
-}
-
-export interface RoleChangedEvent {
-  userId: string;
-  newRole: RoomRole;
-}
-
-export interface HandRaisedEvent {
-  userId: string;
-  handRaised: boolean;
-}
+// ─── Client-side participant model ────────────────────────────────
 
-export interface ReactionEvent {
-  userId: string;
-  reaction: string;
-}
+/** Simulcast quality requested for a remote video: low = thumbnail layer, high = full resolution */
+export type VideoQuality = 'low' | 'high';
 
-// ─── Client-side participant model ────────────────────────────────
+/** Client-side link quality derived from WebRTC stats (loss, RTT, jitter) */
+export type ConnectionQuality = 'good' | 'fair' | 'poor';
 
 export interface RemoteParticipant {
   userId: string; displayName: string; role: RoomRole;
@@ -148,6 +126,8 @@ export interface RemoteParticipant {
   consumers: Map<string, mediasoupTypes.Consumer>;
   handRaised?: boolean;
   reaction?: string;
+  onStage?: boolean;
+  reconnecting?: boolean;
 }
 
 // ─── Auth ─────────────────────────────────────────────────────────
@@ -0,0 +1,13 @@
+import type { WsEvents, WsRequest } from '@contract';
+
+export type {
+  ActiveQuiz,
+  QuizItem,
+  QuizQuestionType,
+  QuizScore,
+} from '@contract';
+
+export type LaunchQuizPayload = Omit<WsRequest<typeof WsEvents.QUIZ_LAUNCH>, 'roomId'>;
+
+/** One answer as sent with `quiz:submit`; keyed by item ID while the quiz is open */
+export type QuizAnswerDraft = WsRequest<typeof WsEvents.QUIZ_SUBMIT>['answers'][number];
@@ -32,6 +32,12 @@ export interface WhiteboardClearEvent {
   userId: string;
 }
 
+/** Low-latency messages sent over the whiteboard DataChannel */
+export type WhiteboardDataMessage =
+  | { type: 'cursor'; displayName: string; x: number; y: number }
+  /** In-progress scene; `seq` drops frames that arrive out of order */
+  | { type: 'draw'; seq: number; elements: readonly ExcalidrawElement[] };
+
 export interface WhiteboardStateEvent {
   roomId: string;
   userId: string;
@@ -6,6 +6,7 @@ import { useAuthStore } from '../store/auth.store';
 import { StudentWallet } from "@/components/billing/StudentWallet";
 import { ProfileSettings } from "@/components/profile/ProfileSettings";
 import { UpcomingEvents } from '../components/lobby/UpcomingEvents';
+import { QuizResults } from '../components/lobby/QuizResults';
 import { billingApi } from '../services/billing.service';
 import { sessionsApi } from '../services/api.service';
 import { SessionCard } from '../components/sessions/SessionCard';
@@ -327,6 +328,8 @@ export function LobbyPage() {
           {/* Sidebar Column (4 cols) */}
           <div className="lg:col-span-4 space-y-6 animate-fade-in-up delay-200">
 
+            {role === 'STUDENT' && <QuizResults />}
+
             {/* Quick Tips / Info */}
             <div className="bg-gradient-to-br from-primary to-orange-600 rounded-3xl p-6 text-white shadow-lg shadow-primary/20 relative overflow-hidden">
               <div className="absolute top-0 right-0 p-4 opacity-10">
@@ -8,20 +8,28 @@ import { ParticipantsPanel } from '../components/ParticipantsPanel';
 // import { Whiteboard } from '../components/Whiteboard';
 import { Chat } from '../components/Chat';
 import { WaitingRoom } from '../components/WaitingRoom';
+import { BreakoutRooms, useCountdown, formatCountdown } from '../components/BreakoutRooms';
+import { QuizPanel } from '../components/QuizPanel';
+import { QuizOverlay } from '../components/QuizOverlay';
+import { CaptionsOverlay } from '../components/CaptionsOverlay';
 import { useRoomStore } from '../store/room.store';
 import { useMediaStore } from '../store/media.store';
 import { useAuthStore } from '../store/auth.store';
 import { useParticipantsStore } from '../store/participants.store';
 import { useWebRTC } from '../hooks/useWebRTC';
 import { useMedia } from '../hooks/useMedia';
-import { useWhiteboard } from '../hooks/useWhiteboard';
+import { useWhiteboard, WHITEBOARD_DATA_LABEL } from '../hooks/useWhiteboard';
 import { useQnA } from '../hooks/useQnA';
+import { usePolls } from '../hooks/usePolls';
+import { useQuiz } from '../hooks/useQuiz';
+import { useCaptions } from '../hooks/useCaptions';
 import { useChat } from '../hooks/useChat';
 // ... imports
 
 import { useWaitingRoom } from '../hooks/useWaitingRoom';
 import type { useSignaling } from '../hooks/useSignaling';
-import type { NewProducerEvent } from '../types';
+import { WS_EVENTS } from '../constants';
+import type { DataProducerClosedEvent, MediaReconnectRequiredEvent, NewDataProducerEvent, NewProducerEvent } from '../types';
 
 // Lazy load Whiteboard
 const Whiteboard = lazy(() => import('../components/Whiteboard').then(module => ({ default: module.Whiteboard })));
@@ -34,14 +42,33 @@ interface ExistingProducer {
   kind: string;
 }
 
+interface ExistingDataProducer {
+  dataProducerId: string;
+  userId: string;
+  label: string;
+}
+
 interface RoomPageProps {
   signaling: Signaling;
   existingProducers: ExistingProducer[];
   onNewProducerRef: React.MutableRefObject<((data: NewProducerEvent) => Promise<void>) | null>;
+  existingDataProducers: ExistingDataProducer[];
+  onNewDataProducerRef: React.MutableRefObject<((data: NewDataProducerEvent) => Promise<void>) | null>;
+  onReconnectRequiredRef: React.MutableRefObject<((data: MediaReconnectRequiredEvent) => Promise<void>) | null>;
+  onRoomSwitchRef: React.MutableRefObject<(() => void) | null>;
   onLeave: () => void;
 }
 
-export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLeave }: RoomPageProps) {
+export function RoomPage({
+  signaling,
+  existingProducers,
+  onNewProducerRef,
+  existingDataProducers,
+  onNewDataProducerRef,
+  onReconnectRequiredRef,
+  onRoomSwitchRef,
+  onLeave,
+}: RoomPageProps) {
   const roomId = useRoomStore((s) => s.roomId);
   const role = useRoomStore((s) => s.role);
   const connectionState = useRoomStore((s) => s.connectionState);
@@ -54,7 +81,7 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
   const isScreenSharing = useMediaStore((s) => s.isScreenSharing);
   const localHandRaised = useParticipantsStore((s) => s.localHandRaised);
 
-  const [panelOpen, setPanelOpen] = useState<'none' | 'participants' | 'chat' | 'waiting'>('none');
+  const [panelOpen, setPanelOpen] = useState<'none' | 'participants' | 'chat' | 'waiting' | 'breakouts' | 'quiz'>('none');
   const [showWhiteboard, setShowWhiteboard] = useState(false);
   const [privateMessageTarget, setPrivateMessageTarget] = useState<string | null>(null);
   const [meetingTime, setMeetingTime] = useState(0);
@@ -63,8 +90,23 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
 
   const allowScreenShare = useRoomStore((s) => s.allowScreenShare);
   const allowWhiteboard = useRoomStore((s) => s.allowWhiteboard);
+  const locked = useRoomStore((s) => s.locked);
+  const recording = useRoomStore((s) => s.recording);
+  const stream = useRoomStore((s) => s.stream);
+  const captionsStatus = useRoomStore((s) => s.captions);
+  const roomType = useRoomStore((s) => s.roomType);
+  const onStage = useRoomStore((s) => s.onStage);
+  const unmuteRequest = useRoomStore((s) => s.unmuteRequest);
+  const breakouts = useRoomStore((s) => s.breakouts);
+  const parentRoomId = useRoomStore((s) => s.parentRoomId);
+  const breakoutName = useRoomStore((s) => s.breakoutName);
+  const breakoutSecondsLeft = useCountdown(breakouts?.endsAt ?? null);
+  const closingAt = useRoomStore((s) => s.closingAt);
+  const closingSecondsLeft = useCountdown(closingAt);
 
   const isHost = role === 'host' || role === 'co_host';
+  // Webinar attendees only receive until a host invites them on stage
+  const canPublish = roomType !== 'webinar' || isHost || onStage;
 
   // Meeting timer
   useEffect(() => {
@@ -90,7 +132,16 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
   const webrtc = useWebRTC(signaling);
   const media = useMedia();
 
-  // Whiteboard hook
+  // Whiteboard hook — cursors and live strokes prefer the DataChannel
+  const { sendData, onDataMessage } = webrtc;
+  const sendWhiteboardData = useCallback(
+    (message: string) => sendData(WHITEBOARD_DATA_LABEL, message),
+    [sendData],
+  );
+  const onWhiteboardData = useCallback(
+    (listener: (message: string, userId: string) => void) => onDataMessage(WHITEBOARD_DATA_LABEL, listener),
+    [onDataMessage],
+  );
   const whiteboardSocket = signaling.socketRef.current;
   const whiteboard = useWhiteboard({
     socket: whiteboardSocket,
@@ -98,6 +149,8 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
     userId: userId || '',
     displayName: displayName || 'User',
     onStateChange: (active) => setShowWhiteboard(active),
+    sendData: sendWhiteboardData,
+    onDataMessage: onWhiteboardData,
   });
 
   // Chat hook
@@ -127,8 +180,26 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
     roomId: roomId || '',
   });
 
+  const polls = usePolls({
+    socket: signaling.socketRef.current,
+    roomId: roomId || '',
+  });
+
+  const quiz = useQuiz({
+    socket: signaling.socketRef.current,
+    roomId: roomId || '',
+  });
+
+  const captions = useCaptions({
+    socket: signaling.socketRef.current,
+    roomId: roomId || '',
+  });
+  const [showCaptions, setShowCaptions] = useState(true);
+
   const joinedRef = useRef(false);
   const producingRef = useRef(false);
+  // null until bootstrap has decided whether we publish
+  const publishingRef = useRef<boolean | null>(null);
 
   const produceLocalTracks = useCallback(async (stream: MediaStream) => {
     if (producingRef.current) return;
@@ -149,6 +220,21 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
     }
   }, [webrtc]);
 
+  const startPublishing = useCallback(async (currentRoomId: string) => {
+    await media.startMedia();
+    const stream = useMediaStore.getState().localStream;
+    await webrtc.createSendTransport(currentRoomId);
+    if (stream) {
+      await produceLocalTracks(stream);
+    }
+    // Tell the room what we start with; the server times camera use from this too
+    const { isMicOn, isCameraOn } = useMediaStore.getState();
+    signaling.emitMediaState(currentRoomId, isMicOn && !useRoomStore.getState().mutedByHost, isCameraOn)
+      .catch(console.error);
+    // Falls back to Socket.IO when SCTP can't be negotiated
+    await webrtc.produceData(WHITEBOARD_DATA_LABEL);
+  }, [media, webrtc, signaling, produceLocalTracks]);
+
   const consumeProducer = useCallback(async (data: NewProducerEvent) => {
     if (!roomId || data.userId === userId) return;
     await webrtc.consumeProducer(roomId, data.producerId, data.userId);
@@ -159,11 +245,84 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
     return () => { onNewProducerRef.current = null; };
   }, [consumeProducer, onNewProducerRef]);
 
+  const consumeDataProducer = useCallback(async (data: NewDataProducerEvent) => {
+    if (!roomId || data.userId === userId) return;
+    await webrtc.consumeData(roomId, data.dataProducerId, data.userId);
+  }, [roomId, userId, webrtc]);
+
+  useEffect(() => {
+    onNewDataProducerRef.current = consumeDataProducer;
+    return () => { onNewDataProducerRef.current = null; };
+  }, [consumeDataProducer, onNewDataProducerRef]);
+
+  const handleReconnectRequired = useCallback(async (data: MediaReconnectRequiredEvent) => {
+    if (data.roomId !== roomId) return;
+    try {
+      await webrtc.reconnect(data.roomId);
+    } catch (err) {
+      console.error('Media reconnect failed:', err);
+      useRoomStore.getState().setError('Lost connection to the media server');
+    }
+  }, [roomId, webrtc]);
+
+  useEffect(() => {
+    onReconnectRequiredRef.current = handleReconnectRequired;
+    return () => { onReconnectRequiredRef.current = null; };
+  }, [handleReconnectRequired, onReconnectRequiredRef]);
+
+  // Moved to another room of the meeting, or resumed our seat after a
+  // dropped connection: drop the old media so bootstrap runs again
+  const { cleanup: cleanupWebRTC } = webrtc;
+  const { stopMedia: stopLocalMedia } = media;
+  const handleRoomSwitch = useCallback(() => {
+    cleanupWebRTC();
+    stopLocalMedia();
+    joinedRef.current = false;
+    producingRef.current = false;
+    publishingRef.current = null;
+  }, [cleanupWebRTC, stopLocalMedia]);
+
+  useEffect(() => {
+    onRoomSwitchRef.current = handleRoomSwitch;
+    return () => { onRoomSwitchRef.current = null; };
+  }, [handleRoomSwitch, onRoomSwitchRef]);
+
   useEffect(() => {
     const cleanup = whiteboard.setupListeners();
     return cleanup;
   }, [whiteboard]);
 
+  // A host turned the whiteboard off and the server closed the channels it no longer allows
+  const { closeDataChannel } = webrtc;
+  const dataChannelSocket = signaling.socketRef.current;
+  useEffect(() => {
+    if (!dataChannelSocket) return;
+    const handleClosed = (data: DataProducerClosedEvent) => closeDataChannel(data.dataProducerId);
+    dataChannelSocket.on(WS_EVENTS.DATA_PRODUCER_CLOSED, handleClosed);
+    return () => {
+      dataChannelSocket.off(WS_EVENTS.DATA_PRODUCER_CLOSED, handleClosed);
+    };
+  }, [dataChannelSocket, closeDataChannel]);
+
+  // Report when the meeting tab goes to the background, for the engagement report
+  const { emitVisibility } = signaling;
+  useEffect(() => {
+    if (!roomId || connectionState !== 'connected') return;
+    const report = () => {
+      emitVisibility(roomId, document.visibilityState === 'visible').catch(console.error);
+    };
+    if (document.visibilityState !== 'visible') report();
+    document.addEventListener('visibilitychange', report);
+    return () => document.removeEventListener('visibilitychange', report);
+  }, [roomId, connectionState, emitVisibility]);
+
+  // Sample local WebRTC stats for the per-tile connection quality indicator
+  const { startStatsSampler } = webrtc;
+  useEffect(() => {
+    if (!roomId || !userId) return;
+    return startStatsSampler(userId);
+  }, [roomId, userId, startStatsSampler]);
+
   useEffect(() => {
     // Wait for connection to be established before bootstrapping
     if (joinedRef.current || !roomId || connectionState !== 'connected') return;
@@ -171,13 +330,14 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
 
     const bootstrap = async () => {
       try {
-        await media.startMedia();
-        const stream = useMediaStore.getState().localStream;
+        const { roomType: joinedType, role: joinedRole, onStage: joinedOnStage } = useRoomStore.getState();
+        const publish = joinedType !== 'webinar' || joinedRole !== 'participant' || joinedOnStage;
+        publishingRef.current = publish;
+
         const rtpCaps = await signaling.getRouterCapabilities(roomId);
         await webrtc.loadDevice(rtpCaps);
-        await webrtc.createSendTransport(roomId);
-        if (stream) {
-          await produceLocalTracks(stream);
+        if (publish) {
+          await startPublishing(roomId);
         }
         await webrtc.createRecvTransport(roomId);
         for (const ep of existingProducers) {
@@ -185,6 +345,11 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
             await webrtc.consumeProducer(roomId, ep.producerId, ep.userId);
           }
         }
+        for (const edp of existingDataProducers) {
+          if (edp.userId !== userId) {
+            await webrtc.consumeData(roomId, edp.dataProducerId, edp.userId);
+          }
+        }
       } catch (err) {
         console.error('Room bootstrap failed:', err);
         useRoomStore.getState().setError(
@@ -194,9 +359,57 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
     };
 
     bootstrap();
-  }, [roomId, media, signaling, webrtc, produceLocalTracks, userId, existingProducers, connectionState]);
+  }, [roomId, signaling, webrtc, startPublishing, userId, existingProducers, existingDataProducers, connectionState]);
+
+  // Start or stop publishing when a webinar host moves us on or off stage
+  const { stopMedia } = media;
+  const { closeSendTransport } = webrtc;
+  useEffect(() => {
+    if (!roomId || publishingRef.current === null || publishingRef.current === canPublish) return;
+    publishingRef.current = canPublish;
+
+    if (canPublish) {
+      producingRef.current = false;
+      startPublishing(roomId).catch((err) => {
+        console.error('Failed to join the stage:', err);
+        useRoomStore.getState().setError('Could not start your camera or microphone');
+      });
+    } else {
+      // The server already closed our producers
+      stopMedia();
+      closeSendTransport();
+    }
+  }, [roomId, canPublish, startPublishing, stopMedia, closeSendTransport]);
+
+  // The server closes our screen share when the host turns sharing off
+  const { stopScreenShare } = media;
+  const { closeProducer } = webrtc;
+  useEffect(() => {
+    if (!isScreenSharing || isHost || allowScreenShare) return;
+    stopScreenShare();
+    closeProducer('screen').catch(console.error);
+  }, [isScreenSharing, isHost, allowScreenShare, stopScreenShare, closeProducer]);
+
+  const { promoteToStage, removeFromStage } = signaling;
+  const handleToggleStage = useCallback((targetUserId: string, toStage: boolean) => {
+    if (!roomId) return;
+    const request = toStage ? promoteToStage(roomId, targetUserId) : removeFromStage(roomId, targetUserId);
+    request.catch(console.error);
+  }, [roomId, promoteToStage, removeFromStage]);
+
+  const { getStats } = signaling;
+  const handleFetchStats = useCallback(
+    () => (roomId ? getStats(roomId) : Promise.resolve([])),
+    [roomId, getStats],
+  );
 
   const handleToggleMic = useCallback(() => {
+    // The server keeps our mic paused until a host asks us to unmute
+    if (!useMediaStore.getState().isMicOn && useRoomStore.getState().mutedByHost) {
+      useRoomStore.getState().setError('The host muted you. Raise your hand to ask to speak.');
+      return;
+    }
+
     const nowOn = media.toggleMic();
     console.log('CLIENT EMIT media-state-change (mic)', { nowOn });
     if (nowOn) {
@@ -298,7 +511,55 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
     try { await signaling.kickUser(roomId, targetUserId); } catch (err) { console.error('Kick failed:', err); }
   }, [roomId, signaling]);
 
-  const togglePanel = (panel: 'participants' | 'chat' | 'waiting') => {
+  // Resolves with the updated ban list, or null if the host backed out
+  const { banUser, unbanUser, listBans } = signaling;
+  const handleBan = useCallback(async (targetUserId: string) => {
+    if (!roomId) return null;
+    const name = useParticipantsStore.getState().participants.get(targetUserId)?.displayName ?? 'this participant';
+    const reason = prompt(`Ban ${name} from this meeting? They won't be able to rejoin.\n\nReason (optional):`);
+    if (reason === null) return null;
+    return banUser(roomId, targetUserId, reason || undefined);
+  }, [roomId, banUser]);
+
+  const handleFetchBans = useCallback(() => listBans(roomId!), [roomId, listBans]);
+  const handleUnban = useCallback((targetUserId: string) => unbanUser(roomId!, targetUserId), [roomId, unbanUser]);
+  const canManageBans = isHost || userRole === 'ADMIN';
+
+  const { muteUser, requestUnmute } = signaling;
+  const handleMuteUser = useCallback((targetUserId: string) => {
+    if (!roomId) return;
+    muteUser(roomId, targetUserId).catch((err) => console.error('Mute failed:', err));
+  }, [roomId, muteUser]);
+
+  const handleRequestUnmute = useCallback((targetUserId: string) => {
+    if (!roomId) return;
+    requestUnmute(roomId, targetUserId).catch((err) => console.error('Unmute request failed:', err));
+  }, [roomId, requestUnmute]);
+
+  const answerUnmuteRequest = useCallback((accept: boolean) => {
+    useRoomStore.getState().setUnmuteRequest(null);
+    if (accept && !useMediaStore.getState().isMicOn) {
+      handleToggleMic();
+    }
+  }, [handleToggleMic]);
+
+  const {
+    createBreakouts,
+    assignBreakout,
+    shuffleBreakouts,
+    openBreakouts,
+    joinBreakout,
+    startBreakoutCountdown,
+    closeBreakouts,
+  } = signaling;
+  const runBreakoutAction = useCallback((action: (meetingId: string) => Promise<void>) => {
+    if (!roomId) return;
+    action(parentRoomId ?? roomId).catch((err) => {
+      useRoomStore.getState().setError((err as Error).message);
+    });
+  }, [roomId, parentRoomId]);
+
+  const togglePanel = (panel: 'participants' | 'chat' | 'waiting' | 'breakouts' | 'quiz') => {
     setPanelOpen(prev => prev === panel ? 'none' : panel);
   };
 
@@ -312,6 +573,45 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
     }
   }, [roomId, signaling]);
 
+  const handleToggleRecording = useCallback(async () => {
+    if (!roomId) return;
+    try {
+      if (recording) {
+        await signaling.stopRecording(roomId);
+      } else {
+        await signaling.startRecording(roomId);
+      }
+    } catch (err) {
+      useRoomStore.getState().setError((err as Error).message);
+    }
+  }, [roomId, recording, signaling]);
+
+  const handleToggleStreaming = useCallback(async () => {
+    if (!roomId) return;
+    try {
+      if (stream) {
+        await signaling.stopStream(roomId);
+      } else {
+        await signaling.startStream(roomId);
+      }
+    } catch (err) {
+      useRoomStore.getState().setError((err as Error).message);
+    }
+  }, [roomId, stream, signaling]);
+
+  const handleToggleCaptioning = useCallback(async () => {
+    if (!roomId) return;
+    try {
+      if (captionsStatus) {
+        await signaling.stopCaptions(roomId);
+      } else {
+        await signaling.startCaptions(roomId);
+      }
+    } catch (err) {
+      useRoomStore.getState().setError((err as Error).message);
+    }
+  }, [roomId, captionsStatus, signaling]);
+
   const handleReaction = useCallback(async (reaction: string) => {
     if (!roomId) return;
     try {
@@ -357,6 +657,32 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
           <span className="text-white/60 text-xs font-mono tabular-nums tracking-wider">
             {formatMeetingTime(meetingTime)}
           </span>
+          {closingSecondsLeft !== null && (
+            <div className="flex items-center gap-1.5 ml-2 px-2 py-0.5 rounded-full bg-amber-500/15 border border-amber-500/30">
+              <span className="text-amber-300 text-[10px] font-semibold uppercase tracking-wider">
+                Ends in {formatCountdown(closingSecondsLeft)}
+              </span>
+            </div>
+          )}
+          {recording && (
+            <div className="flex items-center gap-1.5 ml-2 px-2 py-0.5 rounded-full bg-red-500/15 border border-red-500/30">
+              <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+              <span className="text-red-400 text-[10px] font-semibold uppercase tracking-wider">Rec</span>
+            </div>
+          )}
+          {stream && (
+            stream.state === 'reconnecting' ? (
+              <div className="flex items-center gap-1.5 ml-2 px-2 py-0.5 rounded-full bg-amber-500/15 border border-amber-500/30">
+                <div className="w-2 h-2 rounded-full bg-amber-400 animate-pulse" />
+                <span className="text-amber-300 text-[10px] font-semibold uppercase tracking-wider">Reconnecting</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-1.5 ml-2 px-2 py-0.5 rounded-full bg-red-500/15 border border-red-500/30">
+                <div className="w-2 h-2 rounded-full bg-red-500" />
+                <span className="text-red-400 text-[10px] font-semibold uppercase tracking-wider">Live</span>
+              </div>
+            )
+          )}
         </div>
 
         {/* Right: Display name */}
@@ -365,9 +691,25 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
         </div>
       </div>
 
+      {/* Breakout banner */}
+      {parentRoomId && (
+        <div className="absolute top-14 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-1.5 rounded-full bg-blue-600/20 border border-blue-500/30 backdrop-blur-md">
+          <span className="text-sm text-white/90 font-medium">{breakoutName ?? 'Breakout room'}</span>
+          {breakoutSecondsLeft !== null && (
+            <span className="text-xs font-mono text-amber-300">Closing in {formatCountdown(breakoutSecondsLeft)}</span>
+          )}
+          <button
+            onClick={() => runBreakoutAction((id) => joinBreakout(id, id))}
+            className="px-2.5 py-0.5 text-[11px] font-semibold text-white bg-white/10 hover:bg-white/20 rounded-full transition-colors"
+          >
+            Return to main room
+          </button>
+        </div>
+      )}
+
       {/* Main Grid Area */}
       <div className="flex-1 w-full relative z-0">
-        <VideoGrid />
+        <VideoGrid onVideoQualityChange={webrtc.setVideoQuality} />
       </div>
 
       {/* Side Panels */}
@@ -437,6 +779,11 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
                 onUpvoteQuestion={qna.upvoteQuestion}
                 onMarkAnswered={qna.markAnswered}
                 onDeleteQuestion={qna.deleteQuestion}
+                // Polls
+                polls={polls.polls}
+                onCreatePoll={polls.createPoll}
+                onVotePoll={polls.vote}
+                onClosePoll={polls.closePoll}
                 isHost={isHost}
               />
             )}
@@ -446,10 +793,42 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
                 localDisplayName={displayName ?? 'You'}
                 isHost={isHost}
                 onKick={handleKick}
+                onBan={handleBan}
+                onFetchBans={canManageBans ? handleFetchBans : undefined}
+                onUnban={canManageBans ? handleUnban : undefined}
                 onMuteAll={() => signaling.muteAll(roomId!)}
+                onMuteUser={handleMuteUser}
+                onRequestUnmute={handleRequestUnmute}
                 onStartPrivateMessage={handleStartPrivateMessage}
+                onFetchStats={handleFetchStats}
+                onToggleStage={isHost && roomType === 'webinar' ? handleToggleStage : undefined}
               />
             )}
+            {panelOpen === 'breakouts' && isHost && (
+              <div className="h-full bg-white/5 backdrop-blur-xl border-l border-white/10 overflow-hidden">
+                <BreakoutRooms
+                  breakouts={breakouts}
+                  currentRoomId={roomId ?? ''}
+                  onCreate={(count, autoAssign) => runBreakoutAction((id) => createBreakouts(id, count, autoAssign))}
+                  onAssign={(target, breakoutRoomId) => runBreakoutAction((id) => assignBreakout(id, target, breakoutRoomId))}
+                  onShuffle={() => runBreakoutAction(shuffleBreakouts)}
+                  onOpen={() => runBreakoutAction(openBreakouts)}
+                  onJoin={(toRoomId) => runBreakoutAction((id) => joinBreakout(id, toRoomId))}
+                  onCountdown={(seconds) => runBreakoutAction((id) => startBreakoutCountdown(id, seconds))}
+                  onClose={() => runBreakoutAction(closeBreakouts)}
+                />
+              </div>
+            )}
+            {panelOpen === 'quiz' && isHost && (
+              <div className="h-full bg-white/5 backdrop-blur-xl border-l border-white/10 overflow-hidden">
+                <QuizPanel
+                  quiz={quiz.quiz}
+                  submittedCount={quiz.submittedCount}
+                  onLaunch={quiz.launchQuiz}
+                  onEnd={quiz.endQuiz}
+                />
+              </div>
+            )}
             {panelOpen === 'waiting' && isHost && (
               <div className="h-full bg-white/5 backdrop-blur-xl border-l border-white/10 overflow-hidden">
                 <WaitingRoom
@@ -490,8 +869,57 @@ export function RoomPage({ signaling, existingProducers, onNewProducerRef, onLea
         allowScreenShare={allowScreenShare}
         allowWhiteboard={allowWhiteboard}
         onUpdateRoomSettings={(settings) => signaling.updateRoomSettings(roomId!, settings)}
+        locked={locked}
+        onToggleLock={(value) => signaling.lockRoom(roomId!, value).catch((err) => console.error('Lock failed:', err))}
+        isRecording={!!recording}
+        onToggleRecording={role === 'host' ? handleToggleRecording : undefined}
+        isStreaming={!!stream}
+        onToggleStreaming={role === 'host' ? handleToggleStreaming : undefined}
+        isCaptioning={!!captionsStatus}
+        onToggleCaptioning={role === 'host' ? handleToggleCaptioning : undefined}
+        showCaptions={showCaptions}
+        onToggleShowCaptions={() => setShowCaptions((v) => !v)}
+        canPublish={canPublish}
       />
 
+      {captionsStatus && showCaptions && <CaptionsOverlay segments={captions.segments} />}
+
+      {!isHost && (
+        <QuizOverlay
+          key={quiz.quiz?.id ?? 'none'}
+          quiz={quiz.quiz}
+          submitted={quiz.submitted}
+          result={quiz.result}
+          onSubmit={quiz.submitQuiz}
+          onDismissResult={quiz.dismissResult}
+        />
+      )}
+
+      {unmuteRequest && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 text-foreground">
+          <div className="bg-card border border-border rounded-3xl p-6 max-w-sm w-full shadow-2xl flex flex-col items-center text-center animate-slide-up">
+            <h2 className="text-lg font-bold mb-2">Unmute your microphone?</h2>
+            <p className="text-sm text-muted-foreground mb-6">
+              {unmuteRequest.requestedByName} is asking you to unmute.
+            </p>
+            <div className="flex w-full gap-3">
+              <button
+                onClick={() => answerUnmuteRequest(false)}
+                className="flex-1 py-3 text-sm font-medium border border-border rounded-xl hover:bg-muted/50 transition-colors"
+              >
+                Stay Muted
+              </button>
+              <button
+                onClick={() => answerUnmuteRequest(true)}
+                className="flex-1 py-3 text-sm font-bold bg-primary hover:bg-primary/90 text-primary-foreground rounded-xl transition-colors"
+              >
+                Unmute
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showSummary && isHost && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 text-foreground">
           <div className="bg-card border border-border rounded-3xl p-8 max-w-md w-full shadow-2xl flex flex-col items-center text-center animate-slide-up">
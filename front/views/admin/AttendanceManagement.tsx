@@ -2,7 +2,7 @@
 import { useState, useEffect } from 'react';
 import { useAuthStore } from '@/store/auth.store';
 import { attendanceApi } from '@/services/attendance.service';
-import type { AttendanceRecord, UserAttendanceSummary } from '@/services/attendance.service';
+import type { AttendanceRecord, EngagementRecord, UserAttendanceSummary } from '@/services/attendance.service';
 import {
     Table,
     TableBody,
@@ -31,6 +31,7 @@ export function AttendanceManagement() {
     const [records, setRecords] = useState<AttendanceRecord[]>([]);
     const [userSummaries, setUserSummaries] = useState<UserAttendanceSummary[]>([]);
     const [activeSessions, setActiveSessions] = useState<AttendanceRecord[]>([]);
+    const [engagement, setEngagement] = useState<EngagementRecord[]>([]);
     const [loading, setLoading] = useState(true);
 
     // Filters
@@ -56,6 +57,9 @@ export function AttendanceManagement() {
             } else if (activeTab === 'active') {
                 const data = await attendanceApi.getActiveSessions(token);
                 setActiveSessions(data);
+            } else if (activeTab === 'engagement') {
+                const data = await attendanceApi.getEngagement(token, { ...filters, limit: 100 });
+                setEngagement(data.records);
             }
         } catch (err) {
             toast.error('Failed to load attendance data');
@@ -96,6 +100,14 @@ export function AttendanceManagement() {
         ? userSummaries.filter((u) => u.userEmail.toLowerCase().includes(searchEmail.toLowerCase()))
         : userSummaries;
 
+    const filteredEngagement = searchEmail
+        ? engagement.filter((e) => e.userEmail.toLowerCase().includes(searchEmail.toLowerCase()))
+        : engagement;
+
+    // Share of the time present, as a whole percentage
+    const share = (seconds: number, presentSeconds: number) =>
+        presentSeconds > 0 ? `${Math.round(Math.min(seconds / presentSeconds, 1) * 100)}%` : '-';
+
     return (
         <div className="space-y-6">
             <Card>
@@ -149,10 +161,11 @@ export function AttendanceManagement() {
             </Card>
 
             <Tabs defaultValue="records" onValueChange={setActiveTab} className="w-full">
-                <TabsList className="grid w-full max-w-[400px] grid-cols-3">
+                <TabsList className="grid w-full max-w-[520px] grid-cols-4">
                     <TabsTrigger value="records">Records</TabsTrigger>
                     <TabsTrigger value="summary">Summary</TabsTrigger>
                     <TabsTrigger value="active">Active</TabsTrigger>
+                    <TabsTrigger value="engagement">Engagement</TabsTrigger>
                 </TabsList>
 
                 <div className="mt-4 rounded-md border bg-card">
@@ -287,12 +300,80 @@ export function AttendanceManagement() {
                             </TableBody>
                         </Table>
                     </TabsContent>
+
+                    <TabsContent value="engagement" className="m-0">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>User</TableHead>
+                                    <TableHead>Room</TableHead>
+                                    <TableHead className="text-center">Score</TableHead>
+                                    <TableHead>Camera</TableHead>
+                                    <TableHead>Speaking</TableHead>
+                                    <TableHead>Chat / Q&amp;A</TableHead>
+                                    <TableHead>Hands / Reactions</TableHead>
+                                    <TableHead>Tab Away</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {loading ? (
+                                    <TableRow><TableCell colSpan={8} className="text-center py-10">Loading...</TableCell></TableRow>
+                                ) : filteredEngagement.length === 0 ? (
+                                    <TableRow><TableCell colSpan={8} className="text-center py-10 text-muted-foreground">No engagement recorded yet</TableCell></TableRow>
+                                ) : (
+                                    filteredEngagement.map((record) => (
+                                        <TableRow key={record.id}>
+                                            <TableCell>
+                                                <div className="flex flex-col">
+                                                    <span className="font-medium">{record.userName}</span>
+                                                    <span className="text-xs text-muted-foreground">{record.userEmail}</span>
+                                                </div>
+                                            </TableCell>
+                                            <TableCell>
+                                                <div className="flex flex-col">
+                                                    <span className="font-medium">{record.meetingTitle}</span>
+                                                    <span className="text-xs text-muted-foreground">{formatDuration(record.presentSeconds)} present</span>
+                                                </div>
+                                            </TableCell>
+                                            <TableCell className="text-center">
+                                                <EngagementBadge score={record.score} />
+                                            </TableCell>
+                                            <TableCell className="text-sm">{share(record.cameraSeconds, record.presentSeconds)}</TableCell>
+                                            <TableCell className="text-sm">
+                                                {record.speakingSeconds < 60 ? `${record.speakingSeconds}s` : formatDuration(record.speakingSeconds)}
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                                {record.chatMessages} / {record.questionsAsked}
+                                                {record.questionUpvotes > 0 && (
+                                                    <span className="text-xs text-muted-foreground"> (+{record.questionUpvotes} upvotes)</span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-sm">{record.handRaises} / {record.reactions}</TableCell>
+                                            <TableCell className="text-sm">{share(record.hiddenSeconds, record.presentSeconds)}</TableCell>
+                                        </TableRow>
+                                    ))
+                                )}
+                            </TableBody>
+                        </Table>
+                    </TabsContent>
                 </div>
             </Tabs>
         </div>
     );
 }
 
+/** Engagement score out of 100, coloured by band */
+export function EngagementBadge({ score }: { score: number }) {
+    const tone = score >= 70
+        ? 'text-green-600 border-green-500/40'
+        : score >= 40
+            ? 'text-amber-600 border-amber-500/40'
+            : 'text-red-500 border-red-500/40';
+    return (
+        <Badge variant="outline" className={`tabular-nums ${tone}`}>{score}</Badge>
+    );
+}
+
 function LogOutIcon(props: any) {
     return (
         <svg
@@ -14,7 +14,8 @@ import {
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Search, Clock, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Search, Clock, User, Download } from "lucide-react";
 import { toast } from "sonner";
 
 export function MeetingHistory() {
@@ -46,6 +47,36 @@ export function MeetingHistory() {
         loadHistory();
     }, [token, startDate, endDate]);
 
+    const exportPolls = async (meeting: AdminMeeting) => {
+        if (!token) return;
+        try {
+            const blob = await adminMeetingsApi.exportPolls(token, meeting.id);
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `polls-${meeting.roomCode}.csv`;
+            a.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to export poll results');
+        }
+    };
+
+    const exportTranscript = async (meeting: AdminMeeting) => {
+        if (!token) return;
+        try {
+            const blob = await adminMeetingsApi.exportTranscript(token, meeting.id);
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `transcript-${meeting.roomCode}.txt`;
+            a.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to download transcript');
+        }
+    };
+
     const formatDate = (dateString: string | null) => {
         if (!dateString) return '-';
         return new Date(dateString).toLocaleString();
@@ -122,18 +153,19 @@ export function MeetingHistory() {
                                     <TableHead>Started At</TableHead>
                                     <TableHead>Duration</TableHead>
                                     <TableHead className="text-right">Peak Users</TableHead>
+                                    <TableHead className="w-0" />
                                 </TableRow>
                             </TableHeader>
                             <TableBody>
                                 {loading ? (
                                     <TableRow>
-                                        <TableCell colSpan={5} className="h-24 text-center">
+                                        <TableCell colSpan={6} className="h-24 text-center">
                                             Loading history...
                                         </TableCell>
                                     </TableRow>
                                 ) : filteredMeetings.length === 0 ? (
                                     <TableRow>
-                                        <TableCell colSpan={5} className="h-24 text-center">
+                                        <TableCell colSpan={6} className="h-24 text-center">
                                             No meeting records found.
                                         </TableCell>
                                     </TableRow>
@@ -142,7 +174,12 @@ export function MeetingHistory() {
                                         <TableRow key={meeting.id}>
                                             <TableCell>
                                                 <div className="flex flex-col">
-                                                    <span className="font-medium">{meeting.title}</span>
+                                                    <span className="font-medium flex items-center gap-1.5">
+                                                        {meeting.title}
+                                                        {meeting.hostNoShow && (
+                                                            <Badge variant="destructive">Host no-show</Badge>
+                                                        )}
+                                                    </span>
                                                     <span className="text-xs text-muted-foreground">{meeting.roomCode}</span>
                                                 </div>
                                             </TableCell>
@@ -169,6 +206,26 @@ export function MeetingHistory() {
                                                     {meeting.peakParticipants}
                                                 </Badge>
                                             </TableCell>
+                                            <TableCell className="text-right">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => exportPolls(meeting)}
+                                                    title="Download poll results (CSV)"
+                                                >
+                                                    <Download className="h-4 w-4" />
+                                                    Polls
+                                                </Button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => exportTranscript(meeting)}
+                                                    title="Download caption transcript (TXT)"
+                                                >
+                                                    <Download className="h-4 w-4" />
+                                                    Transcript
+                                                </Button>
+                                            </TableCell>
                                         </TableRow>
                                     ))
                                 )}
@@ -3,7 +3,9 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuthStore } from '@/store/auth.store';
 import { adminMeetingsApi } from '@/services/admin-meetings.service';
-import type { AdminMeeting } from '@/services/admin-meetings.service';
+import { subjectsApi } from '@/services/subjects.service';
+import type { Subject } from '@/services/subjects.service';
+import type { AdminMeeting, MeetingSettings } from '@/services/admin-meetings.service';
 import {
     Table,
     TableBody,
@@ -26,23 +28,47 @@ import {
     DialogTrigger
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
-import { Calendar, Clock, Plus, User, Video, Play } from "lucide-react";
+import { Calendar, Clock, Plus, User, Video, Play, Repeat } from "lucide-react";
 import { toast } from "sonner";
+import { RecurrenceFields, DEFAULT_RECURRENCE, buildRRule, parseRRule } from './RecurrenceFields';
+import type { Recurrence } from './RecurrenceFields';
+
+const EMPTY_FORM = {
+    title: '',
+    scheduledStart: '',
+    scheduledEnd: '',
+    maxParticipants: 100,
+    allowScreenShare: true,
+    allowWhiteboard: true,
+    webinar: false,
+    passcode: '',
+    requireApproval: true,
+    subjectId: '',
+    autoAdmitCoTeachers: false,
+    autoAdmitEmailDomain: '',
+    repeat: false,
+    recurrence: DEFAULT_RECURRENCE,
+};
+
+/** ISO timestamp as a datetime-local input value */
+function toLocalInput(iso: string | null): string {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
 
 export function MeetingSchedule() {
     const token = useAuthStore((s) => s.token);
+    const isAdmin = useAuthStore((s) => s.role) === 'ADMIN';
     const router = useRouter();
+    const [settings, setSettings] = useState<MeetingSettings | null>(null);
     const [meetings, setMeetings] = useState<AdminMeeting[]>([]);
+    const [subjects, setSubjects] = useState<Subject[]>([]);
+    const [seriesEdit, setSeriesEdit] = useState<{ id: string; title: string; recurrence: Recurrence } | null>(null);
+    const [rescheduling, setRescheduling] = useState<{ id: string; scheduledStart: string; scheduledEnd: string } | null>(null);
     const [loading, setLoading] = useState(true);
     const [open, setOpen] = useState(false);
-    const [formData, setFormData] = useState({
-        title: '',
-        scheduledStart: '',
-        scheduledEnd: '',
-        maxParticipants: 100,
-        allowScreenShare: true,
-        allowWhiteboard: true,
-    });
+    const [formData, setFormData] = useState(EMPTY_FORM);
 
     const loadSchedule = async () => {
         if (!token) return;
@@ -61,6 +87,29 @@ export function MeetingSchedule() {
         loadSchedule();
     }, [token]);
 
+    useEffect(() => {
+        if (!token) return;
+        subjectsApi.getAll(token)
+            .then(setSubjects)
+            .catch(() => toast.error('Failed to load subjects'));
+    }, [token]);
+
+    useEffect(() => {
+        if (!token || !isAdmin) return;
+        adminMeetingsApi.getSettings(token)
+            .then(setSettings)
+            .catch(() => toast.error('Failed to load meeting settings'));
+    }, [token, isAdmin]);
+
+    const handleAutoCreateChange = async (autoCreateRooms: boolean) => {
+        if (!token) return;
+        try {
+            setSettings(await adminMeetingsApi.updateSettings(token, { autoCreateRooms }));
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to update settings');
+        }
+    };
+
     const handleMeetNow = async () => {
         if (!token) return;
         try {
@@ -101,24 +150,92 @@ export function MeetingSchedule() {
                 maxParticipants: formData.maxParticipants,
                 allowScreenShare: formData.allowScreenShare,
                 allowWhiteboard: formData.allowWhiteboard,
+                roomType: formData.webinar ? 'webinar' : 'meeting',
+                passcode: formData.passcode || undefined,
+                requireApproval: formData.requireApproval,
+                subjectId: formData.subjectId || undefined,
+                autoAdmitCoTeachers: formData.autoAdmitCoTeachers,
+                autoAdmitEmailDomain: formData.autoAdmitEmailDomain || undefined,
+                rrule: formData.repeat ? buildRRule(formData.recurrence) : undefined,
+                timezone: formData.repeat ? Intl.DateTimeFormat().resolvedOptions().timeZone : undefined,
             });
 
-            toast.success('Meeting scheduled successfully');
+            toast.success(formData.repeat ? 'Recurring meeting scheduled' : 'Meeting scheduled successfully');
             setOpen(false);
-            setFormData({
-                title: '',
-                scheduledStart: '',
-                scheduledEnd: '',
-                maxParticipants: 100,
-                allowScreenShare: true,
-                allowWhiteboard: true,
-            });
+            setFormData(EMPTY_FORM);
             loadSchedule();
         } catch (err) {
             toast.error(err instanceof Error ? err.message : 'Failed to schedule meeting');
         }
     };
 
+    const handleCancelMeeting = async (meeting: AdminMeeting) => {
+        if (!token) return;
+        const what = meeting.seriesId ? 'this occurrence' : 'this meeting';
+        if (!confirm(`Cancel ${what} of "${meeting.title}"?`)) return;
+        try {
+            await adminMeetingsApi.cancelMeeting(token, meeting.id);
+            toast.success('Meeting cancelled');
+            loadSchedule();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to cancel meeting');
+        }
+    };
+
+    const handleReschedule = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!token || !rescheduling) return;
+        try {
+            await adminMeetingsApi.updateMeeting(token, rescheduling.id, {
+                scheduledStart: new Date(rescheduling.scheduledStart).toISOString(),
+                scheduledEnd: new Date(rescheduling.scheduledEnd).toISOString(),
+            });
+            toast.success('Meeting rescheduled');
+            setRescheduling(null);
+            loadSchedule();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to reschedule meeting');
+        }
+    };
+
+    const handleEditSeries = async (seriesId: string) => {
+        if (!token) return;
+        try {
+            const { series } = await adminMeetingsApi.getSeries(token, seriesId);
+            setSeriesEdit({ id: series.id, title: series.title, recurrence: parseRRule(series.rrule) });
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to load series');
+        }
+    };
+
+    const handleUpdateSeries = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!token || !seriesEdit) return;
+        try {
+            await adminMeetingsApi.updateSeries(token, seriesEdit.id, {
+                title: seriesEdit.title,
+                rrule: buildRRule(seriesEdit.recurrence),
+            });
+            toast.success('Series updated');
+            setSeriesEdit(null);
+            loadSchedule();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to update series');
+        }
+    };
+
+    const handleCancelSeries = async (meeting: AdminMeeting) => {
+        if (!token || !meeting.seriesId) return;
+        if (!confirm(`Cancel all upcoming meetings of "${meeting.title}"?`)) return;
+        try {
+            const { cancelledCount } = await adminMeetingsApi.cancelSeries(token, meeting.seriesId);
+            toast.success(`${cancelledCount} meetings cancelled`);
+            loadSchedule();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to cancel series');
+        }
+    };
+
     const formatDate = (dateString: string | null) => {
         if (!dateString) return '-';
         return new Date(dateString).toLocaleString();
@@ -143,7 +260,7 @@ export function MeetingSchedule() {
                                 Schedule Meeting
                             </Button>
                         </DialogTrigger>
-                        <DialogContent>
+                        <DialogContent className="max-h-[90vh] overflow-y-auto">
                             <DialogHeader>
                                 <DialogTitle>Schedule New Meeting</DialogTitle>
                                 <DialogDescription>
@@ -189,6 +306,17 @@ export function MeetingSchedule() {
                                         onChange={(e) => setFormData({ ...formData, maxParticipants: parseInt(e.target.value) })}
                                     />
                                 </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="passcode">Passcode (optional)</Label>
+                                    <Input
+                                        id="passcode"
+                                        type="password"
+                                        autoComplete="new-password"
+                                        placeholder="Leave empty for no passcode"
+                                        value={formData.passcode}
+                                        onChange={(e) => setFormData({ ...formData, passcode: e.target.value })}
+                                    />
+                                </div>
                                 <div className="grid grid-cols-2 gap-4">
                                     <Label className="flex items-center gap-2 cursor-pointer">
                                         <input
@@ -208,6 +336,80 @@ export function MeetingSchedule() {
                                         />
                                         Allow Participant Whiteboard
                                     </Label>
+                                    <Label className="flex items-center gap-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={formData.webinar}
+                                            onChange={(e) => setFormData({ ...formData, webinar: e.target.checked })}
+                                            className="w-4 h-4 rounded border-gray-600 focus:ring-blue-500"
+                                        />
+                                        Webinar (attendees watch only)
+                                    </Label>
+                                </div>
+                                <div className="space-y-3 rounded-md border p-3">
+                                    <Label className="flex items-center gap-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={formData.repeat}
+                                            onChange={(e) => setFormData({ ...formData, repeat: e.target.checked })}
+                                            className="w-4 h-4 rounded border-gray-600 focus:ring-blue-500"
+                                        />
+                                        Repeat weekly
+                                    </Label>
+                                    {formData.repeat && (
+                                        <RecurrenceFields
+                                            value={formData.recurrence}
+                                            onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+                                        />
+                                    )}
+                                </div>
+                                <div className="space-y-3 rounded-md border p-3">
+                                    <Label className="flex items-center gap-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={formData.requireApproval}
+                                            onChange={(e) => setFormData({ ...formData, requireApproval: e.target.checked })}
+                                            className="w-4 h-4 rounded border-gray-600 focus:ring-blue-500"
+                                        />
+                                        Hold participants in the waiting room
+                                    </Label>
+                                    {formData.requireApproval && (
+                                        <>
+                                            <p className="text-xs text-muted-foreground">Let these in without approval:</p>
+                                            <div className="space-y-2">
+                                                <Label htmlFor="subject">Students of subject</Label>
+                                                <select
+                                                    id="subject"
+                                                    value={formData.subjectId}
+                                                    onChange={(e) => setFormData({ ...formData, subjectId: e.target.value })}
+                                                    className="w-full h-9 rounded-md border bg-transparent px-3 text-sm"
+                                                >
+                                                    <option value="">None</option>
+                                                    {subjects.map((subject) => (
+                                                        <option key={subject.id} value={subject.id}>{subject.name}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                            <Label className="flex items-center gap-2 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={formData.autoAdmitCoTeachers}
+                                                    onChange={(e) => setFormData({ ...formData, autoAdmitCoTeachers: e.target.checked })}
+                                                    className="w-4 h-4 rounded border-gray-600 focus:ring-blue-500"
+                                                />
+                                                Teachers who share a subject with the host
+                                            </Label>
+                                            <div className="space-y-2">
+                                                <Label htmlFor="emailDomain">Verified emails from domain</Label>
+                                                <Input
+                                                    id="emailDomain"
+                                                    placeholder="school.edu"
+                                                    value={formData.autoAdmitEmailDomain}
+                                                    onChange={(e) => setFormData({ ...formData, autoAdmitEmailDomain: e.target.value })}
+                                                />
+                                            </div>
+                                        </>
+                                    )}
                                 </div>
                                 <DialogFooter>
                                     <Button type="button" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
@@ -219,6 +421,28 @@ export function MeetingSchedule() {
                 </div>
             </div>
 
+            {isAdmin && settings && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Room Settings</CardTitle>
+                        <CardDescription>
+                            Applies to every meeting on the platform.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <Label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={settings.autoCreateRooms}
+                                onChange={(e) => handleAutoCreateChange(e.target.checked)}
+                                className="w-4 h-4 rounded border-gray-600 focus:ring-blue-500"
+                            />
+                            Create a room when someone joins an unknown room ID
+                        </Label>
+                    </CardContent>
+                </Card>
+            )}
+
             <Card>
                 <CardHeader>
                     <CardTitle>Upcoming Sessions</CardTitle>
@@ -256,7 +480,15 @@ export function MeetingSchedule() {
                                         <TableRow key={meeting.id}>
                                             <TableCell>
                                                 <div className="flex flex-col">
-                                                    <span className="font-medium">{meeting.title}</span>
+                                                    <span className="font-medium flex items-center gap-1.5">
+                                                        {meeting.title}
+                                                        {meeting.seriesId && (
+                                                            <Badge variant="secondary" className="gap-1">
+                                                                <Repeat className="h-3 w-3" />
+                                                                {meeting.isException ? 'Edited' : 'Repeats'}
+                                                            </Badge>
+                                                        )}
+                                                    </span>
                                                     <span className="text-xs text-muted-foreground">{meeting.roomCode}</span>
                                                 </div>
                                             </TableCell>
@@ -287,14 +519,40 @@ export function MeetingSchedule() {
                                                 </Badge>
                                             </TableCell>
                                             <TableCell className="text-right">
-                                                <Button
-                                                    size="sm"
-                                                    className="gap-1"
-                                                    onClick={() => handleStartMeeting(meeting.id)}
-                                                >
-                                                    <Play className="h-3.5 w-3.5" />
-                                                    Start
-                                                </Button>
+                                                <div className="flex flex-wrap justify-end gap-1.5">
+                                                    <Button
+                                                        size="sm"
+                                                        className="gap-1"
+                                                        onClick={() => handleStartMeeting(meeting.id)}
+                                                    >
+                                                        <Play className="h-3.5 w-3.5" />
+                                                        Start
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => setRescheduling({
+                                                            id: meeting.id,
+                                                            scheduledStart: toLocalInput(meeting.scheduledStart),
+                                                            scheduledEnd: toLocalInput(meeting.scheduledEnd),
+                                                        })}
+                                                    >
+                                                        Reschedule
+                                                    </Button>
+                                                    <Button size="sm" variant="outline" onClick={() => handleCancelMeeting(meeting)}>
+                                                        Cancel
+                                                    </Button>
+                                                    {meeting.seriesId && (
+                                                        <>
+                                                            <Button size="sm" variant="outline" onClick={() => handleEditSeries(meeting.seriesId!)}>
+                                                                Edit Series
+                                                            </Button>
+                                                            <Button size="sm" variant="destructive" onClick={() => handleCancelSeries(meeting)}>
+                                                                Cancel Series
+                                                            </Button>
+                                                        </>
+                                                    )}
+                                                </div>
                                             </TableCell>
                                         </TableRow>
                                     ))
@@ -304,6 +562,76 @@ export function MeetingSchedule() {
                     </div>
                 </CardContent>
             </Card>
+
+            <Dialog open={rescheduling !== null} onOpenChange={(isOpen) => !isOpen && setRescheduling(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Reschedule Meeting</DialogTitle>
+                        <DialogDescription>
+                            Only this meeting moves; the rest of its series stays as it is.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {rescheduling && (
+                        <form onSubmit={handleReschedule} className="space-y-4 py-4">
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="rescheduleStart">Start Date & Time</Label>
+                                    <Input
+                                        id="rescheduleStart"
+                                        type="datetime-local"
+                                        value={rescheduling.scheduledStart}
+                                        onChange={(e) => setRescheduling({ ...rescheduling, scheduledStart: e.target.value })}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="rescheduleEnd">End Date & Time</Label>
+                                    <Input
+                                        id="rescheduleEnd"
+                                        type="datetime-local"
+                                        value={rescheduling.scheduledEnd}
+                                        onChange={(e) => setRescheduling({ ...rescheduling, scheduledEnd: e.target.value })}
+                                    />
+                                </div>
+                            </div>
+                            <DialogFooter>
+                                <Button type="button" variant="outline" onClick={() => setRescheduling(null)}>Cancel</Button>
+                                <Button type="submit">Save</Button>
+                            </DialogFooter>
+                        </form>
+                    )}
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={seriesEdit !== null} onOpenChange={(isOpen) => !isOpen && setSeriesEdit(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Edit Series</DialogTitle>
+                        <DialogDescription>
+                            Changes apply to upcoming meetings that haven&apos;t been edited on their own.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {seriesEdit && (
+                        <form onSubmit={handleUpdateSeries} className="space-y-4 py-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="seriesTitle">Meeting Title</Label>
+                                <Input
+                                    id="seriesTitle"
+                                    value={seriesEdit.title}
+                                    onChange={(e) => setSeriesEdit({ ...seriesEdit, title: e.target.value })}
+                                />
+                            </div>
+                            <RecurrenceFields
+                                value={seriesEdit.recurrence}
+                                onChange={(recurrence) => setSeriesEdit({ ...seriesEdit, recurrence })}
+                            />
+                            <DialogFooter>
+                                <Button type="button" variant="outline" onClick={() => setSeriesEdit(null)}>Cancel</Button>
+                                <Button type="submit">Save Series</Button>
+                            </DialogFooter>
+                        </form>
+                    )}
+                </DialogContent>
+            </Dialog>
         </div>
     );
 }
@@ -0,0 +1,140 @@
+"use client";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const WEEKDAYS = [
+    { code: 'MO', label: 'Mon' },
+    { code: 'TU', label: 'Tue' },
+    { code: 'WE', label: 'Wed' },
+    { code: 'TH', label: 'Thu' },
+    { code: 'FR', label: 'Fri' },
+    { code: 'SA', label: 'Sat' },
+    { code: 'SU', label: 'Sun' },
+] as const;
+
+/** Weekly recurrence as edited in the form; converts to and from an RRULE */
+export interface Recurrence {
+    days: string[];
+    /** Every Nth week */
+    interval: number;
+    endType: 'until' | 'count';
+    /** Last day (yyyy-mm-dd, local) an occurrence may fall on */
+    until: string;
+    count: number;
+}
+
+export const DEFAULT_RECURRENCE: Recurrence = {
+    days: [],
+    interval: 1,
+    endType: 'count',
+    until: '',
+    count: 10,
+};
+
+export function buildRRule(recurrence: Recurrence): string {
+    const parts = ['FREQ=WEEKLY'];
+    if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`);
+    if (recurrence.days.length > 0) parts.push(`BYDAY=${recurrence.days.join(',')}`);
+    if (recurrence.endType === 'until' && recurrence.until) {
+        // Through the end of the chosen day, local time
+        const until = new Date(`${recurrence.until}T23:59:59`).toISOString();
+        parts.push(`UNTIL=${until.replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+    } else {
+        parts.push(`COUNT=${recurrence.count}`);
+    }
+    return parts.join(';');
+}
+
+export function parseRRule(rrule: string): Recurrence {
+    const parts = new Map(rrule.split(';').map((part) => part.split('=') as [string, string]));
+    const until = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(parts.get('UNTIL') ?? '');
+    const untilDate = until
+        ? new Date(Date.UTC(+until[1], +until[2] - 1, +until[3], +(until[4] ?? 0), +(until[5] ?? 0), +(until[6] ?? 0)))
+        : null;
+
+    return {
+        days: parts.get('BYDAY')?.split(',') ?? [],
+        interval: Number(parts.get('INTERVAL') ?? 1),
+        endType: untilDate ? 'until' : 'count',
+        until: untilDate ? untilDate.toLocaleDateString('en-CA') : '',
+        count: Number(parts.get('COUNT') ?? DEFAULT_RECURRENCE.count),
+    };
+}
+
+export function RecurrenceFields({ value, onChange }: { value: Recurrence; onChange: (value: Recurrence) => void }) {
+    const toggleDay = (code: string) => {
+        onChange({
+            ...value,
+            days: value.days.includes(code) ? value.days.filter((d) => d !== code) : [...value.days, code],
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap gap-1.5">
+                {WEEKDAYS.map(({ code, label }) => (
+                    <button
+                        key={code}
+                        type="button"
+                        onClick={() => toggleDay(code)}
+                        className={`px-2.5 py-1 text-xs rounded-md border transition-colors ${value.days.includes(code)
+                            ? 'bg-primary text-primary-foreground border-primary'
+                            : 'bg-transparent text-muted-foreground'
+                            }`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-muted-foreground">No days selected repeats on the first meeting&apos;s weekday.</p>
+            <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <Label htmlFor="interval">Every (weeks)</Label>
+                    <Input
+                        id="interval"
+                        type="number"
+                        min={1}
+                        max={52}
+                        value={value.interval}
+                        onChange={(e) => onChange({ ...value, interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="endType">Ends</Label>
+                    <select
+                        id="endType"
+                        value={value.endType}
+                        onChange={(e) => onChange({ ...value, endType: e.target.value as Recurrence['endType'] })}
+                        className="w-full h-9 rounded-md border bg-transparent px-3 text-sm"
+                    >
+                        <option value="count">After a number of meetings</option>
+                        <option value="until">On a date</option>
+                    </select>
+                </div>
+            </div>
+            {value.endType === 'count' ? (
+                <div className="space-y-2">
+                    <Label htmlFor="count">Number of meetings</Label>
+                    <Input
+                        id="count"
+                        type="number"
+                        min={1}
+                        max={200}
+                        value={value.count}
+                        onChange={(e) => onChange({ ...value, count: Math.max(1, parseInt(e.target.value) || 1) })}
+                    />
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    <Label htmlFor="until">Last day</Label>
+                    <Input
+                        id="until"
+                        type="date"
+                        value={value.until}
+                        onChange={(e) => onChange({ ...value, until: e.target.value })}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
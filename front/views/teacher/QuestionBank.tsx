@@ -0,0 +1,330 @@
+"use client";
+import { useState, useEffect, useCallback } from 'react';
+import { useAuthStore } from '@/store/auth.store';
+import { quizzesApi } from '@/services/quizzes.service';
+import type { QuizQuestion, QuizQuestionInput } from '@/services/quizzes.service';
+import type { Subject } from '@/services/subjects.service';
+import type { QuizQuestionType } from '@/types/quiz.types';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+    DialogDescription,
+} from "@/components/ui/dialog";
+import { Plus, Pencil, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+const TYPE_LABELS: Record<QuizQuestionType, string> = {
+    single: 'Single choice',
+    multiple: 'Multiple choice',
+    short_answer: 'Short answer',
+    open: 'Open (graded by you)',
+};
+
+interface QuestionForm {
+    type: QuizQuestionType;
+    prompt: string;
+    choices: string[];
+    correctChoices: number[];
+    acceptedAnswers: string;
+    points: number;
+}
+
+const EMPTY_FORM: QuestionForm = {
+    type: 'single',
+    prompt: '',
+    choices: ['', ''],
+    correctChoices: [],
+    acceptedAnswers: '',
+    points: 1,
+};
+
+/** Drops blank choices and keeps the correct marks pointing at the same text */
+function toInput(form: QuestionForm): QuizQuestionInput {
+    const base = { type: form.type, prompt: form.prompt.trim(), points: form.points };
+
+    if (form.type === 'single' || form.type === 'multiple') {
+        const kept = form.choices
+            .map((text, index) => ({ text: text.trim(), index }))
+            .filter((c) => c.text);
+        return {
+            ...base,
+            choices: kept.map((c) => c.text),
+            correctChoices: kept
+                .map((c, newIndex) => (form.correctChoices.includes(c.index) ? newIndex : -1))
+                .filter((i) => i >= 0),
+        };
+    }
+    if (form.type === 'short_answer') {
+        return {
+            ...base,
+            acceptedAnswers: form.acceptedAnswers.split('\n').map((a) => a.trim()).filter(Boolean),
+        };
+    }
+    return base;
+}
+
+interface QuestionBankDialogProps {
+    subject: Subject | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function QuestionBankDialog({ subject, onOpenChange }: QuestionBankDialogProps) {
+    const token = useAuthStore((s) => s.token);
+    const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+    const [loading, setLoading] = useState(false);
+    // null while showing the list, 'new' or a question ID while editing
+    const [editing, setEditing] = useState<'new' | string | null>(null);
+    const [form, setForm] = useState<QuestionForm>(EMPTY_FORM);
+
+    const loadQuestions = useCallback(async () => {
+        if (!token || !subject) return;
+        setLoading(true);
+        try {
+            setQuestions(await quizzesApi.getQuestions(token, subject.id));
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to load questions');
+        } finally {
+            setLoading(false);
+        }
+    }, [token, subject]);
+
+    useEffect(() => { loadQuestions(); }, [loadQuestions]);
+
+    const openEditor = (question?: QuizQuestion) => {
+        setEditing(question?.id ?? 'new');
+        setForm(question
+            ? {
+                type: question.type,
+                prompt: question.prompt,
+                choices: question.choices.length > 0 ? question.choices : ['', ''],
+                correctChoices: question.correctChoices,
+                acceptedAnswers: question.acceptedAnswers.join('\n'),
+                points: question.points,
+            }
+            : EMPTY_FORM);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!token || !subject || !editing || !form.prompt.trim()) return;
+
+        try {
+            if (editing === 'new') {
+                await quizzesApi.createQuestion(token, subject.id, toInput(form));
+                toast.success('Question added');
+            } else {
+                await quizzesApi.updateQuestion(token, subject.id, editing, toInput(form));
+                toast.success('Question updated');
+            }
+            setEditing(null);
+            loadQuestions();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to save question');
+        }
+    };
+
+    const handleDelete = async (question: QuizQuestion) => {
+        if (!token || !subject) return;
+        try {
+            await quizzesApi.deleteQuestion(token, subject.id, question.id);
+            setQuestions((prev) => prev.filter((q) => q.id !== question.id));
+            toast.success('Question deleted');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to delete question');
+        }
+    };
+
+    const toggleCorrect = (index: number) => {
+        setForm((prev) => ({
+            ...prev,
+            correctChoices: prev.type === 'single'
+                ? [index]
+                : prev.correctChoices.includes(index)
+                    ? prev.correctChoices.filter((i) => i !== index)
+                    : [...prev.correctChoices, index],
+        }));
+    };
+
+    const isChoiceType = form.type === 'single' || form.type === 'multiple';
+
+    return (
+        <Dialog
+            open={!!subject}
+            onOpenChange={(open) => {
+                if (!open) setEditing(null);
+                onOpenChange(open);
+            }}
+        >
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Question Bank — {subject?.name}</DialogTitle>
+                    <DialogDescription>
+                        Questions you can pick from when you start a quiz in class. Editing a question does not change quizzes already taken.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {editing ? (
+                    <form onSubmit={handleSubmit} className="space-y-4 py-2">
+                        <div className="grid grid-cols-3 gap-3">
+                            <div className="space-y-2 col-span-2">
+                                <Label htmlFor="question-type">Type</Label>
+                                <select
+                                    id="question-type"
+                                    value={form.type}
+                                    onChange={(e) => setForm({ ...form, type: e.target.value as QuizQuestionType, correctChoices: [] })}
+                                    className="w-full h-9 rounded-md border bg-transparent px-3 text-sm"
+                                >
+                                    {(Object.keys(TYPE_LABELS) as QuizQuestionType[]).map((type) => (
+                                        <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="question-points">Points</Label>
+                                <Input
+                                    id="question-points"
+                                    type="number"
+                                    min={1}
+                                    max={100}
+                                    value={form.points}
+                                    onChange={(e) => setForm({ ...form, points: parseInt(e.target.value) || 1 })}
+                                />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="question-prompt">Question</Label>
+                            <Textarea
+                                id="question-prompt"
+                                value={form.prompt}
+                                onChange={(e) => setForm({ ...form, prompt: e.target.value })}
+                                maxLength={2000}
+                                rows={3}
+                                required
+                            />
+                        </div>
+
+                        {isChoiceType && (
+                            <div className="space-y-2">
+                                <Label>Choices <span className="text-muted-foreground font-normal">(tick the correct {form.type === 'single' ? 'one' : 'ones'})</span></Label>
+                                {form.choices.map((choice, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <input
+                                            type={form.type === 'single' ? 'radio' : 'checkbox'}
+                                            name="correct-choice"
+                                            checked={form.correctChoices.includes(index)}
+                                            onChange={() => toggleCorrect(index)}
+                                            className="accent-primary"
+                                        />
+                                        <Input
+                                            value={choice}
+                                            onChange={(e) => setForm({
+                                                ...form,
+                                                choices: form.choices.map((c, i) => (i === index ? e.target.value : c)),
+                                            })}
+                                            placeholder={`Choice ${index + 1}`}
+                                            maxLength={500}
+                                        />
+                                        {form.choices.length > 2 && (
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => setForm({
+                                                    ...form,
+                                                    choices: form.choices.filter((_, i) => i !== index),
+                                                    correctChoices: form.correctChoices
+                                                        .filter((i) => i !== index)
+                                                        .map((i) => (i > index ? i - 1 : i)),
+                                                })}
+                                            >
+                                                <X className="h-4 w-4" />
+                                            </Button>
+                                        )}
+                                    </div>
+                                ))}
+                                {form.choices.length < 10 && (
+                                    <Button
+                                        type="button"
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => setForm({ ...form, choices: [...form.choices, ''] })}
+                                    >
+                                        <Plus className="h-3.5 w-3.5 mr-1" /> Add choice
+                                    </Button>
+                                )}
+                            </div>
+                        )}
+
+                        {form.type === 'short_answer' && (
+                            <div className="space-y-2">
+                                <Label htmlFor="question-accepted">Accepted answers <span className="text-muted-foreground font-normal">(one per line, case is ignored)</span></Label>
+                                <Textarea
+                                    id="question-accepted"
+                                    value={form.acceptedAnswers}
+                                    onChange={(e) => setForm({ ...form, acceptedAnswers: e.target.value })}
+                                    rows={3}
+                                />
+                            </div>
+                        )}
+
+                        {form.type === 'open' && (
+                            <p className="text-sm text-muted-foreground">
+                                Students write a free answer. You score it from the quiz results on your overview.
+                            </p>
+                        )}
+
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={() => setEditing(null)}>Back</Button>
+                            <Button type="submit">{editing === 'new' ? 'Add Question' : 'Save Changes'}</Button>
+                        </DialogFooter>
+                    </form>
+                ) : (
+                    <div className="space-y-3 py-2">
+                        {loading ? (
+                            <div className="flex justify-center py-8">
+                                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                            </div>
+                        ) : questions.length === 0 ? (
+                            <p className="text-sm text-muted-foreground text-center py-8">No questions yet. Add the first one.</p>
+                        ) : (
+                            questions.map((question) => (
+                                <div key={question.id} className="flex items-start justify-between gap-3 p-3 rounded-lg border">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium line-clamp-2">{question.prompt}</p>
+                                        <div className="flex items-center gap-2 mt-1.5">
+                                            <Badge variant="secondary" className="text-[10px]">{TYPE_LABELS[question.type]}</Badge>
+                                            <span className="text-xs text-muted-foreground">
+                                                {question.points} {question.points === 1 ? 'point' : 'points'}
+                                            </span>
+                                        </div>
+                                    </div>
+                                    <div className="flex shrink-0">
+                                        <Button variant="ghost" size="icon" onClick={() => openEditor(question)}>
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                        <Button variant="ghost" size="icon" className="text-destructive" onClick={() => handleDelete(question)}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))
+                        )}
+                        <DialogFooter>
+                            <Button onClick={() => openEditor()} className="gap-2">
+                                <Plus className="h-4 w-4" /> Add Question
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,240 @@
+"use client";
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '@/store/auth.store';
+import { quizzesApi } from '@/services/quizzes.service';
+import type { QuizAnswer, QuizResults as QuizResultsData, QuizSummary } from '@/services/quizzes.service';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "@/components/ui/dialog";
+import { ClipboardCheck, ChevronRight } from "lucide-react";
+import { toast } from "sonner";
+
+const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+/** Recent quizzes on the teacher overview, with per-student scores and open-answer grading */
+export function QuizResults() {
+    const token = useAuthStore((s) => s.token);
+    const [quizzes, setQuizzes] = useState<QuizSummary[]>([]);
+    const [openQuizId, setOpenQuizId] = useState<string | null>(null);
+    // Bumped after grading so averages and to-grade counts catch up
+    const [refreshKey, setRefreshKey] = useState(0);
+
+    useEffect(() => {
+        if (!token) return;
+        quizzesApi.getQuizzes(token)
+            .then((data) => setQuizzes(data.slice(0, 8)))
+            .catch((err) => console.error('Failed to load quizzes', err));
+    }, [token, refreshKey]);
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <ClipboardCheck className="h-5 w-5 text-blue-500" />
+                    Quiz Results
+                </CardTitle>
+                <CardDescription>Quizzes you ran in class and how your students scored</CardDescription>
+            </CardHeader>
+            <CardContent>
+                {quizzes.length === 0 ? (
+                    <p className="text-muted-foreground text-sm text-center py-6">
+                        No quizzes yet. Build a question bank under My Subjects, then start a quiz from the room controls.
+                    </p>
+                ) : (
+                    <div className="space-y-2">
+                        {quizzes.map((quiz) => (
+                            <button
+                                key={quiz.id}
+                                onClick={() => setOpenQuizId(quiz.id)}
+                                className="w-full flex items-center gap-3 p-3 rounded-xl border bg-card hover:bg-muted/30 transition-colors text-left"
+                            >
+                                <div
+                                    className="w-1.5 self-stretch rounded-full shrink-0"
+                                    style={{ backgroundColor: quiz.subject.color || '#3b82f6' }}
+                                />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium truncate">{quiz.title}</p>
+                                    <p className="text-xs text-muted-foreground mt-0.5 truncate">
+                                        {quiz.subject.name} · {quiz.meeting.title} · {formatDate(quiz.startedAt)}
+                                    </p>
+                                </div>
+                                <div className="text-right shrink-0">
+                                    <p className="text-sm font-semibold tabular-nums">
+                                        {quiz.averageScore !== null ? `${quiz.averageScore.toFixed(1)} / ${quiz.maxScore}` : '—'}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">{quiz.submissions} handed in</p>
+                                </div>
+                                {quiz.pendingGrading > 0 && (
+                                    <Badge variant="outline" className="shrink-0 text-amber-600 border-amber-500/40">
+                                        {quiz.pendingGrading} to grade
+                                    </Badge>
+                                )}
+                                <ChevronRight className="h-4 w-4 text-muted-foreground shrink-0" />
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+
+            <QuizResultsDialog
+                quizId={openQuizId}
+                onClose={() => setOpenQuizId(null)}
+                onGraded={() => setRefreshKey((k) => k + 1)}
+            />
+        </Card>
+    );
+}
+
+function QuizResultsDialog({
+    quizId,
+    onClose,
+    onGraded,
+}: {
+    quizId: string | null;
+    onClose: () => void;
+    onGraded: () => void;
+}) {
+    const token = useAuthStore((s) => s.token);
+    const [loaded, setLoaded] = useState<QuizResultsData | null>(null);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    // Hide the previous quiz while the next one loads
+    const results = loaded?.id === quizId ? loaded : null;
+
+    useEffect(() => {
+        if (!token || !quizId) return;
+        quizzesApi.getQuizResults(token, quizId)
+            .then(setLoaded)
+            .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load quiz results'));
+    }, [token, quizId]);
+
+    const handleGrade = async (answer: QuizAnswer, points: number) => {
+        if (!token || !results) return;
+        try {
+            const attempt = await quizzesApi.gradeAnswer(token, results.id, answer.id, points);
+            setLoaded({
+                ...results,
+                attempts: results.attempts.map((a) => (a.id === attempt.id ? { ...a, ...attempt } : a)),
+            });
+            onGraded();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to grade answer');
+        }
+    };
+
+    return (
+        <Dialog open={!!quizId} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{results?.title ?? 'Quiz Results'}</DialogTitle>
+                    <DialogDescription>
+                        {results
+                            ? `${results.subject.name} · ${results.meeting.title} · ${formatDate(results.startedAt)}`
+                            : 'Loading...'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {results && (results.attempts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">Nobody handed this quiz in.</p>
+                ) : (
+                    <div className="space-y-2 py-2">
+                        {results.attempts.map((attempt) => (
+                            <div key={attempt.id} className="rounded-lg border">
+                                <button
+                                    onClick={() => setExpanded(expanded === attempt.id ? null : attempt.id)}
+                                    className="w-full flex items-center justify-between gap-3 p-3 text-left hover:bg-muted/30 transition-colors"
+                                >
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium truncate">{attempt.user.displayName}</p>
+                                        <p className="text-xs text-muted-foreground truncate">{attempt.user.email}</p>
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        {attempt.pendingGrading && (
+                                            <Badge variant="outline" className="text-amber-600 border-amber-500/40">To grade</Badge>
+                                        )}
+                                        <span className="text-sm font-semibold tabular-nums">{attempt.score} / {attempt.maxScore}</span>
+                                    </div>
+                                </button>
+
+                                {expanded === attempt.id && (
+                                    <div className="border-t p-3 space-y-3">
+                                        {results.items.map((item, index) => {
+                                            const answer = attempt.answers.find((a) => a.itemId === item.id);
+                                            return (
+                                                <div key={item.id} className="space-y-1">
+                                                    <p className="text-xs font-medium">
+                                                        <span className="text-muted-foreground mr-1">{index + 1}.</span>
+                                                        {item.prompt}
+                                                    </p>
+                                                    {!answer ? (
+                                                        <p className="text-xs text-muted-foreground italic">No answer · 0 / {item.points}</p>
+                                                    ) : (
+                                                        <div className="flex items-start justify-between gap-3">
+                                                            <p className="text-xs text-muted-foreground whitespace-pre-wrap break-words">
+                                                                {answer.choices.length > 0
+                                                                    ? answer.choices.map((c) => item.choices[c]).join(', ')
+                                                                    : answer.text || '—'}
+                                                            </p>
+                                                            {item.type === 'open' ? (
+                                                                <GradeInput
+                                                                    points={answer.points}
+                                                                    max={item.points}
+                                                                    onGrade={(points) => handleGrade(answer, points)}
+                                                                />
+                                                            ) : (
+                                                                <span className={`text-xs font-semibold tabular-nums shrink-0 ${answer.isCorrect ? 'text-green-600' : 'text-red-500'}`}>
+                                                                    {answer.points ?? 0} / {item.points}
+                                                                </span>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                ))}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function GradeInput({ points, max, onGrade }: { points: number | null; max: number; onGrade: (points: number) => void }) {
+    const [value, setValue] = useState(points?.toString() ?? '');
+    const parsed = parseInt(value);
+    const valid = !isNaN(parsed) && parsed >= 0 && parsed <= max;
+
+    return (
+        <div className="flex items-center gap-1.5 shrink-0">
+            <Input
+                type="number"
+                min={0}
+                max={max}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className="h-7 w-16 text-xs"
+            />
+            <span className="text-xs text-muted-foreground">/ {max}</span>
+            <Button
+                size="sm"
+                variant="outline"
+                className="h-7 text-xs"
+                disabled={!valid || parsed === points}
+                onClick={() => onGrade(parsed)}
+            >
+                Save
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+"use client";
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '@/store/auth.store';
+import { attendanceApi } from '@/services/attendance.service';
+import type { UserEngagementSummary } from '@/services/attendance.service';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Activity } from "lucide-react";
+import { EngagementBadge } from '../admin/AttendanceManagement';
+
+const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+/** Students of the teacher's classes by average engagement, the quietest first */
+export function StudentEngagement() {
+    const token = useAuthStore((s) => s.token);
+    const [students, setStudents] = useState<UserEngagementSummary[]>([]);
+
+    useEffect(() => {
+        if (!token) return;
+        attendanceApi.getEngagementSummary(token, { limit: 8 })
+            .then((data) => setStudents(data.users))
+            .catch((err) => console.error('Failed to load engagement', err));
+    }, [token]);
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Activity className="h-5 w-5 text-emerald-500" />
+                    Student Engagement
+                </CardTitle>
+                <CardDescription>
+                    Scored from camera use, speaking, chat, questions, raised hands and reactions. Least engaged first.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                {students.length === 0 ? (
+                    <p className="text-muted-foreground text-sm text-center py-6">
+                        Engagement shows up here once students have attended one of your classes.
+                    </p>
+                ) : (
+                    <div className="space-y-4">
+                        {students.map((student) => (
+                            <div key={student.userId} className="flex items-center gap-3">
+                                <div className="flex-1 min-w-0 space-y-1.5">
+                                    <div className="flex items-baseline justify-between gap-2">
+                                        <p className="text-sm font-medium truncate">{student.userName}</p>
+                                        <p className="text-xs text-muted-foreground shrink-0">
+                                            {student.sessions} {student.sessions === 1 ? 'class' : 'classes'} · last {formatDate(student.lastSessionAt)}
+                                        </p>
+                                    </div>
+                                    <Progress value={student.averageScore} className="h-1.5" />
+                                </div>
+                                <EngagementBadge score={student.averageScore} />
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -33,6 +33,8 @@ import { adminMeetingsApi } from '@/services/admin-meetings.service';
 import type { AdminMeeting } from '@/services/admin-meetings.service';
 import type { AttendanceStatistics } from '@/services/attendance.service';
 import { toast } from "sonner";
+import { QuizResults } from './QuizResults';
+import { StudentEngagement } from './StudentEngagement';
 
 export function TeacherOverview() {
     const token = useAuthStore((s) => s.token);
@@ -51,6 +53,7 @@ export function TeacherOverview() {
         maxParticipants: 50,
         allowScreenShare: true,
         allowWhiteboard: true,
+        webinar: false,
     });
 
     useEffect(() => {
@@ -100,10 +103,11 @@ export function TeacherOverview() {
                 maxParticipants: formData.maxParticipants,
                 allowScreenShare: formData.allowScreenShare,
                 allowWhiteboard: formData.allowWhiteboard,
+                roomType: formData.webinar ? 'webinar' : 'meeting',
             });
             toast.success('Class scheduled successfully!');
             setScheduleOpen(false);
-            setFormData({ title: '', scheduledStart: '', scheduledEnd: '', maxParticipants: 50, allowScreenShare: true, allowWhiteboard: true });
+            setFormData({ title: '', scheduledStart: '', scheduledEnd: '', maxParticipants: 50, allowScreenShare: true, allowWhiteboard: true, webinar: false });
             // Reload schedule
             const schedule = await adminMeetingsApi.getSchedule(token);
             setUpcomingMeetings(schedule);
@@ -290,6 +294,15 @@ export function TeacherOverview() {
                                     />
                                     Allow Participant Whiteboard
                                 </Label>
+                                <Label className="flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={formData.webinar}
+                                        onChange={(e) => setFormData({ ...formData, webinar: e.target.checked })}
+                                        className="w-4 h-4 rounded border-gray-600 focus:ring-blue-500"
+                                    />
+                                    Webinar (attendees watch only)
+                                </Label>
                             </div>
                             <DialogFooter>
                                 <Button type="button" variant="outline" onClick={() => setScheduleOpen(false)}>Cancel</Button>
@@ -453,6 +466,10 @@ export function TeacherOverview() {
                     </CardContent>
                 </Card>
             </div>
+
+            <StudentEngagement />
+
+            <QuizResults />
         </div>
     );
 }
@@ -2,15 +2,18 @@
 import { useState, useEffect } from 'react';
 import { useAuthStore } from '@/store/auth.store';
 import { subjectsApi } from '@/services/subjects.service';
-import type { TeacherSubjectEntry } from '@/services/subjects.service';
+import type { Subject, TeacherSubjectEntry } from '@/services/subjects.service';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { BookOpen, Calendar } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { BookOpen, Calendar, ListChecks } from "lucide-react";
+import { QuestionBankDialog } from './QuestionBank';
 
 export function TeacherSubjects() {
     const token = useAuthStore((s) => s.token);
     const [subjects, setSubjects] = useState<TeacherSubjectEntry[]>([]);
     const [loading, setLoading] = useState(true);
+    const [bankSubject, setBankSubject] = useState<Subject | null>(null);
 
     useEffect(() => {
         async function load() {
@@ -78,16 +81,22 @@ export function TeacherSubjects() {
                                     <CardDescription className="line-clamp-2">{entry.subject.description}</CardDescription>
                                 )}
                             </CardHeader>
-                            <CardContent className="pt-0">
+                            <CardContent className="pt-0 flex items-center justify-between gap-2">
                                 <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
                                     <Calendar className="h-3 w-3" />
                                     Assigned {new Date(entry.assignedAt).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}
                                 </div>
+                                <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setBankSubject(entry.subject)}>
+                                    <ListChecks className="h-3.5 w-3.5" />
+                                    Question Bank
+                                </Button>
                             </CardContent>
                         </Card>
                     ))}
                 </div>
             )}
+
+            <QuestionBankDialog subject={bankSubject} onOpenChange={(open) => !open && setBankSubject(null)} />
         </div>
     );
 }
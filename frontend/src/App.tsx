@@ -9,7 +9,7 @@ import { useAuthStore } from './store/auth.store';
 import { useRoomStore } from './store/room.store';
 import { useMediaStore } from './store/media.store';
 import { useParticipantsStore } from './store/participants.store';
-import { useSignaling } from './hooks/useSignaling';
+import { useSignaling, RoomRedirectError } from './hooks/useSignaling';
 import { WS_EVENTS } from './constants';
 import type { NewProducerEvent } from './types';
 
@@ -58,6 +58,9 @@ function App() {
   const hasAttemptedRejoin = useRef(false);
   const hasRedirectedAdmin = useRef(false);
 
+  // Lets the admission handler move us to the node that hosts the room
+  const joinOnNodeRef = useRef<((id: string, nodeUrl: string) => Promise<void>) | null>(null);
+
   useEffect(() => {
     const path = location.pathname;
     if (path === '/verify-email') setUrlView('verify-email');
@@ -155,7 +158,7 @@ function App() {
     if (!socket) return;
 
     // Handle admission to room (completes the join flow)
-    const handleAdmitted = async (data: { roomId: string; message: string }) => {
+    const handleAdmitted = async (data: { roomId: string; message?: string }) => {
       if (!isInWaitingRoom || data.roomId !== waitingRoomId) return;
 
       try {
@@ -178,12 +181,21 @@ function App() {
           joined.existingProducers.map((p) => ({ ...p, kind: p.kind })),
         );
 
-        useRoomStore.getState().setRoom(joined.roomId, joined.roomCode, joined.role);
+        useRoomStore.getState().setRoom(joined.roomId, joined.roomCode ?? null, joined.role);
 
         // Clear waiting room state
         setIsInWaitingRoom(false);
         setWaitingRoomId(null);
       } catch (error) {
+        if (error instanceof RoomRedirectError && joinOnNodeRef.current) {
+          joinOnNodeRef.current(data.roomId, error.nodeUrl).catch((err) => {
+            console.error('Failed to join room on its node:', err);
+            setIsInWaitingRoom(false);
+            setWaitingRoomId(null);
+            useRoomStore.getState().setError('Failed to join room');
+          });
+          return;
+        }
         console.error('Failed to join room after admission:', error);
         setIsInWaitingRoom(false);
         setWaitingRoomId(null);
@@ -272,8 +284,8 @@ function App() {
     useRoomStore.getState().setRoom(created.roomId, created.roomCode, joined.role);
   }, [signaling]);
 
-  const handleJoinRoom = useCallback(async (id: string) => {
-    const socket = signaling.connect();
+  const handleJoinRoom = useCallback(async (id: string, nodeUrl?: string) => {
+    const socket = signaling.connect(nodeUrl);
     if (!socket) throw new Error('Failed to connect');
 
     // Wait for socket to connect AND authenticate
@@ -313,9 +325,17 @@ function App() {
     setWasRejected(false);
     setRejectionMessage('');
 
-    socket.emit(WS_EVENTS.JOIN_WAITING_ROOM, { roomId: id }, (response: any) => {
+    socket.emit(WS_EVENTS.JOIN_WAITING_ROOM, { roomId: id }, (response) => {
       console.log('JOIN_WAITING_ROOM response:', response);
-      if (!response.success) {
+      if (!response.success && response.redirectUrl && !nodeUrl && joinOnNodeRef.current) {
+        // The room lives on another backend node: reconnect there and retry once
+        joinOnNodeRef.current(id, response.redirectUrl).catch((error) => {
+          console.error('Failed to join room on its node:', error);
+          setIsInWaitingRoom(false);
+          setWaitingRoomId(null);
+          useRoomStore.getState().setError('Failed to join room');
+        });
+      } else if (!response.success) {
         setIsInWaitingRoom(false);
         setWaitingRoomId(null);
         useRoomStore.getState().setError(response.error || 'Failed to join waiting room');
@@ -326,6 +346,10 @@ function App() {
     });
   }, [signaling]);
 
+  useEffect(() => {
+    joinOnNodeRef.current = handleJoinRoom;
+  }, [handleJoinRoom]);
+
   // ─── Auto-rejoin on refresh ───────────────────────────────────
 
   useEffect(() => {
@@ -37,14 +37,14 @@ interface ChatProps {
 const MAX_FILE_SIZE = 5 * 1024 * 1024;
 const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
 
-function formatFileSize(bytes?: number): string {
+function formatFileSize(bytes?: number | null): string {
   if (!bytes) return '0 B';
   const kb = bytes / 1024;
   if (kb < 1024) return `${kb.toFixed(1)} KB`;
   return `${(kb / 1024).toFixed(1)} MB`;
 }
 
-function getFileIcon(fileType?: string): string {
+function getFileIcon(fileType?: string | null): string {
   if (!fileType) return '📎';
   if (fileType.startsWith('image/')) return '🖼️';
   if (fileType.includes('pdf')) return '📄';
@@ -251,7 +251,7 @@ export function Chat({
                             <div className="relative group/image overflow-hidden rounded-lg">
                               <img
                                 src={msg.fileData}
-                                alt={msg.fileName}
+                                alt={msg.fileName ?? undefined}
                                 className="max-w-full h-auto object-cover"
                                 style={{ maxHeight: '200px' }}
                               />
@@ -1,10 +1,10 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
-import { Socket } from 'socket.io-client';
 import { WS_EVENTS } from '../constants';
+import type { SignalingSocket } from './useSignaling';
 import type { ChatMessage, TypingIndicator } from '../types/chat.types';
 
 interface UseChatProps {
-  socket: Socket | null;
+  socket: SignalingSocket | null;
   roomId: string;
   userId: string;
 }
@@ -22,6 +22,16 @@ import type {
   ReactionEvent,
 } from '../types';
 import type { types as mediasoupTypes } from 'mediasoup-client';
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  WsAck,
+  WsRequest,
+  WsRequestEvent,
+} from '@contract';
+
+/** A socket whose events and payloads are checked against the backend contract */
+export type SignalingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 // ─── Callback types for event listeners ───────────────────────────
 
@@ -42,27 +52,42 @@ interface SignalingListeners {
   onError?: (data: { message: string }) => void;
 }
 
+/** room:join reached a node that doesn't host the room: reconnect to `nodeUrl` and join again */
+export class RoomRedirectError extends Error {
+  readonly nodeUrl: string;
+
+  constructor(nodeUrl: string) {
+    super('Room is hosted on another node');
+    this.name = 'RoomRedirectError';
+    this.nodeUrl = nodeUrl;
+  }
+}
+
 // ─── Typed emit wrapper ───────────────────────────────────────────
 
-function emitWithAck<T>(socket: Socket, event: string, payload: unknown): Promise<T> {
-  return new Promise<T>((resolve, reject) => {
+function emitWithAck<E extends WsRequestEvent>(socket: SignalingSocket, event: E, payload: WsRequest<E>): Promise<WsAck<E>> {
+  return new Promise<WsAck<E>>((resolve, reject) => {
     const timeout = setTimeout(() => {
       reject(new Error(`Socket event "${event}" timed out after 10s`));
     }, 10_000);
 
-    socket.emit(event, payload, (response: T | { status: string; message: string }) => {
+    // A generic event can't be matched against the per-event signatures
+    const emit = socket.emit.bind(socket) as (event: E, ...args: unknown[]) => void;
+    emit(event, payload, (response: WsAck<E> | { status: string; message: string }) => {
       clearTimeout(timeout);
       if (response && typeof response === 'object' && 'status' in response && response.status === 'error') {
-        reject(new Error((response as { message: string }).message));
+        reject(new Error(response.message));
       } else {
-        resolve(response as T);
+        resolve(response as WsAck<E>);
       }
     });
   });
 }
 
 export function useSignaling(listeners: SignalingListeners = {}) {
-  const socketRef = useRef<Socket | null>(null);
+  const socketRef = useRef<SignalingSocket | null>(null);
+  /** The node we talk to; a room hosted elsewhere moves us to its own */
+  const urlRef = useRef<string>(WS_URL);
   const listenersRef = useRef(listeners);
   listenersRef.current = listeners;
 
@@ -72,14 +97,21 @@ export function useSignaling(listeners: SignalingListeners = {}) {
 
   // ─── Connect ──────────────────────────────────────────────────
 
-  const connect = useCallback(() => {
+  const connect = useCallback((url: string = urlRef.current) => {
+    if (socketRef.current && url !== urlRef.current) {
+      // Moving to the node that hosts the room
+      socketRef.current.removeAllListeners();
+      socketRef.current.disconnect();
+      socketRef.current = null;
+    }
     if (socketRef.current?.connected) return socketRef.current;
     if (!token) {
       setError('Not authenticated');
       return null;
     }
 
-    const socket = io(WS_URL, {
+    urlRef.current = url;
+    const socket: SignalingSocket = io(url, {
       auth: { token },
       transports: ['websocket'],
       reconnection: true,
@@ -96,7 +128,7 @@ export function useSignaling(listeners: SignalingListeners = {}) {
 
     socket.on(WS_EVENTS.AUTHENTICATED, () => {
       // Mark socket as ready for operations
-      (socket as Socket & { isAuthenticated?: boolean }).isAuthenticated = true;
+      (socket as SignalingSocket & { isAuthenticated?: boolean }).isAuthenticated = true;
     });
 
     socket.on('disconnect', (reason) => {
@@ -206,49 +238,51 @@ export function useSignaling(listeners: SignalingListeners = {}) {
   const createRoom = useCallback(async (title: string, maxParticipants?: number): Promise<CreateRoomResponse> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<CreateRoomResponse>(socket, WS_EVENTS.CREATE_ROOM, { title, maxParticipants });
+    return emitWithAck(socket, WS_EVENTS.CREATE_ROOM, { title, maxParticipants });
   }, []);
 
   const joinRoom = useCallback(async (roomId: string): Promise<JoinRoomResponse> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<JoinRoomResponse>(socket, WS_EVENTS.JOIN_ROOM, { roomId });
+    const response = await emitWithAck(socket, WS_EVENTS.JOIN_ROOM, { roomId });
+    if ('redirectUrl' in response) throw new RoomRedirectError(response.redirectUrl);
+    return response;
   }, []);
 
   const leaveRoom = useCallback(async (roomId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ success: boolean }>(socket, WS_EVENTS.LEAVE_ROOM, { roomId });
+    await emitWithAck(socket, WS_EVENTS.LEAVE_ROOM, { roomId });
   }, []);
 
   const closeRoom = useCallback(async (roomId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ success: boolean }>(socket, WS_EVENTS.CLOSE_ROOM, { roomId });
+    await emitWithAck(socket, WS_EVENTS.CLOSE_ROOM, { roomId });
   }, []);
 
   const kickUser = useCallback(async (roomId: string, targetUserId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ success: boolean }>(socket, WS_EVENTS.KICK_USER, { roomId, targetUserId });
+    await emitWithAck(socket, WS_EVENTS.KICK_USER, { roomId, targetUserId });
   }, []);
 
   const muteAll = useCallback(async (roomId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ success: boolean; mutedCount: number }>(socket, WS_EVENTS.MUTE_ALL, { roomId });
+    await emitWithAck(socket, WS_EVENTS.MUTE_ALL, { roomId });
   }, []);
 
   const sendHandRaise = useCallback(async (roomId: string): Promise<{ success: boolean; handRaised: boolean }> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<{ success: boolean; handRaised: boolean }>(socket, WS_EVENTS.HAND_RAISE, { roomId });
+    return emitWithAck(socket, WS_EVENTS.HAND_RAISE, { roomId });
   }, []);
 
   const sendReaction = useCallback(async (roomId: string, reaction: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ success: boolean }>(socket, WS_EVENTS.REACTION, { roomId, reaction });
+    await emitWithAck(socket, WS_EVENTS.REACTION, { roomId, reaction });
   }, []);
 
   // ─── Media signaling operations ───────────────────────────────
@@ -256,7 +290,7 @@ export function useSignaling(listeners: SignalingListeners = {}) {
   const getRouterCapabilities = useCallback(async (roomId: string): Promise<mediasoupTypes.RtpCapabilities> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    const data = await emitWithAck<{ rtpCapabilities: mediasoupTypes.RtpCapabilities }>(
+    const data = await emitWithAck(
       socket, WS_EVENTS.GET_ROUTER_CAPABILITIES, { roomId },
     );
     return data.rtpCapabilities;
@@ -265,13 +299,14 @@ export function useSignaling(listeners: SignalingListeners = {}) {
   const createTransport = useCallback(async (roomId: string, direction: 'send' | 'recv'): Promise<TransportCreatedResponse> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<TransportCreatedResponse>(socket, WS_EVENTS.CREATE_TRANSPORT, { roomId, direction });
+    const transport = await emitWithAck(socket, WS_EVENTS.CREATE_TRANSPORT, { roomId, direction });
+    return transport as TransportCreatedResponse;
   }, []);
 
   const connectTransport = useCallback(async (transportId: string, dtlsParameters: mediasoupTypes.DtlsParameters): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    await emitWithAck<{ connected: boolean }>(socket, WS_EVENTS.CONNECT_TRANSPORT, { transportId, dtlsParameters });
+    await emitWithAck(socket, WS_EVENTS.CONNECT_TRANSPORT, { transportId, dtlsParameters });
   }, []);
 
   const produce = useCallback(async (params: {
@@ -283,7 +318,7 @@ export function useSignaling(listeners: SignalingListeners = {}) {
   }): Promise<ProduceResponse> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<ProduceResponse>(socket, WS_EVENTS.PRODUCE, params);
+    return emitWithAck(socket, WS_EVENTS.PRODUCE, params);
   }, []);
 
   const consume = useCallback(async (params: {
@@ -294,38 +329,39 @@ export function useSignaling(listeners: SignalingListeners = {}) {
   }): Promise<ConsumeResponse> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    return emitWithAck<ConsumeResponse>(socket, WS_EVENTS.CONSUME, params);
+    const consumer = await emitWithAck(socket, WS_EVENTS.CONSUME, params);
+    return consumer as ConsumeResponse;
   }, []);
 
   const resumeConsumer = useCallback(async (consumerId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) throw new Error('Socket not connected');
-    await emitWithAck<{ resumed: boolean }>(socket, WS_EVENTS.RESUME_CONSUMER, { consumerId });
+    await emitWithAck(socket, WS_EVENTS.RESUME_CONSUMER, { consumerId });
   }, []);
 
   const closeProducer = useCallback(async (roomId: string, producerId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ closed: boolean }>(socket, WS_EVENTS.CLOSE_PRODUCER, { roomId, producerId });
+    await emitWithAck(socket, WS_EVENTS.CLOSE_PRODUCER, { roomId, producerId });
   }, []);
 
   const pauseProducer = useCallback(async (producerId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ paused: boolean }>(socket, WS_EVENTS.PAUSE_PRODUCER, { producerId });
+    await emitWithAck(socket, WS_EVENTS.PAUSE_PRODUCER, { producerId });
   }, []);
 
   const resumeProducer = useCallback(async (producerId: string): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
-    await emitWithAck<{ resumed: boolean }>(socket, WS_EVENTS.RESUME_PRODUCER, { producerId });
+    await emitWithAck(socket, WS_EVENTS.RESUME_PRODUCER, { producerId });
   }, []);
 
   const emitMediaState = useCallback(async (roomId: string, audioEnabled: boolean, videoEnabled: boolean): Promise<void> => {
     const socket = socketRef.current;
     if (!socket?.connected) return;
     console.log('CLIENT EMIT media-state-change', { roomId, audioEnabled, videoEnabled });
-    await emitWithAck<{ success: boolean }>(socket, WS_EVENTS.MEDIA_STATE_CHANGE, { roomId, audioEnabled, videoEnabled });
+    await emitWithAck(socket, WS_EVENTS.MEDIA_STATE_CHANGE, { roomId, audioEnabled, videoEnabled });
   }, []);
 
   // ─── Cleanup on unmount ───────────────────────────────────────
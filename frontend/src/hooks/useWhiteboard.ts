@@ -1,10 +1,10 @@
 import { useCallback, useRef, useState } from 'react';
-import type { Socket } from 'socket.io-client';
 import { WS_EVENTS } from '../constants';
+import type { SignalingSocket } from './useSignaling';
 import type { WhiteboardCursor } from '../types/whiteboard.types';
 
 interface UseWhiteboardProps {
-  socket: Socket | null;
+  socket: SignalingSocket | null;
   roomId: string;
   userId: string;
   onStateChange?: (active: boolean) => void;
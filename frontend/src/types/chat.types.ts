@@ -1,84 +1,30 @@
-export type MessageType = 'text' | 'private' | 'file' | 'image';
+import type { WsBroadcast, WsEvents, WsRequest } from '@contract';
 
-export interface ChatMessage {
-  id: string;
-  roomId: string;
-  userId: string;
-  displayName: string;
-  message?: string;
-  type: MessageType;
-  timestamp: string;
-  targetUserId?: string; // For private messages
-  fileName?: string;
-  fileType?: string;
-  fileData?: string;
-  fileSize?: number;
-}
+export type {
+  ChatMessage,
+  ChatMessageType as MessageType,
+  QnaQuestion as Question,
+} from '@contract';
 
-export interface TypingIndicator {
-  userId: string;
-  displayName: string;
-  isTyping: boolean;
-}
+export type TypingIndicator = WsBroadcast<typeof WsEvents.CHAT_USER_TYPING>;
 
 export interface ChatUser {
   userId: string;
   displayName: string;
 }
 
-export interface SendMessagePayload {
-  roomId: string;
-  message: string;
-}
-
-export interface SendPrivateMessagePayload {
-  roomId: string;
-  targetUserId: string;
-  message: string;
-}
+export type SendMessagePayload = WsRequest<typeof WsEvents.CHAT_MESSAGE>;
 
-export interface SendFilePayload {
-  roomId: string;
-  fileName: string;
-  fileType: string;
-  fileData: string;
-  fileSize: number;
-}
+export type SendPrivateMessagePayload = WsRequest<typeof WsEvents.CHAT_PRIVATE_MESSAGE>;
 
-export interface TypingPayload {
-  roomId: string;
-  isTyping: boolean;
-}
+export type SendFilePayload = WsRequest<typeof WsEvents.CHAT_FILE_UPLOAD>;
 
-export interface Question {
-  id: string;
-  roomId: string;
-  userId: string;
-  displayName: string;
-  profilePictureUrl?: string; // Add if available
-  content: string;
-  upvotes: number;
-  isUpvoted: boolean;
-  isAnswered: boolean;
-  timestamp: string;
-}
+export type TypingPayload = WsRequest<typeof WsEvents.CHAT_TYPING>;
 
-export interface AskQuestionPayload {
-  roomId: string;
-  content: string;
-}
+export type AskQuestionPayload = WsRequest<typeof WsEvents.QNA_ASK>;
 
-export interface UpvoteQuestionPayload {
-  roomId: string; // needed for broadcasting
-  questionId: string;
-}
+export type UpvoteQuestionPayload = WsRequest<typeof WsEvents.QNA_UPVOTE>;
 
-export interface AnswerQuestionPayload {
-  roomId: string;
-  questionId: string;
-}
+export type AnswerQuestionPayload = WsRequest<typeof WsEvents.QNA_ANSWER>;
 
-export interface DeleteQuestionPayload {
-  roomId: string;
-  questionId: string;
-}
+export type DeleteQuestionPayload = WsRequest<typeof WsEvents.QNA_DELETE>;
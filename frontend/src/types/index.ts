@@ -1,4 +1,5 @@
 import type { types as mediasoupTypes } from 'mediasoup-client';
+import type { Participant, RoomRole, WsAck, WsBroadcast, WsEvents } from '@contract';
 
 // Re-export API types for convenience
 export type {
@@ -17,43 +18,22 @@ export { ValidationRules } from './api.types';
 
 // ─── Enums ────────────────────────────────────────────────────────
 
-export type RoomRole = 'host' | 'co_host' | 'participant';
+export type { RoomRole } from '@contract';
 
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
 
 export type MediaDeviceKind = 'audioinput' | 'videoinput' | 'audiooutput';
 
-// ─── Backend payloads (mirrored from gateway) ─────────────────────
+// ─── Backend payloads (from the WebSocket contract) ───────────────
 
-export interface ServerParticipant {
-  userId: string;
-  displayName: string;
-  socketId: string;
-  role: RoomRole;
-  joinedAt: number;
-  producerIds: string[];
-  isMuted: boolean;
-  isVideoOff: boolean;
-  handRaised?: boolean;
-}
+export type ServerParticipant = Participant;
 
-export interface JoinRoomResponse {
-  roomId: string; // The actual room ID (may differ from requested if auto-created)
-  roomCode: string;
-  role: RoomRole;
-  participants: ServerParticipant[];
+/** room:join ack; the contract leaves mediasoup objects untyped */
+export type JoinRoomResponse = Omit<Exclude<WsAck<typeof WsEvents.JOIN_ROOM>, { redirectUrl: string }>, 'rtpCapabilities'> & {
   rtpCapabilities: mediasoupTypes.RtpCapabilities;
-  existingProducers: Array<{
-    producerId: string;
-    userId: string;
-    kind: mediasoupTypes.MediaKind;
-  }>;
-}
+};
 
-export interface CreateRoomResponse {
-  roomId: string;
-  roomCode: string;
-}
+export type CreateRoomResponse = WsAck<typeof WsEvents.CREATE_ROOM>;
 
 export interface TransportCreatedResponse {
   id: string;
@@ -62,77 +42,23 @@ export interface TransportCreatedResponse {
   dtlsParameters: mediasoupTypes.DtlsParameters;
 }
 
-export interface ProduceResponse {
-  producerId: string;
-}
+export type ProduceResponse = WsAck<typeof WsEvents.PRODUCE>;
 
-export interface ConsumeResponse {
-  consumerId: string;
-  producerId: string;
-  kind: mediasoupTypes.MediaKind;
+export type ConsumeResponse = Omit<WsAck<typeof WsEvents.CONSUME>, 'rtpParameters'> & {
   rtpParameters: mediasoupTypes.RtpParameters;
-}
-
-export interface NewProducerEvent {
-  producerId: string;
-  userId: string;
-  kind: mediasoupTypes.MediaKind;
-}
-
-export interface ProducerClosedEvent {
-  producerId: string;
-  userId: string;
-}
-
-export interface ProducerPausedEvent {
-  producerId: string;
-  userId: string;
-  kind: 'audio' | 'video';
-}
-
-export interface ProducerResumedEvent {
-  producerId: string;
-  userId: string;
-  kind: 'audio' | 'video';
-}
-
-export interface UserJoinedEvent {
-  userId: string;
-  displayName: string;
-  role: RoomRole;
-  participants: ServerParticipant[];
-}
-
-export interface UserLeftEvent {
-  userId: string;
-  kicked?: boolean;
-  participants: ServerParticipant[];
-}
-
-export interface UserKickedEvent {
-  roomId: string;
-  reason: string;
-}
-
-export interface AllMutedEvent {
-  roomId: string;
-  mutedBy: string;
-}
-
-export interface RoleChangedEvent {
-  userId: string;
-  newRole: RoomRole;
-}
-
-export interface HandRaisedEvent {
-  userId: string;
-  handRaised: boolean;
-}
-
-export interface ReactionEvent {
-  userId: string;
-  reaction: string;
-}
+};
+
+export type NewProducerEvent = WsBroadcast<typeof WsEvents.NEW_PRODUCER>;
+export type ProducerClosedEvent = WsBroadcast<typeof WsEvents.PRODUCER_CLOSED>;
+export type ProducerPausedEvent = WsBroadcast<typeof WsEvents.PRODUCER_PAUSED>;
+export type ProducerResumedEvent = WsBroadcast<typeof WsEvents.PRODUCER_RESUMED>;
+export type UserJoinedEvent = WsBroadcast<typeof WsEvents.USER_JOINED>;
+export type UserLeftEvent = WsBroadcast<typeof WsEvents.USER_LEFT>;
+export type UserKickedEvent = WsBroadcast<typeof WsEvents.USER_KICKED>;
+export type AllMutedEvent = WsBroadcast<typeof WsEvents.ALL_MUTED>;
+export type RoleChangedEvent = WsBroadcast<typeof WsEvents.ROLE_CHANGED>;
+export type HandRaisedEvent = WsBroadcast<typeof WsEvents.HAND_RAISED>;
+export type ReactionEvent = WsBroadcast<typeof WsEvents.REACTION_RECEIVED>;
 
 // ─── Client-side participant model ────────────────────────────────
 
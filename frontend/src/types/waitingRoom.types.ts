@@ -1,50 +1,22 @@
-export interface WaitingParticipant {
-  userId: string;
-  displayName: string;
-  socketId: string;
-  joinedAt: number;
-}
+import type { WsAck, WsBroadcast, WsEvents, WsRequest, WaitingParticipant } from '@contract';
+
+export type { WaitingParticipant } from '@contract';
 
 export interface WaitingRoomState {
   participants: WaitingParticipant[];
   waitingCount: number;
 }
 
-export interface JoinWaitingRoomResponse {
-  success: boolean;
-  message?: string;
-  position?: number;
-}
+export type JoinWaitingRoomResponse = WsAck<typeof WsEvents.JOIN_WAITING_ROOM>;
 
-export interface AdmitParticipantPayload {
-  roomId: string;
-  userId: string;
-}
+export type AdmitParticipantPayload = WsRequest<typeof WsEvents.ADMIT_PARTICIPANT>;
 
-export interface RejectParticipantPayload {
-  roomId: string;
-  userId: string;
-}
-
-export interface AdmitAllPayload {
-  roomId: string;
-}
+export type RejectParticipantPayload = WsRequest<typeof WsEvents.REJECT_PARTICIPANT>;
 
-export interface WaitingParticipantJoinedEvent {
-  participant: WaitingParticipant;
-  waitingCount: number;
-}
+export type AdmitAllPayload = WsRequest<typeof WsEvents.ADMIT_ALL>;
 
-export interface ParticipantAdmittedEvent {
-  roomId: string;
-}
+export type ParticipantAdmittedEvent = WsBroadcast<typeof WsEvents.PARTICIPANT_ADMITTED>;
 
-export interface ParticipantRejectedEvent {
-  roomId: string;
-  message: string;
-}
+export type ParticipantRejectedEvent = WsBroadcast<typeof WsEvents.PARTICIPANT_REJECTED>;
 
-export interface WaitingRoomUpdatedEvent {
-  participants: WaitingParticipant[];
-  waitingCount: number;
-}
+export type WaitingRoomUpdatedEvent = WsBroadcast<typeof WsEvents.WAITING_ROOM_UPDATED>;
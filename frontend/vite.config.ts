@@ -10,12 +10,16 @@ export default defineConfig({
   ],
   server: {
     port: 5173,
-
+    // The WebSocket contract is imported from the backend's source tree
+    fs: {
+      allow: [".."],
+    },
   },
 
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "src"),
+      "@contract": path.resolve(__dirname, "../backend/src/gateway/contract"),
     },
   },
 })